@@ -13,6 +13,21 @@
 -- 4. liquidity_accounts
 -- 5. portfolio_snapshots
 -- 6. transactions
+-- 7. trades
+-- 8. dividends
+-- 9. corporate_actions
+-- 10. price_history
+-- 11. import_profiles
+-- 12. category_rules
+-- 13. categories
+-- 14. recurring_transactions
+-- 15. budgets
+-- 16. account_reconciliations
+-- 17. transaction_splits
+-- 18. tags
+-- 19. transaction_tags
+-- 20. saved_filters
+-- 21. cancelled_subscriptions
 --
 -- INCLUDED FEATURES:
 -- - UUID extension
@@ -58,6 +73,7 @@ create table if not exists public.profiles (
   base_currency text default 'EUR',
   is_privacy_mode boolean default false,
   finnhub_key text,
+  cost_basis_method text not null default 'fifo' check (cost_basis_method in ('fifo', 'lifo', 'average')),
   updated_at timestamp with time zone default timezone('utc'::text, now()) not null
 );
 
@@ -224,9 +240,14 @@ create table if not exists public.transactions (
   amount numeric not null,
   description text,
   date date not null,
+  external_id text, -- Bank's unique id (OFX FITID / CAMT.053 reference)
   created_at timestamp with time zone default timezone('utc'::text, now()) not null
 );
 
+create unique index if not exists transactions_user_external_id_key
+  on public.transactions (user_id, external_id)
+  where external_id is not null;
+
 alter table public.transactions enable row level security;
 
 create policy "Users can view their own transactions" on public.transactions
@@ -240,3 +261,528 @@ create policy "Users can update their own transactions" on public.transactions
 
 create policy "Users can delete their own transactions" on public.transactions
   for delete using (auth.uid() = user_id);
+
+
+-- ------------------------------------------------------------------------------
+-- 8. TRADES (Buy/Sell ledger per asset)
+-- ------------------------------------------------------------------------------
+create table if not exists public.trades (
+  id uuid default gen_random_uuid() primary key,
+  user_id uuid references public.profiles(id) on delete cascade not null,
+  asset_id uuid references public.assets(id) on delete cascade not null,
+  side text check (side in ('buy', 'sell')) not null,
+  quantity numeric not null check (quantity > 0),
+  price numeric not null,        -- Unit price in the asset's trading currency
+  fees numeric not null default 0,
+  date date not null,
+  notes text,
+  created_at timestamp with time zone default timezone('utc'::text, now()) not null
+);
+
+create index if not exists trades_asset_id_idx on public.trades (asset_id);
+
+comment on column public.assets.quantity is 'Cached position, derived from trades';
+comment on column public.assets.avg_buy_price is 'Cached average cost per unit (fees included), derived from trades';
+
+alter table public.trades enable row level security;
+
+create policy "Users can view their own trades" on public.trades
+  for select using (auth.uid() = user_id);
+
+create policy "Users can insert their own trades" on public.trades
+  for insert with check (auth.uid() = user_id);
+
+create policy "Users can update their own trades" on public.trades
+  for update using (auth.uid() = user_id);
+
+create policy "Users can delete their own trades" on public.trades
+  for delete using (auth.uid() = user_id);
+
+
+-- ------------------------------------------------------------------------------
+-- 9. DIVIDENDS (Distributions paid by a holding)
+-- ------------------------------------------------------------------------------
+create table if not exists public.dividends (
+  id uuid default gen_random_uuid() primary key,
+  user_id uuid references public.profiles(id) on delete cascade not null,
+  asset_id uuid references public.assets(id) on delete cascade not null,
+  gross_amount numeric not null,
+  withholding_tax numeric not null default 0,
+  net_amount numeric not null,
+  currency text not null default 'USD',
+  pay_date date not null,
+  transaction_id uuid references public.transactions(id) on delete set null, -- Linked Cash Flow income
+  notes text,
+  created_at timestamp with time zone default timezone('utc'::text, now()) not null
+);
+
+create index if not exists dividends_asset_id_idx on public.dividends (asset_id);
+
+alter table public.dividends enable row level security;
+
+create policy "Users can view their own dividends" on public.dividends
+  for select using (auth.uid() = user_id);
+
+create policy "Users can insert their own dividends" on public.dividends
+  for insert with check (auth.uid() = user_id);
+
+create policy "Users can update their own dividends" on public.dividends
+  for update using (auth.uid() = user_id);
+
+create policy "Users can delete their own dividends" on public.dividends
+  for delete using (auth.uid() = user_id);
+
+-- ------------------------------------------------------------------------------
+-- 10. CORPORATE ACTIONS (Splits, ticker/ISIN changes, mergers)
+-- ------------------------------------------------------------------------------
+create table if not exists public.corporate_actions (
+  id uuid default gen_random_uuid() primary key,
+  user_id uuid references public.profiles(id) on delete cascade not null,
+  asset_id uuid references public.assets(id) on delete cascade not null,
+  type text not null check (type in ('split', 'symbol_change', 'merger')),
+  effective_date date not null,
+  ratio_from numeric, -- Old shares (split / stock merger)
+  ratio_to numeric, -- New shares received for ratio_from old shares
+  old_symbol text,
+  new_symbol text,
+  old_isin text,
+  new_isin text,
+  target_asset_id uuid references public.assets(id) on delete cascade, -- Surviving holding of a stock merger
+  cash_per_share numeric, -- Cash merger consideration
+  notes text,
+  created_at timestamp with time zone default timezone('utc'::text, now()) not null
+);
+
+create index if not exists corporate_actions_asset_id_idx on public.corporate_actions (asset_id);
+
+alter table public.corporate_actions enable row level security;
+
+create policy "Users can view their own corporate actions" on public.corporate_actions
+  for select using (auth.uid() = user_id);
+
+create policy "Users can insert their own corporate actions" on public.corporate_actions
+  for insert with check (auth.uid() = user_id);
+
+create policy "Users can update their own corporate actions" on public.corporate_actions
+  for update using (auth.uid() = user_id);
+
+create policy "Users can delete their own corporate actions" on public.corporate_actions
+  for delete using (auth.uid() = user_id);
+
+-- ------------------------------------------------------------------------------
+-- 11. PRICE HISTORY (Daily quotes per symbol / coinId)
+-- ------------------------------------------------------------------------------
+create table if not exists public.price_history (
+  id uuid default gen_random_uuid() primary key,
+  user_id uuid references public.profiles(id) on delete cascade not null,
+  symbol text not null, -- Ticker for stocks / ETFs, CoinGecko id for crypto
+  kind text not null check (kind in ('stock', 'crypto')),
+  price numeric not null,
+  currency text,
+  date date not null,
+  created_at timestamp with time zone default timezone('utc'::text, now()) not null,
+  updated_at timestamp with time zone default timezone('utc'::text, now()) not null,
+  unique (user_id, kind, symbol, date)
+);
+
+alter table public.price_history enable row level security;
+
+create policy "Users can view their own price history" on public.price_history
+  for select using (auth.uid() = user_id);
+
+create policy "Users can insert their own price history" on public.price_history
+  for insert with check (auth.uid() = user_id);
+
+create policy "Users can update their own price history" on public.price_history
+  for update using (auth.uid() = user_id);
+
+create policy "Users can delete their own price history" on public.price_history
+  for delete using (auth.uid() = user_id);
+
+-- ------------------------------------------------------------------------------
+-- 12. IMPORT PROFILES (Saved CSV column mappings per bank)
+-- ------------------------------------------------------------------------------
+create table if not exists public.import_profiles (
+  id uuid default gen_random_uuid() primary key,
+  user_id uuid references public.profiles(id) on delete cascade not null,
+  name text not null,
+  mapping jsonb not null,
+  created_at timestamp with time zone default timezone('utc'::text, now()) not null,
+  updated_at timestamp with time zone default timezone('utc'::text, now()) not null,
+  unique (user_id, name)
+);
+
+alter table public.import_profiles enable row level security;
+
+create policy "Users can view their own import profiles" on public.import_profiles
+  for select using (auth.uid() = user_id);
+
+create policy "Users can insert their own import profiles" on public.import_profiles
+  for insert with check (auth.uid() = user_id);
+
+create policy "Users can update their own import profiles" on public.import_profiles
+  for update using (auth.uid() = user_id);
+
+create policy "Users can delete their own import profiles" on public.import_profiles
+  for delete using (auth.uid() = user_id);
+
+-- ------------------------------------------------------------------------------
+-- 13. CATEGORY RULES (Automatic categorization of transactions)
+-- ------------------------------------------------------------------------------
+create table if not exists public.category_rules (
+  id uuid default gen_random_uuid() primary key,
+  user_id uuid references public.profiles(id) on delete cascade not null,
+  name text not null,
+  priority integer default 0 not null,
+  transaction_type text default 'any' not null check (transaction_type in ('income', 'expense', 'any')),
+  conditions jsonb default '[]'::jsonb not null,
+  category text not null,
+  enabled boolean default true not null,
+  created_at timestamp with time zone default timezone('utc'::text, now()) not null
+);
+
+alter table public.category_rules enable row level security;
+
+create policy "Users can view their own category rules" on public.category_rules
+  for select using (auth.uid() = user_id);
+
+create policy "Users can insert their own category rules" on public.category_rules
+  for insert with check (auth.uid() = user_id);
+
+create policy "Users can update their own category rules" on public.category_rules
+  for update using (auth.uid() = user_id);
+
+create policy "Users can delete their own category rules" on public.category_rules
+  for delete using (auth.uid() = user_id);
+
+-- ------------------------------------------------------------------------------
+-- 14. CATEGORIES (User-managed income / expense categories, two levels)
+-- ------------------------------------------------------------------------------
+create table if not exists public.categories (
+  id uuid default gen_random_uuid() primary key,
+  user_id uuid references public.profiles(id) on delete cascade not null,
+  name text not null,
+  type text not null check (type in ('income', 'expense')),
+  parent_id uuid references public.categories(id) on delete set null,
+  color text not null default '#64748b',
+  icon text not null default 'tag',
+  created_at timestamp with time zone default timezone('utc'::text, now()) not null,
+  unique (user_id, type, name)
+);
+
+create index if not exists categories_parent_id_idx on public.categories (parent_id);
+
+alter table public.categories enable row level security;
+
+create policy "Users can view their own categories" on public.categories
+  for select using (auth.uid() = user_id);
+
+create policy "Users can insert their own categories" on public.categories
+  for insert with check (auth.uid() = user_id);
+
+create policy "Users can update their own categories" on public.categories
+  for update using (auth.uid() = user_id);
+
+create policy "Users can delete their own categories" on public.categories
+  for delete using (auth.uid() = user_id);
+
+-- ------------------------------------------------------------------------------
+-- 15. RECURRING TRANSACTIONS (Templates for rent, salary, subscriptions...)
+-- ------------------------------------------------------------------------------
+create table if not exists public.recurring_transactions (
+  id uuid default gen_random_uuid() primary key,
+  user_id uuid references public.profiles(id) on delete cascade not null,
+  name text not null,
+  type text not null check (type in ('income', 'expense')),
+  category text not null,
+  amount numeric not null,
+  frequency text not null check (frequency in ('weekly', 'monthly', 'yearly', 'custom')),
+  interval integer not null default 1 check (interval > 0),
+  start_date date not null,
+  end_date date,
+  next_date date, -- First occurrence not yet posted or skipped
+  auto_post boolean not null default false,
+  created_at timestamp with time zone default timezone('utc'::text, now()) not null
+);
+
+alter table public.recurring_transactions enable row level security;
+
+create policy "Users can view their own recurring transactions" on public.recurring_transactions
+  for select using (auth.uid() = user_id);
+
+create policy "Users can insert their own recurring transactions" on public.recurring_transactions
+  for insert with check (auth.uid() = user_id);
+
+create policy "Users can update their own recurring transactions" on public.recurring_transactions
+  for update using (auth.uid() = user_id);
+
+create policy "Users can delete their own recurring transactions" on public.recurring_transactions
+  for delete using (auth.uid() = user_id);
+
+-- Posted entries stay linked to their template
+alter table public.transactions
+  add column if not exists recurring_id uuid references public.recurring_transactions(id) on delete set null;
+
+create index if not exists transactions_recurring_id_idx on public.transactions (recurring_id);
+
+-- ------------------------------------------------------------------------------
+-- 16. BUDGETS (Monthly limit per expense category, optional rollover)
+-- ------------------------------------------------------------------------------
+create table if not exists public.budgets (
+  id uuid default gen_random_uuid() primary key,
+  user_id uuid references public.profiles(id) on delete cascade not null,
+  category text not null, -- Also covers subcategories without a budget of their own
+  amount numeric not null check (amount >= 0),
+  rollover boolean not null default false,
+  start_month date not null default date_trunc('month', now())::date, -- First month counted for rollover
+  created_at timestamp with time zone default timezone('utc'::text, now()) not null,
+  unique (user_id, category)
+);
+
+alter table public.budgets enable row level security;
+
+create policy "Users can view their own budgets" on public.budgets
+  for select using (auth.uid() = user_id);
+
+create policy "Users can insert their own budgets" on public.budgets
+  for insert with check (auth.uid() = user_id);
+
+create policy "Users can update their own budgets" on public.budgets
+  for update using (auth.uid() = user_id);
+
+create policy "Users can delete their own budgets" on public.budgets
+  for delete using (auth.uid() = user_id);
+
+-- ------------------------------------------------------------------------------
+-- 17. ACCOUNT BALANCES (Transactions per cash account, statement reconciliations)
+-- ------------------------------------------------------------------------------
+alter table public.liquidity_accounts
+  add column if not exists opening_balance numeric not null default 0, -- Balance before the first counted transaction
+  add column if not exists opening_date date; -- Earlier transactions are part of the opening balance (null: all count)
+
+alter table public.transactions
+  add column if not exists account_id uuid references public.liquidity_accounts(id) on delete set null;
+
+create index if not exists transactions_account_id_idx on public.transactions (account_id);
+
+-- Entries saved without an account go to the user's oldest account
+create or replace function public.default_transaction_account()
+returns trigger as $$
+begin
+  if new.account_id is null then
+    select id into new.account_id
+    from public.liquidity_accounts
+    where user_id = new.user_id
+    order by created_at
+    limit 1;
+  end if;
+  return new;
+end;
+$$ language plpgsql;
+
+drop trigger if exists transactions_default_account on public.transactions;
+create trigger transactions_default_account
+  before insert on public.transactions
+  for each row execute procedure public.default_transaction_account();
+
+create table if not exists public.account_reconciliations (
+  id uuid default gen_random_uuid() primary key,
+  user_id uuid references public.profiles(id) on delete cascade not null,
+  account_id uuid references public.liquidity_accounts(id) on delete cascade not null,
+  date date not null,
+  statement_balance numeric not null, -- Balance on the bank statement
+  computed_balance numeric not null, -- Balance the app derived for the same day
+  created_at timestamp with time zone default timezone('utc'::text, now()) not null
+);
+
+create index if not exists account_reconciliations_account_id_idx on public.account_reconciliations (account_id);
+
+alter table public.account_reconciliations enable row level security;
+
+create policy "Users can view their own reconciliations" on public.account_reconciliations
+  for select using (auth.uid() = user_id);
+
+create policy "Users can insert their own reconciliations" on public.account_reconciliations
+  for insert with check (auth.uid() = user_id);
+
+create policy "Users can delete their own reconciliations" on public.account_reconciliations
+  for delete using (auth.uid() = user_id);
+
+-- ------------------------------------------------------------------------------
+-- 18. TRANSFERS (Between own accounts or to the broker, excluded from income / expenses)
+-- ------------------------------------------------------------------------------
+alter table public.transactions drop constraint if exists transactions_type_check;
+alter table public.transactions
+  add constraint transactions_type_check check (type in ('income', 'expense', 'transfer'));
+
+alter table public.transactions
+  add column if not exists to_account_id uuid references public.liquidity_accounts(id) on delete set null, -- Destination account
+  add column if not exists fx_rate numeric check (fx_rate > 0), -- Destination units per source unit
+  add column if not exists trade_id uuid references public.trades(id) on delete set null; -- Trade a transfer to the broker paid for
+
+create index if not exists transactions_to_account_id_idx on public.transactions (to_account_id);
+create index if not exists transactions_trade_id_idx on public.transactions (trade_id);
+
+-- ------------------------------------------------------------------------------
+-- 19. TRANSACTION CURRENCY (Converted to the base currency at the rate of its date)
+-- ------------------------------------------------------------------------------
+alter table public.transactions
+  add column if not exists currency text not null; -- Account currency (source account for transfers)
+
+alter table public.recurring_transactions
+  add column if not exists currency text; -- Of the posted entries; unset takes the account's
+
+-- Entries saved without a currency take their account's, falling back to the base currency
+create or replace function public.default_transaction_account()
+returns trigger as $$
+begin
+  if new.account_id is null then
+    select id into new.account_id
+    from public.liquidity_accounts
+    where user_id = new.user_id
+    order by created_at
+    limit 1;
+  end if;
+  if new.currency is null then
+    new.currency := coalesce(
+      (select currency from public.liquidity_accounts where id = new.account_id),
+      (select base_currency from public.profiles where id = new.user_id),
+      'EUR'
+    );
+  end if;
+  return new;
+end;
+$$ language plpgsql;
+
+-- ------------------------------------------------------------------------------
+-- 20. TRANSACTION SPLITS (Category lines adding up to the transaction amount)
+-- ------------------------------------------------------------------------------
+create table if not exists public.transaction_splits (
+  id uuid default gen_random_uuid() primary key,
+  user_id uuid references public.profiles(id) on delete cascade not null,
+  transaction_id uuid references public.transactions(id) on delete cascade not null,
+  category text not null,
+  amount numeric not null check (amount > 0),
+  note text,
+  position integer not null default 0, -- Order of the lines as entered
+  created_at timestamp with time zone default timezone('utc'::text, now()) not null
+);
+
+create index if not exists transaction_splits_transaction_id_idx on public.transaction_splits (transaction_id);
+
+alter table public.transaction_splits enable row level security;
+
+create policy "Users can view their own transaction splits" on public.transaction_splits
+  for select using (auth.uid() = user_id);
+
+create policy "Users can insert their own transaction splits" on public.transaction_splits
+  for insert with check (auth.uid() = user_id);
+
+create policy "Users can update their own transaction splits" on public.transaction_splits
+  for update using (auth.uid() = user_id);
+
+create policy "Users can delete their own transaction splits" on public.transaction_splits
+  for delete using (auth.uid() = user_id);
+
+-- ------------------------------------------------------------------------------
+-- 21. TAGS & SAVED FILTERS (Free-form labels on transactions, named filters)
+-- ------------------------------------------------------------------------------
+create table if not exists public.tags (
+  id uuid default gen_random_uuid() primary key,
+  user_id uuid references public.profiles(id) on delete cascade not null,
+  name text not null,
+  color text not null default '#64748b',
+  created_at timestamp with time zone default timezone('utc'::text, now()) not null,
+  unique (user_id, name)
+);
+
+create table if not exists public.transaction_tags (
+  transaction_id uuid references public.transactions(id) on delete cascade not null,
+  tag_id uuid references public.tags(id) on delete cascade not null,
+  user_id uuid references public.profiles(id) on delete cascade not null,
+  primary key (transaction_id, tag_id)
+);
+
+create index if not exists transaction_tags_tag_id_idx on public.transaction_tags (tag_id);
+
+create table if not exists public.saved_filters (
+  id uuid default gen_random_uuid() primary key,
+  user_id uuid references public.profiles(id) on delete cascade not null,
+  name text not null,
+  criteria jsonb default '{}'::jsonb not null, -- { from, to, type, category, tagId, minAmount, maxAmount, text }
+  created_at timestamp with time zone default timezone('utc'::text, now()) not null,
+  unique (user_id, name)
+);
+
+alter table public.tags enable row level security;
+alter table public.transaction_tags enable row level security;
+alter table public.saved_filters enable row level security;
+
+create policy "Users can view their own tags" on public.tags
+  for select using (auth.uid() = user_id);
+
+create policy "Users can insert their own tags" on public.tags
+  for insert with check (auth.uid() = user_id);
+
+create policy "Users can update their own tags" on public.tags
+  for update using (auth.uid() = user_id);
+
+create policy "Users can delete their own tags" on public.tags
+  for delete using (auth.uid() = user_id);
+
+create policy "Users can view their own transaction tags" on public.transaction_tags
+  for select using (auth.uid() = user_id);
+
+create policy "Users can insert their own transaction tags" on public.transaction_tags
+  for insert with check (auth.uid() = user_id);
+
+create policy "Users can delete their own transaction tags" on public.transaction_tags
+  for delete using (auth.uid() = user_id);
+
+create policy "Users can view their own saved filters" on public.saved_filters
+  for select using (auth.uid() = user_id);
+
+create policy "Users can insert their own saved filters" on public.saved_filters
+  for insert with check (auth.uid() = user_id);
+
+create policy "Users can update their own saved filters" on public.saved_filters
+  for update using (auth.uid() = user_id);
+
+create policy "Users can delete their own saved filters" on public.saved_filters
+  for delete using (auth.uid() = user_id);
+
+
+-- ------------------------------------------------------------------------------
+-- 22. CANCELLED SUBSCRIPTIONS (Detected recurring charges the user has ended)
+-- ------------------------------------------------------------------------------
+create table if not exists public.cancelled_subscriptions (
+  id uuid default gen_random_uuid() primary key,
+  user_id uuid references public.profiles(id) on delete cascade not null,
+  merchant text not null, -- Normalized description the charges are grouped by
+  name text not null,
+  cancelled_on date not null, -- A charge after this date shows the subscription again
+  created_at timestamp with time zone default timezone('utc'::text, now()) not null,
+  unique (user_id, merchant)
+);
+
+alter table public.cancelled_subscriptions enable row level security;
+
+create policy "Users can view their own cancelled subscriptions" on public.cancelled_subscriptions
+  for select using (auth.uid() = user_id);
+
+create policy "Users can insert their own cancelled subscriptions" on public.cancelled_subscriptions
+  for insert with check (auth.uid() = user_id);
+
+create policy "Users can update their own cancelled subscriptions" on public.cancelled_subscriptions
+  for update using (auth.uid() = user_id);
+
+create policy "Users can delete their own cancelled subscriptions" on public.cancelled_subscriptions
+  for delete using (auth.uid() = user_id);
+
+
+-- ------------------------------------------------------------------------------
+-- 23. RECURRING LINKS (Account a template posts to, liability it pays off)
+-- ------------------------------------------------------------------------------
+alter table public.recurring_transactions
+  add column if not exists account_id uuid references public.liquidity_accounts(id) on delete set null, -- Default account when null
+  add column if not exists liability_id uuid references public.liabilities(id) on delete set null;
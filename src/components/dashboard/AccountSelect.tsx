@@ -0,0 +1,30 @@
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useFinance } from '@/contexts/FinanceContext';
+import { defaultAccount } from '@/lib/accounts';
+
+interface AccountSelectProps {
+    value?: string;
+    onChange: (accountId: string) => void;
+    className?: string;
+}
+
+/** Cash account picker; without a value it shows the account entries default to. */
+export function AccountSelect({ value, onChange, className }: AccountSelectProps) {
+    const { data } = useFinance();
+    const fallback = defaultAccount(data.liquidity);
+
+    if (data.liquidity.length === 0) {
+        return <p className="text-xs text-muted-foreground">Add a cash account on the Dashboard to track balances.</p>;
+    }
+
+    return (
+        <Select value={value || fallback?.id} onValueChange={onChange}>
+            <SelectTrigger className={className}><SelectValue placeholder="Select account" /></SelectTrigger>
+            <SelectContent>
+                {data.liquidity.map(a => (
+                    <SelectItem key={a.id} value={a.id}>{a.name}</SelectItem>
+                ))}
+            </SelectContent>
+        </Select>
+    );
+}
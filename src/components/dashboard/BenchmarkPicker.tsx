@@ -0,0 +1,82 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { HelpTooltip } from '@/components/ui/tooltip-helper';
+import { BarChart3, Trash2, Upload } from 'lucide-react';
+import { toast } from 'sonner';
+import { parseBenchmarkCsv, type Benchmark } from '@/lib/benchmarks';
+import type { PricePoint } from '@/lib/priceHistory';
+
+interface BenchmarkPickerProps {
+    available: Benchmark[];
+    selected: Benchmark[];
+    onToggle: (id: string) => void;
+    onAddCustom: (label: string, points: PricePoint[]) => void;
+    onRemoveCustom: (id: string) => void;
+}
+
+export function BenchmarkPicker({ available, selected, onToggle, onAddCustom, onRemoveCustom }: BenchmarkPickerProps) {
+    const [label, setLabel] = useState('');
+
+    const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+
+        const points = parseBenchmarkCsv(await file.text());
+        if (points.length < 2) {
+            toast.error('No "date,value" rows found in the file');
+            return;
+        }
+        onAddCustom(label.trim() || file.name.replace(/\.[^.]+$/, ''), points);
+        setLabel('');
+        toast.success(`Imported ${points.length} data points`);
+    };
+
+    return (
+        <Popover>
+            <PopoverTrigger asChild>
+                <Button variant="ghost" size="sm" className="text-xs h-7 px-2">
+                    <BarChart3 className="h-3.5 w-3.5 mr-1" />
+                    Compare{selected.length > 0 ? ` (${selected.length})` : ''}
+                </Button>
+            </PopoverTrigger>
+            <PopoverContent className="w-72" align="end">
+                <div className="space-y-3">
+                    <div className="text-sm font-medium">Benchmarks</div>
+                    {available.map(b => (
+                        <div key={b.id} className="flex items-center justify-between gap-2">
+                            <label className="flex items-center gap-2 text-sm cursor-pointer">
+                                <Checkbox checked={selected.some(s => s.id === b.id)} onCheckedChange={() => onToggle(b.id)} />
+                                <span className="h-2 w-2 rounded-full" style={{ backgroundColor: b.color }} />
+                                {b.label}
+                            </label>
+                            {b.source === 'custom' && (
+                                <Button variant="ghost" size="icon" className="h-6 w-6" onClick={() => onRemoveCustom(b.id)} title="Remove series">
+                                    <Trash2 className="h-3.5 w-3.5 text-destructive" />
+                                </Button>
+                            )}
+                        </div>
+                    ))}
+
+                    <div className="border-t pt-3 space-y-2">
+                        <Label className="text-xs flex items-center gap-1">
+                            Custom series (CSV)
+                            <HelpTooltip content="Two columns: date and value, one row per day. A header row is optional." />
+                        </Label>
+                        <Input className="h-8 text-xs" placeholder="Name (optional)" value={label} onChange={(e) => setLabel(e.target.value)} />
+                        <Button variant="outline" size="sm" className="w-full h-8 text-xs" asChild>
+                            <label className="cursor-pointer">
+                                <Upload className="h-3.5 w-3.5 mr-1" /> Upload CSV
+                                <input type="file" accept=".csv,.txt,text/csv" className="hidden" onChange={handleFile} />
+                            </label>
+                        </Button>
+                    </div>
+                </div>
+            </PopoverContent>
+        </Popover>
+    );
+}
@@ -0,0 +1,253 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter, DialogTrigger } from '@/components/ui/dialog';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { HelpTooltip } from '@/components/ui/tooltip-helper';
+import { Upload, Loader2, CheckCircle2, AlertTriangle } from 'lucide-react';
+import { toast } from 'sonner';
+import { useFinance } from '@/contexts/FinanceContext';
+import { useSettings } from '@/contexts/SettingsContext';
+import { searchByIsin } from '@/lib/api';
+import {
+    activityKey,
+    BROKERS,
+    detectBroker,
+    isAlreadyRecorded,
+    parseBrokerExport,
+    reconcileSecurities,
+    type Broker,
+    type BrokerActivity,
+    type SecurityReconciliation,
+} from '@/lib/brokerImport';
+import { cn } from '@/lib/utils';
+
+const AUTO = 'auto';
+
+const formatQuantity = (value: number) => Number(value.toFixed(6)).toString();
+
+export function BrokerImportDialog() {
+    const { data, importBrokerActivities } = useFinance();
+    const { formatCurrency } = useSettings();
+
+    const [open, setOpen] = useState(false);
+    const [broker, setBroker] = useState<Broker | typeof AUTO>(AUTO);
+    const [source, setSource] = useState<Broker | null>(null);
+    const [activities, setActivities] = useState<BrokerActivity[]>([]);
+    const [skipped, setSkipped] = useState(0);
+    const [securities, setSecurities] = useState<SecurityReconciliation[]>([]);
+    const [isResolving, setIsResolving] = useState(false);
+    const [isImporting, setIsImporting] = useState(false);
+
+    const reset = () => {
+        setSource(null);
+        setActivities([]);
+        setSkipped(0);
+        setSecurities([]);
+    };
+
+    const assetIdOf = (a: BrokerActivity) => securities.find(s => s.key === activityKey(a))?.assetId;
+    const fresh = activities.filter(a => !isAlreadyRecorded(a, assetIdOf(a), data));
+    const duplicates = activities.length - fresh.length;
+    const count = (kind: BrokerActivity['kind']) => fresh.filter(a => a.kind === kind).length;
+    const feeTotal = fresh.filter(a => a.kind === 'fee').reduce((sum, a) => sum + (a.amount || 0), 0);
+
+    // Net shares the import adds to each holding (activity already booked is left out)
+    const addedQuantity = (key: string) => fresh
+        .filter(a => a.kind === 'trade' && activityKey(a) === key)
+        .reduce((sum, a) => sum + (a.side === 'buy' ? a.quantity || 0 : -(a.quantity || 0)), 0);
+
+    // Brokers like Degiro and Trade Republic only give the ISIN: look up ticker and name for new holdings
+    const resolveSecurities = async (list: SecurityReconciliation[]) => {
+        setIsResolving(true);
+        const resolved: SecurityReconciliation[] = [];
+        for (const security of list) {
+            if (security.assetId || !security.isin || security.symbol !== security.isin) {
+                resolved.push(security);
+                continue;
+            }
+            const result = await searchByIsin(security.isin);
+            const match = result && data.investments.find(i => i.symbol === result.symbol);
+            resolved.push(result ? {
+                ...security,
+                symbol: result.symbol,
+                name: match?.name || result.name || security.name,
+                assetId: match?.id,
+                currentQuantity: match?.quantity || 0,
+            } : security);
+        }
+        setSecurities(resolved);
+        setIsResolving(false);
+    };
+
+    const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+
+        const content = await file.text();
+        const detected = broker === AUTO ? detectBroker(content) : broker;
+        if (!detected) {
+            toast.error('Could not recognise the broker. Choose it from the list and try again.');
+            return;
+        }
+
+        try {
+            const result = parseBrokerExport(detected, content);
+            if (result.activities.length === 0) {
+                toast.error('No trades, dividends or fees found in the file');
+                return;
+            }
+            const list = reconcileSecurities(result.activities, data.investments);
+            setSource(detected);
+            setActivities(result.activities);
+            setSkipped(result.skipped);
+            setSecurities(list);
+            await resolveSecurities(list);
+        } catch (error) {
+            console.error(error);
+            toast.error('Could not read the broker export');
+        }
+    };
+
+    const updateSymbol = (key: string, symbol: string) => {
+        setSecurities(prev => prev.map(s => s.key === key ? { ...s, symbol: symbol.toUpperCase() } : s));
+    };
+
+    const handleImport = async () => {
+        if (!source || fresh.length === 0) return;
+        if (securities.some(s => !s.assetId && !s.symbol)) {
+            toast.error('Every new holding needs a symbol');
+            return;
+        }
+        setIsImporting(true);
+        try {
+            // Stays open when the import was rejected, e.g. a sell without the shares
+            if (!(await importBrokerActivities(securities, fresh, BROKERS.find(b => b.value === source)?.label || source))) return;
+            setOpen(false);
+            reset();
+        } finally {
+            setIsImporting(false);
+        }
+    };
+
+    return (
+        <Dialog open={open} onOpenChange={(val) => { if (!val) reset(); setOpen(val); }}>
+            <DialogTrigger asChild>
+                <Button variant="outline">
+                    <Upload className="h-4 w-4 mr-2" /> Import from Broker
+                </Button>
+            </DialogTrigger>
+            <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+                <DialogHeader>
+                    <DialogTitle>Import Broker Export</DialogTitle>
+                    <DialogDescription>
+                        Trades, dividends and fees are booked on your holdings. Review the resulting positions before importing.
+                    </DialogDescription>
+                </DialogHeader>
+
+                {!source ? (
+                    <div className="space-y-4">
+                        <div className="space-y-2">
+                            <Label>Broker</Label>
+                            <Select value={broker} onValueChange={(v: Broker | typeof AUTO) => setBroker(v)}>
+                                <SelectTrigger><SelectValue /></SelectTrigger>
+                                <SelectContent>
+                                    <SelectItem value={AUTO}>Detect automatically</SelectItem>
+                                    {BROKERS.map(b => <SelectItem key={b.value} value={b.value}>{b.label}</SelectItem>)}
+                                </SelectContent>
+                            </Select>
+                        </div>
+                        <ul className="text-xs text-muted-foreground space-y-1">
+                            {BROKERS.map(b => <li key={b.value}><span className="font-medium">{b.label}:</span> {b.hint}</li>)}
+                        </ul>
+                        <Button variant="outline" className="w-full h-24 border-dashed" asChild>
+                            <label className="cursor-pointer flex flex-col items-center justify-center gap-2">
+                                <Upload className="h-6 w-6 text-muted-foreground" />
+                                <span className="text-sm">Select export file</span>
+                                <input type="file" accept=".csv,.txt,.xml,text/csv" className="hidden" onChange={handleFile} />
+                            </label>
+                        </Button>
+                    </div>
+                ) : (
+                    <div className="space-y-4">
+                        <div className="flex flex-wrap items-center gap-4 text-sm">
+                            <span className="font-medium">{BROKERS.find(b => b.value === source)?.label}</span>
+                            <span>{count('trade')} trades</span>
+                            <span>{count('dividend')} dividends</span>
+                            <span>{count('fee')} fees{feeTotal > 0 && ` (${formatCurrency(feeTotal)})`}</span>
+                            {duplicates > 0 && <span className="text-muted-foreground">{duplicates} already recorded</span>}
+                            {skipped > 0 && <span className="text-muted-foreground">{skipped} rows ignored</span>}
+                            {isResolving && <span className="flex items-center gap-1 text-muted-foreground"><Loader2 className="h-3.5 w-3.5 animate-spin" /> Looking up ISINs…</span>}
+                        </div>
+
+                        <div className="max-h-[400px] overflow-y-auto border rounded-md">
+                            <Table>
+                                <TableHeader>
+                                    <TableRow>
+                                        <TableHead>Security</TableHead>
+                                        <TableHead>Holding</TableHead>
+                                        <TableHead className="text-right">Trades / Div.</TableHead>
+                                        <TableHead className="text-right">
+                                            <span className="inline-flex items-center gap-1">
+                                                In File
+                                                <HelpTooltip content="Net shares bought minus sold in the file. If this equals the quantity you hold, the file covers your whole history." />
+                                            </span>
+                                        </TableHead>
+                                        <TableHead className="text-right">In Assets</TableHead>
+                                        <TableHead className="text-right">After Import</TableHead>
+                                    </TableRow>
+                                </TableHeader>
+                                <TableBody>
+                                    {securities.map(s => {
+                                        const after = s.currentQuantity + addedQuantity(s.key);
+                                        const inSync = s.assetId !== undefined && Math.abs(s.importedQuantity - s.currentQuantity) < 1e-6;
+                                        return (
+                                            <TableRow key={s.key}>
+                                                <TableCell className="py-2">
+                                                    <div className="font-medium text-sm">{s.name}</div>
+                                                    <div className="text-xs text-muted-foreground">{s.isin || s.key} · {s.currency}</div>
+                                                </TableCell>
+                                                <TableCell className="py-2">
+                                                    {s.assetId ? (
+                                                        <span className="text-sm">{s.symbol}</span>
+                                                    ) : (
+                                                        <div className="flex items-center gap-2">
+                                                            <Input className="h-7 w-24 text-xs" value={s.symbol} onChange={(e) => updateSymbol(s.key, e.target.value)} />
+                                                            <span className="text-xs text-primary">New</span>
+                                                        </div>
+                                                    )}
+                                                </TableCell>
+                                                <TableCell className="py-2 text-right text-sm">{s.trades} / {s.dividends}</TableCell>
+                                                <TableCell className="py-2 text-right text-sm">{formatQuantity(s.importedQuantity)}</TableCell>
+                                                <TableCell className="py-2 text-right text-sm">{s.assetId ? formatQuantity(s.currentQuantity) : '-'}</TableCell>
+                                                <TableCell className="py-2 text-right text-sm">
+                                                    <span className={cn("inline-flex items-center gap-1 font-medium", after < -1e-6 && "text-destructive")}>
+                                                        {inSync
+                                                            ? <CheckCircle2 className="h-3.5 w-3.5 text-success" />
+                                                            : s.assetId && <AlertTriangle className="h-3.5 w-3.5 text-warning" />}
+                                                        {formatQuantity(after)}
+                                                    </span>
+                                                </TableCell>
+                                            </TableRow>
+                                        );
+                                    })}
+                                </TableBody>
+                            </Table>
+                        </div>
+
+                        <DialogFooter className="gap-2">
+                            <Button variant="ghost" onClick={reset}>Back</Button>
+                            <Button className="gradient-primary" onClick={handleImport} disabled={fresh.length === 0 || isResolving || isImporting}>
+                                {isImporting && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                                Import {fresh.length} Entries
+                            </Button>
+                        </DialogFooter>
+                    </div>
+                )}
+            </DialogContent>
+        </Dialog>
+    );
+}
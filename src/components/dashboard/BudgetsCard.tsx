@@ -0,0 +1,143 @@
+import { useState } from 'react';
+import { format } from 'date-fns';
+import { Target, Plus, Pencil, Trash2 } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Progress } from '@/components/ui/progress';
+import { Select, SelectContent, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from '@/components/ui/dialog';
+import { useFinance } from '@/contexts/FinanceContext';
+import { useSettings } from '@/contexts/SettingsContext';
+import { getBudgetStatuses } from '@/lib/budgets';
+import { cn } from '@/lib/utils';
+import { CategoryBadge, CategorySelectItems } from './CategoryBadge';
+
+type Draft = { id?: string; category: string; amount: string; rollover: boolean };
+
+/** Budget vs. actual for the current month, with the projected spend at the current pace. */
+export function BudgetsCard() {
+    const { data, addBudget, updateBudget, deleteBudget } = useFinance();
+    const { formatCurrency, convertCurrency, isPrivacyMode } = useSettings();
+    const [draft, setDraft] = useState<Draft | null>(null);
+
+    const statuses = getBudgetStatuses(data.budgets, data.transactions, data.categories, convertCurrency);
+    const totalAvailable = statuses.reduce((sum, s) => sum + s.available, 0);
+    const totalSpent = statuses.reduce((sum, s) => sum + s.spent, 0);
+
+    const handleSave = async () => {
+        if (!draft) return;
+        const amount = parseFloat(draft.amount);
+        if (!draft.category || !(amount >= 0)) return;
+        if (draft.id) await updateBudget(draft.id, { category: draft.category, amount, rollover: draft.rollover });
+        else await addBudget({ category: draft.category, amount, rollover: draft.rollover });
+        setDraft(null);
+    };
+
+    return (
+        <Card className="glass-card">
+            <CardHeader className="flex flex-row items-start justify-between space-y-0">
+                <div className="space-y-1.5">
+                    <CardTitle className="flex items-center gap-2">
+                        <Target className="h-5 w-5 text-primary" /> Budgets
+                    </CardTitle>
+                    <CardDescription>
+                        {format(new Date(), 'MMMM yyyy')}
+                        {statuses.length > 0 && !isPrivacyMode && ` · ${formatCurrency(totalSpent)} of ${formatCurrency(totalAvailable)} spent`}
+                    </CardDescription>
+                </div>
+                <Button size="sm" variant="outline" onClick={() => setDraft({ category: '', amount: '', rollover: false })}>
+                    <Plus className="h-4 w-4 mr-1" /> Add Budget
+                </Button>
+            </CardHeader>
+            <CardContent className={cn(isPrivacyMode && "blur-sm select-none pointer-events-none")}>
+                {statuses.length === 0 ? (
+                    <p className="text-sm text-muted-foreground text-center py-6">No budgets yet. Set a monthly limit for a category to track it here.</p>
+                ) : (
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-x-8 gap-y-5">
+                        {statuses.map(s => (
+                            <div key={s.budget.id} className="space-y-1.5">
+                                <div className="flex items-center justify-between gap-2">
+                                    <CategoryBadge type="expense" name={s.budget.category} />
+                                    <div className="flex items-center">
+                                        <Button
+                                            size="icon"
+                                            variant="ghost"
+                                            className="h-7 w-7"
+                                            onClick={() => setDraft({ id: s.budget.id, category: s.budget.category, amount: String(s.budget.amount), rollover: s.budget.rollover })}
+                                        >
+                                            <Pencil className="h-3.5 w-3.5" />
+                                        </Button>
+                                        <Button size="icon" variant="ghost" className="h-7 w-7 text-destructive" onClick={() => deleteBudget(s.budget.id)}>
+                                            <Trash2 className="h-3.5 w-3.5" />
+                                        </Button>
+                                    </div>
+                                </div>
+                                <Progress
+                                    value={s.progress}
+                                    className={cn("h-2", s.overBudget ? "[&>div]:bg-destructive" : s.projectedOver && "[&>div]:bg-warning")}
+                                />
+                                <div className="flex justify-between text-xs">
+                                    <span>
+                                        {formatCurrency(s.spent)} <span className="text-muted-foreground">of {formatCurrency(s.available)}</span>
+                                    </span>
+                                    <span className={cn(s.remaining < 0 ? "text-red-500" : "text-muted-foreground")}>
+                                        {s.remaining < 0 ? `${formatCurrency(-s.remaining)} over` : `${formatCurrency(s.remaining)} left`}
+                                    </span>
+                                </div>
+                                {(s.carryOver !== 0 || (s.projectedOver && !s.overBudget)) && (
+                                    <div className="flex justify-between text-xs text-muted-foreground">
+                                        <span>{s.carryOver !== 0 && `${s.carryOver > 0 ? '+' : '-'}${formatCurrency(Math.abs(s.carryOver))} rolled over`}</span>
+                                        {s.projectedOver && !s.overBudget && (
+                                            <span className="text-warning">Projected {formatCurrency(s.projected)} ({formatCurrency(s.projected - s.available)} over)</span>
+                                        )}
+                                    </div>
+                                )}
+                            </div>
+                        ))}
+                    </div>
+                )}
+            </CardContent>
+
+            <Dialog open={!!draft} onOpenChange={(open) => { if (!open) setDraft(null); }}>
+                <DialogContent className="sm:max-w-[425px]">
+                    <DialogHeader>
+                        <DialogTitle>{draft?.id ? 'Edit Budget' : 'Add Budget'}</DialogTitle>
+                        <DialogDescription>A budget on a parent category also covers its subcategories.</DialogDescription>
+                    </DialogHeader>
+                    {draft && (
+                        <div className="space-y-4">
+                            <div className="space-y-2">
+                                <Label>Category</Label>
+                                <Select value={draft.category} onValueChange={(category) => setDraft({ ...draft, category })}>
+                                    <SelectTrigger><SelectValue placeholder="Select category" /></SelectTrigger>
+                                    <SelectContent>
+                                        <CategorySelectItems type="expense" current={draft.category} />
+                                    </SelectContent>
+                                </Select>
+                            </div>
+                            <div className="space-y-2">
+                                <Label>Monthly Amount</Label>
+                                <Input type="number" step="0.01" min="0" value={draft.amount} onChange={(e) => setDraft({ ...draft, amount: e.target.value })} />
+                            </div>
+                            <div className="flex items-center justify-between rounded-md border p-3">
+                                <div>
+                                    <Label>Roll over</Label>
+                                    <p className="text-xs text-muted-foreground">Carry what is left (or overspent) into next month.</p>
+                                </div>
+                                <Switch checked={draft.rollover} onCheckedChange={(rollover) => setDraft({ ...draft, rollover })} />
+                            </div>
+                        </div>
+                    )}
+                    <DialogFooter>
+                        <Button className="gradient-primary" onClick={handleSave} disabled={!draft?.category || !(parseFloat(draft.amount) >= 0)}>
+                            {draft?.id ? 'Save' : 'Add Budget'}
+                        </Button>
+                    </DialogFooter>
+                </DialogContent>
+            </Dialog>
+        </Card>
+    );
+}
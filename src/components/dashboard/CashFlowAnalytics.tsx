@@ -1,32 +1,56 @@
-import { useState } from 'react';
+import { useMemo, useState } from 'react';
 import {
     PieChart, Pie, Cell, Tooltip, Legend, ResponsiveContainer,
     AreaChart, Area, XAxis, YAxis, CartesianGrid
 } from 'recharts';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { useChartData, Period } from '@/hooks/useChartData';
 import { useSettings } from '@/contexts/SettingsContext';
+import { useFinance } from '@/contexts/FinanceContext';
+import { applyFilterToLines } from '@/lib/transactionFilters';
 import { cn } from '@/lib/utils';
 
 const COLORS = ['#10B981', '#3B82F6', '#F59E0B', '#EF4444', '#8B5CF6', '#EC4899', '#6366F1'];
 
+// Data source value for charting every transaction instead of a saved filter
+const ALL = 'all';
+
 export function CashFlowAnalytics() {
     const [period, setPeriod] = useState<Period>('30d');
-    const { getExpensesByCategory, getSpendingTimeline } = useChartData();
+    const [rollUp, setRollUp] = useState(false);
+    const [sourceId, setSourceId] = useState(ALL);
+    const { data } = useFinance();
+
+    // A saved filter that was deleted falls back to all transactions
+    const savedFilter = data.savedFilters.find(f => f.id === sourceId);
+    const source = useMemo(
+        () => savedFilter ? applyFilterToLines(data.transactions, savedFilter.filter, data.categories, data.tags) : undefined,
+        [savedFilter, data.transactions, data.categories, data.tags]
+    );
+    const { getExpensesByCategory, getSpendingTimeline } = useChartData(source);
     const { formatCurrency, isPrivacyMode } = useSettings();
 
-    const expenseData = getExpensesByCategory(period);
+    const expenseData = getExpensesByCategory(period, rollUp);
     const timelineData = getSpendingTimeline(period);
 
     return (
         <div className="space-y-6">
             <div className="flex items-center justify-between">
                 <h2 className="text-2xl font-bold text-gradient">Analytics</h2>
-                <div className="w-[180px]">
+                <div className="flex gap-2">
+                    <Select value={savedFilter ? sourceId : ALL} onValueChange={setSourceId}>
+                        <SelectTrigger className="w-[180px]"><SelectValue /></SelectTrigger>
+                        <SelectContent>
+                            <SelectItem value={ALL}>All Transactions</SelectItem>
+                            {data.savedFilters.map(f => <SelectItem key={f.id} value={f.id}>{f.name}</SelectItem>)}
+                        </SelectContent>
+                    </Select>
                     <Select value={period} onValueChange={(v: Period) => setPeriod(v)}>
-                        <SelectTrigger><SelectValue /></SelectTrigger>
+                        <SelectTrigger className="w-[180px]"><SelectValue /></SelectTrigger>
                         <SelectContent>
                             <SelectItem value="7d">Last 7 Days</SelectItem>
                             <SelectItem value="30d">Last 30 Days</SelectItem>
@@ -41,8 +65,12 @@ export function CashFlowAnalytics() {
             <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
                 {/* Expense Structure (Pie) */}
                 <Card className="glass-card">
-                    <CardHeader>
+                    <CardHeader className="flex flex-row items-center justify-between space-y-0">
                         <CardTitle>Expense Structure</CardTitle>
+                        <div className="flex items-center gap-2">
+                            <Label htmlFor="expense-rollup" className="text-xs text-muted-foreground">Group subcategories</Label>
+                            <Switch id="expense-rollup" checked={rollUp} onCheckedChange={setRollUp} />
+                        </div>
                     </CardHeader>
                     <CardContent className={cn("h-[300px]", isPrivacyMode && "blur-sm select-none pointer-events-none")}>
                         {expenseData.data.length === 0 ? (
@@ -60,7 +88,7 @@ export function CashFlowAnalytics() {
                                         dataKey="value"
                                     >
                                         {expenseData.data.map((entry, index) => (
-                                            <Cell key={`cell-${index}`} fill={COLORS[index % COLORS.length]} stroke="none" />
+                                            <Cell key={`cell-${index}`} fill={entry.color || COLORS[index % COLORS.length]} stroke="none" />
                                         ))}
                                     </Pie>
                                     <Tooltip
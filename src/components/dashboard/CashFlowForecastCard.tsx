@@ -0,0 +1,138 @@
+import { useMemo, useState } from 'react';
+import { format, parseISO } from 'date-fns';
+import { AlertTriangle, TrendingUp } from 'lucide-react';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ReferenceLine, ResponsiveContainer } from 'recharts';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useFinance } from '@/contexts/FinanceContext';
+import { useSettings } from '@/contexts/SettingsContext';
+import { defaultAccount } from '@/lib/accounts';
+import { CATEGORY_COLORS } from '@/lib/categories';
+import { forecastCashFlow } from '@/lib/forecast';
+import { cn } from '@/lib/utils';
+
+const monthLabel = (month: string) => format(parseISO(`${month}-01`), 'MMM yy');
+
+/** Projected balance of every cash account over the next 12 months, flagging months that end below zero. */
+export function CashFlowForecastCard() {
+    const { data } = useFinance();
+    const { formatCurrency, convertCurrency, currencySymbol, isPrivacyMode } = useSettings();
+    const [accountId, setAccountId] = useState('');
+    const mainName = defaultAccount(data.liquidity)?.name;
+
+    const forecasts = useMemo(
+        () => forecastCashFlow(data.liquidity, data.transactions, data.recurring, data.liabilities, convertCurrency),
+        [data.liquidity, data.transactions, data.recurring, data.liabilities, convertCurrency]
+    );
+
+    if (forecasts.length === 0) return null;
+
+    const selected = forecasts.find(f => f.account.id === accountId) || forecasts[0];
+    const atRisk = forecasts.filter(f => f.negativeMonths.length > 0);
+    const chartData = forecasts[0].months.map((m, i) => ({
+        name: monthLabel(m.month),
+        ...Object.fromEntries(forecasts.map(f => [f.account.name, f.months[i].balance]))
+    }));
+    const money = (value: number) => isPrivacyMode ? '****' : formatCurrency(value);
+
+    return (
+        <Card className="glass-card">
+            <CardHeader className="flex flex-row items-start justify-between space-y-0">
+                <div className="space-y-1.5">
+                    <CardTitle className="flex items-center gap-2">
+                        <TrendingUp className="h-5 w-5" /> 12-Month Forecast
+                    </CardTitle>
+                    <CardDescription>
+                        Recurring templates, loan payments and your usual spending for each month, at today's exchange rates.
+                        Templates without an account, and loans no recurring payment is linked to, are booked on {mainName}.
+                    </CardDescription>
+                </div>
+                <Select value={selected.account.id} onValueChange={setAccountId}>
+                    <SelectTrigger className="w-[180px]"><SelectValue /></SelectTrigger>
+                    <SelectContent>
+                        {forecasts.map(f => <SelectItem key={f.account.id} value={f.account.id}>{f.account.name}</SelectItem>)}
+                    </SelectContent>
+                </Select>
+            </CardHeader>
+            <CardContent className="space-y-6">
+                {atRisk.map(f => (
+                    <div key={f.account.id} className="flex items-center gap-2 rounded-md border border-red-500/40 bg-red-500/10 px-3 py-2 text-sm">
+                        <AlertTriangle className="h-4 w-4 shrink-0 text-red-500" />
+                        <span>
+                            <span className="font-medium">{f.account.name}</span> is projected to go negative in {monthLabel(f.negativeMonths[0])}
+                            {f.negativeMonths.length > 1 && ` (${f.negativeMonths.length} months in total)`}.
+                        </span>
+                    </div>
+                ))}
+
+                <div className={cn("h-[260px]", isPrivacyMode && "blur-sm select-none pointer-events-none")}>
+                    <ResponsiveContainer width="100%" height="100%">
+                        <LineChart data={chartData}>
+                            <CartesianGrid strokeDasharray="3 3" opacity={0.1} vertical={false} />
+                            <XAxis dataKey="name" fontSize={12} tickLine={false} axisLine={false} />
+                            <YAxis
+                                hide={isPrivacyMode}
+                                fontSize={12}
+                                tickLine={false}
+                                axisLine={false}
+                                tickFormatter={(val) => `${currencySymbol}${val / 1000}k`}
+                            />
+                            <Tooltip
+                                contentStyle={{ backgroundColor: '#18181b', border: '1px solid #27272a' }}
+                                formatter={(value: number) => money(value)}
+                            />
+                            <Legend />
+                            <ReferenceLine y={0} stroke="#EF4444" strokeDasharray="4 4" />
+                            {forecasts.map((f, i) => (
+                                <Line
+                                    key={f.account.id}
+                                    type="monotone"
+                                    dataKey={f.account.name}
+                                    stroke={CATEGORY_COLORS[i % CATEGORY_COLORS.length]}
+                                    strokeWidth={f.account.id === selected.account.id ? 2.5 : 1.5}
+                                    dot={false}
+                                />
+                            ))}
+                        </LineChart>
+                    </ResponsiveContainer>
+                </div>
+
+                <div className={cn(isPrivacyMode && "blur-sm select-none pointer-events-none")}>
+                    <Table>
+                        <TableHeader>
+                            <TableRow>
+                                <TableHead>Month</TableHead>
+                                <TableHead className="text-right">Recurring</TableHead>
+                                <TableHead className="text-right">Loans</TableHead>
+                                <TableHead className="text-right">Usual Spending</TableHead>
+                                <TableHead className="text-right">End Balance</TableHead>
+                            </TableRow>
+                        </TableHeader>
+                        <TableBody>
+                            <TableRow>
+                                <TableCell className="text-muted-foreground">Today</TableCell>
+                                <TableCell colSpan={3} />
+                                <TableCell className="text-right font-medium">{money(selected.balance)}</TableCell>
+                            </TableRow>
+                            {selected.months.map(m => (
+                                <TableRow key={m.month}>
+                                    <TableCell>{monthLabel(m.month)}</TableCell>
+                                    <TableCell className={cn("text-right", m.recurring >= 0 ? "text-green-500" : "text-red-500")}>{money(m.recurring)}</TableCell>
+                                    <TableCell className="text-right text-muted-foreground">{m.liabilities ? money(m.liabilities) : '-'}</TableCell>
+                                    <TableCell className="text-right text-muted-foreground">{m.seasonal ? money(m.seasonal) : '-'}</TableCell>
+                                    <TableCell className={cn("text-right font-medium", m.balance < 0 && "text-red-500")}>
+                                        <span className="inline-flex items-center gap-1">
+                                            {m.balance < 0 && <AlertTriangle className="h-3.5 w-3.5" />}
+                                            {money(m.balance)}
+                                        </span>
+                                    </TableCell>
+                                </TableRow>
+                            ))}
+                        </TableBody>
+                    </Table>
+                </div>
+            </CardContent>
+        </Card>
+    );
+}
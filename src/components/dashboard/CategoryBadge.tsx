@@ -0,0 +1,76 @@
+import {
+    Tag, Home, Utensils, Car, Zap, Fuel, Film, ShoppingBag, HeartPulse,
+    Briefcase, Laptop, TrendingUp, Gift, Plane, GraduationCap, PiggyBank,
+    type LucideIcon,
+} from 'lucide-react';
+import { SelectItem } from '@/components/ui/select';
+import { useFinance } from '@/contexts/FinanceContext';
+import { categoriesFor, findCategory } from '@/lib/categories';
+import { cn } from '@/lib/utils';
+import type { Category } from '@/types/finance';
+
+// Keys match CATEGORY_ICONS
+const ICONS: Record<string, LucideIcon> = {
+    'tag': Tag,
+    'home': Home,
+    'utensils': Utensils,
+    'car': Car,
+    'zap': Zap,
+    'fuel': Fuel,
+    'film': Film,
+    'shopping-bag': ShoppingBag,
+    'heart-pulse': HeartPulse,
+    'briefcase': Briefcase,
+    'laptop': Laptop,
+    'trending-up': TrendingUp,
+    'gift': Gift,
+    'plane': Plane,
+    'graduation-cap': GraduationCap,
+    'piggy-bank': PiggyBank,
+};
+
+export function CategoryIcon({ icon, color, className }: { icon?: string; color?: string; className?: string }) {
+    const Icon = (icon && ICONS[icon]) || Tag;
+    return <Icon className={cn("h-3.5 w-3.5 shrink-0", className)} style={color ? { color } : undefined} />;
+}
+
+interface CategoryBadgeProps extends React.HTMLAttributes<HTMLSpanElement> {
+    type: Category['type'];
+    name: string;
+}
+
+/** Category pill in the user's color and icon; names without a managed category stay neutral. */
+export function CategoryBadge({ type, name, className, ...props }: CategoryBadgeProps) {
+    const { data } = useFinance();
+    const category = findCategory(data.categories, type, name);
+    return (
+        <span
+            className={cn("inline-flex items-center gap-1 px-2 py-1 rounded-full text-xs font-medium bg-secondary", className)}
+            style={category ? { backgroundColor: `${category.color}26` } : undefined}
+            {...props}
+        >
+            {category && <CategoryIcon icon={category.icon} color={category.color} className="h-3 w-3" />}
+            {name}
+        </span>
+    );
+}
+
+/** SelectItems for a transaction type with subcategories indented under their parent. */
+export function CategorySelectItems({ type, current }: { type: Category['type']; current?: string }) {
+    const { data } = useFinance();
+    return (
+        <>
+            {categoriesFor(data.categories, type, current).map(name => {
+                const category = findCategory(data.categories, type, name);
+                return (
+                    <SelectItem key={name} value={name}>
+                        <span className={cn("flex items-center gap-2", category?.parentId && "pl-4")}>
+                            {category && <CategoryIcon icon={category.icon} color={category.color} />}
+                            {name}
+                        </span>
+                    </SelectItem>
+                );
+            })}
+        </>
+    );
+}
@@ -0,0 +1,243 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter, DialogTrigger } from '@/components/ui/dialog';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { FolderTree, Plus, Pencil, Trash2, Merge, Loader2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { useFinance } from '@/contexts/FinanceContext';
+import { CATEGORY_COLORS, CATEGORY_ICONS, categoryTree } from '@/lib/categories';
+import { usesCategory } from '@/lib/splits';
+import type { Category } from '@/types/finance';
+import { cn } from '@/lib/utils';
+import { CategoryIcon } from './CategoryBadge';
+
+type Draft = { id?: string; name: string; parentId: string; color: string; icon: string };
+
+const NO_PARENT = 'none';
+
+const emptyDraft = (): Draft => ({ name: '', parentId: NO_PARENT, color: CATEGORY_COLORS[0], icon: CATEGORY_ICONS[0] });
+
+export function CategoryManagerDialog() {
+    const { data, addCategory, updateCategory, deleteCategory, mergeCategories, seedDefaultCategories } = useFinance();
+
+    const [open, setOpen] = useState(false);
+    const [type, setType] = useState<Category['type']>('expense');
+    const [draft, setDraft] = useState<Draft | null>(null);
+    const [merging, setMerging] = useState<{ source: Category; targetId: string } | null>(null);
+    const [isBusy, setIsBusy] = useState(false);
+
+    const tree = categoryTree(data.categories, type);
+    const usage = (name: string) => data.transactions.filter(t => t.type === type && usesCategory(t, name)).length;
+    // Names on transactions (imports, rules, older entries) without a managed category
+    const unmanaged = [...new Set(data.transactions.filter(t => t.type === type).map(t => t.category))]
+        .filter(name => !data.categories.some(c => c.type === type && c.name === name))
+        .sort();
+
+    const run = async (action: () => Promise<void>) => {
+        setIsBusy(true);
+        try {
+            await action();
+        } finally {
+            setIsBusy(false);
+        }
+    };
+
+    const handleSave = () => {
+        if (!draft) return;
+        const name = draft.name.trim();
+        if (!name) {
+            toast.error('Enter a name');
+            return;
+        }
+        const fields = { name, color: draft.color, icon: draft.icon, parentId: draft.parentId === NO_PARENT ? '' : draft.parentId };
+        run(async () => {
+            if (draft.id) await updateCategory(draft.id, fields);
+            else await addCategory({ ...fields, type, parentId: fields.parentId || undefined });
+            setDraft(null);
+        });
+    };
+
+    const handleMerge = () => {
+        if (!merging?.targetId) return;
+        run(async () => {
+            await mergeCategories(merging.source.id, merging.targetId);
+            setMerging(null);
+        });
+    };
+
+    const row = (category: Category, child: boolean) => (
+        <div key={category.id} className={cn("flex items-center gap-3 px-3 py-2", child && "pl-9")}>
+            <CategoryIcon icon={category.icon} color={category.color} className="h-4 w-4" />
+            <span className="flex-1 text-sm">{category.name}</span>
+            <span className="text-xs text-muted-foreground">{usage(category.name)} tx</span>
+            <div className="flex items-center gap-1">
+                <Button
+                    size="icon"
+                    variant="ghost"
+                    className="h-7 w-7"
+                    onClick={() => setDraft({ id: category.id, name: category.name, parentId: category.parentId || NO_PARENT, color: category.color, icon: category.icon })}
+                >
+                    <Pencil className="h-3.5 w-3.5" />
+                </Button>
+                <Button size="icon" variant="ghost" className="h-7 w-7" title="Merge into another category" onClick={() => setMerging({ source: category, targetId: '' })}>
+                    <Merge className="h-3.5 w-3.5" />
+                </Button>
+                <Button size="icon" variant="ghost" className="h-7 w-7 text-destructive" onClick={() => deleteCategory(category.id)}>
+                    <Trash2 className="h-3.5 w-3.5" />
+                </Button>
+            </div>
+        </div>
+    );
+
+    const editing = draft?.id ? data.categories.find(c => c.id === draft.id) : undefined;
+    const hasChildren = !!editing && data.categories.some(c => c.parentId === editing.id);
+    const parentOptions = tree.map(n => n.category).filter(c => c.id !== draft?.id);
+
+    return (
+        <Dialog open={open} onOpenChange={(val) => { if (!val) { setDraft(null); setMerging(null); } setOpen(val); }}>
+            <DialogTrigger asChild>
+                <Button variant="outline">
+                    <FolderTree className="h-4 w-4 mr-2" /> Categories
+                </Button>
+            </DialogTrigger>
+            <DialogContent className="max-w-xl max-h-[90vh] overflow-y-auto">
+                <DialogHeader>
+                    <DialogTitle>Categories</DialogTitle>
+                    <DialogDescription>
+                        Group categories under a parent, pick colors and icons. Renames and merges update existing transactions and rules.
+                    </DialogDescription>
+                </DialogHeader>
+
+                {draft ? (
+                    <div className="space-y-4">
+                        <div className="grid grid-cols-2 gap-4">
+                            <div className="space-y-2">
+                                <Label>Name</Label>
+                                <Input autoFocus value={draft.name} onChange={(e) => setDraft({ ...draft, name: e.target.value })} />
+                            </div>
+                            <div className="space-y-2">
+                                <Label>Parent</Label>
+                                <Select value={draft.parentId} onValueChange={(parentId) => setDraft({ ...draft, parentId })} disabled={hasChildren}>
+                                    <SelectTrigger><SelectValue /></SelectTrigger>
+                                    <SelectContent>
+                                        <SelectItem value={NO_PARENT}>None (top level)</SelectItem>
+                                        {parentOptions.map(c => <SelectItem key={c.id} value={c.id}>{c.name}</SelectItem>)}
+                                    </SelectContent>
+                                </Select>
+                            </div>
+                        </div>
+                        {editing && draft.name.trim() !== editing.name && usage(editing.name) > 0 && (
+                            <p className="text-xs text-muted-foreground">{usage(editing.name)} transactions will be renamed too.</p>
+                        )}
+                        <div className="space-y-2">
+                            <Label>Color</Label>
+                            <div className="flex flex-wrap gap-2">
+                                {CATEGORY_COLORS.map(color => (
+                                    <button
+                                        key={color}
+                                        type="button"
+                                        className={cn("h-6 w-6 rounded-full border-2", draft.color === color ? "border-foreground" : "border-transparent")}
+                                        style={{ backgroundColor: color }}
+                                        onClick={() => setDraft({ ...draft, color })}
+                                    />
+                                ))}
+                            </div>
+                        </div>
+                        <div className="space-y-2">
+                            <Label>Icon</Label>
+                            <div className="flex flex-wrap gap-1">
+                                {CATEGORY_ICONS.map(icon => (
+                                    <Button
+                                        key={icon}
+                                        type="button"
+                                        size="icon"
+                                        variant={draft.icon === icon ? 'secondary' : 'ghost'}
+                                        className="h-8 w-8"
+                                        onClick={() => setDraft({ ...draft, icon })}
+                                    >
+                                        <CategoryIcon icon={icon} color={draft.color} className="h-4 w-4" />
+                                    </Button>
+                                ))}
+                            </div>
+                        </div>
+                        <DialogFooter className="gap-2">
+                            <Button variant="ghost" onClick={() => setDraft(null)}>Back</Button>
+                            <Button className="gradient-primary" onClick={handleSave} disabled={isBusy}>
+                                {isBusy && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                                {draft.id ? 'Save Category' : 'Add Category'}
+                            </Button>
+                        </DialogFooter>
+                    </div>
+                ) : merging ? (
+                    <div className="space-y-4">
+                        <p className="text-sm">
+                            Move the {usage(merging.source.name)} transactions, rules and subcategories of <span className="font-medium">{merging.source.name}</span> to:
+                        </p>
+                        <Select value={merging.targetId} onValueChange={(targetId) => setMerging({ ...merging, targetId })}>
+                            <SelectTrigger><SelectValue placeholder="Select category" /></SelectTrigger>
+                            <SelectContent>
+                                {data.categories.filter(c => c.type === merging.source.type && c.id !== merging.source.id).map(c => (
+                                    <SelectItem key={c.id} value={c.id}>{c.name}</SelectItem>
+                                ))}
+                            </SelectContent>
+                        </Select>
+                        <DialogFooter className="gap-2">
+                            <Button variant="ghost" onClick={() => setMerging(null)}>Back</Button>
+                            <Button variant="destructive" onClick={handleMerge} disabled={!merging.targetId || isBusy}>
+                                {isBusy && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                                Merge and Delete "{merging.source.name}"
+                            </Button>
+                        </DialogFooter>
+                    </div>
+                ) : (
+                    <div className="space-y-4">
+                        <Tabs value={type} onValueChange={(v) => setType(v as Category['type'])}>
+                            <TabsList className="grid grid-cols-2">
+                                <TabsTrigger value="expense">Expenses</TabsTrigger>
+                                <TabsTrigger value="income">Income</TabsTrigger>
+                            </TabsList>
+                        </Tabs>
+
+                        {tree.length === 0 ? (
+                            <div className="text-center py-6 space-y-3">
+                                <p className="text-sm text-muted-foreground">No {type} categories yet. The default list is used until you add some.</p>
+                                <Button variant="outline" onClick={() => run(seedDefaultCategories)} disabled={isBusy}>Add Default Categories</Button>
+                            </div>
+                        ) : (
+                            <div className="border rounded-md divide-y">
+                                {tree.map(node => (
+                                    <div key={node.category.id} className="divide-y">
+                                        {row(node.category, false)}
+                                        {node.children.map(child => row(child, true))}
+                                    </div>
+                                ))}
+                            </div>
+                        )}
+
+                        {unmanaged.length > 0 && (
+                            <div className="space-y-2">
+                                <Label className="text-xs text-muted-foreground">Used by transactions but not in the list</Label>
+                                <div className="flex flex-wrap gap-2">
+                                    {unmanaged.map(name => (
+                                        <Button key={name} size="sm" variant="outline" className="h-7 text-xs" onClick={() => setDraft({ ...emptyDraft(), name })}>
+                                            <Plus className="h-3 w-3 mr-1" /> {name}
+                                        </Button>
+                                    ))}
+                                </div>
+                            </div>
+                        )}
+
+                        <DialogFooter>
+                            <Button className="gradient-primary" onClick={() => setDraft(emptyDraft())}>
+                                <Plus className="h-4 w-4 mr-2" /> New Category
+                            </Button>
+                        </DialogFooter>
+                    </div>
+                )}
+            </DialogContent>
+        </Dialog>
+    );
+}
@@ -0,0 +1,308 @@
+import { useState } from 'react';
+import { format } from 'date-fns';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter, DialogTrigger } from '@/components/ui/dialog';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Wand2, Plus, Trash2, Pencil, ArrowUp, ArrowDown, X, Loader2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { useFinance } from '@/contexts/FinanceContext';
+import { useSettings } from '@/contexts/SettingsContext';
+import { categoriesFor } from '@/lib/categories';
+import { recategorize, RULE_OPERATORS, testRule } from '@/lib/categoryRules';
+import type { CategoryRule, RuleCondition } from '@/types/finance';
+import { cn } from '@/lib/utils';
+
+type Draft = Omit<CategoryRule, 'id' | 'createdAt' | 'priority'> & { id?: string };
+
+const NEW_ID = 'new';
+const PREVIEW_LIMIT = 50;
+
+const emptyDraft = (): Draft => ({
+    name: '',
+    transactionType: 'expense',
+    conditions: [{ field: 'description', operator: 'contains', value: '' }],
+    category: '',
+    enabled: true,
+});
+
+const describeRule = (rule: Pick<CategoryRule, 'transactionType' | 'conditions' | 'category'>) => {
+    const conditions = rule.conditions
+        .map(c => `${c.field} ${RULE_OPERATORS.find(o => o.value === c.operator)?.label ?? c.operator} ${c.field === 'description' ? `"${c.value}"` : c.value}`)
+        .join(' and ');
+    const type = rule.transactionType === 'any' ? '' : ` (${rule.transactionType})`;
+    return `${conditions}${type} → ${rule.category}`;
+};
+
+export function CategoryRulesDialog() {
+    const { data, addCategoryRule, updateCategoryRule, deleteCategoryRule, reorderCategoryRules, recategorizeTransactions } = useFinance();
+    const { formatCurrency } = useSettings();
+
+    const [open, setOpen] = useState(false);
+    const [draft, setDraft] = useState<Draft | null>(null);
+    const [isSaving, setIsSaving] = useState(false);
+    const [isApplying, setIsApplying] = useState(false);
+
+    const rules = data.categoryRules;
+    const usedCategories = [...new Set([
+        ...(draft?.transactionType !== 'income' ? categoriesFor(data.categories, 'expense') : []),
+        ...(draft?.transactionType !== 'expense' ? categoriesFor(data.categories, 'income') : []),
+        ...data.transactions.map(t => t.category)
+    ])].sort();
+    const historyChanges = recategorize(data.transactions, rules);
+
+    // "Test against history": what the draft matches and what it would change
+    const draftValid = !!draft && draft.conditions.length > 0 && draft.conditions.every(c => c.value.trim() !== '');
+    const matches = draft && draftValid ? testRule({ id: draft.id ?? NEW_ID, ...draft }, rules, data.transactions) : [];
+    const draftChanges = draft ? matches.filter(m => !m.shadowedBy && m.transaction.category !== draft.category) : [];
+
+    const updateDraft = (changes: Partial<Draft>) => setDraft(prev => prev && { ...prev, ...changes });
+    const updateCondition = (index: number, changes: Partial<RuleCondition>) => {
+        setDraft(prev => prev && {
+            ...prev,
+            conditions: prev.conditions.map((c, i) => i === index ? { ...c, ...changes } : c)
+        });
+    };
+
+    const move = (index: number, offset: number) => {
+        const ids = rules.map(r => r.id);
+        [ids[index], ids[index + offset]] = [ids[index + offset], ids[index]];
+        reorderCategoryRules(ids);
+    };
+
+    const handleSave = async () => {
+        if (!draft) return;
+        if (!draft.name.trim() || !draft.category.trim() || !draftValid) {
+            toast.error('A rule needs a name, a category and a value for every condition');
+            return;
+        }
+        setIsSaving(true);
+        try {
+            const { id, ...rule } = draft;
+            const payload = { ...rule, name: rule.name.trim(), category: rule.category.trim() };
+            if (id) await updateCategoryRule(id, payload);
+            else await addCategoryRule(payload);
+            setDraft(null);
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    const handleApply = async (changes: { id: string; to: string }[]) => {
+        setIsApplying(true);
+        try {
+            await recategorizeTransactions(changes);
+        } finally {
+            setIsApplying(false);
+        }
+    };
+
+    return (
+        <Dialog open={open} onOpenChange={(val) => { if (!val) setDraft(null); setOpen(val); }}>
+            <DialogTrigger asChild>
+                <Button variant="outline">
+                    <Wand2 className="h-4 w-4 mr-2" /> Rules
+                </Button>
+            </DialogTrigger>
+            <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+                <DialogHeader>
+                    <DialogTitle>Categorization Rules</DialogTitle>
+                    <DialogDescription>
+                        Rules fill in the category of new and imported transactions. They run top to bottom; the first match wins.
+                    </DialogDescription>
+                </DialogHeader>
+
+                {!draft ? (
+                    <div className="space-y-4">
+                        {rules.length === 0 ? (
+                            <p className="text-sm text-muted-foreground text-center py-6">No rules yet.</p>
+                        ) : (
+                            <div className="border rounded-md divide-y">
+                                {rules.map((rule, index) => (
+                                    <div key={rule.id} className={cn("flex items-center gap-3 px-3 py-2", !rule.enabled && "opacity-50")}>
+                                        <Switch checked={rule.enabled} onCheckedChange={(enabled) => updateCategoryRule(rule.id, { enabled })} />
+                                        <div className="flex-1 min-w-0">
+                                            <div className="text-sm font-medium">{rule.name}</div>
+                                            <div className="text-xs text-muted-foreground truncate">{describeRule(rule)}</div>
+                                        </div>
+                                        <div className="flex items-center gap-1">
+                                            <Button size="icon" variant="ghost" className="h-7 w-7" disabled={index === 0} onClick={() => move(index, -1)}>
+                                                <ArrowUp className="h-3.5 w-3.5" />
+                                            </Button>
+                                            <Button size="icon" variant="ghost" className="h-7 w-7" disabled={index === rules.length - 1} onClick={() => move(index, 1)}>
+                                                <ArrowDown className="h-3.5 w-3.5" />
+                                            </Button>
+                                            <Button size="icon" variant="ghost" className="h-7 w-7" onClick={() => setDraft({ ...rule })}>
+                                                <Pencil className="h-3.5 w-3.5" />
+                                            </Button>
+                                            <Button size="icon" variant="ghost" className="h-7 w-7 text-destructive" onClick={() => deleteCategoryRule(rule.id)}>
+                                                <Trash2 className="h-3.5 w-3.5" />
+                                            </Button>
+                                        </div>
+                                    </div>
+                                ))}
+                            </div>
+                        )}
+
+                        <DialogFooter className="gap-2 sm:justify-between">
+                            <Button
+                                variant="outline"
+                                disabled={historyChanges.length === 0 || isApplying}
+                                onClick={() => handleApply(historyChanges)}
+                                title="Run all enabled rules over past transactions"
+                            >
+                                {isApplying && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                                Re-categorize {historyChanges.length} Transactions
+                            </Button>
+                            <Button className="gradient-primary" onClick={() => setDraft(emptyDraft())}>
+                                <Plus className="h-4 w-4 mr-2" /> New Rule
+                            </Button>
+                        </DialogFooter>
+                    </div>
+                ) : (
+                    <div className="space-y-4">
+                        <div className="grid grid-cols-2 gap-4">
+                            <div className="space-y-2">
+                                <Label>Name</Label>
+                                <Input placeholder="e.g. Groceries" value={draft.name} onChange={(e) => updateDraft({ name: e.target.value })} />
+                            </div>
+                            <div className="space-y-2">
+                                <Label>Applies to</Label>
+                                <Select value={draft.transactionType} onValueChange={(v: Draft['transactionType']) => updateDraft({ transactionType: v })}>
+                                    <SelectTrigger><SelectValue /></SelectTrigger>
+                                    <SelectContent>
+                                        <SelectItem value="expense">Expenses</SelectItem>
+                                        <SelectItem value="income">Income</SelectItem>
+                                        <SelectItem value="any">Both</SelectItem>
+                                    </SelectContent>
+                                </Select>
+                            </div>
+                        </div>
+
+                        <div className="space-y-2">
+                            <Label>When</Label>
+                            {draft.conditions.map((condition, index) => (
+                                <div key={index} className="flex items-center gap-2">
+                                    <Select
+                                        value={condition.field}
+                                        onValueChange={(field: RuleCondition['field']) => updateCondition(index, {
+                                            field,
+                                            operator: field === 'amount' ? 'gt' : 'contains'
+                                        })}
+                                    >
+                                        <SelectTrigger className="w-36"><SelectValue /></SelectTrigger>
+                                        <SelectContent>
+                                            <SelectItem value="description">Description</SelectItem>
+                                            <SelectItem value="amount">Amount</SelectItem>
+                                        </SelectContent>
+                                    </Select>
+                                    <Select value={condition.operator} onValueChange={(operator: RuleCondition['operator']) => updateCondition(index, { operator })}>
+                                        <SelectTrigger className="w-40"><SelectValue /></SelectTrigger>
+                                        <SelectContent>
+                                            {RULE_OPERATORS.filter(o => o.field === condition.field).map(o => (
+                                                <SelectItem key={o.value} value={o.value}>{o.label}</SelectItem>
+                                            ))}
+                                        </SelectContent>
+                                    </Select>
+                                    <Input
+                                        className="flex-1"
+                                        type={condition.field === 'amount' ? 'number' : 'text'}
+                                        step="0.01"
+                                        value={condition.value}
+                                        onChange={(e) => updateCondition(index, { value: e.target.value })}
+                                    />
+                                    <Button
+                                        size="icon"
+                                        variant="ghost"
+                                        className="h-8 w-8 shrink-0"
+                                        disabled={draft.conditions.length === 1}
+                                        onClick={() => updateDraft({ conditions: draft.conditions.filter((_, i) => i !== index) })}
+                                    >
+                                        <X className="h-3.5 w-3.5" />
+                                    </Button>
+                                </div>
+                            ))}
+                            <Button
+                                size="sm"
+                                variant="ghost"
+                                onClick={() => updateDraft({ conditions: [...draft.conditions, { field: 'description', operator: 'contains', value: '' }] })}
+                            >
+                                <Plus className="h-3.5 w-3.5 mr-1" /> And
+                            </Button>
+                        </div>
+
+                        <div className="space-y-2">
+                            <Label>Set category to</Label>
+                            <Input list="rule-categories" placeholder="e.g. Food" value={draft.category} onChange={(e) => updateDraft({ category: e.target.value })} />
+                            <datalist id="rule-categories">
+                                {usedCategories.map(c => <option key={c} value={c} />)}
+                            </datalist>
+                        </div>
+
+                        {draftValid && (
+                            <div className="space-y-2">
+                                <div className="flex items-center justify-between text-sm">
+                                    <span>
+                                        Matches <span className="font-medium">{matches.length}</span> past transactions
+                                        {draft.category && <>, <span className="font-medium">{draftChanges.length}</span> would change</>}
+                                    </span>
+                                    <Button
+                                        size="sm"
+                                        variant="outline"
+                                        disabled={!draft.category.trim() || draftChanges.length === 0 || isApplying}
+                                        onClick={() => handleApply(draftChanges.map(m => ({ id: m.transaction.id, to: draft.category.trim() })))}
+                                    >
+                                        Apply to {draftChanges.length}
+                                    </Button>
+                                </div>
+                                {matches.length > 0 && (
+                                    <div className="max-h-[250px] overflow-y-auto border rounded-md">
+                                        <Table>
+                                            <TableHeader>
+                                                <TableRow>
+                                                    <TableHead>Date</TableHead>
+                                                    <TableHead>Description</TableHead>
+                                                    <TableHead>Category</TableHead>
+                                                    <TableHead className="text-right">Amount</TableHead>
+                                                </TableRow>
+                                            </TableHeader>
+                                            <TableBody>
+                                                {matches.slice(0, PREVIEW_LIMIT).map(({ transaction: t, shadowedBy }) => (
+                                                    <TableRow key={t.id} className={cn(shadowedBy && "opacity-50")}>
+                                                        <TableCell className="py-1.5 text-xs whitespace-nowrap">{format(new Date(t.date), 'MMM dd, yyyy')}</TableCell>
+                                                        <TableCell className="py-1.5 text-xs max-w-[220px] truncate">{t.description || '-'}</TableCell>
+                                                        <TableCell className="py-1.5 text-xs">
+                                                            {shadowedBy
+                                                                ? <span title={`Rule "${shadowedBy.name}" runs first`}>{t.category} (by "{shadowedBy.name}")</span>
+                                                                : t.category === draft.category || !draft.category
+                                                                    ? t.category
+                                                                    : <>{t.category} → <span className="text-primary">{draft.category}</span></>}
+                                                        </TableCell>
+                                                        <TableCell className={cn("py-1.5 text-xs text-right", t.type === 'income' ? 'text-green-500' : 'text-red-500')}>
+                                                            {t.type === 'income' ? '+' : '-'}{formatCurrency(t.amount, t.currency, t.date)}
+                                                        </TableCell>
+                                                    </TableRow>
+                                                ))}
+                                            </TableBody>
+                                        </Table>
+                                    </div>
+                                )}
+                            </div>
+                        )}
+
+                        <DialogFooter className="gap-2">
+                            <Button variant="ghost" onClick={() => setDraft(null)}>Back</Button>
+                            <Button className="gradient-primary" onClick={handleSave} disabled={isSaving}>
+                                {isSaving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                                {draft.id ? 'Save Rule' : 'Add Rule'}
+                            </Button>
+                        </DialogFooter>
+                    </div>
+                )}
+            </DialogContent>
+        </Dialog>
+    );
+}
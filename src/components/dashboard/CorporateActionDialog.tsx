@@ -0,0 +1,221 @@
+import { useEffect, useState } from 'react';
+import { format } from 'date-fns';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from '@/components/ui/dialog';
+import { HelpTooltip } from '@/components/ui/tooltip-helper';
+import type { CorporateAction, Investment } from '@/types/finance';
+import { cn } from '@/lib/utils';
+
+interface CorporateActionDialogProps {
+    asset: Investment | null;
+    investments: Investment[];
+    onClose: () => void;
+    onSubmit: (action: Omit<CorporateAction, 'id' | 'createdAt'>, newTarget?: { symbol: string; name: string; isin?: string }) => void;
+}
+
+const NEW_TARGET = '__new__';
+
+const emptyForm = () => ({
+    type: 'split' as CorporateAction['type'],
+    effectiveDate: format(new Date(), 'yyyy-MM-dd'),
+    ratioFrom: 1,
+    ratioTo: 2,
+    newSymbol: '',
+    newIsin: '',
+    settlement: 'stock' as 'stock' | 'cash',
+    targetAssetId: NEW_TARGET,
+    targetName: '',
+    cashPerShare: 0,
+    notes: '',
+});
+
+export function CorporateActionDialog({ asset, investments, onClose, onSubmit }: CorporateActionDialogProps) {
+    const [form, setForm] = useState(emptyForm());
+
+    useEffect(() => {
+        if (asset) setForm(emptyForm());
+    }, [asset]);
+
+    const targets = investments.filter(i => i.id !== asset?.id);
+    const ratio = form.ratioFrom > 0 ? form.ratioTo / form.ratioFrom : 0;
+    const isNewTarget = form.type === 'merger' && form.settlement === 'stock' && form.targetAssetId === NEW_TARGET;
+
+    const isValid = (() => {
+        if (form.type === 'split') return form.ratioFrom > 0 && form.ratioTo > 0 && form.ratioFrom !== form.ratioTo;
+        if (form.type === 'symbol_change') return !!form.newSymbol || !!form.newIsin;
+        if (form.settlement === 'cash') return form.cashPerShare > 0;
+        return form.ratioFrom > 0 && form.ratioTo > 0 && (!isNewTarget || (!!form.newSymbol && !!form.targetName));
+    })();
+
+    const handleSubmit = (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!asset || !isValid) return;
+
+        const base = { assetId: asset.id, type: form.type, effectiveDate: form.effectiveDate, notes: form.notes || undefined };
+
+        if (form.type === 'split') {
+            onSubmit({ ...base, ratioFrom: form.ratioFrom, ratioTo: form.ratioTo });
+        } else if (form.type === 'symbol_change') {
+            onSubmit({ ...base, newSymbol: form.newSymbol.toUpperCase() || undefined, newIsin: form.newIsin.toUpperCase() || undefined });
+        } else if (form.settlement === 'cash') {
+            onSubmit({ ...base, cashPerShare: form.cashPerShare });
+        } else if (isNewTarget) {
+            const symbol = form.newSymbol.toUpperCase();
+            onSubmit(
+                { ...base, ratioFrom: form.ratioFrom, ratioTo: form.ratioTo, oldSymbol: asset.symbol, newSymbol: symbol },
+                { symbol, name: form.targetName, isin: form.newIsin.toUpperCase() || undefined }
+            );
+        } else {
+            const target = targets.find(t => t.id === form.targetAssetId);
+            onSubmit({ ...base, ratioFrom: form.ratioFrom, ratioTo: form.ratioTo, oldSymbol: asset.symbol, newSymbol: target?.symbol, targetAssetId: form.targetAssetId });
+        }
+        onClose();
+    };
+
+    const ratioInputs = (
+        <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+                <Label>Old Shares</Label>
+                <Input type="number" step="any" min="0" value={form.ratioFrom} onChange={(e) => setForm({ ...form, ratioFrom: +e.target.value })} required />
+            </div>
+            <div className="space-y-2">
+                <Label>New Shares</Label>
+                <Input type="number" step="any" min="0" value={form.ratioTo} onChange={(e) => setForm({ ...form, ratioTo: +e.target.value })} required />
+            </div>
+        </div>
+    );
+
+    return (
+        <Dialog open={!!asset} onOpenChange={(val) => { if (!val) onClose(); }}>
+            <DialogContent className="max-w-md">
+                <DialogHeader>
+                    <DialogTitle>Corporate Action{asset ? ` · ${asset.symbol}` : ''}</DialogTitle>
+                    <DialogDescription>
+                        Applied to the lots when positions are computed. Undo it from the lots view if it was entered wrong.
+                    </DialogDescription>
+                </DialogHeader>
+                <form onSubmit={handleSubmit} className="space-y-4">
+                    <div className="grid grid-cols-2 gap-4">
+                        <div className="space-y-2">
+                            <Label>Type</Label>
+                            <Select value={form.type} onValueChange={(v: CorporateAction['type']) => setForm({ ...form, type: v })}>
+                                <SelectTrigger><SelectValue /></SelectTrigger>
+                                <SelectContent>
+                                    <SelectItem value="split">Split / Reverse Split</SelectItem>
+                                    <SelectItem value="symbol_change">Ticker / ISIN Change</SelectItem>
+                                    <SelectItem value="merger">Merger</SelectItem>
+                                </SelectContent>
+                            </Select>
+                        </div>
+                        <div className="space-y-2">
+                            <Label>Effective Date</Label>
+                            <Input type="date" value={form.effectiveDate} onChange={(e) => setForm({ ...form, effectiveDate: e.target.value })} required />
+                        </div>
+                    </div>
+
+                    {form.type === 'split' && (
+                        <>
+                            {ratioInputs}
+                            <div className="flex justify-between items-center p-3 bg-muted/50 rounded-lg border text-sm">
+                                <span className="text-muted-foreground">{ratio < 1 ? 'Reverse split' : 'Split'} {form.ratioFrom}:{form.ratioTo}</span>
+                                {asset && ratio > 0 && (
+                                    <span className="font-mono font-medium">
+                                        {asset.quantity} → {(asset.quantity * ratio).toLocaleString('en-US', { maximumFractionDigits: 6 })}
+                                    </span>
+                                )}
+                            </div>
+                        </>
+                    )}
+
+                    {form.type === 'symbol_change' && (
+                        <div className="grid grid-cols-2 gap-4">
+                            <div className="space-y-2">
+                                <Label>New Symbol</Label>
+                                <Input value={form.newSymbol} onChange={(e) => setForm({ ...form, newSymbol: e.target.value })} placeholder={asset?.symbol} />
+                            </div>
+                            <div className="space-y-2">
+                                <Label>New ISIN</Label>
+                                <Input value={form.newIsin} onChange={(e) => setForm({ ...form, newIsin: e.target.value })} placeholder={asset?.isin || 'Optional'} />
+                            </div>
+                        </div>
+                    )}
+
+                    {form.type === 'merger' && (
+                        <>
+                            <div className="space-y-2">
+                                <Label className="flex items-center gap-1">
+                                    Consideration
+                                    <HelpTooltip content="Stock: lots move to the surviving holding with their original cost and dates. Cash: the position is closed as a sale." />
+                                </Label>
+                                <div className="grid grid-cols-2 gap-2">
+                                    {(['stock', 'cash'] as const).map(s => (
+                                        <Button
+                                            key={s}
+                                            type="button"
+                                            variant="outline"
+                                            className={cn("capitalize", form.settlement === s && "border-primary bg-primary/10 text-primary")}
+                                            onClick={() => setForm({ ...form, settlement: s })}
+                                        >
+                                            {s}
+                                        </Button>
+                                    ))}
+                                </div>
+                            </div>
+
+                            {form.settlement === 'cash' ? (
+                                <div className="space-y-2">
+                                    <Label>Cash per Share ({asset?.currency || 'USD'})</Label>
+                                    <Input type="number" step="any" min="0" value={form.cashPerShare} onChange={(e) => setForm({ ...form, cashPerShare: +e.target.value })} required />
+                                </div>
+                            ) : (
+                                <>
+                                    <div className="space-y-2">
+                                        <Label>Surviving Holding</Label>
+                                        <Select value={form.targetAssetId} onValueChange={(v) => setForm({ ...form, targetAssetId: v })}>
+                                            <SelectTrigger><SelectValue /></SelectTrigger>
+                                            <SelectContent>
+                                                <SelectItem value={NEW_TARGET}>New holding…</SelectItem>
+                                                {targets.map(t => (
+                                                    <SelectItem key={t.id} value={t.id}>{t.symbol} · {t.name}</SelectItem>
+                                                ))}
+                                            </SelectContent>
+                                        </Select>
+                                    </div>
+                                    {isNewTarget && (
+                                        <div className="grid grid-cols-2 gap-4">
+                                            <div className="space-y-2">
+                                                <Label>Symbol</Label>
+                                                <Input value={form.newSymbol} onChange={(e) => setForm({ ...form, newSymbol: e.target.value })} required />
+                                            </div>
+                                            <div className="space-y-2">
+                                                <Label>ISIN</Label>
+                                                <Input value={form.newIsin} onChange={(e) => setForm({ ...form, newIsin: e.target.value })} placeholder="Optional" />
+                                            </div>
+                                            <div className="space-y-2 col-span-2">
+                                                <Label>Name</Label>
+                                                <Input value={form.targetName} onChange={(e) => setForm({ ...form, targetName: e.target.value })} required />
+                                            </div>
+                                        </div>
+                                    )}
+                                    {ratioInputs}
+                                </>
+                            )}
+                        </>
+                    )}
+
+                    <div className="space-y-2">
+                        <Label>Notes</Label>
+                        <Input value={form.notes} onChange={(e) => setForm({ ...form, notes: e.target.value })} placeholder="Optional" />
+                    </div>
+
+                    <Button type="submit" className="w-full gradient-primary" disabled={!isValid}>
+                        Apply Action
+                    </Button>
+                </form>
+            </DialogContent>
+        </Dialog>
+    );
+}
@@ -0,0 +1,300 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter, DialogTrigger } from '@/components/ui/dialog';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { HelpTooltip } from '@/components/ui/tooltip-helper';
+import { Upload, Loader2, AlertTriangle } from 'lucide-react';
+import { toast } from 'sonner';
+import { useFinance } from '@/contexts/FinanceContext';
+import { useSettings } from '@/contexts/SettingsContext';
+import { getCryptoHistory, searchCoinGecko } from '@/lib/api';
+import {
+    buildCryptoLots,
+    coinsToPrice,
+    detectExchange,
+    EXCHANGES,
+    isCash,
+    isRecordedLot,
+    parseExchangeExport,
+    reconcileCoins,
+    type Exchange,
+    type ExchangeActivity,
+} from '@/lib/cryptoImport';
+import type { PricePoint } from '@/lib/priceHistory';
+import { cn } from '@/lib/utils';
+
+const AUTO = 'auto';
+
+interface CoinInfo {
+    coinId: string;
+    name: string;
+}
+
+const formatQuantity = (value: number) => Number(value.toFixed(8)).toString();
+
+export function CryptoImportDialog() {
+    const { data, importCryptoLots } = useFinance();
+    const { convertCurrency, formatCurrency } = useSettings();
+
+    const [open, setOpen] = useState(false);
+    const [exchange, setExchange] = useState<Exchange | typeof AUTO>(AUTO);
+    const [source, setSource] = useState<Exchange | null>(null);
+    const [activities, setActivities] = useState<ExchangeActivity[]>([]);
+    const [skipped, setSkipped] = useState(0);
+    const [coins, setCoins] = useState<Record<string, CoinInfo>>({});
+    const [history, setHistory] = useState<Record<string, PricePoint[]>>({});
+    const [includeTransfers, setIncludeTransfers] = useState(false);
+    const [progress, setProgress] = useState('');
+    const [isImporting, setIsImporting] = useState(false);
+
+    const sourceLabel = EXCHANGES.find(e => e.value === source)?.label || '';
+
+    const reset = () => {
+        setSource(null);
+        setActivities([]);
+        setSkipped(0);
+        setCoins({});
+        setHistory({});
+        setProgress('');
+    };
+
+    // Daily close on the day; trades before the start of the fetched history stay unpriced
+    const coinPrice = (symbol: string, date: string) => {
+        const series = history[symbol];
+        if (!series?.length || date < series[0].date) return null;
+        let price: number | null = null;
+        for (const point of series) {
+            if (point.date > date) break;
+            price = point.price;
+        }
+        return price;
+    };
+
+    const { lots, unpriced } = buildCryptoLots(activities, {
+        fiatToUsd: (value, currency) => convertCurrency(value, currency) / (convertCurrency(1, 'USD') || 1),
+        coinPrice,
+    }, { includeTransfers, source: sourceLabel });
+    const reconciliation = reconcileCoins(lots, data.crypto).map(c => ({
+        ...c,
+        coinId: c.coinId || coins[c.symbol]?.coinId,
+        name: c.assetId ? c.name : coins[c.symbol]?.name || c.name,
+    }));
+    const assetIdOf = (symbol: string) => reconciliation.find(c => c.symbol === symbol)?.assetId;
+    const fresh = lots.filter(l => !isRecordedLot(l, assetIdOf(l.symbol), data.trades));
+    const addedQuantity = (symbol: string) => fresh
+        .filter(l => l.symbol === symbol)
+        .reduce((sum, l) => sum + (l.side === 'buy' ? l.quantity : -l.quantity), 0);
+    const transfers = activities.filter(a => a.kind === 'deposit' || a.kind === 'withdrawal').length;
+
+    // Tickers -> CoinGecko ids (known holdings first), then the daily prices needed to value the file
+    const prepare = async (list: ExchangeActivity[]) => {
+        const symbols = new Set<string>();
+        list.forEach(a => {
+            symbols.add(a.asset);
+            if (a.quote && !isCash(a.quote)) symbols.add(a.quote);
+            if (a.feeAsset && !isCash(a.feeAsset)) symbols.add(a.feeAsset);
+        });
+
+        const resolved: Record<string, CoinInfo> = {};
+        for (const symbol of symbols) {
+            const held = data.crypto.find(c => c.symbol.toUpperCase() === symbol && c.coinId);
+            if (held) {
+                resolved[symbol] = { coinId: held.coinId!, name: held.name };
+                continue;
+            }
+            setProgress(`Looking up ${symbol}…`);
+            const match = (await searchCoinGecko(symbol)).find(c => c.symbol.toUpperCase() === symbol);
+            if (match) resolved[symbol] = { coinId: match.id, name: match.name };
+        }
+        setCoins(resolved);
+
+        const from = new Date(list.reduce((min, a) => a.date < min ? a.date : min, list[0].date));
+        const series: Record<string, PricePoint[]> = {};
+        for (const symbol of coinsToPrice(list)) {
+            if (!resolved[symbol]) continue;
+            setProgress(`Loading ${symbol} prices…`);
+            series[symbol] = await getCryptoHistory(resolved[symbol].coinId, from);
+        }
+        setHistory(series);
+        setProgress('');
+    };
+
+    const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+
+        const content = await file.text();
+        const detected = exchange === AUTO ? detectExchange(content) : exchange;
+        if (!detected) {
+            toast.error('Could not recognise the exchange. Choose it from the list and try again.');
+            return;
+        }
+
+        try {
+            const result = parseExchangeExport(detected, content);
+            if (result.activities.length === 0) {
+                toast.error('No trades, rewards or transfers found in the file');
+                return;
+            }
+            setSource(detected);
+            setActivities(result.activities);
+            setSkipped(result.skipped);
+            await prepare(result.activities);
+        } catch (error) {
+            console.error(error);
+            setProgress('');
+            toast.error('Could not read the exchange export');
+        }
+    };
+
+    const updateCoinId = (symbol: string, coinId: string) => {
+        setCoins(prev => ({ ...prev, [symbol]: { coinId: coinId.trim().toLowerCase(), name: prev[symbol]?.name || symbol } }));
+    };
+
+    const handleImport = async () => {
+        if (!source || fresh.length === 0) return;
+        if (reconciliation.some(c => !c.assetId && !c.coinId)) {
+            toast.error('Every new coin needs a CoinGecko ID');
+            return;
+        }
+        setIsImporting(true);
+        try {
+            // Stays open when the import was rejected, e.g. a sell without the shares
+            if (!(await importCryptoLots(reconciliation, fresh, sourceLabel))) return;
+            setOpen(false);
+            reset();
+        } finally {
+            setIsImporting(false);
+        }
+    };
+
+    return (
+        <Dialog open={open} onOpenChange={(val) => { if (!val) reset(); setOpen(val); }}>
+            <DialogTrigger asChild>
+                <Button variant="outline">
+                    <Upload className="h-4 w-4 mr-2" /> Import from Exchange
+                </Button>
+            </DialogTrigger>
+            <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+                <DialogHeader>
+                    <DialogTitle>Import Exchange Export</DialogTitle>
+                    <DialogDescription>
+                        Every trade and reward becomes a lot on the coin, valued in USD. Average buy price and fees are recalculated from the lots.
+                    </DialogDescription>
+                </DialogHeader>
+
+                {!source ? (
+                    <div className="space-y-4">
+                        <div className="space-y-2">
+                            <Label>Exchange</Label>
+                            <Select value={exchange} onValueChange={(v: Exchange | typeof AUTO) => setExchange(v)}>
+                                <SelectTrigger><SelectValue /></SelectTrigger>
+                                <SelectContent>
+                                    <SelectItem value={AUTO}>Detect automatically</SelectItem>
+                                    {EXCHANGES.map(e => <SelectItem key={e.value} value={e.value}>{e.label}</SelectItem>)}
+                                </SelectContent>
+                            </Select>
+                        </div>
+                        <ul className="text-xs text-muted-foreground space-y-1">
+                            {EXCHANGES.map(e => <li key={e.value}><span className="font-medium">{e.label}:</span> {e.hint}</li>)}
+                        </ul>
+                        <Button variant="outline" className="w-full h-24 border-dashed" asChild>
+                            <label className="cursor-pointer flex flex-col items-center justify-center gap-2">
+                                <Upload className="h-6 w-6 text-muted-foreground" />
+                                <span className="text-sm">Select export file</span>
+                                <input type="file" accept=".csv,.txt,text/csv" className="hidden" onChange={handleFile} />
+                            </label>
+                        </Button>
+                    </div>
+                ) : (
+                    <div className="space-y-4">
+                        <div className="flex flex-wrap items-center gap-4 text-sm">
+                            <span className="font-medium">{sourceLabel}</span>
+                            <span>{fresh.length} lots</span>
+                            {lots.length > fresh.length && <span className="text-muted-foreground">{lots.length - fresh.length} already recorded</span>}
+                            {skipped > 0 && <span className="text-muted-foreground">{skipped} rows ignored</span>}
+                            {unpriced.length > 0 && (
+                                <span className="flex items-center gap-1 text-warning">
+                                    <AlertTriangle className="h-4 w-4" /> {unpriced.length} without a price
+                                    <HelpTooltip content="No USD value could be found for these rows (no price history for the coin on that day). They are left out." />
+                                </span>
+                            )}
+                            {progress && <span className="flex items-center gap-1 text-muted-foreground"><Loader2 className="h-3.5 w-3.5 animate-spin" /> {progress}</span>}
+                        </div>
+
+                        {transfers > 0 && (
+                            <label className="flex items-center gap-2 text-sm cursor-pointer">
+                                <Checkbox checked={includeTransfers} onCheckedChange={(v) => setIncludeTransfers(!!v)} />
+                                Book {transfers} deposits / withdrawals as buys / sells at the market price
+                                <HelpTooltip content="Leave this off when the coins moved between your own wallets. Turn it on for coins that enter or leave your portfolio through the exchange." />
+                            </label>
+                        )}
+
+                        <div className="max-h-[400px] overflow-y-auto border rounded-md">
+                            <Table>
+                                <TableHeader>
+                                    <TableRow>
+                                        <TableHead>Coin</TableHead>
+                                        <TableHead>CoinGecko ID</TableHead>
+                                        <TableHead className="text-right">Lots</TableHead>
+                                        <TableHead className="text-right">In File</TableHead>
+                                        <TableHead className="text-right">In Assets</TableHead>
+                                        <TableHead className="text-right">After Import</TableHead>
+                                    </TableRow>
+                                </TableHeader>
+                                <TableBody>
+                                    {reconciliation.map(c => {
+                                        const after = c.currentQuantity + addedQuantity(c.symbol);
+                                        return (
+                                            <TableRow key={c.symbol}>
+                                                <TableCell className="py-2">
+                                                    <div className="font-medium text-sm">{c.symbol}</div>
+                                                    <div className="text-xs text-muted-foreground">{c.name}</div>
+                                                </TableCell>
+                                                <TableCell className="py-2">
+                                                    {c.assetId ? (
+                                                        <span className="text-sm">{c.coinId || '-'}</span>
+                                                    ) : (
+                                                        <div className="flex items-center gap-2">
+                                                            <Input className="h-7 w-32 text-xs" value={coins[c.symbol]?.coinId || ''} onChange={(e) => updateCoinId(c.symbol, e.target.value)} placeholder="e.g. bitcoin" />
+                                                            <span className="text-xs text-primary">New</span>
+                                                        </div>
+                                                    )}
+                                                </TableCell>
+                                                <TableCell className="py-2 text-right text-sm">{c.lots}</TableCell>
+                                                <TableCell className="py-2 text-right text-sm">{formatQuantity(c.importedQuantity)}</TableCell>
+                                                <TableCell className="py-2 text-right text-sm">{c.assetId ? formatQuantity(c.currentQuantity) : '-'}</TableCell>
+                                                <TableCell className={cn("py-2 text-right text-sm font-medium", after < -1e-8 && "text-destructive")}>
+                                                    {formatQuantity(after)}
+                                                </TableCell>
+                                            </TableRow>
+                                        );
+                                    })}
+                                </TableBody>
+                            </Table>
+                        </div>
+
+                        {fresh.some(l => l.fees > 0) && (
+                            <p className="text-xs text-muted-foreground">
+                                Fees of {formatCurrency(fresh.reduce((sum, l) => sum + l.fees, 0), 'USD')} are added to the lots and logged in Cash Flow.
+                            </p>
+                        )}
+
+                        <DialogFooter className="gap-2">
+                            <Button variant="ghost" onClick={reset}>Back</Button>
+                            <Button className="gradient-primary" onClick={handleImport} disabled={fresh.length === 0 || !!progress || isImporting}>
+                                {isImporting && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                                Import {fresh.length} Lots
+                            </Button>
+                        </DialogFooter>
+                    </div>
+                )}
+            </DialogContent>
+        </Dialog>
+    );
+}
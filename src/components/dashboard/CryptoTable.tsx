@@ -5,26 +5,30 @@ import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogTrigger } from '@/components/ui/dialog';
-import { Plus, Trash2, Bitcoin, RefreshCw, Loader2, Search, Pencil } from 'lucide-react';
+import { Plus, Trash2, Bitcoin, RefreshCw, Loader2, Search, Pencil, ArrowRightLeft, LineChart } from 'lucide-react';
 import { Command, CommandEmpty, CommandGroup, CommandInput, CommandItem, CommandList } from '@/components/ui/command';
 import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
-import type { CryptoHolding } from '@/types/finance';
+import type { CryptoHolding, Trade } from '@/types/finance';
 import { cn } from '@/lib/utils';
 import { getCryptoPrice, searchCoinGecko, getBatchCryptoPrices, type CoinResult } from '@/lib/api';
-import { formatDistanceToNow } from 'date-fns';
+import { replayTrades } from '@/lib/lots';
+import { format, formatDistanceToNow } from 'date-fns';
 import { toast } from 'sonner';
 import { useSettings } from '@/contexts/SettingsContext';
 import { HelpTooltip } from '@/components/ui/tooltip-helper';
+import { HoldingHistoryChart } from './HoldingHistoryChart';
 
 interface CryptoTableProps {
   holdings: CryptoHolding[];
+  trades: Trade[];
   onAdd: (holding: Omit<CryptoHolding, 'id' | 'createdAt' | 'updatedAt'>) => void;
   onUpdate: (id: string, updates: Partial<CryptoHolding>) => void;
   onDelete: (id: string) => void;
+  onAddTrade: (trade: Omit<Trade, 'id' | 'createdAt'>) => Promise<boolean>;
 }
 
-export function CryptoTable({ holdings, onAdd, onUpdate, onDelete }: CryptoTableProps) {
-  const { formatCurrency, isPrivacyMode } = useSettings();
+export function CryptoTable({ holdings, trades, onAdd, onUpdate, onDelete, onAddTrade }: CryptoTableProps) {
+  const { formatCurrency, isPrivacyMode, costBasisMethod } = useSettings();
   const [open, setOpen] = useState(false);
   const [isUpdating, setIsUpdating] = useState(false);
   const [isAdding, setIsAdding] = useState(false);
@@ -36,6 +40,11 @@ export function CryptoTable({ holdings, onAdd, onUpdate, onDelete }: CryptoTable
   const [isSearching, setIsSearching] = useState(false);
   const [editId, setEditId] = useState<string | null>(null);
 
+  // Trade (buy / sell) dialog
+  const [tradeHolding, setTradeHolding] = useState<CryptoHolding | null>(null);
+  const [chartHolding, setChartHolding] = useState<CryptoHolding | null>(null);
+  const [tradeForm, setTradeForm] = useState({ side: 'sell' as Trade['side'], date: format(new Date(), 'yyyy-MM-dd'), quantity: 0, price: 0, fees: 0 });
+
   const [form, setForm] = useState({
     symbol: '',
     name: '',
@@ -236,6 +245,37 @@ export function CryptoTable({ holdings, onAdd, onUpdate, onDelete }: CryptoTable
     }
   }, []);
 
+  const openTradeDialog = (h: CryptoHolding) => {
+    setTradeForm({ side: 'sell', date: format(new Date(), 'yyyy-MM-dd'), quantity: 0, price: h.currentPrice || 0, fees: 0 });
+    setTradeHolding(h);
+  };
+
+  // Sells are checked against the ledger when saving, later sells included
+  const handleTradeSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!tradeHolding) return;
+    const saved = await onAddTrade({
+      assetId: tradeHolding.id,
+      side: tradeForm.side,
+      quantity: tradeForm.quantity,
+      price: tradeForm.price,
+      fees: tradeForm.fees,
+      date: tradeForm.date
+    });
+    if (!saved) return;
+    toast.success(tradeForm.side === 'buy' ? `Buy of ${tradeHolding.symbol} recorded` : `Sale of ${tradeHolding.symbol} recorded`);
+    setTradeHolding(null);
+  };
+
+  // Preview of the sale against the open lots, using the profile's cost-basis method
+  const salePreview = (() => {
+    if (!tradeHolding || tradeForm.side !== 'sell' || tradeForm.quantity <= 0) return null;
+    return replayTrades([
+      ...trades.filter(t => t.assetId === tradeHolding.id),
+      { id: 'preview', assetId: tradeHolding.id, side: 'sell', quantity: tradeForm.quantity, price: tradeForm.price, fees: tradeForm.fees, date: tradeForm.date, createdAt: new Date().toISOString() }
+    ], costBasisMethod).sales.find(s => s.tradeId === 'preview') || null;
+  })();
+
   const getGainLoss = (h: CryptoHolding) => {
     const costBasis = h.quantity * h.avgBuyPrice;
     const currentValue = h.quantity * h.currentPrice;
@@ -401,6 +441,92 @@ export function CryptoTable({ holdings, onAdd, onUpdate, onDelete }: CryptoTable
               </form>
             </DialogContent>
           </Dialog>
+
+          {/* Record Trade (Buy / Sell) */}
+          <Dialog open={!!tradeHolding} onOpenChange={(val) => { if (!val) setTradeHolding(null); }}>
+            <DialogContent className="max-w-md">
+              <DialogHeader>
+                <DialogTitle>Record Trade{tradeHolding ? ` · ${tradeHolding.symbol}` : ''}</DialogTitle>
+                <DialogDescription>
+                  {tradeForm.side === 'buy'
+                    ? 'Record a new buy. Quantity and average buy price are recalculated from all lots.'
+                    : `Record a sale. Open lots are closed using the ${costBasisMethod.toUpperCase()} method set in Settings.`}
+                </DialogDescription>
+              </DialogHeader>
+              <form onSubmit={handleTradeSubmit} className="space-y-4">
+                <div className="flex gap-2">
+                  <Button type="button" variant={tradeForm.side === 'buy' ? 'default' : 'outline'} size="sm" onClick={() => setTradeForm({ ...tradeForm, side: 'buy' })} className="flex-1">
+                    Buy
+                  </Button>
+                  <Button type="button" variant={tradeForm.side === 'sell' ? 'default' : 'outline'} size="sm" onClick={() => setTradeForm({ ...tradeForm, side: 'sell' })} className="flex-1">
+                    Sell
+                  </Button>
+                </div>
+                <div className="grid grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label>Date</Label>
+                    <Input type="date" value={tradeForm.date} onChange={(e) => setTradeForm({ ...tradeForm, date: e.target.value })} required />
+                  </div>
+                  <div className="space-y-2">
+                    <Label>Quantity</Label>
+                    <Input type="number" step="any" min="0" value={tradeForm.quantity} onChange={(e) => setTradeForm({ ...tradeForm, quantity: +e.target.value })} required />
+                  </div>
+                </div>
+                <div className="grid grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label>Price (USD)</Label>
+                    <Input type="number" step="any" value={tradeForm.price} onChange={(e) => setTradeForm({ ...tradeForm, price: +e.target.value })} required />
+                  </div>
+                  <div className="space-y-2">
+                    <Label>Fees (USD)</Label>
+                    <Input type="number" step="any" value={tradeForm.fees} onChange={(e) => setTradeForm({ ...tradeForm, fees: +e.target.value })} />
+                  </div>
+                </div>
+                {salePreview && (
+                  <div className="p-3 bg-muted/50 rounded-lg border text-sm space-y-1">
+                    <div className="flex justify-between">
+                      <span className="text-muted-foreground">Net Proceeds</span>
+                      <span className="font-mono">{formatCurrency(salePreview.proceeds, 'USD')}</span>
+                    </div>
+                    <div className="flex justify-between">
+                      <span className="text-muted-foreground">Cost Basis Closed</span>
+                      <span className="font-mono">{formatCurrency(salePreview.costBasis, 'USD')}</span>
+                    </div>
+                    <div className="flex justify-between font-medium">
+                      <span>Realized P/L</span>
+                      <span className={cn("font-mono", salePreview.gain >= 0 ? 'text-success' : 'text-destructive')}>{formatCurrency(salePreview.gain, 'USD')}</span>
+                    </div>
+                  </div>
+                )}
+                <Button type="submit" className="w-full gradient-primary" disabled={tradeForm.quantity <= 0}>
+                  {tradeForm.side === 'buy' ? 'Record Buy' : 'Record Sale'}
+                </Button>
+              </form>
+            </DialogContent>
+          </Dialog>
+
+          {/* Price & Value History */}
+          <Dialog open={!!chartHolding} onOpenChange={(val) => { if (!val) setChartHolding(null); }}>
+            <DialogContent className="max-w-2xl">
+              <DialogHeader>
+                <DialogTitle>History{chartHolding ? ` · ${chartHolding.symbol}` : ''}</DialogTitle>
+                <DialogDescription>Daily price and position value. Dots mark your buys and sells.</DialogDescription>
+              </DialogHeader>
+              {chartHolding && (
+                chartHolding.coinId ? (
+                  <HoldingHistoryChart
+                    symbol={chartHolding.coinId}
+                    kind="crypto"
+                    currency="USD"
+                    trades={trades.filter(t => t.assetId === chartHolding.id)}
+                    currentPrice={chartHolding.currentPrice}
+                  />
+                ) : (
+                  <div className="text-sm text-muted-foreground">Link this holding to a CoinGecko coin to track its price history.</div>
+                )
+              )}
+            </DialogContent>
+          </Dialog>
         </div>
       </CardHeader>
       <CardContent className={cn(isPrivacyMode && "blur-sm select-none pointer-events-none")}>
@@ -421,6 +547,12 @@ export function CryptoTable({ holdings, onAdd, onUpdate, onDelete }: CryptoTable
                     Gain/Loss
                     <HelpTooltip content="The theoretical profit or loss you would make if you sold your investments right now at the current market price (Unrealized P&L)." side="left" />
                   </TableHead>
+                  <TableHead className="text-right hidden md:table-cell">
+                    <span className="inline-flex items-center gap-1">
+                      Realized
+                      <HelpTooltip content="Profit or loss locked in by sells, net of fees, using the cost-basis method set in Settings." side="left" />
+                    </span>
+                  </TableHead>
                   <TableHead></TableHead>
                 </TableRow>
               </TableHeader>
@@ -447,8 +579,17 @@ export function CryptoTable({ holdings, onAdd, onUpdate, onDelete }: CryptoTable
                       <TableCell className={cn('text-right font-medium', gain >= 0 ? 'text-success' : 'text-destructive')}>
                         {isPrivacyMode ? "****" : formatCurrency(gain, 'USD')} ({percent.toFixed(1)}%)
                       </TableCell>
+                      <TableCell className={cn('text-right hidden md:table-cell', h.realizedGain ? (h.realizedGain >= 0 ? 'text-success' : 'text-destructive') : 'text-muted-foreground')}>
+                        {!h.realizedGain ? '-' : (isPrivacyMode ? "****" : formatCurrency(h.realizedGain, 'USD'))}
+                      </TableCell>
                       <TableCell>
                         <div className="flex justify-end gap-1">
+                          <Button variant="ghost" size="icon" onClick={() => setChartHolding(h)} title="Price history">
+                            <LineChart className="h-4 w-4 text-muted-foreground" />
+                          </Button>
+                          <Button variant="ghost" size="icon" onClick={() => openTradeDialog(h)} title="Buy / Sell">
+                            <ArrowRightLeft className="h-4 w-4 text-muted-foreground" />
+                          </Button>
                           <Button variant="ghost" size="icon" onClick={() => handleEdit(h)}>
                             <Pencil className="h-4 w-4 text-muted-foreground" />
                           </Button>
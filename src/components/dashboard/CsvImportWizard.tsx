@@ -0,0 +1,491 @@
+import { useState } from 'react';
+import { format } from 'date-fns';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter, DialogTrigger } from '@/components/ui/dialog';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { HelpTooltip } from '@/components/ui/tooltip-helper';
+import { FileUp, Trash2, AlertTriangle } from 'lucide-react';
+import { toast } from 'sonner';
+import { useFinance } from '@/contexts/FinanceContext';
+import { useSettings } from '@/contexts/SettingsContext';
+import { applyCsvMapping, DATE_FORMATS, DEFAULT_CSV_MAPPING, detectDelimiter, parseCsv, type MappedRow } from '@/lib/csvImport';
+import { detectStatementFormat, parseStatement, type ParsedStatement } from '@/lib/statementImport';
+import { findDuplicateOf } from '@/lib/duplicates';
+import { applyRules } from '@/lib/categoryRules';
+import type { CsvMapping, Transaction } from '@/types/finance';
+import { cn } from '@/lib/utils';
+import { defaultAccount } from '@/lib/accounts';
+import { CategorySelectItems } from './CategoryBadge';
+import { AccountSelect } from './AccountSelect';
+
+type Step = 'upload' | 'mapping' | 'preview';
+
+const NONE = '-1';
+
+const SIGN_CONVENTIONS: { value: CsvMapping['signConvention']; label: string }[] = [
+    { value: 'negative_is_expense', label: 'Negative amounts are expenses' },
+    { value: 'positive_is_expense', label: 'Positive amounts are expenses' },
+    { value: 'debit_credit_columns', label: 'Separate debit and credit columns' },
+    { value: 'type_column', label: 'A column marks debit / credit' },
+];
+
+const DELIMITERS: { value: CsvMapping['delimiter']; label: string }[] = [
+    { value: ',', label: 'Comma (,)' },
+    { value: ';', label: 'Semicolon (;)' },
+    { value: '\t', label: 'Tab' },
+    { value: '|', label: 'Pipe (|)' },
+];
+
+export function CsvImportWizard() {
+    const { data, addTransactions, saveImportProfile, deleteImportProfile, reconcileAccount } = useFinance();
+    const { formatCurrency } = useSettings();
+
+    const [open, setOpen] = useState(false);
+    const [step, setStep] = useState<Step>('upload');
+    const [fileName, setFileName] = useState('');
+    const [text, setText] = useState('');
+    const [mapping, setMapping] = useState<CsvMapping>(DEFAULT_CSV_MAPPING);
+    const [profileName, setProfileName] = useState('');
+    const [saveProfile, setSaveProfile] = useState(true);
+    const [excluded, setExcluded] = useState<Set<number>>(new Set());
+    const [isImporting, setIsImporting] = useState(false);
+    const [statement, setStatement] = useState<ParsedStatement | null>(null);
+    const [accountId, setAccountId] = useState('');
+    const [reconcile, setReconcile] = useState(true);
+
+    const profiles = data.importProfiles || [];
+    const target = accountId || defaultAccount(data.liquidity)?.id;
+    const targetAccount = data.liquidity.find(a => a.id === target);
+    // Rows are in the statement's currency; CSV files don't state one, so they take the account's
+    const currency = statement?.currency || targetAccount?.currency;
+    const currencyMismatch = !!statement?.currency && !!targetAccount?.currency && statement.currency !== targetAccount.currency;
+    const parsed = text ? parseCsv(text, mapping) : { headers: [], rows: [] };
+    // The user's category rules take over from the file's / default category
+    const mapped: MappedRow[] = (step !== 'preview' ? []
+        : statement ? statement.transactions.map((t, i) => ({ line: i + 1, raw: [], transaction: t }))
+        : applyCsvMapping(parsed, mapping)
+    ).map(row => row.transaction ? { ...row, transaction: applyRules({ ...row.transaction, currency: row.transaction.currency || currency }, data.categoryRules) } : row);
+    const knownIds = new Set(data.transactions.map(t => t.externalId).filter(Boolean));
+    const isKnown = (row: MappedRow) => !!row.transaction?.externalId && knownIds.has(row.transaction.externalId);
+    // Same payment already booked: from an overlapping statement or entered by hand
+    const duplicateOf = (row: MappedRow) => row.transaction ? findDuplicateOf(row.transaction, data.transactions) : undefined;
+    const duplicateLines = (rows: MappedRow[]) => new Set(rows.filter(r => duplicateOf(r)).map(r => r.line));
+    const matches = new Map(mapped.map(r => [r.line, duplicateOf(r)]));
+    const duplicates = mapped.filter(r => !isKnown(r) && matches.get(r.line)).length;
+    const describeMatch = (t: Transaction) => `Matches ${t.date} · ${t.description || t.category} · ${formatCurrency(t.amount, t.currency, t.date)}`;
+    const valid = mapped.filter(r => r.transaction && !excluded.has(r.line));
+    const invalid = mapped.filter(r => !r.transaction);
+
+    const reset = () => {
+        setStep('upload');
+        setFileName('');
+        setText('');
+        setMapping(DEFAULT_CSV_MAPPING);
+        setProfileName('');
+        setExcluded(new Set());
+        setStatement(null);
+        setAccountId('');
+        setReconcile(true);
+    };
+
+    const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+        const content = await file.text();
+        setFileName(file.name);
+
+        // OFX / QFX and CAMT.053 carry their own structure: skip the column mapping
+        if (detectStatementFormat(content)) {
+            try {
+                const result = parseStatement(content)!;
+                if (result.transactions.length === 0) {
+                    toast.error('No booked transactions found in the statement');
+                    return;
+                }
+                const account = matchAccount(result);
+                const rowCurrency = result.currency || (account || defaultAccount(data.liquidity))?.currency;
+                setStatement(result);
+                setExcluded(duplicateLines(result.transactions.map((t, i) => ({ line: i + 1, raw: [], transaction: { ...t, currency: t.currency || rowCurrency } }))));
+                setAccountId(account?.id ?? '');
+                setStep('preview');
+            } catch (error) {
+                console.error(error);
+                toast.error('Could not read the statement file');
+            }
+            return;
+        }
+
+        setText(content);
+        // A chosen profile keeps its delimiter; otherwise guess it
+        if (!profileName) setMapping(prev => ({ ...prev, delimiter: detectDelimiter(content) }));
+        setStep('mapping');
+    };
+
+    // Account whose name mentions the statement's IBAN / account number (or its last 4 digits)
+    const matchAccount = (result: ParsedStatement) => {
+        const id = result.accountId?.replace(/\s/g, '').toUpperCase();
+        if (!id) return undefined;
+        return data.liquidity.find(acc => {
+            const name = acc.name.replace(/\s/g, '').toUpperCase();
+            return name.includes(id) || (id.length >= 4 && name.includes(id.slice(-4)));
+        });
+    };
+
+    const handleSelectProfile = (id: string) => {
+        const profile = profiles.find(p => p.id === id);
+        if (!profile) return;
+        setMapping({ ...DEFAULT_CSV_MAPPING, ...profile.mapping });
+        setProfileName(profile.name);
+    };
+
+    const update = (changes: Partial<CsvMapping>) => setMapping(prev => ({ ...prev, ...changes }));
+
+    const toggleRow = (line: number) => {
+        setExcluded(prev => {
+            const next = new Set(prev);
+            if (next.has(line)) next.delete(line);
+            else next.add(line);
+            return next;
+        });
+    };
+
+    const targetName = targetAccount?.name;
+    const reconciles = !!statement && statement.closingBalance !== undefined && !!target && reconcile;
+
+    const handleImport = async () => {
+        if (valid.length === 0 && !reconciles) return;
+        setIsImporting(true);
+        try {
+            const rows = valid.map(r => ({ ...r.transaction!, accountId: target }));
+            const count = await addTransactions(rows);
+            if (reconciles) {
+                // Rows already imported before are in the balance; the rest were just added
+                const added = count > 0 ? rows.filter(t => !t.externalId || !knownIds.has(t.externalId)) : [];
+                const date = statement!.balanceDate || rows.map(t => t.date).sort().pop() || format(new Date(), 'yyyy-MM-dd');
+                await reconcileAccount(target!, date, statement!.closingBalance!, false, added);
+            }
+            if (count > 0 && !statement && saveProfile && profileName.trim()) {
+                await saveImportProfile(profileName.trim(), mapping);
+            }
+            if (count > 0 || statement) {
+                setOpen(false);
+                reset();
+            }
+        } finally {
+            setIsImporting(false);
+        }
+    };
+
+    const columnSelect = (label: string, value: number | undefined, onChange: (column: number | undefined) => void, optional = true) => (
+        <div className="space-y-2">
+            <Label>{label}</Label>
+            <Select value={value === undefined ? NONE : String(value)} onValueChange={(v) => onChange(v === NONE ? undefined : Number(v))}>
+                <SelectTrigger><SelectValue /></SelectTrigger>
+                <SelectContent>
+                    {optional && <SelectItem value={NONE}>—</SelectItem>}
+                    {parsed.headers.map((h, i) => (
+                        <SelectItem key={i} value={String(i)}>{h || `Column ${i + 1}`}</SelectItem>
+                    ))}
+                </SelectContent>
+            </Select>
+        </div>
+    );
+
+    const sample = parsed.rows[0] || [];
+
+    return (
+        <Dialog open={open} onOpenChange={(val) => { if (!val) reset(); setOpen(val); }}>
+            <DialogTrigger asChild>
+                <Button variant="outline">
+                    <FileUp className="h-4 w-4 mr-2" /> Import Statement
+                </Button>
+            </DialogTrigger>
+            <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+                <DialogHeader>
+                    <DialogTitle>Import Bank Statement</DialogTitle>
+                    <DialogDescription>
+                        {step === 'upload' && 'Upload a CSV, OFX / QFX or CAMT.053 export. For CSV files you can pick a saved bank profile first.'}
+                        {step === 'mapping' && `Map the columns of ${fileName} to transaction fields.`}
+                        {step === 'preview' && 'Check the rows before importing. Untick a row to skip it.'}
+                    </DialogDescription>
+                </DialogHeader>
+
+                {step === 'upload' && (
+                    <div className="space-y-4">
+                        {profiles.length > 0 && (
+                            <div className="space-y-2">
+                                <Label>Bank Profile</Label>
+                                <div className="space-y-1">
+                                    {profiles.map(p => (
+                                        <div key={p.id} className={cn("flex items-center justify-between rounded-md border px-3 py-2 text-sm cursor-pointer", profileName === p.name && "border-primary bg-primary/10")} onClick={() => handleSelectProfile(p.id)}>
+                                            <span>{p.name}</span>
+                                            <Button variant="ghost" size="icon" className="h-6 w-6" onClick={(e) => { e.stopPropagation(); deleteImportProfile(p.id); }} title="Delete profile">
+                                                <Trash2 className="h-3.5 w-3.5 text-destructive" />
+                                            </Button>
+                                        </div>
+                                    ))}
+                                </div>
+                            </div>
+                        )}
+                        <Button variant="outline" className="w-full h-24 border-dashed" asChild>
+                            <label className="cursor-pointer flex flex-col items-center justify-center gap-2">
+                                <FileUp className="h-6 w-6 text-muted-foreground" />
+                                <span className="text-sm">Select statement file</span>
+                                <input type="file" accept=".csv,.txt,.ofx,.qfx,.xml,.053,text/csv" className="hidden" onChange={handleFile} />
+                            </label>
+                        </Button>
+                    </div>
+                )}
+
+                {step === 'mapping' && (
+                    <div className="space-y-4">
+                        <div className="grid grid-cols-3 gap-4">
+                            <div className="space-y-2">
+                                <Label>Delimiter</Label>
+                                <Select value={mapping.delimiter} onValueChange={(v: CsvMapping['delimiter']) => update({ delimiter: v })}>
+                                    <SelectTrigger><SelectValue /></SelectTrigger>
+                                    <SelectContent>
+                                        {DELIMITERS.map(d => <SelectItem key={d.label} value={d.value}>{d.label}</SelectItem>)}
+                                    </SelectContent>
+                                </Select>
+                            </div>
+                            <div className="space-y-2">
+                                <Label className="flex items-center gap-1">
+                                    Skip Lines
+                                    <HelpTooltip content="Lines before the header, e.g. account details some banks put at the top." />
+                                </Label>
+                                <Input type="number" min="0" value={mapping.skipRows} onChange={(e) => update({ skipRows: Math.max(0, +e.target.value) })} />
+                            </div>
+                            <div className="flex items-end pb-2">
+                                <label className="flex items-center gap-2 text-sm cursor-pointer">
+                                    <Checkbox checked={mapping.hasHeader} onCheckedChange={(v) => update({ hasHeader: !!v })} />
+                                    First line is a header
+                                </label>
+                            </div>
+                        </div>
+
+                        <div className="grid grid-cols-3 gap-4">
+                            {columnSelect('Date', mapping.dateColumn, (c) => update({ dateColumn: c ?? 0 }), false)}
+                            <div className="space-y-2">
+                                <Label>Date Format</Label>
+                                <Select value={mapping.dateFormat} onValueChange={(v) => update({ dateFormat: v })}>
+                                    <SelectTrigger><SelectValue /></SelectTrigger>
+                                    <SelectContent>
+                                        {DATE_FORMATS.map(f => <SelectItem key={f.value} value={f.value}>{f.label}</SelectItem>)}
+                                    </SelectContent>
+                                </Select>
+                            </div>
+                            <div className="space-y-2">
+                                <Label>Decimal Separator</Label>
+                                <Select value={mapping.decimalSeparator} onValueChange={(v: CsvMapping['decimalSeparator']) => update({ decimalSeparator: v })}>
+                                    <SelectTrigger><SelectValue /></SelectTrigger>
+                                    <SelectContent>
+                                        <SelectItem value=".">Point (1,234.56)</SelectItem>
+                                        <SelectItem value=",">Comma (1.234,56)</SelectItem>
+                                    </SelectContent>
+                                </Select>
+                            </div>
+                        </div>
+
+                        <div className="space-y-2">
+                            <Label>Sign Convention</Label>
+                            <Select value={mapping.signConvention} onValueChange={(v: CsvMapping['signConvention']) => update({ signConvention: v })}>
+                                <SelectTrigger><SelectValue /></SelectTrigger>
+                                <SelectContent>
+                                    {SIGN_CONVENTIONS.map(s => <SelectItem key={s.value} value={s.value}>{s.label}</SelectItem>)}
+                                </SelectContent>
+                            </Select>
+                        </div>
+
+                        <div className="grid grid-cols-3 gap-4">
+                            {mapping.signConvention === 'debit_credit_columns' ? (
+                                <>
+                                    {columnSelect('Debit (out)', mapping.debitColumn, (c) => update({ debitColumn: c }))}
+                                    {columnSelect('Credit (in)', mapping.creditColumn, (c) => update({ creditColumn: c }))}
+                                </>
+                            ) : (
+                                columnSelect('Amount', mapping.amountColumn, (c) => update({ amountColumn: c }))
+                            )}
+                            {mapping.signConvention === 'type_column' && (
+                                <>
+                                    {columnSelect('Debit / Credit Marker', mapping.typeColumn, (c) => update({ typeColumn: c }))}
+                                    <div className="space-y-2">
+                                        <Label className="flex items-center gap-1">
+                                            Expense Markers
+                                            <HelpTooltip content="Comma-separated values of the marker column that mean money went out." />
+                                        </Label>
+                                        <Input
+                                            value={(mapping.expenseMarkers || ['D', 'DEBIT', 'DBIT', 'OUT']).join(', ')}
+                                            onChange={(e) => update({ expenseMarkers: e.target.value.split(',').map(m => m.trim()).filter(Boolean) })}
+                                        />
+                                    </div>
+                                </>
+                            )}
+                            {columnSelect('Category', mapping.categoryColumn, (c) => update({ categoryColumn: c }))}
+                        </div>
+
+                        <div className="space-y-2">
+                            <Label>Description Columns</Label>
+                            <div className="flex flex-wrap gap-2">
+                                {parsed.headers.map((h, i) => (
+                                    <label key={i} className="flex items-center gap-1.5 text-xs border rounded-md px-2 py-1 cursor-pointer">
+                                        <Checkbox
+                                            checked={mapping.descriptionColumns.includes(i)}
+                                            onCheckedChange={(v) => update({
+                                                descriptionColumns: v ? [...mapping.descriptionColumns, i].sort((a, b) => a - b) : mapping.descriptionColumns.filter(c => c !== i)
+                                            })}
+                                        />
+                                        {h || `Column ${i + 1}`}
+                                        {sample[i] && <span className="text-muted-foreground truncate max-w-[120px]">({sample[i]})</span>}
+                                    </label>
+                                ))}
+                            </div>
+                        </div>
+
+                        <div className="grid grid-cols-2 gap-4">
+                            <div className="space-y-2">
+                                <Label>Default Income Category</Label>
+                                <Select value={mapping.defaultIncomeCategory} onValueChange={(v) => update({ defaultIncomeCategory: v })}>
+                                    <SelectTrigger><SelectValue /></SelectTrigger>
+                                    <SelectContent>
+                                        <CategorySelectItems type="income" current={mapping.defaultIncomeCategory} />
+                                    </SelectContent>
+                                </Select>
+                            </div>
+                            <div className="space-y-2">
+                                <Label>Default Expense Category</Label>
+                                <Select value={mapping.defaultExpenseCategory} onValueChange={(v) => update({ defaultExpenseCategory: v })}>
+                                    <SelectTrigger><SelectValue /></SelectTrigger>
+                                    <SelectContent>
+                                        <CategorySelectItems type="expense" current={mapping.defaultExpenseCategory} />
+                                    </SelectContent>
+                                </Select>
+                            </div>
+                        </div>
+
+                        <DialogFooter className="gap-2">
+                            <Button variant="ghost" onClick={() => setStep('upload')}>Back</Button>
+                            <Button
+                                className="gradient-primary"
+                                onClick={() => {
+                                    if (mapping.signConvention === 'debit_credit_columns' ? mapping.debitColumn === undefined && mapping.creditColumn === undefined : mapping.amountColumn === undefined) {
+                                        toast.error('Choose the amount column(s) first');
+                                        return;
+                                    }
+                                    setExcluded(duplicateLines(applyCsvMapping(parsed, mapping)));
+                                    setStep('preview');
+                                }}
+                            >
+                                Preview
+                            </Button>
+                        </DialogFooter>
+                    </div>
+                )}
+
+                {step === 'preview' && (
+                    <div className="space-y-4">
+                        <div className="flex items-center gap-4 text-sm">
+                            <span><span className="font-medium">{valid.length}</span> to import</span>
+                            {statement && (
+                                <span className="text-muted-foreground">
+                                    {statement.format === 'ofx' ? 'OFX' : 'CAMT.053'}{statement.accountId ? ` · ${statement.accountId}` : ''}
+                                </span>
+                            )}
+                            {duplicates > 0 && (
+                                <span className="text-muted-foreground">{duplicates} possible duplicates unchecked</span>
+                            )}
+                            {invalid.length > 0 && (
+                                <span className="flex items-center gap-1 text-warning">
+                                    <AlertTriangle className="h-4 w-4" /> {invalid.length} unreadable
+                                </span>
+                            )}
+                        </div>
+
+                        <div className="max-h-[400px] overflow-y-auto border rounded-md">
+                            <Table>
+                                <TableHeader>
+                                    <TableRow>
+                                        <TableHead className="w-8"></TableHead>
+                                        <TableHead>Date</TableHead>
+                                        <TableHead>Description</TableHead>
+                                        <TableHead>Category</TableHead>
+                                        <TableHead className="text-right">Amount</TableHead>
+                                    </TableRow>
+                                </TableHeader>
+                                <TableBody>
+                                    {mapped.map(row => row.transaction ? (
+                                        <TableRow key={row.line} className={cn(excluded.has(row.line) && "opacity-50")}>
+                                            <TableCell className="py-1.5">
+                                                <Checkbox checked={!excluded.has(row.line)} onCheckedChange={() => toggleRow(row.line)} />
+                                            </TableCell>
+                                            <TableCell className="py-1.5 text-xs whitespace-nowrap">{format(new Date(row.transaction.date), 'MMM dd, yyyy')}</TableCell>
+                                            <TableCell className="py-1.5 text-xs max-w-[260px] truncate">
+                                                {isKnown(row)
+                                                    ? <span className="text-muted-foreground mr-1">[already imported]</span>
+                                                    : matches.get(row.line) && (
+                                                        <span className="text-warning mr-1" title={describeMatch(matches.get(row.line)!)}>[possible duplicate]</span>
+                                                    )}
+                                                {row.transaction.description || '-'}
+                                            </TableCell>
+                                            <TableCell className="py-1.5 text-xs">{row.transaction.category}</TableCell>
+                                            <TableCell className={cn("py-1.5 text-xs text-right font-medium", row.transaction.type === 'income' ? 'text-green-500' : 'text-red-500')}>
+                                                {row.transaction.type === 'income' ? '+' : '-'}{formatCurrency(row.transaction.amount, row.transaction.currency)}
+                                            </TableCell>
+                                        </TableRow>
+                                    ) : (
+                                        <TableRow key={row.line} className="text-muted-foreground">
+                                            <TableCell className="py-1.5"><AlertTriangle className="h-3.5 w-3.5 text-warning" /></TableCell>
+                                            <TableCell colSpan={4} className="py-1.5 text-xs">Line {row.line}: {row.error}</TableCell>
+                                        </TableRow>
+                                    ))}
+                                </TableBody>
+                            </Table>
+                        </div>
+
+                        <div className="flex items-center gap-3">
+                            <Label className="whitespace-nowrap">Import into</Label>
+                            <AccountSelect value={accountId} onChange={setAccountId} className="h-8" />
+                        </div>
+                        {currencyMismatch && (
+                            <p className="flex items-center gap-1 text-sm text-warning">
+                                <AlertTriangle className="h-4 w-4" />
+                                The statement is in {statement!.currency} but {targetName} is kept in {targetAccount!.currency}: the rows are imported in {statement!.currency} and converted for the balance.
+                            </p>
+                        )}
+
+                        {statement ? (
+                            statement.closingBalance !== undefined && target && (
+                                <div className="flex items-center gap-3">
+                                    <Checkbox id="reconcile" checked={reconcile} onCheckedChange={(v) => setReconcile(!!v)} />
+                                    <Label htmlFor="reconcile" className="flex items-center gap-1">
+                                        Reconcile {targetName} with the closing balance {formatCurrency(statement.closingBalance, statement.currency)}
+                                        {statement.balanceDate && ` on ${format(new Date(statement.balanceDate), 'MMM dd, yyyy')}`}
+                                        <HelpTooltip content="Records the bank's closing balance next to the balance derived from the account's transactions, so differences show up on the account." />
+                                    </Label>
+                                </div>
+                            )
+                        ) : (
+                            <div className="flex items-center gap-3">
+                                <Checkbox id="save-profile" checked={saveProfile} onCheckedChange={(v) => setSaveProfile(!!v)} />
+                                <Label htmlFor="save-profile" className="whitespace-nowrap">Save mapping as</Label>
+                                <Input className="h-8" placeholder="Bank name, e.g. ING Checking" value={profileName} onChange={(e) => setProfileName(e.target.value)} disabled={!saveProfile} />
+                            </div>
+                        )}
+
+                        <DialogFooter className="gap-2">
+                            <Button variant="ghost" onClick={() => statement ? reset() : setStep('mapping')}>Back</Button>
+                            <Button className="gradient-primary" onClick={handleImport} disabled={(valid.length === 0 && !reconciles) || isImporting}>
+                                Import {valid.length} Transactions
+                            </Button>
+                        </DialogFooter>
+                    </div>
+                )}
+            </DialogContent>
+        </Dialog>
+    );
+}
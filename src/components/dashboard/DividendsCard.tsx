@@ -0,0 +1,229 @@
+import { useState } from 'react';
+import { format } from 'date-fns';
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogTrigger } from '@/components/ui/dialog';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { HelpTooltip } from '@/components/ui/tooltip-helper';
+import { Coins, Plus, Trash2 } from 'lucide-react';
+import { useFinance } from '@/contexts/FinanceContext';
+import { useSettings } from '@/contexts/SettingsContext';
+import { getDividendYields, getMonthlyDividendIncome } from '@/lib/dividends';
+import { cn } from '@/lib/utils';
+
+export function DividendsCard() {
+    const { data, addDividend, deleteDividend } = useFinance();
+    const { formatCurrency, convertCurrency, isPrivacyMode, currencySymbol } = useSettings();
+    const [open, setOpen] = useState(false);
+    const [form, setForm] = useState({
+        assetId: '',
+        payDate: format(new Date(), 'yyyy-MM-dd'),
+        grossAmount: 0,
+        withholdingTax: 0,
+        currency: 'USD',
+    });
+
+    const investments = data.investments;
+    const dividends = data.dividends || [];
+    const yields = getDividendYields(investments, dividends, convertCurrency);
+    const monthly = getMonthlyDividendIncome(dividends, 12, convertCurrency);
+    const payers = investments.filter(inv => yields.byAsset[inv.id]?.ttmGross > 0);
+
+    const handleSelectAsset = (assetId: string) => {
+        const inv = investments.find(i => i.id === assetId);
+        setForm({ ...form, assetId, currency: inv?.currency || form.currency });
+    };
+
+    const handleSubmit = (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!form.assetId) return;
+        addDividend({
+            assetId: form.assetId,
+            grossAmount: form.grossAmount,
+            withholdingTax: form.withholdingTax,
+            netAmount: form.grossAmount - form.withholdingTax,
+            currency: form.currency,
+            payDate: form.payDate,
+        });
+        setForm({ ...form, grossAmount: 0, withholdingTax: 0 });
+        setOpen(false);
+    };
+
+    const symbolOf = (assetId: string) => investments.find(i => i.id === assetId)?.symbol || '—';
+
+    return (
+        <Card className="glass-card">
+            <CardHeader className="flex flex-row items-center justify-between">
+                <CardTitle className="text-lg font-semibold flex items-center gap-2">
+                    <Coins className="h-5 w-5 text-primary" />
+                    Dividends
+                </CardTitle>
+                <Dialog open={open} onOpenChange={setOpen}>
+                    <DialogTrigger asChild>
+                        <Button size="sm" className={cn("gradient-primary", isPrivacyMode && "blur-sm select-none pointer-events-none")} disabled={investments.length === 0}>
+                            <Plus className="h-4 w-4 mr-1" /> Add
+                        </Button>
+                    </DialogTrigger>
+                    <DialogContent className="max-w-md">
+                        <DialogHeader>
+                            <DialogTitle>Record Dividend</DialogTitle>
+                            <DialogDescription>The net amount is also booked as income in Cash Flow.</DialogDescription>
+                        </DialogHeader>
+                        <form onSubmit={handleSubmit} className="space-y-4">
+                            <div className="space-y-2">
+                                <Label>Holding</Label>
+                                <Select value={form.assetId} onValueChange={handleSelectAsset}>
+                                    <SelectTrigger><SelectValue placeholder="Select holding" /></SelectTrigger>
+                                    <SelectContent>
+                                        {investments.map(inv => (
+                                            <SelectItem key={inv.id} value={inv.id}>{inv.symbol} · {inv.name}</SelectItem>
+                                        ))}
+                                    </SelectContent>
+                                </Select>
+                            </div>
+                            <div className="grid grid-cols-2 gap-4">
+                                <div className="space-y-2">
+                                    <Label>Pay Date</Label>
+                                    <Input type="date" value={form.payDate} onChange={(e) => setForm({ ...form, payDate: e.target.value })} required />
+                                </div>
+                                <div className="space-y-2">
+                                    <Label>Currency</Label>
+                                    <Select value={form.currency} onValueChange={(v) => setForm({ ...form, currency: v })}>
+                                        <SelectTrigger><SelectValue /></SelectTrigger>
+                                        <SelectContent>
+                                            <SelectItem value="USD">USD ($)</SelectItem>
+                                            <SelectItem value="EUR">EUR (€)</SelectItem>
+                                            <SelectItem value="GBP">GBP (£)</SelectItem>
+                                            <SelectItem value="CHF">CHF (Fr)</SelectItem>
+                                        </SelectContent>
+                                    </Select>
+                                </div>
+                            </div>
+                            <div className="grid grid-cols-2 gap-4">
+                                <div className="space-y-2">
+                                    <Label>Gross Amount</Label>
+                                    <Input type="number" step="any" min="0" value={form.grossAmount} onChange={(e) => setForm({ ...form, grossAmount: +e.target.value })} required />
+                                </div>
+                                <div className="space-y-2">
+                                    <Label className="flex items-center gap-1">
+                                        Withholding Tax
+                                        <HelpTooltip content="Tax retained at source by the paying country or broker." />
+                                    </Label>
+                                    <Input type="number" step="any" min="0" value={form.withholdingTax} onChange={(e) => setForm({ ...form, withholdingTax: +e.target.value })} />
+                                </div>
+                            </div>
+                            <div className="flex justify-between items-center p-3 bg-muted/50 rounded-lg border text-sm">
+                                <span className="text-muted-foreground">Net Amount</span>
+                                <span className="font-mono font-medium">
+                                    {new Intl.NumberFormat('en-US', { style: 'currency', currency: form.currency }).format(form.grossAmount - form.withholdingTax)}
+                                </span>
+                            </div>
+                            <Button type="submit" className="w-full gradient-primary" disabled={!form.assetId || form.grossAmount <= 0 || form.withholdingTax > form.grossAmount}>
+                                Save Dividend
+                            </Button>
+                        </form>
+                    </DialogContent>
+                </Dialog>
+            </CardHeader>
+            <CardContent className={cn("space-y-6", isPrivacyMode && "blur-sm select-none pointer-events-none")}>
+                {/* Portfolio Yield */}
+                <div className="grid grid-cols-3 gap-4">
+                    <div>
+                        <div className="text-xs text-muted-foreground">Income (12M, net)</div>
+                        <div className="text-xl font-bold">{isPrivacyMode ? "****" : formatCurrency(yields.portfolio.ttmNet)}</div>
+                    </div>
+                    <div>
+                        <div className="text-xs text-muted-foreground flex items-center gap-1">
+                            Trailing Yield
+                            <HelpTooltip content="Gross dividends of the last 12 months divided by the current market value." />
+                        </div>
+                        <div className="text-xl font-bold">{yields.portfolio.ttmYield.toFixed(2)}%</div>
+                    </div>
+                    <div>
+                        <div className="text-xs text-muted-foreground flex items-center gap-1">
+                            Yield on Cost
+                            <HelpTooltip content="Gross dividends of the last 12 months divided by what you paid for the holdings." />
+                        </div>
+                        <div className="text-xl font-bold">{yields.portfolio.yieldOnCost.toFixed(2)}%</div>
+                    </div>
+                </div>
+
+                {/* Monthly Income */}
+                <div className="h-[220px]">
+                    <ResponsiveContainer width="100%" height="100%">
+                        <BarChart data={monthly}>
+                            <CartesianGrid strokeDasharray="3 3" opacity={0.1} vertical={false} />
+                            <XAxis dataKey="name" fontSize={12} tickLine={false} axisLine={false} />
+                            <YAxis hide={isPrivacyMode} fontSize={12} tickLine={false} axisLine={false} tickFormatter={(val) => `${currencySymbol}${val}`} />
+                            <Tooltip
+                                cursor={{ fill: 'rgba(255,255,255,0.05)' }}
+                                contentStyle={{ backgroundColor: '#18181b', border: '1px solid #27272a' }}
+                                formatter={(value: number) => isPrivacyMode ? "****" : formatCurrency(value)}
+                            />
+                            <Legend />
+                            <Bar dataKey="Net" stackId="div" fill="#10B981" maxBarSize={40} />
+                            <Bar dataKey="Tax" stackId="div" fill="#64748B" radius={[4, 4, 0, 0]} maxBarSize={40} />
+                        </BarChart>
+                    </ResponsiveContainer>
+                </div>
+
+                {/* Yield per Holding */}
+                {payers.length > 0 && (
+                    <Table>
+                        <TableHeader>
+                            <TableRow>
+                                <TableHead>Symbol</TableHead>
+                                <TableHead className="text-right">12M Gross</TableHead>
+                                <TableHead className="text-right">Yield</TableHead>
+                                <TableHead className="text-right">Yield on Cost</TableHead>
+                            </TableRow>
+                        </TableHeader>
+                        <TableBody>
+                            {payers.map(inv => (
+                                <TableRow key={inv.id}>
+                                    <TableCell className="font-mono font-medium">{inv.symbol}</TableCell>
+                                    <TableCell className="text-right">{formatCurrency(yields.byAsset[inv.id].ttmGross)}</TableCell>
+                                    <TableCell className="text-right">{yields.byAsset[inv.id].ttmYield.toFixed(2)}%</TableCell>
+                                    <TableCell className="text-right">{yields.byAsset[inv.id].yieldOnCost.toFixed(2)}%</TableCell>
+                                </TableRow>
+                            ))}
+                        </TableBody>
+                    </Table>
+                )}
+
+                {/* Recent Payments */}
+                {dividends.length === 0 ? (
+                    <div className="text-center py-4 text-muted-foreground text-sm">No dividends recorded yet.</div>
+                ) : (
+                    <div className="space-y-2 max-h-[240px] overflow-y-auto">
+                        {dividends.slice(0, 20).map(d => (
+                            <div key={d.id} className="flex items-center justify-between text-sm group">
+                                <div>
+                                    <span className="font-mono font-medium">{symbolOf(d.assetId)}</span>
+                                    <span className="text-xs text-muted-foreground ml-2">{format(new Date(d.payDate), 'MMM dd, yyyy')}</span>
+                                </div>
+                                <div className="flex items-center gap-2">
+                                    <div className="text-right">
+                                        <div className="font-medium text-success">+{formatCurrency(d.netAmount, d.currency)}</div>
+                                        {d.withholdingTax > 0 && (
+                                            <div className="text-[10px] text-muted-foreground">
+                                                Gross {formatCurrency(d.grossAmount, d.currency)} · Tax {formatCurrency(d.withholdingTax, d.currency)}
+                                            </div>
+                                        )}
+                                    </div>
+                                    <Button variant="ghost" size="icon" className="h-7 w-7 opacity-0 group-hover:opacity-100 transition-opacity" onClick={() => deleteDividend(d.id)}>
+                                        <Trash2 className="h-3.5 w-3.5 text-destructive" />
+                                    </Button>
+                                </div>
+                            </div>
+                        ))}
+                    </div>
+                )}
+            </CardContent>
+        </Card>
+    );
+}
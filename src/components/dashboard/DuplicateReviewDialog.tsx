@@ -0,0 +1,135 @@
+import { useMemo, useState } from 'react';
+import { format } from 'date-fns';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogTrigger } from '@/components/ui/dialog';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Copy, Merge, CheckCircle2 } from 'lucide-react';
+import { useFinance } from '@/contexts/FinanceContext';
+import { useSettings } from '@/contexts/SettingsContext';
+import { findDuplicateGroups, pickSurvivor } from '@/lib/duplicates';
+import { cn } from '@/lib/utils';
+
+// Groups the user marked as separate payments
+const STORAGE_KEY_DISMISSED = 'wc_dismissed_duplicates';
+
+const loadDismissed = (): Set<string> => {
+    try {
+        return new Set(JSON.parse(localStorage.getItem(STORAGE_KEY_DISMISSED) || '[]'));
+    } catch {
+        return new Set();
+    }
+};
+
+export function DuplicateReviewDialog() {
+    const { data, mergeTransactions } = useFinance();
+    const { formatCurrency } = useSettings();
+
+    const [open, setOpen] = useState(false);
+    const [dismissed, setDismissed] = useState<Set<string>>(loadDismissed);
+    const [keepIds, setKeepIds] = useState<Record<string, string>>({});
+    const [mergingKey, setMergingKey] = useState<string | null>(null);
+
+    const groups = useMemo(
+        () => open ? findDuplicateGroups(data.transactions, dismissed) : [],
+        [open, data.transactions, dismissed]
+    );
+
+    const handleKeepAll = (key: string) => {
+        const next = new Set(dismissed).add(key);
+        localStorage.setItem(STORAGE_KEY_DISMISSED, JSON.stringify([...next]));
+        setDismissed(next);
+    };
+
+    const handleMerge = async (key: string) => {
+        const group = groups.find(g => g.key === key);
+        if (!group) return;
+        const keepId = keepIds[key] || pickSurvivor(group.transactions).id;
+        setMergingKey(key);
+        try {
+            await mergeTransactions(keepId, group.transactions.filter(t => t.id !== keepId).map(t => t.id));
+        } finally {
+            setMergingKey(null);
+        }
+    };
+
+    return (
+        <Dialog open={open} onOpenChange={setOpen}>
+            <DialogTrigger asChild>
+                <Button variant="outline">
+                    <Copy className="h-4 w-4 mr-2" /> Find Duplicates
+                </Button>
+            </DialogTrigger>
+            <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+                <DialogHeader>
+                    <DialogTitle>Duplicate Transactions</DialogTitle>
+                    <DialogDescription>
+                        Same amount within a few days and a similar description, or the same bank id. Merge keeps the selected row.
+                    </DialogDescription>
+                </DialogHeader>
+
+                {groups.length === 0 ? (
+                    <div className="flex flex-col items-center gap-2 py-10 text-muted-foreground">
+                        <CheckCircle2 className="h-8 w-8 text-success" />
+                        <span className="text-sm">No duplicates found</span>
+                    </div>
+                ) : (
+                    <div className="space-y-4">
+                        <p className="text-sm text-muted-foreground">{groups.length} possible duplicates</p>
+                        {groups.map(group => {
+                            const keepId = keepIds[group.key] || pickSurvivor(group.transactions).id;
+                            return (
+                                <div key={group.key} className="border rounded-md">
+                                    <div className="flex items-center justify-between px-3 py-2 border-b bg-muted/30">
+                                        <span className={cn("text-xs font-medium", group.exact ? "text-destructive" : "text-warning")}>
+                                            {group.exact ? 'Exact duplicate' : 'Likely duplicate'}
+                                        </span>
+                                        <div className="flex gap-2">
+                                            <Button size="sm" variant="ghost" onClick={() => handleKeepAll(group.key)}>Keep All</Button>
+                                            <Button size="sm" variant="outline" onClick={() => handleMerge(group.key)} disabled={mergingKey !== null}>
+                                                <Merge className="h-3.5 w-3.5 mr-1" /> Merge
+                                            </Button>
+                                        </div>
+                                    </div>
+                                    <Table>
+                                        <TableHeader>
+                                            <TableRow>
+                                                <TableHead className="w-16">Keep</TableHead>
+                                                <TableHead>Date</TableHead>
+                                                <TableHead>Description</TableHead>
+                                                <TableHead>Category</TableHead>
+                                                <TableHead className="text-right">Amount</TableHead>
+                                            </TableRow>
+                                        </TableHeader>
+                                        <TableBody>
+                                            {group.transactions.map(t => (
+                                                <TableRow key={t.id} className={cn(t.id !== keepId && "opacity-60")}>
+                                                    <TableCell className="py-1.5">
+                                                        <input
+                                                            type="radio"
+                                                            name={group.key}
+                                                            checked={t.id === keepId}
+                                                            onChange={() => setKeepIds(prev => ({ ...prev, [group.key]: t.id }))}
+                                                        />
+                                                    </TableCell>
+                                                    <TableCell className="py-1.5 text-xs whitespace-nowrap">{format(new Date(t.date), 'MMM dd, yyyy')}</TableCell>
+                                                    <TableCell className="py-1.5 text-xs max-w-[260px] truncate">
+                                                        {t.description || '-'}
+                                                        {t.externalId && <span className="text-muted-foreground ml-1">[bank]</span>}
+                                                    </TableCell>
+                                                    <TableCell className="py-1.5 text-xs">{t.category}</TableCell>
+                                                    <TableCell className={cn("py-1.5 text-xs text-right font-medium", t.type === 'income' ? 'text-green-500' : t.type === 'expense' && 'text-red-500')}>
+                                                        {t.type === 'income' ? '+' : t.type === 'expense' ? '-' : ''}{formatCurrency(t.amount, t.currency, t.date)}
+                                                    </TableCell>
+                                                </TableRow>
+                                            ))}
+                                        </TableBody>
+                                    </Table>
+                                </div>
+                            );
+                        })}
+                    </div>
+                )}
+            </DialogContent>
+        </Dialog>
+    );
+}
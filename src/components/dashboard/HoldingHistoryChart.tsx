@@ -0,0 +1,77 @@
+import { useEffect, useState } from 'react';
+import { format } from 'date-fns';
+import { ComposedChart, Area, Line, Scatter, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
+import { Loader2 } from 'lucide-react';
+import { useSettings } from '@/contexts/SettingsContext';
+import { buildHoldingHistory, fetchPriceHistory, type PriceKind, type PricePoint } from '@/lib/priceHistory';
+import type { CorporateAction, Trade } from '@/types/finance';
+
+interface HoldingHistoryChartProps {
+    symbol: string; // Ticker for stocks, coinId for crypto
+    formerSymbols?: string[]; // Tickers before a rename
+    kind: PriceKind;
+    currency?: string;
+    trades: Trade[];
+    corporateActions?: CorporateAction[];
+    currentPrice?: number;
+}
+
+export function HoldingHistoryChart({ symbol, formerSymbols = [], kind, currency, trades, corporateActions = [], currentPrice }: HoldingHistoryChartProps) {
+    const { isPrivacyMode } = useSettings();
+    const [prices, setPrices] = useState<PricePoint[]>([]);
+    const [isLoading, setIsLoading] = useState(true);
+    const aliases = formerSymbols.join(',');
+
+    useEffect(() => {
+        let cancelled = false;
+        setIsLoading(true);
+        fetchPriceHistory([symbol, ...(aliases ? aliases.split(',') : [])], kind).then(points => {
+            if (cancelled) return;
+            setPrices(points);
+            setIsLoading(false);
+        });
+        return () => { cancelled = true; };
+    }, [symbol, aliases, kind]);
+
+    const history = buildHoldingHistory(prices, trades, corporateActions, currentPrice ? { price: currentPrice } : undefined);
+    const money = (value: number) => new Intl.NumberFormat('en-US', { style: 'currency', currency: currency || 'USD', maximumFractionDigits: 2 }).format(value);
+
+    if (isLoading) {
+        return (
+            <div className="h-[220px] flex items-center justify-center text-muted-foreground">
+                <Loader2 className="h-4 w-4 animate-spin" />
+            </div>
+        );
+    }
+
+    if (history.length < 2) {
+        return (
+            <div className="h-[120px] flex items-center justify-center text-xs text-muted-foreground text-center px-4">
+                Not enough price history yet. Every price refresh stores the day's quote.
+            </div>
+        );
+    }
+
+    return (
+        <div className="h-[220px]">
+            <ResponsiveContainer width="100%" height="100%">
+                <ComposedChart data={history} margin={{ top: 5, right: 10, left: 10, bottom: 5 }}>
+                    <CartesianGrid strokeDasharray="3 3" opacity={0.1} vertical={false} />
+                    <XAxis dataKey="date" fontSize={11} tickLine={false} axisLine={false} tickFormatter={(d) => format(new Date(d), 'MMM dd')} />
+                    <YAxis yAxisId="price" fontSize={11} tickLine={false} axisLine={false} domain={['auto', 'auto']} tickFormatter={(v) => money(v)} />
+                    <YAxis yAxisId="value" orientation="right" hide={isPrivacyMode} fontSize={11} tickLine={false} axisLine={false} tickFormatter={(v) => money(v)} />
+                    <Tooltip
+                        labelFormatter={(d) => format(new Date(d), 'MMM d, yyyy')}
+                        formatter={(value: number, name: string) => [name === 'Value' && isPrivacyMode ? '****' : money(value), name]}
+                        contentStyle={{ backgroundColor: '#18181b', border: '1px solid #27272a' }}
+                    />
+                    <Legend />
+                    <Area yAxisId="value" type="monotone" dataKey="value" name="Value" stroke="#3b82f6" fill="#3b82f6" fillOpacity={0.1} strokeWidth={1.5} />
+                    <Line yAxisId="price" type="monotone" dataKey="price" name="Price" stroke="hsl(var(--primary))" strokeWidth={2} dot={false} />
+                    <Scatter yAxisId="price" dataKey="buy" name="Buy" fill="#10B981" />
+                    <Scatter yAxisId="price" dataKey="sell" name="Sell" fill="#EF4444" />
+                </ComposedChart>
+            </ResponsiveContainer>
+        </div>
+    );
+}
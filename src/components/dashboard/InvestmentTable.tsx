@@ -1,4 +1,4 @@
-import { useState } from 'react';
+import { Fragment, useState } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -6,31 +6,63 @@ import { Label } from '@/components/ui/label';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
-import { Plus, TrendingUp, Trash2, RefreshCw, Loader2, Pencil } from 'lucide-react';
-import type { Investment } from '@/types/finance';
+import { Plus, TrendingUp, Trash2, RefreshCw, Loader2, Pencil, ChevronDown, ChevronRight, Layers, GitBranch, Undo2, LineChart } from 'lucide-react';
+import type { CorporateAction, Investment, Trade } from '@/types/finance';
 import { cn } from '@/lib/utils';
 import { getStockPrice, searchByIsin } from '@/lib/api';
-import { formatDistanceToNow } from 'date-fns';
+import { derivePositions } from '@/lib/lots';
+import { format, formatDistanceToNow } from 'date-fns';
 import { toast } from 'sonner';
 import { useSettings } from '@/contexts/SettingsContext';
 import { HelpTooltip } from '@/components/ui/tooltip-helper';
 import { Checkbox } from '@/components/ui/checkbox';
 import { DialogDescription } from '@/components/ui/dialog';
+import { CorporateActionDialog } from './CorporateActionDialog';
+import { HoldingHistoryChart } from './HoldingHistoryChart';
 
 interface InvestmentTableProps {
   investments: Investment[];
-  onAdd: (investment: Omit<Investment, 'id' | 'createdAt' | 'updatedAt'>) => void;
+  trades: Trade[];
+  corporateActions: CorporateAction[];
+  onAdd: (investment: Omit<Investment, 'id' | 'createdAt' | 'updatedAt'>, tradeDate?: string) => void;
   onUpdate: (id: string, updates: Partial<Investment>) => void;
   onDelete: (id: string) => void;
+  onAddTrade: (trade: Omit<Trade, 'id' | 'createdAt'>) => Promise<boolean>;
+  onDeleteTrade: (id: string) => void;
+  onAddCorporateAction: (action: Omit<CorporateAction, 'id' | 'createdAt'>, newTarget?: { symbol: string; name: string; isin?: string }) => void;
+  onDeleteCorporateAction: (id: string) => void;
 }
 
-export function InvestmentTable({ investments, onAdd, onUpdate, onDelete }: InvestmentTableProps) {
-  const { formatCurrency, isPrivacyMode, currency: baseCurrency } = useSettings();
+const describeAction = (action: CorporateAction) => {
+  switch (action.type) {
+    case 'split':
+      return `${(action.ratioTo || 0) < (action.ratioFrom || 0) ? 'Reverse split' : 'Split'} ${action.ratioFrom}:${action.ratioTo}`;
+    case 'symbol_change':
+      return `Renamed ${[action.oldSymbol, action.oldIsin].filter(Boolean).join(' / ') || '—'} → ${[action.newSymbol, action.newIsin].filter(Boolean).join(' / ')}`;
+    case 'merger':
+      return action.targetAssetId
+        ? `Merged into ${action.newSymbol || 'another holding'} (${action.ratioFrom}:${action.ratioTo})`
+        : `Cash merger at ${action.cashPerShare} per share`;
+  }
+};
+
+const today = () => format(new Date(), 'yyyy-MM-dd');
+
+export function InvestmentTable({ investments, trades, corporateActions, onAdd, onUpdate, onDelete, onAddTrade, onDeleteTrade, onAddCorporateAction, onDeleteCorporateAction }: InvestmentTableProps) {
+  const { formatCurrency, isPrivacyMode, currency: baseCurrency, costBasisMethod } = useSettings();
   const [open, setOpen] = useState(false);
   const [isUpdating, setIsUpdating] = useState(false);
   const [isAdding, setIsAdding] = useState(false);
   const [manualPriceEnabled, setManualPriceEnabled] = useState(false);
   const [editId, setEditId] = useState<string | null>(null);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  // Trade (buy / sell) dialog
+  const [tradeAsset, setTradeAsset] = useState<Investment | null>(null);
+  const [tradeForm, setTradeForm] = useState({ side: 'buy' as Trade['side'], date: today(), quantity: 0, price: 0, fees: 0 });
+  const [actionAsset, setActionAsset] = useState<Investment | null>(null);
+
+  const positions = derivePositions(trades, corporateActions, costBasisMethod);
 
   const [form, setForm] = useState({
     symbol: '',
@@ -44,7 +76,8 @@ export function InvestmentTable({ investments, onAdd, onUpdate, onDelete }: Inve
     currency: 'USD',
     geography: 'US',
     feeType: 'fixed' as 'fixed' | 'percent',
-    feeValue: 0
+    feeValue: 0,
+    tradeDate: today()
   });
 
   const resetForm = () => {
@@ -60,7 +93,8 @@ export function InvestmentTable({ investments, onAdd, onUpdate, onDelete }: Inve
       currency: 'USD',
       geography: 'US',
       feeType: 'fixed',
-      feeValue: 0
+      feeValue: 0,
+      tradeDate: today()
     });
     setManualPriceEnabled(false);
     setEditId(null);
@@ -79,7 +113,8 @@ export function InvestmentTable({ investments, onAdd, onUpdate, onDelete }: Inve
       currency: inv.currency || 'USD',
       geography: inv.geography,
       feeType: 'fixed',
-      feeValue: inv.fees || 0
+      feeValue: inv.fees || 0,
+      tradeDate: today()
     });
     setEditId(inv.id);
     setOpen(true);
@@ -101,6 +136,23 @@ export function InvestmentTable({ investments, onAdd, onUpdate, onDelete }: Inve
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
+
+    // Editing only touches descriptive fields; positions change through trades
+    if (editId) {
+      onUpdate(editId, {
+        symbol: form.symbol,
+        name: form.name,
+        type: form.type,
+        sector: form.sector,
+        currency: form.currency,
+        geography: form.geography,
+        isin: form.isin
+      });
+      resetForm();
+      setOpen(false);
+      return;
+    }
+
     setIsAdding(true);
     try {
       let value = 0;
@@ -141,48 +193,62 @@ export function InvestmentTable({ investments, onAdd, onUpdate, onDelete }: Inve
       // True Cost Basis = (Qty * AvgPrice) + Fees
       const trueCostBasis = (form.quantity * form.avgBuyPrice) + calculatedFees;
 
-      if (editId) {
-        onUpdate(editId, {
-          symbol: form.symbol,
-          name: form.name,
-          type: form.type,
-          sector: form.sector,
-          quantity: form.quantity,
-          costBasis: trueCostBasis,
-          currentValue: value,
-          currency: form.currency,
-          geography: form.geography,
-          isin: form.isin,
-          fees: calculatedFees,
-          updatedAt: new Date().toISOString()
-        });
-        toast.success('Investment updated');
-      } else {
-        onAdd({
-          symbol: form.symbol,
-          name: form.name,
-          type: form.type,
-          sector: form.sector,
-          quantity: form.quantity,
-          costBasis: trueCostBasis,
-          currentValue: value,
-          currency: form.currency,
-          geography: form.geography,
-          isin: form.isin,
-          fees: calculatedFees
-        });
-        toast.success('Investment added');
-      }
+      onAdd({
+        symbol: form.symbol,
+        name: form.name,
+        type: form.type,
+        sector: form.sector,
+        quantity: form.quantity,
+        costBasis: trueCostBasis,
+        currentValue: value,
+        currency: form.currency,
+        geography: form.geography,
+        isin: form.isin,
+        fees: calculatedFees
+      }, form.tradeDate);
+      toast.success('Investment added');
 
       resetForm();
       setOpen(false);
     } catch (error) {
-      toast.error(editId ? 'Failed to update investment' : 'Failed to add investment');
+      toast.error('Failed to add investment');
     } finally {
       setIsAdding(false);
     }
   };
 
+  const openTradeDialog = (inv: Investment, side: Trade['side'] = 'buy') => {
+    setTradeForm({ side, date: today(), quantity: 0, price: inv.currentPrice || 0, fees: 0 });
+    setTradeAsset(inv);
+  };
+
+  // Sells are checked against the ledger when saving, later sells included
+  const handleTradeSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!tradeAsset) return;
+    const saved = await onAddTrade({
+      assetId: tradeAsset.id,
+      side: tradeForm.side,
+      quantity: tradeForm.quantity,
+      price: tradeForm.price,
+      fees: tradeForm.fees,
+      date: tradeForm.date
+    });
+    if (!saved) return;
+    toast.success(tradeForm.side === 'buy' ? `Lot added to ${tradeAsset.symbol}` : `Sale of ${tradeAsset.symbol} recorded`);
+    setTradeAsset(null);
+  };
+
+  // Preview of the sale against the open lots, using the profile's cost-basis method
+  const salePreview = (() => {
+    if (!tradeAsset || tradeForm.side !== 'sell' || tradeForm.quantity <= 0) return null;
+    const preview = derivePositions([
+      ...trades,
+      { id: 'preview', assetId: tradeAsset.id, side: 'sell', quantity: tradeForm.quantity, price: tradeForm.price, fees: tradeForm.fees, date: tradeForm.date, createdAt: new Date().toISOString() }
+    ], corporateActions, costBasisMethod)[tradeAsset.id]?.sales.find(s => s.tradeId === 'preview');
+    return preview || null;
+  })();
+
   const handleUpdateAll = async () => {
     setIsUpdating(true);
     let updatedCount = 0;
@@ -224,7 +290,7 @@ export function InvestmentTable({ investments, onAdd, onUpdate, onDelete }: Inve
               Update
             </Button>
           )}
-          <Dialog open={open} onOpenChange={setOpen}>
+          <Dialog open={open} onOpenChange={(val) => { if (!val) resetForm(); setOpen(val); }}>
             <DialogTrigger asChild>
               <Button size="sm" className="gradient-primary">
                 <Plus className="h-4 w-4 mr-1" /> Add
@@ -232,8 +298,10 @@ export function InvestmentTable({ investments, onAdd, onUpdate, onDelete }: Inve
             </DialogTrigger>
             <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
               <DialogHeader>
-                <DialogTitle>Add Investment</DialogTitle>
-                <DialogDescription>Fill in the details below to track your asset.</DialogDescription>
+                <DialogTitle>{editId ? 'Edit Investment' : 'Add Investment'}</DialogTitle>
+                <DialogDescription>
+                  {editId ? 'Update the details of this holding. To change the position, add a trade instead.' : 'Fill in the details below to track your asset.'}
+                </DialogDescription>
               </DialogHeader>
               <form onSubmit={handleSubmit} className="space-y-4">
                 {/* ISIN / ID (Smart Search) */}
@@ -339,6 +407,7 @@ export function InvestmentTable({ investments, onAdd, onUpdate, onDelete }: Inve
                   </div>
                 </div>
 
+                {!editId && (<>
                 {/* Trading Fees */}
                 <div className="space-y-2 border p-3 rounded-md bg-muted/20">
                   <Label>Trading Fees</Label>
@@ -385,6 +454,10 @@ export function InvestmentTable({ investments, onAdd, onUpdate, onDelete }: Inve
                 </div>
 
                 {/* Quantity & Avg Buy Price */}
+                <div className="space-y-2">
+                  <Label>Purchase Date</Label>
+                  <Input type="date" value={form.tradeDate} onChange={(e) => setForm({ ...form, tradeDate: e.target.value })} required />
+                </div>
                 <div className="grid grid-cols-2 gap-4">
                   <div className="space-y-2">
                     <Label className="flex items-center gap-1">
@@ -456,6 +529,7 @@ export function InvestmentTable({ investments, onAdd, onUpdate, onDelete }: Inve
                     Calculated as (Quantity × Avg Price) + Fees. This will be saved as your True Cost Basis.
                   </p>
                 </div>
+                </>)}
 
                 <Button type="submit" className="w-full gradient-primary" disabled={isAdding}>
                   {isAdding ? <Loader2 className="h-4 w-4 animate-spin mr-2" /> : null}
@@ -464,6 +538,98 @@ export function InvestmentTable({ investments, onAdd, onUpdate, onDelete }: Inve
               </form>
             </DialogContent>
           </Dialog>
+
+          {/* Record Trade (Buy / Sell) */}
+          <Dialog open={!!tradeAsset} onOpenChange={(val) => { if (!val) setTradeAsset(null); }}>
+            <DialogContent className="max-w-md">
+              <DialogHeader>
+                <DialogTitle>Record Trade{tradeAsset ? ` · ${tradeAsset.symbol}` : ''}</DialogTitle>
+                <DialogDescription>
+                  {tradeForm.side === 'buy'
+                    ? 'Record a new buy. The position and average cost are recalculated from all lots.'
+                    : `Record a sale. Open lots are closed using the ${costBasisMethod.toUpperCase()} method set in Settings.`}
+                </DialogDescription>
+              </DialogHeader>
+              <form onSubmit={handleTradeSubmit} className="space-y-4">
+                <div className="flex gap-2">
+                  <Button
+                    type="button"
+                    variant={tradeForm.side === 'buy' ? 'default' : 'outline'}
+                    size="sm"
+                    onClick={() => setTradeForm({ ...tradeForm, side: 'buy' })}
+                    className="flex-1"
+                  >
+                    Buy
+                  </Button>
+                  <Button
+                    type="button"
+                    variant={tradeForm.side === 'sell' ? 'default' : 'outline'}
+                    size="sm"
+                    onClick={() => setTradeForm({ ...tradeForm, side: 'sell' })}
+                    className="flex-1"
+                    disabled={!tradeAsset || tradeAsset.quantity <= 0}
+                  >
+                    Sell
+                  </Button>
+                </div>
+                <div className="grid grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label>Date</Label>
+                    <Input type="date" value={tradeForm.date} onChange={(e) => setTradeForm({ ...tradeForm, date: e.target.value })} required />
+                  </div>
+                  <div className="space-y-2">
+                    <Label>Quantity</Label>
+                    <Input type="number" step="any" min="0" value={tradeForm.quantity} onChange={(e) => setTradeForm({ ...tradeForm, quantity: +e.target.value })} required />
+                  </div>
+                </div>
+                <div className="grid grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label>Price ({tradeAsset?.currency || 'USD'})</Label>
+                    <Input type="number" step="any" value={tradeForm.price} onChange={(e) => setTradeForm({ ...tradeForm, price: +e.target.value })} required />
+                  </div>
+                  <div className="space-y-2">
+                    <Label>Fees ({tradeAsset?.currency || 'USD'})</Label>
+                    <Input type="number" step="any" value={tradeForm.fees} onChange={(e) => setTradeForm({ ...tradeForm, fees: +e.target.value })} />
+                  </div>
+                </div>
+                {tradeForm.side === 'buy' ? (
+                  <div className="flex justify-between items-center p-3 bg-muted/50 rounded-lg border text-sm">
+                    <span className="text-muted-foreground">Lot Cost</span>
+                    <span className="font-mono font-medium">
+                      {new Intl.NumberFormat('en-US', { style: 'currency', currency: tradeAsset?.currency || 'USD' }).format(tradeForm.quantity * tradeForm.price + tradeForm.fees)}
+                    </span>
+                  </div>
+                ) : (
+                  <div className="p-3 bg-muted/50 rounded-lg border text-sm space-y-1">
+                    <div className="flex justify-between">
+                      <span className="text-muted-foreground">Net Proceeds</span>
+                      <span className="font-mono">{formatCurrency(salePreview?.proceeds || 0, tradeAsset?.currency)}</span>
+                    </div>
+                    <div className="flex justify-between">
+                      <span className="text-muted-foreground">Cost Basis Closed</span>
+                      <span className="font-mono">{formatCurrency(salePreview?.costBasis || 0, tradeAsset?.currency)}</span>
+                    </div>
+                    <div className="flex justify-between font-medium">
+                      <span>Realized P/L</span>
+                      <span className={cn("font-mono", (salePreview?.gain || 0) >= 0 ? 'text-success' : 'text-destructive')}>
+                        {formatCurrency(salePreview?.gain || 0, tradeAsset?.currency)}
+                      </span>
+                    </div>
+                  </div>
+                )}
+                <Button type="submit" className="w-full gradient-primary" disabled={tradeForm.quantity <= 0}>
+                  {tradeForm.side === 'buy' ? 'Add Lot' : 'Record Sale'}
+                </Button>
+              </form>
+            </DialogContent>
+          </Dialog>
+
+          <CorporateActionDialog
+            asset={actionAsset}
+            investments={investments}
+            onClose={() => setActionAsset(null)}
+            onSubmit={onAddCorporateAction}
+          />
         </div>
       </CardHeader>
       <CardContent className={cn(isPrivacyMode && "blur-sm select-none pointer-events-none")}>
@@ -474,6 +640,7 @@ export function InvestmentTable({ investments, onAdd, onUpdate, onDelete }: Inve
             <Table>
               <TableHeader>
                 <TableRow>
+                  <TableHead className="w-8"></TableHead>
                   <TableHead>Symbol</TableHead>
                   <TableHead>Name</TableHead>
                   <TableHead className="hidden sm:table-cell">Type</TableHead>
@@ -483,12 +650,32 @@ export function InvestmentTable({ investments, onAdd, onUpdate, onDelete }: Inve
                     Value
                     <HelpTooltip content="Current market value of this investment." side="left" />
                   </TableHead>
+                  <TableHead className="text-right hidden sm:table-cell">
+                    <span className="inline-flex items-center gap-1">
+                      Realized P/L
+                      <HelpTooltip content="Profit or loss locked in by sells, net of fees, using the cost-basis method set in Settings." side="left" />
+                    </span>
+                  </TableHead>
                   <TableHead></TableHead>
                 </TableRow>
               </TableHeader>
               <TableBody>
-                {investments.map((inv) => (
-                  <TableRow key={inv.id}>
+                {investments.map((inv) => {
+                  const lots = positions[inv.id]?.lots || [];
+                  const sales = positions[inv.id]?.sales || [];
+                  const actions = corporateActions.filter(a => a.assetId === inv.id || a.targetAssetId === inv.id);
+                  // Lots received through a merger belong to the source holding's trades
+                  const ownsTrade = (tradeId: string) => trades.some(t => t.id === tradeId && t.assetId === inv.id);
+                  const realized = inv.realizedGain || 0;
+                  const isExpanded = expandedId === inv.id;
+                  return (
+                  <Fragment key={inv.id}>
+                  <TableRow>
+                    <TableCell className="px-2">
+                      <Button variant="ghost" size="icon" className="h-7 w-7" onClick={() => setExpandedId(isExpanded ? null : inv.id)} title="Show lots">
+                        {isExpanded ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+                      </Button>
+                    </TableCell>
                     <TableCell className="font-mono font-medium">{inv.symbol}</TableCell>
                     <TableCell>
                       <div className="flex flex-col">
@@ -522,8 +709,17 @@ export function InvestmentTable({ investments, onAdd, onUpdate, onDelete }: Inve
                         )}
                       </div>
                     </TableCell>
+                    <TableCell className={cn("text-right hidden sm:table-cell", sales.length > 0 && (realized >= 0 ? 'text-success' : 'text-destructive'))}>
+                      {sales.length === 0 ? <span className="text-muted-foreground">-</span> : (isPrivacyMode ? "****" : formatCurrency(realized, inv.currency))}
+                    </TableCell>
                     <TableCell>
                       <div className="flex justify-end gap-1">
+                        <Button variant="ghost" size="icon" onClick={() => openTradeDialog(inv)} title="Record trade">
+                          <Plus className="h-4 w-4 text-muted-foreground" />
+                        </Button>
+                        <Button variant="ghost" size="icon" onClick={() => setActionAsset(inv)} title="Corporate action">
+                          <GitBranch className="h-4 w-4 text-muted-foreground" />
+                        </Button>
                         <Button variant="ghost" size="icon" onClick={() => handleEdit(inv)}>
                           <Pencil className="h-4 w-4 text-muted-foreground" />
                         </Button>
@@ -533,7 +729,128 @@ export function InvestmentTable({ investments, onAdd, onUpdate, onDelete }: Inve
                       </div>
                     </TableCell>
                   </TableRow>
-                ))}
+                  {isExpanded && (
+                    <TableRow className="bg-muted/20 hover:bg-muted/20">
+                      <TableCell colSpan={9} className="p-0">
+                        <div className="px-6 py-3 space-y-2">
+                          <div className="flex items-center gap-2 text-xs font-semibold text-muted-foreground">
+                            <LineChart className="h-3.5 w-3.5" /> Price & Value
+                          </div>
+                          <HoldingHistoryChart
+                            symbol={inv.symbol}
+                            formerSymbols={actions.filter(a => a.type === 'symbol_change' && a.oldSymbol).map(a => a.oldSymbol as string)}
+                            kind="stock"
+                            currency={inv.currency}
+                            trades={trades.filter(t => t.assetId === inv.id)}
+                            corporateActions={corporateActions.filter(a => a.assetId === inv.id)}
+                            currentPrice={inv.currentPrice}
+                          />
+                          <div className="flex items-center gap-2 text-xs font-semibold text-muted-foreground pt-2">
+                            <Layers className="h-3.5 w-3.5" /> Lots
+                          </div>
+                          {lots.length === 0 ? (
+                            <div className="text-xs text-muted-foreground">No trades recorded for this holding.</div>
+                          ) : (
+                            <Table>
+                              <TableHeader>
+                                <TableRow>
+                                  <TableHead className="h-8 text-xs">Date</TableHead>
+                                  <TableHead className="h-8 text-xs text-right">Bought</TableHead>
+                                  <TableHead className="h-8 text-xs text-right">Open</TableHead>
+                                  <TableHead className="h-8 text-xs text-right">Price</TableHead>
+                                  <TableHead className="h-8 text-xs text-right">Fees</TableHead>
+                                  <TableHead className="h-8 text-xs text-right">Unit Cost</TableHead>
+                                  <TableHead className="h-8"></TableHead>
+                                </TableRow>
+                              </TableHeader>
+                              <TableBody>
+                                {lots.map((lot) => (
+                                  <TableRow key={lot.tradeId} className={cn(lot.remaining <= 0 && "text-muted-foreground")}>
+                                    <TableCell className="py-1.5 text-xs">{format(new Date(lot.date), 'MMM dd, yyyy')}</TableCell>
+                                    <TableCell className="py-1.5 text-xs text-right font-mono">{lot.quantity}</TableCell>
+                                    <TableCell className="py-1.5 text-xs text-right font-mono">{lot.remaining.toLocaleString('en-US', { maximumFractionDigits: 6 })}</TableCell>
+                                    <TableCell className="py-1.5 text-xs text-right">{formatCurrency(lot.price, inv.currency)}</TableCell>
+                                    <TableCell className="py-1.5 text-xs text-right">{formatCurrency(lot.fees, inv.currency)}</TableCell>
+                                    <TableCell className="py-1.5 text-xs text-right">{formatCurrency(lot.unitCost, inv.currency)}</TableCell>
+                                    <TableCell className="py-1.5 text-right">
+                                      {ownsTrade(lot.tradeId) && (
+                                        <Button variant="ghost" size="icon" className="h-6 w-6" onClick={() => onDeleteTrade(lot.tradeId)} title="Delete trade">
+                                          <Trash2 className="h-3.5 w-3.5 text-destructive" />
+                                        </Button>
+                                      )}
+                                    </TableCell>
+                                  </TableRow>
+                                ))}
+                              </TableBody>
+                            </Table>
+                          )}
+                          {sales.length > 0 && (
+                            <>
+                              <div className="flex items-center gap-2 text-xs font-semibold text-muted-foreground pt-2">
+                                <TrendingUp className="h-3.5 w-3.5" /> Sales ({costBasisMethod.toUpperCase()})
+                              </div>
+                              <Table>
+                                <TableHeader>
+                                  <TableRow>
+                                    <TableHead className="h-8 text-xs">Date</TableHead>
+                                    <TableHead className="h-8 text-xs text-right">Sold</TableHead>
+                                    <TableHead className="h-8 text-xs text-right">Proceeds</TableHead>
+                                    <TableHead className="h-8 text-xs text-right">Cost Basis</TableHead>
+                                    <TableHead className="h-8 text-xs text-right">Realized</TableHead>
+                                    <TableHead className="h-8"></TableHead>
+                                  </TableRow>
+                                </TableHeader>
+                                <TableBody>
+                                  {sales.map((sale) => (
+                                    <TableRow key={sale.tradeId}>
+                                      <TableCell className="py-1.5 text-xs">{format(new Date(sale.date), 'MMM dd, yyyy')}</TableCell>
+                                      <TableCell className="py-1.5 text-xs text-right font-mono">{sale.quantity}</TableCell>
+                                      <TableCell className="py-1.5 text-xs text-right">{formatCurrency(sale.proceeds, inv.currency)}</TableCell>
+                                      <TableCell className="py-1.5 text-xs text-right">{formatCurrency(sale.costBasis, inv.currency)}</TableCell>
+                                      <TableCell className={cn("py-1.5 text-xs text-right font-medium", sale.gain >= 0 ? 'text-success' : 'text-destructive')}>
+                                        {formatCurrency(sale.gain, inv.currency)}
+                                      </TableCell>
+                                      <TableCell className="py-1.5 text-right">
+                                        {!sale.actionId && (
+                                          <Button variant="ghost" size="icon" className="h-6 w-6" onClick={() => onDeleteTrade(sale.tradeId)} title="Delete trade">
+                                            <Trash2 className="h-3.5 w-3.5 text-destructive" />
+                                          </Button>
+                                        )}
+                                      </TableCell>
+                                    </TableRow>
+                                  ))}
+                                </TableBody>
+                              </Table>
+                            </>
+                          )}
+                          {actions.length > 0 && (
+                            <>
+                              <div className="flex items-center gap-2 text-xs font-semibold text-muted-foreground pt-2">
+                                <GitBranch className="h-3.5 w-3.5" /> Corporate Actions
+                              </div>
+                              <div className="space-y-1">
+                                {actions.map((action) => (
+                                  <div key={action.id} className="flex items-center justify-between text-xs">
+                                    <div>
+                                      <span className="text-muted-foreground mr-2">{format(new Date(action.effectiveDate), 'MMM dd, yyyy')}</span>
+                                      <span>{action.assetId === inv.id ? describeAction(action) : `Received from ${action.oldSymbol || 'merged holding'} (${action.ratioFrom}:${action.ratioTo})`}</span>
+                                      {action.notes && <span className="text-muted-foreground ml-2">· {action.notes}</span>}
+                                    </div>
+                                    <Button variant="ghost" size="icon" className="h-6 w-6" onClick={() => onDeleteCorporateAction(action.id)} title="Undo corporate action">
+                                      <Undo2 className="h-3.5 w-3.5 text-muted-foreground" />
+                                    </Button>
+                                  </div>
+                                ))}
+                              </div>
+                            </>
+                          )}
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  )}
+                  </Fragment>
+                  );
+                })}
               </TableBody>
             </Table>
           </div>
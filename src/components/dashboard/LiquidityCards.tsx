@@ -4,36 +4,58 @@ import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
-import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
-import { Plus, Trash2, Wallet } from 'lucide-react';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { format, parseISO } from 'date-fns';
+import { Pencil, Plus, Trash2, Wallet } from 'lucide-react';
 import type { LiquidityAccount } from '@/types/finance';
+import { useFinance } from '@/contexts/FinanceContext';
 import { useSettings } from '@/contexts/SettingsContext';
+import { defaultAccount, lastReconciliation } from '@/lib/accounts';
 import { cn } from '@/lib/utils';
+import { ReconcileDialog } from './ReconcileDialog';
 
 interface LiquidityCardsProps {
   accounts: LiquidityAccount[];
-  onAdd: (account: Omit<LiquidityAccount, 'id' | 'createdAt' | 'updatedAt'>) => void;
+  onAdd: (account: Omit<LiquidityAccount, 'id' | 'createdAt' | 'updatedAt' | 'balance'>) => void;
   onUpdate: (id: string, updates: Partial<LiquidityAccount>) => void;
   onDelete: (id: string) => void;
 }
 
+const emptyForm = () => ({
+  type: 'checking' as LiquidityAccount['type'],
+  name: '',
+  openingBalance: 0,
+  openingDate: format(new Date(), 'yyyy-MM-dd'),
+  currency: 'USD',
+});
+
+// Balances are derived from the opening balance and the account's transactions
 export function LiquidityCards({ accounts, onAdd, onUpdate, onDelete }: LiquidityCardsProps) {
+  const { data } = useFinance();
   const { formatCurrency, convertCurrency, isPrivacyMode, currency: baseCurrency } = useSettings();
   const [open, setOpen] = useState(false);
-  const [form, setForm] = useState({
-    type: 'checking' as LiquidityAccount['type'],
-    name: '',
-    balance: 0,
-    currency: 'USD',
-  });
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [form, setForm] = useState(emptyForm);
+
+  const openForm = (account?: LiquidityAccount) => {
+    setEditingId(account?.id ?? null);
+    setForm(account
+      ? { type: account.type, name: account.name, openingBalance: account.openingBalance, openingDate: account.openingDate || '', currency: account.currency || 'USD' }
+      : emptyForm());
+    setOpen(true);
+  };
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
-    onAdd(form);
-    setForm({ type: 'checking', name: '', balance: 0, currency: 'USD' });
+    const entry = { ...form, openingDate: form.openingDate || undefined };
+    if (editingId) onUpdate(editingId, { ...entry, openingDate: form.openingDate });
+    else onAdd(entry);
     setOpen(false);
   };
 
+  const fallback = defaultAccount(accounts);
+  const unassigned = data.transactions.filter(t => !t.accountId || !accounts.some(a => a.id === t.accountId)).length;
+
   const totalLiquidity = accounts.reduce((sum, a) => sum + convertCurrency(a.balance, a.currency), 0);
 
 
@@ -47,15 +69,14 @@ export function LiquidityCards({ accounts, onAdd, onUpdate, onDelete }: Liquidit
             Total: {isPrivacyMode ? "****" : formatCurrency(totalLiquidity)}
           </span>
         </CardTitle>
+        <Button size="sm" className="gradient-primary" onClick={() => openForm()}>
+          <Plus className="h-4 w-4 mr-1" /> Add
+        </Button>
         <Dialog open={open} onOpenChange={setOpen}>
-          <DialogTrigger asChild>
-            <Button size="sm" className="gradient-primary">
-              <Plus className="h-4 w-4 mr-1" /> Add
-            </Button>
-          </DialogTrigger>
           <DialogContent>
             <DialogHeader>
-              <DialogTitle>Add Cash Account</DialogTitle>
+              <DialogTitle>{editingId ? 'Edit Cash Account' : 'Add Cash Account'}</DialogTitle>
+              <DialogDescription>The balance is the opening balance plus every transaction booked on the account.</DialogDescription>
             </DialogHeader>
             <form onSubmit={handleSubmit} className="space-y-4">
               <div className="grid grid-cols-2 gap-4">
@@ -88,45 +109,68 @@ export function LiquidityCards({ accounts, onAdd, onUpdate, onDelete }: Liquidit
                 <Label>Name</Label>
                 <Input value={form.name} onChange={(e) => setForm({ ...form, name: e.target.value })} placeholder="Main Checking" />
               </div>
-              <div className="space-y-2">
-                <Label>Balance</Label>
-                <Input type="number" value={form.balance} onChange={(e) => setForm({ ...form, balance: +e.target.value })} />
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label>Opening Balance</Label>
+                  <Input type="number" step="0.01" value={form.openingBalance} onChange={(e) => setForm({ ...form, openingBalance: +e.target.value })} />
+                </div>
+                <div className="space-y-2">
+                  <Label>As of</Label>
+                  <Input type="date" value={form.openingDate} onChange={(e) => setForm({ ...form, openingDate: e.target.value })} />
+                </div>
               </div>
-              <Button type="submit" className="w-full gradient-primary">Add Account</Button>
+              <p className="text-xs text-muted-foreground">Transactions dated before this day are treated as part of the opening balance. Clear the date to count all of them.</p>
+              <Button type="submit" className="w-full gradient-primary">{editingId ? 'Save Account' : 'Add Account'}</Button>
             </form>
           </DialogContent>
         </Dialog>
       </CardHeader>
-      <CardContent>
+      <CardContent className="space-y-3">
         {accounts.length === 0 ? (
           <div className="text-center py-8 text-muted-foreground">No cash accounts yet. Add your first one!</div>
         ) : (
           <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
-            {accounts.map((a) => (
-              <div key={a.id} className="p-4 rounded-lg bg-secondary/50 border border-border/50 relative group">
-                <Button
-                  variant="ghost"
-                  size="icon"
-                  className="absolute top-2 right-2 opacity-0 group-hover:opacity-100 transition-opacity"
-                  onClick={() => onDelete(a.id)}
-                >
-                  <Trash2 className="h-4 w-4 text-destructive" />
-                </Button>
-                <div className="text-sm text-muted-foreground capitalize">{a.type.replace('_', ' ')}</div>
-                <div className="font-medium">{a.name}</div>
-                <div className="text-xl font-bold text-primary mt-1">
-                  {isPrivacyMode ? "****" : formatCurrency(a.balance, a.currency)}
-                </div>
-                {a.currency && a.currency !== baseCurrency && (
-                  <div className="text-xs text-muted-foreground">
-                    {isPrivacyMode ? "****" : new Intl.NumberFormat('en-US', { style: 'currency', currency: a.currency }).format(a.balance)}
+            {accounts.map((a) => {
+              const reconciled = lastReconciliation(data.reconciliations, a.id);
+              const difference = reconciled ? Math.round((reconciled.statementBalance - reconciled.computedBalance) * 100) / 100 : 0;
+              return (
+                <div key={a.id} className="p-4 rounded-lg bg-secondary/50 border border-border/50 relative group">
+                  <div className="absolute top-2 right-2 flex opacity-0 group-hover:opacity-100 transition-opacity">
+                    <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => openForm(a)}>
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+                    <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => onDelete(a.id)}>
+                      <Trash2 className="h-4 w-4 text-destructive" />
+                    </Button>
                   </div>
-                )}
-              </div>
-            ))
-            }
+                  <div className="text-sm text-muted-foreground capitalize">
+                    {a.type.replace('_', ' ')}{a.id === fallback?.id && accounts.length > 1 && ' · default'}
+                  </div>
+                  <div className="font-medium">{a.name}</div>
+                  <div className="text-xl font-bold text-primary mt-1">
+                    {isPrivacyMode ? "****" : formatCurrency(a.balance, a.currency)}
+                  </div>
+                  {a.currency && a.currency !== baseCurrency && (
+                    <div className="text-xs text-muted-foreground">
+                      {isPrivacyMode ? "****" : new Intl.NumberFormat('en-US', { style: 'currency', currency: a.currency }).format(a.balance)}
+                    </div>
+                  )}
+                  <div className="flex items-center justify-between mt-2">
+                    <span className={cn("text-xs", reconciled && difference !== 0 ? "text-warning" : "text-muted-foreground")}>
+                      {reconciled
+                        ? `Reconciled ${format(parseISO(reconciled.date), 'MMM dd')}${difference !== 0 ? ` (off by ${isPrivacyMode ? '****' : formatCurrency(difference, a.currency)})` : ''}`
+                        : 'Never reconciled'}
+                    </span>
+                    <ReconcileDialog account={a} />
+                  </div>
+                </div>
+              );
+            })}
           </div >
         )}
+        {unassigned > 0 && (
+          <p className="text-xs text-muted-foreground">{unassigned} transactions have no account and are not counted in any balance.</p>
+        )}
       </CardContent >
     </Card >
   );
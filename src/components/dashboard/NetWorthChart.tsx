@@ -1,28 +1,69 @@
-import { useState } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
-import { format } from 'date-fns';
-import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Area, AreaChart } from 'recharts';
+import { HelpTooltip } from '@/components/ui/tooltip-helper';
+import { format, parseISO } from 'date-fns';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Legend } from 'recharts';
 import type { TimeRange, ChartDataPoint } from '@/types/finance';
 import { cn } from '@/lib/utils';
 import { useSettings } from '@/contexts/SettingsContext';
+import { useFinance } from '@/contexts/FinanceContext';
+import { useBenchmarks } from '@/hooks/useBenchmarks';
+import { benchmarkReturn, rebaseSeries } from '@/lib/benchmarks';
+import type { PerformanceScope } from '@/lib/performance';
+import { BenchmarkPicker } from './BenchmarkPicker';
 
 interface NetWorthChartProps {
   data: ChartDataPoint[];
   onRangeChange: (range: TimeRange) => void;
   currentRange: TimeRange;
+  title?: string;
+  valueLabel?: string;
+  scope?: PerformanceScope; // Holdings whose TWR is compared with the benchmarks
 }
 
 const ranges: TimeRange[] = ['1W', '1M', '6M', '1Y', 'ALL'];
 
-export function NetWorthChart({ data, onRangeChange, currentRange }: NetWorthChartProps) {
+const formatReturn = (value: number) => `${value >= 0 ? '+' : ''}${(value * 100).toFixed(2)}%`;
+
+export function NetWorthChart({ data, onRangeChange, currentRange, title = 'Net Worth Evolution', valueLabel = 'Net Worth', scope = 'all' }: NetWorthChartProps) {
   const { formatCurrency, isPrivacyMode } = useSettings();
+  const { getPerformance } = useFinance();
+
+  const performance = getPerformance(currentRange, scope);
+  const firstDate = data[0]?.date.slice(0, 10);
+  const fetchFrom = firstDate && firstDate < performance.from ? firstDate : performance.from;
+  const benchmarks = useBenchmarks(parseISO(fetchFrom));
+
+  // Benchmarks are rebased to the first point of the chart
+  const dates = data.map(p => p.date.slice(0, 10));
+  const rebased = benchmarks.selected.map(b => ({
+    benchmark: b,
+    values: data.length > 0 ? rebaseSeries(benchmarks.seriesOf(b.id), dates, dates[0], data[0].value) : [],
+  }));
+  const chartData = data.map((point, i) => ({
+    ...point,
+    ...Object.fromEntries(rebased.map(r => [r.benchmark.id, r.values[i]])),
+  }));
+
+  // Tracking difference: contributions-adjusted (time-weighted) return minus the benchmark's price return
+  const comparisons = benchmarks.selected.map(b => ({
+    benchmark: b,
+    benchmarkReturn: benchmarkReturn(benchmarks.seriesOf(b.id), performance.from, performance.to),
+  }));
+  const twr = performance.portfolio.twr;
 
   return (
     <Card className="glass-card col-span-full">
       <CardHeader className="flex flex-row items-center justify-between">
-        <CardTitle className="text-lg font-semibold">Net Worth Evolution</CardTitle>
+        <CardTitle className="text-lg font-semibold">{title}</CardTitle>
         <div className="flex gap-1">
+          <BenchmarkPicker
+            available={benchmarks.available}
+            selected={benchmarks.selected}
+            onToggle={benchmarks.toggleBenchmark}
+            onAddCustom={benchmarks.addCustomBenchmark}
+            onRemoveCustom={benchmarks.removeCustomBenchmark}
+          />
           {ranges.map((range) => (
             <Button
               key={range}
@@ -47,9 +88,9 @@ export function NetWorthChart({ data, onRangeChange, currentRange }: NetWorthCha
         ) : (
           <div className="relative">
             <ResponsiveContainer width="100%" height={300}>
-              <LineChart data={data} margin={{ top: 5, right: 30, left: 20, bottom: 5 }}>
+              <LineChart data={chartData} margin={{ top: 5, right: 30, left: 20, bottom: 5 }}>
                 <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" />
-                <XAxis dataKey="date" stroke="hsl(var(--muted-foreground))" fontSize={12} />
+                <XAxis dataKey="date" stroke="hsl(var(--muted-foreground))" fontSize={12} tickFormatter={(date) => format(new Date(date), 'MMM dd')} />
                 <YAxis
                   stroke="hsl(var(--muted-foreground))"
                   fontSize={12}
@@ -57,25 +98,67 @@ export function NetWorthChart({ data, onRangeChange, currentRange }: NetWorthCha
                 />
                 <Tooltip
                   labelFormatter={(date) => format(new Date(date), 'MMM d, yyyy')}
-                  formatter={(value: number) => [
+                  formatter={(value: number, name: string) => [
                     isPrivacyMode ? "****" : formatCurrency(value),
-                    'Net Worth'
+                    name
                   ]}
                   contentStyle={{ backgroundColor: "#1A1F2C", borderColor: "#403E43", color: "#FFFFFF" }}
                   itemStyle={{ color: "#FFFFFF" }}
                 />
+                {rebased.length > 0 && <Legend />}
                 <Line
                   type="monotone"
                   dataKey="value"
+                  name={valueLabel}
                   stroke="hsl(var(--primary))"
                   strokeWidth={2}
                   dot={{ fill: 'hsl(var(--primary))', strokeWidth: 0, r: 4 }}
                   activeDot={{ r: 6, fill: 'hsl(var(--primary))' }}
                 />
+                {rebased.map(({ benchmark }) => (
+                  <Line
+                    key={benchmark.id}
+                    type="monotone"
+                    dataKey={benchmark.id}
+                    name={benchmark.label}
+                    stroke={benchmark.color}
+                    strokeWidth={1.5}
+                    strokeDasharray="5 5"
+                    dot={false}
+                    connectNulls
+                  />
+                ))}
               </LineChart>
             </ResponsiveContainer>
           </div>
         )}
+
+        {comparisons.length > 0 && (
+          <div className="mt-4 pt-4 border-t space-y-2">
+            <div className="flex items-center justify-between text-xs text-muted-foreground">
+              <span className="flex items-center gap-1">
+                Tracking difference ({currentRange})
+                <HelpTooltip content="Time-weighted return of your holdings (deposits and withdrawals removed) minus the benchmark's price return over the same period. Positive means you beat it." />
+              </span>
+              <span>Portfolio TWR: {twr === null ? '—' : formatReturn(twr)}</span>
+            </div>
+            {comparisons.map(({ benchmark, benchmarkReturn: ret }) => {
+              const diff = twr !== null && ret !== null ? twr - ret : null;
+              return (
+                <div key={benchmark.id} className="flex items-center justify-between text-sm">
+                  <span className="flex items-center gap-2">
+                    <span className="h-2 w-2 rounded-full" style={{ backgroundColor: benchmark.color }} />
+                    {benchmark.label}
+                    <span className="text-xs text-muted-foreground">{ret === null ? (benchmarks.isLoading ? 'loading…' : 'no data') : formatReturn(ret)}</span>
+                  </span>
+                  <span className={cn("font-medium", diff === null ? 'text-muted-foreground' : diff >= 0 ? 'text-success' : 'text-destructive')}>
+                    {diff === null ? '—' : `${formatReturn(diff)} ${diff >= 0 ? 'ahead' : 'behind'}`}
+                  </span>
+                </div>
+              );
+            })}
+          </div>
+        )}
       </CardContent>
     </Card>
   );
@@ -0,0 +1,50 @@
+import { useNavigate } from 'react-router-dom';
+import { AlertTriangle, CheckCircle2 } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { useFinance } from '@/contexts/FinanceContext';
+import { useSettings } from '@/contexts/SettingsContext';
+import { getBudgetStatuses } from '@/lib/budgets';
+import { cn } from '@/lib/utils';
+import { CategoryBadge } from './CategoryBadge';
+
+/** Categories over budget this month, and those on pace to be. Hidden until a budget exists. */
+export function OverBudgetWidget() {
+    const { data } = useFinance();
+    const { formatCurrency, convertCurrency, isPrivacyMode } = useSettings();
+    const navigate = useNavigate();
+
+    if (data.budgets.length === 0) return null;
+
+    const statuses = getBudgetStatuses(data.budgets, data.transactions, data.categories, convertCurrency);
+    const over = statuses.filter(s => s.overBudget).sort((a, b) => a.remaining - b.remaining);
+    const atRisk = statuses.filter(s => !s.overBudget && s.projectedOver);
+
+    return (
+        <Card className="glass-card cursor-pointer" onClick={() => navigate('/cash-flow')}>
+            <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                    {over.length > 0
+                        ? <AlertTriangle className="h-5 w-5 text-red-500" />
+                        : <CheckCircle2 className="h-5 w-5 text-green-500" />}
+                    Budgets
+                </CardTitle>
+            </CardHeader>
+            <CardContent className={cn("space-y-3", isPrivacyMode && "blur-sm select-none pointer-events-none")}>
+                {over.length === 0 && (
+                    <p className="text-sm text-muted-foreground">All categories are within budget this month.</p>
+                )}
+                {over.map(s => (
+                    <div key={s.budget.id} className="flex items-center justify-between gap-2">
+                        <CategoryBadge type="expense" name={s.budget.category} />
+                        <span className="text-sm font-medium text-red-500">{formatCurrency(-s.remaining)} over</span>
+                    </div>
+                ))}
+                {atRisk.length > 0 && (
+                    <p className="text-xs text-warning">
+                        On pace to overspend: {atRisk.map(s => s.budget.category).join(', ')}
+                    </p>
+                )}
+            </CardContent>
+        </Card>
+    );
+}
@@ -0,0 +1,88 @@
+import { useState } from 'react';
+import { format, parseISO } from 'date-fns';
+import { Check, SkipForward, Repeat } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { useFinance } from '@/contexts/FinanceContext';
+import { useSettings } from '@/contexts/SettingsContext';
+import { dueOccurrences } from '@/lib/recurring';
+import { cn } from '@/lib/utils';
+import type { RecurringTransaction } from '@/types/finance';
+import { CategoryBadge } from './CategoryBadge';
+
+/** Due occurrences of templates without auto-post, oldest first, waiting to be confirmed or skipped. */
+export function PendingRecurring() {
+    const { data } = useFinance();
+    const { isPrivacyMode } = useSettings();
+
+    const pending = data.recurring
+        .filter(r => !r.autoPost)
+        .map(r => ({ template: r, count: dueOccurrences(r).length }))
+        .filter(p => p.count > 0)
+        .sort((a, b) => (a.template.nextDate || '').localeCompare(b.template.nextDate || ''));
+
+    if (pending.length === 0) return null;
+
+    return (
+        <Card className="glass-card border-warning/40">
+            <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                    <Repeat className="h-5 w-5 text-warning" /> Pending
+                </CardTitle>
+                <CardDescription>Recurring transactions due for confirmation. Adjust the amount if it changed.</CardDescription>
+            </CardHeader>
+            <CardContent className={cn("space-y-2", isPrivacyMode && "blur-sm select-none pointer-events-none")}>
+                {pending.map(p => (
+                    // Keyed by date so the amount resets once the occurrence moves on
+                    <PendingRow key={`${p.template.id}-${p.template.nextDate}`} template={p.template} count={p.count} />
+                ))}
+            </CardContent>
+        </Card>
+    );
+}
+
+function PendingRow({ template, count }: { template: RecurringTransaction; count: number }) {
+    const { confirmRecurring, skipRecurring } = useFinance();
+    const [amount, setAmount] = useState(String(template.amount));
+    const [isBusy, setIsBusy] = useState(false);
+
+    const run = async (action: () => Promise<void>) => {
+        setIsBusy(true);
+        try {
+            await action();
+        } finally {
+            setIsBusy(false);
+        }
+    };
+
+    const parsed = parseFloat(amount);
+
+    return (
+        <div className="flex flex-wrap items-center gap-3 rounded-md border px-3 py-2">
+            <div className="w-28 text-sm whitespace-nowrap">
+                {template.nextDate && format(parseISO(template.nextDate), 'MMM dd, yyyy')}
+                {count > 1 && <div className="text-xs text-muted-foreground">+{count - 1} more</div>}
+            </div>
+            <div className="flex-1 min-w-[140px]">
+                <div className="text-sm font-medium">{template.name}</div>
+                <CategoryBadge type={template.type} name={template.category} className="mt-1" />
+            </div>
+            <div className="flex items-center gap-1">
+                <span className={cn("text-sm font-medium", template.type === 'income' ? 'text-green-500' : 'text-red-500')}>
+                    {template.type === 'income' ? '+' : '-'}
+                </span>
+                <Input type="number" step="0.01" className="h-8 w-28" value={amount} onChange={(e) => setAmount(e.target.value)} />
+                {template.currency && <span className="text-xs text-muted-foreground">{template.currency}</span>}
+            </div>
+            <div className="flex items-center gap-1">
+                <Button size="sm" disabled={isBusy || !(parsed > 0)} onClick={() => run(() => confirmRecurring(template.id, parsed))}>
+                    <Check className="h-4 w-4 mr-1" /> Confirm
+                </Button>
+                <Button size="sm" variant="ghost" disabled={isBusy} onClick={() => run(() => skipRecurring(template.id))}>
+                    <SkipForward className="h-4 w-4 mr-1" /> Skip
+                </Button>
+            </div>
+        </div>
+    );
+}
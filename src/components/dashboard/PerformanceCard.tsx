@@ -0,0 +1,119 @@
+import { useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { HelpTooltip } from '@/components/ui/tooltip-helper';
+import { Activity } from 'lucide-react';
+import { useFinance } from '@/contexts/FinanceContext';
+import { useSettings } from '@/contexts/SettingsContext';
+import type { PerformanceScope } from '@/lib/performance';
+import type { TimeRange } from '@/types/finance';
+import { cn } from '@/lib/utils';
+
+interface PerformanceCardProps {
+    scope: PerformanceScope;
+    range?: TimeRange; // Controlled by the page when set
+    onRangeChange?: (range: TimeRange) => void;
+}
+
+const ranges: TimeRange[] = ['1W', '1M', '6M', '1Y', 'ALL'];
+
+const formatReturn = (value: number | null) =>
+    value === null ? '—' : `${value >= 0 ? '+' : ''}${(value * 100).toFixed(2)}%`;
+
+const returnColor = (value: number | null) =>
+    value === null ? 'text-muted-foreground' : value >= 0 ? 'text-success' : 'text-destructive';
+
+export function PerformanceCard({ scope, range, onRangeChange }: PerformanceCardProps) {
+    const { data, getPerformance } = useFinance();
+    const { formatCurrency, isPrivacyMode } = useSettings();
+    const [localRange, setLocalRange] = useState<TimeRange>('1Y');
+
+    const currentRange = range ?? localRange;
+    const setRange = onRangeChange ?? setLocalRange;
+    const { portfolio, byAsset } = getPerformance(currentRange, scope);
+
+    const holdings = [
+        ...(scope === 'investment' ? data.investments : []),
+        ...(scope === 'crypto' ? data.crypto : []),
+    ].filter(h => byAsset[h.id] && (byAsset[h.id].endValue > 0 || byAsset[h.id].netFlows !== 0));
+
+    return (
+        <Card className="glass-card">
+            <CardHeader className="flex flex-row items-center justify-between space-y-0 gap-2">
+                <CardTitle className="flex items-center gap-2 text-lg font-semibold">
+                    <Activity className="h-5 w-5 text-primary" /> Performance
+                </CardTitle>
+                <div className="flex gap-1">
+                    {ranges.map((r) => (
+                        <Button
+                            key={r}
+                            variant={currentRange === r ? 'default' : 'ghost'}
+                            size="sm"
+                            onClick={() => setRange(r)}
+                            className={cn('text-xs h-7 px-2', currentRange === r && 'gradient-primary text-primary-foreground')}
+                        >
+                            {r}
+                        </Button>
+                    ))}
+                </div>
+            </CardHeader>
+            <CardContent className={cn("space-y-4", isPrivacyMode && "blur-sm select-none pointer-events-none")}>
+                <div className="grid grid-cols-3 gap-4">
+                    <div>
+                        <div className="text-xs text-muted-foreground flex items-center gap-1">
+                            TWR
+                            <HelpTooltip content="Time-weighted return over the period. Removes the effect of deposits and withdrawals, so it measures the investments themselves." />
+                        </div>
+                        <div className={cn("text-xl font-bold", returnColor(portfolio.twr))}>{formatReturn(portfolio.twr)}</div>
+                    </div>
+                    <div>
+                        <div className="text-xs text-muted-foreground flex items-center gap-1">
+                            XIRR
+                            <HelpTooltip content="Money-weighted return, annualized. Reflects when and how much you invested." />
+                        </div>
+                        <div className={cn("text-xl font-bold", returnColor(portfolio.xirr))}>{formatReturn(portfolio.xirr)}</div>
+                    </div>
+                    <div>
+                        <div className="text-xs text-muted-foreground flex items-center gap-1">
+                            Gain
+                            <HelpTooltip content="End value minus start value minus net contributions in the period. Dividends count as gain." />
+                        </div>
+                        <div className={cn("text-xl font-bold", portfolio.gain >= 0 ? 'text-success' : 'text-destructive')}>
+                            {isPrivacyMode ? "****" : formatCurrency(portfolio.gain)}
+                        </div>
+                    </div>
+                </div>
+                <p className="text-xs text-muted-foreground">
+                    Net contributions: {isPrivacyMode ? "****" : formatCurrency(portfolio.netFlows)}
+                </p>
+
+                {holdings.length > 0 && (
+                    <Table>
+                        <TableHeader>
+                            <TableRow>
+                                <TableHead>Symbol</TableHead>
+                                <TableHead className="text-right">TWR</TableHead>
+                                <TableHead className="text-right">XIRR</TableHead>
+                                <TableHead className="text-right hidden sm:table-cell">Gain</TableHead>
+                            </TableRow>
+                        </TableHeader>
+                        <TableBody>
+                            {holdings.map(h => {
+                                const result = byAsset[h.id];
+                                return (
+                                    <TableRow key={h.id}>
+                                        <TableCell className="font-mono font-medium">{h.symbol}</TableCell>
+                                        <TableCell className={cn("text-right", returnColor(result.twr))}>{formatReturn(result.twr)}</TableCell>
+                                        <TableCell className={cn("text-right", returnColor(result.xirr))}>{formatReturn(result.xirr)}</TableCell>
+                                        <TableCell className="text-right hidden sm:table-cell">{formatCurrency(result.gain)}</TableCell>
+                                    </TableRow>
+                                );
+                            })}
+                        </TableBody>
+                    </Table>
+                )}
+            </CardContent>
+        </Card>
+    );
+}
@@ -0,0 +1,73 @@
+import { useState } from 'react';
+import { format } from 'date-fns';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { HelpTooltip } from '@/components/ui/tooltip-helper';
+import { Receipt } from 'lucide-react';
+import { useFinance } from '@/contexts/FinanceContext';
+import { useSettings } from '@/contexts/SettingsContext';
+import { COST_BASIS_METHODS } from '@/lib/lots';
+import { cn } from '@/lib/utils';
+
+interface RealizedGainsCardProps {
+    category: 'investment' | 'crypto';
+}
+
+export function RealizedGainsCard({ category }: RealizedGainsCardProps) {
+    const { getRealizedGains } = useFinance();
+    const { formatCurrency, isPrivacyMode, costBasisMethod } = useSettings();
+    const currentYear = new Date().getFullYear();
+    const [year, setYear] = useState<number>(currentYear);
+
+    const allTime = getRealizedGains(category);
+    const yearly = getRealizedGains(category, year);
+
+    // Years with at least one sale, plus the current one
+    const years = Array.from(new Set([currentYear, ...allTime.sales.map(s => Number(s.date.slice(0, 4)))])).sort((a, b) => b - a);
+    const methodLabel = COST_BASIS_METHODS.find(m => m.value === costBasisMethod)?.label;
+
+    return (
+        <Card className="glass-card">
+            <CardHeader className="flex flex-row items-center justify-between space-y-0">
+                <CardTitle className="flex items-center gap-2">
+                    <Receipt className="h-4 w-4" /> Realized P/L
+                    <HelpTooltip content={`Gains and losses locked in by sells, net of fees. Cost basis method: ${methodLabel}.`} />
+                </CardTitle>
+                <div className="w-[100px]">
+                    <Select value={String(year)} onValueChange={(v) => setYear(Number(v))}>
+                        <SelectTrigger className="h-8"><SelectValue /></SelectTrigger>
+                        <SelectContent>
+                            {years.map(y => <SelectItem key={y} value={String(y)}>{y}</SelectItem>)}
+                        </SelectContent>
+                    </Select>
+                </div>
+            </CardHeader>
+            <CardContent className={cn("space-y-4", isPrivacyMode && "blur-sm select-none pointer-events-none")}>
+                <div>
+                    <div className={cn("text-2xl font-bold", yearly.total >= 0 ? "text-success" : "text-destructive")}>
+                        {isPrivacyMode ? "****" : `${yearly.total >= 0 ? '+' : ''}${formatCurrency(yearly.total)}`}
+                    </div>
+                    <p className="text-xs text-muted-foreground">
+                        {yearly.sales.length} sale{yearly.sales.length === 1 ? '' : 's'} in {year} · All time: {isPrivacyMode ? "****" : formatCurrency(allTime.total)}
+                    </p>
+                </div>
+
+                {yearly.sales.length > 0 && (
+                    <div className="space-y-2 max-h-[200px] overflow-y-auto">
+                        {yearly.sales.map(s => (
+                            <div key={s.tradeId} className="flex justify-between items-center text-sm">
+                                <div>
+                                    <span className="font-mono font-medium">{s.symbol}</span>
+                                    <span className="text-xs text-muted-foreground ml-2">{format(new Date(s.date), 'MMM dd')}</span>
+                                </div>
+                                <span className={cn("font-medium", s.gain >= 0 ? "text-success" : "text-destructive")}>
+                                    {formatCurrency(s.gain, s.currency)}
+                                </span>
+                            </div>
+                        ))}
+                    </div>
+                )}
+            </CardContent>
+        </Card>
+    );
+}
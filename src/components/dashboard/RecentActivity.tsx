@@ -3,7 +3,7 @@ import { useFinance } from '@/contexts/FinanceContext';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { useSettings } from '@/contexts/SettingsContext';
 import { cn } from '@/lib/utils';
-import { ArrowUpRight, ArrowDownLeft, Wallet } from 'lucide-react';
+import { ArrowUpRight, ArrowDownLeft, ArrowLeftRight, Wallet } from 'lucide-react';
 
 export function RecentActivity() {
     const { data } = useFinance();
@@ -30,17 +30,19 @@ export function RecentActivity() {
                                 <div className="flex items-center gap-3">
                                     <div className={cn(
                                         "p-2 rounded-full bg-secondary",
-                                        t.type === 'income' ? "text-green-500" : "text-red-500"
+                                        t.type === 'income' ? "text-green-500" : t.type === 'expense' ? "text-red-500" : "text-muted-foreground"
                                     )}>
-                                        {t.type === 'income' ? <ArrowDownLeft className="h-4 w-4" /> : <ArrowUpRight className="h-4 w-4" />}
+                                        {t.type === 'income' ? <ArrowDownLeft className="h-4 w-4" />
+                                            : t.type === 'expense' ? <ArrowUpRight className="h-4 w-4" />
+                                            : <ArrowLeftRight className="h-4 w-4" />}
                                     </div>
                                     <div>
                                         <p className="text-sm font-medium">{t.description || t.category}</p>
                                         <p className="text-xs text-muted-foreground">{format(new Date(t.date), 'MMM dd')}</p>
                                     </div>
                                 </div>
-                                <div className={cn("font-medium", t.type === 'income' ? "text-green-500" : "text-red-500")}>
-                                    {t.type === 'income' ? '+' : '-'}{formatCurrency(t.amount)}
+                                <div className={cn("font-medium", t.type === 'income' ? "text-green-500" : t.type === 'expense' && "text-red-500")}>
+                                    {t.type === 'income' ? '+' : t.type === 'expense' ? '-' : ''}{formatCurrency(t.amount, t.currency, t.date)}
                                 </div>
                             </div>
                         ))
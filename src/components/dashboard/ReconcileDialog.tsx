@@ -0,0 +1,136 @@
+import { useState } from 'react';
+import { format, parseISO } from 'date-fns';
+import { Scale, Trash2, Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter, DialogTrigger } from '@/components/ui/dialog';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useFinance } from '@/contexts/FinanceContext';
+import { useSettings } from '@/contexts/SettingsContext';
+import { accountBalance } from '@/lib/accounts';
+import { cn } from '@/lib/utils';
+import type { LiquidityAccount } from '@/types/finance';
+
+/** Checks an account against its bank statement and keeps the history of those checks. */
+export function ReconcileDialog({ account }: { account: LiquidityAccount }) {
+    const { data, reconcileAccount, deleteReconciliation } = useFinance();
+    const { convertCurrency, isPrivacyMode } = useSettings();
+
+    const [open, setOpen] = useState(false);
+    const [date, setDate] = useState(format(new Date(), 'yyyy-MM-dd'));
+    const [statement, setStatement] = useState('');
+    const [adjust, setAdjust] = useState(true);
+    const [isSaving, setIsSaving] = useState(false);
+
+    const money = (value: number) => new Intl.NumberFormat('en-US', { style: 'currency', currency: account.currency || 'EUR' }).format(value);
+    const computed = accountBalance(account, data.transactions, date, convertCurrency);
+    const statementBalance = parseFloat(statement);
+    const difference = isFinite(statementBalance) ? Math.round((statementBalance - computed) * 100) / 100 : null;
+    const history = data.reconciliations.filter(r => r.accountId === account.id);
+
+    const handleSave = async () => {
+        if (difference === null || !date) return;
+        setIsSaving(true);
+        try {
+            await reconcileAccount(account.id, date, statementBalance, adjust);
+            setStatement('');
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    return (
+        <Dialog open={open} onOpenChange={setOpen}>
+            <DialogTrigger asChild>
+                <Button variant="ghost" size="sm" className="h-7 px-2 text-xs">
+                    <Scale className="h-3.5 w-3.5 mr-1" /> Reconcile
+                </Button>
+            </DialogTrigger>
+            <DialogContent className="max-w-lg">
+                <DialogHeader>
+                    <DialogTitle>Reconcile {account.name}</DialogTitle>
+                    <DialogDescription>Enter the balance from your bank statement to check it against the transactions recorded here.</DialogDescription>
+                </DialogHeader>
+
+                <div className={cn("space-y-4", isPrivacyMode && "blur-sm select-none pointer-events-none")}>
+                    <div className="grid grid-cols-2 gap-4">
+                        <div className="space-y-2">
+                            <Label>Statement Date</Label>
+                            <Input type="date" value={date} onChange={(e) => setDate(e.target.value)} />
+                        </div>
+                        <div className="space-y-2">
+                            <Label>Statement Balance</Label>
+                            <Input type="number" step="0.01" value={statement} onChange={(e) => setStatement(e.target.value)} />
+                        </div>
+                    </div>
+                    <div className="rounded-md border p-3 text-sm space-y-1">
+                        <div className="flex justify-between">
+                            <span className="text-muted-foreground">Recorded balance on {date ? format(parseISO(date), 'MMM dd, yyyy') : '-'}</span>
+                            <span className="font-medium">{money(computed)}</span>
+                        </div>
+                        {difference !== null && (
+                            <div className="flex justify-between">
+                                <span className="text-muted-foreground">Difference</span>
+                                <span className={cn("font-medium", difference === 0 ? "text-green-500" : "text-warning")}>
+                                    {difference === 0 ? 'Matches' : `${difference > 0 ? '+' : ''}${money(difference)}`}
+                                </span>
+                            </div>
+                        )}
+                    </div>
+                    {difference !== null && difference !== 0 && (
+                        <div className="flex items-center justify-between rounded-md border p-3">
+                            <div>
+                                <Label>Book the difference</Label>
+                                <p className="text-xs text-muted-foreground">Adds an adjustment entry so the balances agree. Leave off to look for the missing transactions first.</p>
+                            </div>
+                            <Switch checked={adjust} onCheckedChange={setAdjust} />
+                        </div>
+                    )}
+
+                    {history.length > 0 && (
+                        <div className="border rounded-md max-h-48 overflow-y-auto">
+                            <Table>
+                                <TableHeader>
+                                    <TableRow>
+                                        <TableHead>Date</TableHead>
+                                        <TableHead className="text-right">Statement</TableHead>
+                                        <TableHead className="text-right">Difference</TableHead>
+                                        <TableHead className="w-[40px]"></TableHead>
+                                    </TableRow>
+                                </TableHeader>
+                                <TableBody>
+                                    {history.map(r => {
+                                        const diff = Math.round((r.statementBalance - r.computedBalance) * 100) / 100;
+                                        return (
+                                            <TableRow key={r.id}>
+                                                <TableCell className="py-1.5 text-xs">{format(parseISO(r.date), 'MMM dd, yyyy')}</TableCell>
+                                                <TableCell className="py-1.5 text-xs text-right">{money(r.statementBalance)}</TableCell>
+                                                <TableCell className={cn("py-1.5 text-xs text-right", diff === 0 ? "text-green-500" : "text-warning")}>
+                                                    {diff === 0 ? 'Matched' : money(diff)}
+                                                </TableCell>
+                                                <TableCell className="py-1.5">
+                                                    <Button size="icon" variant="ghost" className="h-6 w-6 text-destructive" onClick={() => deleteReconciliation(r.id)}>
+                                                        <Trash2 className="h-3 w-3" />
+                                                    </Button>
+                                                </TableCell>
+                                            </TableRow>
+                                        );
+                                    })}
+                                </TableBody>
+                            </Table>
+                        </div>
+                    )}
+                </div>
+
+                <DialogFooter>
+                    <Button className="gradient-primary" onClick={handleSave} disabled={difference === null || !date || isSaving}>
+                        {isSaving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                        Save Reconciliation
+                    </Button>
+                </DialogFooter>
+            </DialogContent>
+        </Dialog>
+    );
+}
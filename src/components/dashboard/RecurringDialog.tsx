@@ -0,0 +1,296 @@
+import { useState } from 'react';
+import { format, parseISO } from 'date-fns';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter, DialogTrigger } from '@/components/ui/dialog';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Repeat, Plus, Pencil, Trash2, Loader2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { useFinance } from '@/contexts/FinanceContext';
+import { useSettings } from '@/contexts/SettingsContext';
+import { describeFrequency, occurrencesBetween, FREQUENCIES } from '@/lib/recurring';
+import type { RecurringTransaction } from '@/types/finance';
+import { cn } from '@/lib/utils';
+import { CategorySelectItems } from './CategoryBadge';
+import { AccountSelect } from './AccountSelect';
+
+const NONE = 'none';
+
+type Draft = {
+    id?: string;
+    name: string;
+    type: RecurringTransaction['type'];
+    category: string;
+    amount: string;
+    currency: string;
+    accountId: string;
+    liabilityId: string;
+    frequency: RecurringTransaction['frequency'];
+    interval: string;
+    startDate: string;
+    endDate: string;
+    autoPost: boolean;
+};
+
+const emptyDraft = (currency: string): Draft => ({
+    name: '',
+    type: 'expense',
+    category: '',
+    amount: '',
+    currency,
+    accountId: '',
+    liabilityId: '',
+    frequency: 'monthly',
+    interval: '1',
+    startDate: format(new Date(), 'yyyy-MM-dd'),
+    endDate: '',
+    autoPost: false,
+});
+
+const toDraft = (r: RecurringTransaction, fallbackCurrency: string): Draft => ({
+    id: r.id,
+    name: r.name,
+    type: r.type,
+    category: r.category,
+    amount: String(r.amount),
+    currency: r.currency || fallbackCurrency,
+    accountId: r.accountId || '',
+    liabilityId: r.liabilityId || '',
+    frequency: r.frequency,
+    interval: String(r.interval),
+    startDate: r.startDate,
+    endDate: r.endDate || '',
+    autoPost: r.autoPost,
+});
+
+export function RecurringDialog() {
+    const { data, addRecurring, updateRecurring, deleteRecurring } = useFinance();
+    const { currency, formatCurrency } = useSettings();
+
+    const [open, setOpen] = useState(false);
+    const [draft, setDraft] = useState<Draft | null>(null);
+    const [isSaving, setIsSaving] = useState(false);
+
+    const postedCount = (id: string) => data.transactions.filter(t => t.recurringId === id).length;
+    const update = (changes: Partial<Draft>) => setDraft(prev => prev && { ...prev, ...changes });
+
+    const handleSave = async () => {
+        if (!draft) return;
+        const amount = parseFloat(draft.amount);
+        const interval = parseInt(draft.interval, 10);
+        if (!draft.name.trim() || !draft.category || !(amount > 0) || !(interval > 0) || !draft.startDate) {
+            toast.error('Fill in name, category, a positive amount and the start date');
+            return;
+        }
+        if (draft.endDate && draft.endDate < draft.startDate) {
+            toast.error('The end date is before the start date');
+            return;
+        }
+        const entry = {
+            name: draft.name.trim(),
+            type: draft.type,
+            category: draft.category,
+            amount,
+            currency: draft.currency,
+            accountId: draft.accountId || undefined,
+            liabilityId: draft.type === 'expense' && draft.liabilityId || undefined,
+            frequency: draft.frequency,
+            interval,
+            startDate: draft.startDate,
+            endDate: draft.endDate || undefined,
+            autoPost: draft.autoPost,
+        };
+        setIsSaving(true);
+        try {
+            if (draft.id) await updateRecurring(draft.id, entry);
+            else await addRecurring(entry);
+            setDraft(null);
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    // Occurrences already due when a new auto-post template starts in the past
+    const backlog = draft && !draft.id && draft.autoPost && draft.startDate
+        ? occurrencesBetween(
+            { frequency: draft.frequency, interval: parseInt(draft.interval, 10) || 1, startDate: draft.startDate, endDate: draft.endDate || undefined },
+            draft.startDate,
+            format(new Date(), 'yyyy-MM-dd'),
+        ).length
+        : 0;
+
+    return (
+        <Dialog open={open} onOpenChange={(val) => { if (!val) setDraft(null); setOpen(val); }}>
+            <DialogTrigger asChild>
+                <Button variant="outline">
+                    <Repeat className="h-4 w-4 mr-2" /> Recurring
+                </Button>
+            </DialogTrigger>
+            <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+                <DialogHeader>
+                    <DialogTitle>Recurring Transactions</DialogTitle>
+                    <DialogDescription>
+                        Templates for rent, salary and subscriptions. Due entries are posted automatically or wait in Pending for confirmation.
+                    </DialogDescription>
+                </DialogHeader>
+
+                {!draft ? (
+                    <div className="space-y-4">
+                        {data.recurring.length === 0 ? (
+                            <p className="text-sm text-muted-foreground text-center py-6">No recurring transactions yet.</p>
+                        ) : (
+                            <div className="border rounded-md">
+                                <Table>
+                                    <TableHeader>
+                                        <TableRow>
+                                            <TableHead>Name</TableHead>
+                                            <TableHead>Schedule</TableHead>
+                                            <TableHead>Next</TableHead>
+                                            <TableHead className="text-right">Amount</TableHead>
+                                            <TableHead className="w-[80px]"></TableHead>
+                                        </TableRow>
+                                    </TableHeader>
+                                    <TableBody>
+                                        {data.recurring.map(r => (
+                                            <TableRow key={r.id} className={cn(!r.nextDate && "opacity-50")}>
+                                                <TableCell className="py-2">
+                                                    <div className="text-sm font-medium">{r.name}</div>
+                                                    <div className="text-xs text-muted-foreground">{r.category} · {postedCount(r.id)} posted</div>
+                                                </TableCell>
+                                                <TableCell className="py-2 text-xs">
+                                                    {describeFrequency(r)}
+                                                    <div className="text-muted-foreground">{r.autoPost ? 'Auto-post' : 'Confirm'}{r.endDate && ` · until ${format(parseISO(r.endDate), 'MMM dd, yyyy')}`}</div>
+                                                </TableCell>
+                                                <TableCell className="py-2 text-xs whitespace-nowrap">
+                                                    {r.nextDate ? format(parseISO(r.nextDate), 'MMM dd, yyyy') : 'Ended'}
+                                                </TableCell>
+                                                <TableCell className={cn("py-2 text-right text-sm font-medium", r.type === 'income' ? 'text-green-500' : 'text-red-500')}>
+                                                    {r.type === 'income' ? '+' : '-'}{formatCurrency(r.amount, r.currency)}
+                                                </TableCell>
+                                                <TableCell className="py-2">
+                                                    <div className="flex items-center">
+                                                        <Button size="icon" variant="ghost" className="h-7 w-7" onClick={() => setDraft(toDraft(r, currency))}>
+                                                            <Pencil className="h-3.5 w-3.5" />
+                                                        </Button>
+                                                        <Button size="icon" variant="ghost" className="h-7 w-7 text-destructive" onClick={() => deleteRecurring(r.id)}>
+                                                            <Trash2 className="h-3.5 w-3.5" />
+                                                        </Button>
+                                                    </div>
+                                                </TableCell>
+                                            </TableRow>
+                                        ))}
+                                    </TableBody>
+                                </Table>
+                            </div>
+                        )}
+                        <DialogFooter>
+                            <Button className="gradient-primary" onClick={() => setDraft(emptyDraft(currency))}>
+                                <Plus className="h-4 w-4 mr-2" /> New Recurring
+                            </Button>
+                        </DialogFooter>
+                    </div>
+                ) : (
+                    <div className="space-y-4">
+                        <div className="grid grid-cols-2 gap-4">
+                            <div className="space-y-2 col-span-2">
+                                <Label>Name</Label>
+                                <Input placeholder="e.g. Rent" value={draft.name} onChange={(e) => update({ name: e.target.value })} />
+                            </div>
+                            <div className="space-y-2">
+                                <Label>Type</Label>
+                                <Select value={draft.type} onValueChange={(type: Draft['type']) => update({ type, category: '' })}>
+                                    <SelectTrigger><SelectValue /></SelectTrigger>
+                                    <SelectContent>
+                                        <SelectItem value="income">Income</SelectItem>
+                                        <SelectItem value="expense">Expense</SelectItem>
+                                    </SelectContent>
+                                </Select>
+                            </div>
+                            <div className="space-y-2">
+                                <Label>Amount</Label>
+                                <div className="flex gap-2">
+                                    <Input type="number" step="0.01" value={draft.amount} onChange={(e) => update({ amount: e.target.value })} />
+                                    <Select value={draft.currency} onValueChange={(value) => update({ currency: value })}>
+                                        <SelectTrigger className="w-[90px]"><SelectValue /></SelectTrigger>
+                                        <SelectContent>
+                                            <SelectItem value="USD">USD</SelectItem>
+                                            <SelectItem value="EUR">EUR</SelectItem>
+                                            <SelectItem value="GBP">GBP</SelectItem>
+                                            <SelectItem value="CHF">CHF</SelectItem>
+                                        </SelectContent>
+                                    </Select>
+                                </div>
+                            </div>
+                            <div className="space-y-2 col-span-2">
+                                <Label>Category</Label>
+                                <Select value={draft.category} onValueChange={(category) => update({ category })}>
+                                    <SelectTrigger><SelectValue placeholder="Select category" /></SelectTrigger>
+                                    <SelectContent>
+                                        <CategorySelectItems type={draft.type} current={draft.category} />
+                                    </SelectContent>
+                                </Select>
+                            </div>
+                            <div className={cn("space-y-2", (draft.type !== 'expense' || data.liabilities.length === 0) && "col-span-2")}>
+                                <Label>Account</Label>
+                                <AccountSelect value={draft.accountId} onChange={(accountId) => update({ accountId })} />
+                            </div>
+                            {draft.type === 'expense' && data.liabilities.length > 0 && (
+                                <div className="space-y-2">
+                                    <Label>Pays Off</Label>
+                                    <Select value={draft.liabilityId || NONE} onValueChange={(value) => update({ liabilityId: value === NONE ? '' : value })}>
+                                        <SelectTrigger><SelectValue /></SelectTrigger>
+                                        <SelectContent>
+                                            <SelectItem value={NONE}>No liability</SelectItem>
+                                            {data.liabilities.map(l => <SelectItem key={l.id} value={l.id}>{l.name}</SelectItem>)}
+                                        </SelectContent>
+                                    </Select>
+                                </div>
+                            )}
+                            <div className="space-y-2">
+                                <Label>Frequency</Label>
+                                <Select value={draft.frequency} onValueChange={(frequency: Draft['frequency']) => update({ frequency })}>
+                                    <SelectTrigger><SelectValue /></SelectTrigger>
+                                    <SelectContent>
+                                        {FREQUENCIES.map(f => <SelectItem key={f.value} value={f.value}>{f.label}</SelectItem>)}
+                                    </SelectContent>
+                                </Select>
+                            </div>
+                            <div className="space-y-2">
+                                <Label>Every ({FREQUENCIES.find(f => f.value === draft.frequency)?.unit}s)</Label>
+                                <Input type="number" min="1" step="1" value={draft.interval} onChange={(e) => update({ interval: e.target.value })} />
+                            </div>
+                            <div className="space-y-2">
+                                <Label>Start Date</Label>
+                                <Input type="date" value={draft.startDate} onChange={(e) => update({ startDate: e.target.value })} />
+                            </div>
+                            <div className="space-y-2">
+                                <Label>End Date (optional)</Label>
+                                <Input type="date" value={draft.endDate} onChange={(e) => update({ endDate: e.target.value })} />
+                            </div>
+                        </div>
+                        <div className="flex items-center justify-between rounded-md border p-3">
+                            <div>
+                                <Label>Post automatically</Label>
+                                <p className="text-xs text-muted-foreground">Otherwise due entries wait in Pending until you confirm them.</p>
+                            </div>
+                            <Switch checked={draft.autoPost} onCheckedChange={(autoPost) => update({ autoPost })} />
+                        </div>
+                        {backlog > 0 && (
+                            <p className="text-xs text-warning">{backlog} past occurrences will be posted right away.</p>
+                        )}
+                        <DialogFooter className="gap-2">
+                            <Button variant="ghost" onClick={() => setDraft(null)}>Back</Button>
+                            <Button className="gradient-primary" onClick={handleSave} disabled={isSaving}>
+                                {isSaving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                                {draft.id ? 'Save' : 'Add Recurring'}
+                            </Button>
+                        </DialogFooter>
+                    </div>
+                )}
+            </DialogContent>
+        </Dialog>
+    );
+}
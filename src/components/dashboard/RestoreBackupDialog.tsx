@@ -0,0 +1,190 @@
+import { useMemo, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter, DialogTrigger } from '@/components/ui/dialog';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Upload, Loader2, AlertTriangle, CheckCircle2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { useFinance } from '@/contexts/FinanceContext';
+import {
+    BACKUP_COLLECTIONS,
+    planRestore,
+    validateBackup,
+    type BackupValidation,
+    type RestoreMode,
+} from '@/lib/backupRestore';
+
+type RestoreReport = { inserted: number; replaced: number; skipped: string[] };
+
+export function RestoreBackupDialog() {
+    const { data, restoreBackup } = useFinance();
+
+    const [open, setOpen] = useState(false);
+    const [fileName, setFileName] = useState('');
+    const [validation, setValidation] = useState<BackupValidation | null>(null);
+    const [mode, setMode] = useState<RestoreMode>('merge');
+    const [isRestoring, setIsRestoring] = useState(false);
+    const [report, setReport] = useState<RestoreReport | null>(null);
+
+    const plan = useMemo(
+        () => validation ? planRestore(validation.backup, data, mode) : null,
+        [validation, data, mode]
+    );
+
+    const reset = () => {
+        setFileName('');
+        setValidation(null);
+        setMode('merge');
+        setReport(null);
+    };
+
+    const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+
+        try {
+            const result = validateBackup(JSON.parse(await file.text()));
+            setFileName(file.name);
+            setValidation(result);
+        } catch (error) {
+            console.error(error);
+            toast.error(error instanceof SyntaxError ? 'The file is not valid JSON' : (error as Error).message);
+        }
+    };
+
+    const handleRestore = async () => {
+        if (!plan || !validation) return;
+        setIsRestoring(true);
+        try {
+            const result = await restoreBackup(plan, mode);
+            setReport({ ...result, skipped: [...validation.skipped, ...result.skipped] });
+        } finally {
+            setIsRestoring(false);
+        }
+    };
+
+    const totals = plan && BACKUP_COLLECTIONS.reduce((sum, { key }) => ({
+        insert: sum.insert + plan[key].insert.length,
+        replace: sum.replace + plan[key].replace.length,
+    }), { insert: 0, replace: 0 });
+
+    return (
+        <Dialog open={open} onOpenChange={(val) => { if (!val) reset(); setOpen(val); }}>
+            <DialogTrigger asChild>
+                <Button variant="outline" className="w-full justify-start">
+                    <Upload className="h-4 w-4 mr-2" /> Restore from Backup
+                </Button>
+            </DialogTrigger>
+            <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+                <DialogHeader>
+                    <DialogTitle>Restore Backup</DialogTitle>
+                    <DialogDescription>
+                        Load a file made with "Download Full System Backup". Rows get new ids; links between holdings, trades and dividends are kept.
+                    </DialogDescription>
+                </DialogHeader>
+
+                {report ? (
+                    <div className="space-y-4">
+                        <div className="flex items-center gap-2 text-sm">
+                            <CheckCircle2 className="h-4 w-4 text-success" />
+                            {report.inserted} rows added, {report.replaced} replaced.
+                        </div>
+                        {report.skipped.length > 0 && (
+                            <div className="space-y-1">
+                                <Label className="flex items-center gap-1 text-warning">
+                                    <AlertTriangle className="h-3.5 w-3.5" /> Skipped ({report.skipped.length})
+                                </Label>
+                                <ul className="max-h-[200px] overflow-y-auto text-xs text-muted-foreground border rounded-md p-2 space-y-0.5">
+                                    {report.skipped.map((line, i) => <li key={i}>{line}</li>)}
+                                </ul>
+                            </div>
+                        )}
+                        <DialogFooter>
+                            <Button onClick={() => { reset(); setOpen(false); }}>Done</Button>
+                        </DialogFooter>
+                    </div>
+                ) : !validation || !plan ? (
+                    <Button variant="outline" className="w-full h-24 border-dashed" asChild>
+                        <label className="cursor-pointer flex flex-col items-center justify-center gap-2">
+                            <Upload className="h-6 w-6 text-muted-foreground" />
+                            <span className="text-sm">Select backup file (.json)</span>
+                            <input type="file" accept=".json,application/json" className="hidden" onChange={handleFile} />
+                        </label>
+                    </Button>
+                ) : (
+                    <div className="space-y-4">
+                        <div className="flex items-end justify-between gap-4">
+                            <div className="text-sm font-medium truncate">{fileName}</div>
+                            <div className="space-y-2 w-48 shrink-0">
+                                <Label>Mode</Label>
+                                <Select value={mode} onValueChange={(v: RestoreMode) => setMode(v)}>
+                                    <SelectTrigger><SelectValue /></SelectTrigger>
+                                    <SelectContent>
+                                        <SelectItem value="merge">Merge with current data</SelectItem>
+                                        <SelectItem value="overwrite">Overwrite everything</SelectItem>
+                                    </SelectContent>
+                                </Select>
+                            </div>
+                        </div>
+                        <p className="text-xs text-muted-foreground">
+                            {mode === 'merge'
+                                ? 'Matching holdings, accounts, liabilities and snapshots are replaced by the backup; entries already recorded are left alone.'
+                                : 'All current data is deleted first, then the backup is restored as it is.'}
+                        </p>
+
+                        <div className="border rounded-md">
+                            <Table>
+                                <TableHeader>
+                                    <TableRow>
+                                        <TableHead>Collection</TableHead>
+                                        <TableHead className="text-right">Insert</TableHead>
+                                        <TableHead className="text-right">Replace</TableHead>
+                                        <TableHead className="text-right">Already There</TableHead>
+                                        {mode === 'overwrite' && <TableHead className="text-right">Deleted</TableHead>}
+                                    </TableRow>
+                                </TableHeader>
+                                <TableBody>
+                                    {BACKUP_COLLECTIONS.map(({ key, label }) => (
+                                        <TableRow key={key}>
+                                            <TableCell className="py-2 text-sm">{label}</TableCell>
+                                            <TableCell className="py-2 text-right text-sm">{plan[key].insert.length}</TableCell>
+                                            <TableCell className="py-2 text-right text-sm">{plan[key].replace.length}</TableCell>
+                                            <TableCell className="py-2 text-right text-sm text-muted-foreground">{plan[key].unchanged.length}</TableCell>
+                                            {mode === 'overwrite' && <TableCell className="py-2 text-right text-sm text-destructive">{plan[key].remove}</TableCell>}
+                                        </TableRow>
+                                    ))}
+                                </TableBody>
+                            </Table>
+                        </div>
+
+                        {validation.skipped.length > 0 && (
+                            <div className="space-y-1">
+                                <Label className="flex items-center gap-1 text-warning">
+                                    <AlertTriangle className="h-3.5 w-3.5" /> Will be skipped ({validation.skipped.length})
+                                </Label>
+                                <ul className="max-h-[150px] overflow-y-auto text-xs text-muted-foreground border rounded-md p-2 space-y-0.5">
+                                    {validation.skipped.map((line, i) => <li key={i}>{line}</li>)}
+                                </ul>
+                            </div>
+                        )}
+
+                        <DialogFooter className="gap-2">
+                            <Button variant="ghost" onClick={reset}>Back</Button>
+                            <Button
+                                variant={mode === 'overwrite' ? 'destructive' : 'default'}
+                                className={mode === 'merge' ? 'gradient-primary' : undefined}
+                                onClick={handleRestore}
+                                disabled={isRestoring || (totals?.insert === 0 && totals?.replace === 0 && mode === 'merge')}
+                            >
+                                {isRestoring && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                                {mode === 'overwrite' ? 'Overwrite and Restore' : `Restore ${totals?.insert || 0} + ${totals?.replace || 0} Rows`}
+                            </Button>
+                        </DialogFooter>
+                    </div>
+                )}
+            </DialogContent>
+        </Dialog>
+    );
+}
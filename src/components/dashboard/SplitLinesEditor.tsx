@@ -0,0 +1,70 @@
+import { Plus, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { unallocated, type SplitDraft } from '@/lib/splits';
+import { cn } from '@/lib/utils';
+import type { Category } from '@/types/finance';
+import { CategorySelectItems } from './CategoryBadge';
+
+interface SplitLinesEditorProps {
+    type: Category['type'];
+    total: number;
+    lines: SplitDraft[];
+    onChange: (lines: SplitDraft[]) => void;
+}
+
+/** Category lines of a split transaction, with what is left to assign to them. */
+export function SplitLinesEditor({ type, total, lines, onChange }: SplitLinesEditorProps) {
+    const left = unallocated(total || 0, lines.map(line => ({ amount: parseFloat(line.amount) })));
+    const update = (index: number, changes: Partial<SplitDraft>) =>
+        onChange(lines.map((line, i) => i === index ? { ...line, ...changes } : line));
+
+    return (
+        <div className="space-y-2">
+            {lines.map((line, i) => (
+                <div key={i} className="space-y-1 rounded-md border p-2">
+                    <div className="flex items-center gap-2">
+                        <Select value={line.category} onValueChange={(category) => update(i, { category })}>
+                            <SelectTrigger className="h-8 text-xs"><SelectValue placeholder="Category" /></SelectTrigger>
+                            <SelectContent>
+                                <CategorySelectItems type={type} current={line.category} />
+                            </SelectContent>
+                        </Select>
+                        <Input
+                            type="number"
+                            step="0.01"
+                            className="h-8 w-28 text-right"
+                            value={line.amount}
+                            onChange={(e) => update(i, { amount: e.target.value })}
+                        />
+                        <Button
+                            type="button"
+                            size="icon"
+                            variant="ghost"
+                            className="h-8 w-8 shrink-0"
+                            disabled={lines.length <= 2}
+                            onClick={() => onChange(lines.filter((_, j) => j !== i))}
+                        >
+                            <X className="h-3.5 w-3.5" />
+                        </Button>
+                    </div>
+                    <Input className="h-7 text-xs" placeholder="Line note (optional)" value={line.note} onChange={(e) => update(i, { note: e.target.value })} />
+                </div>
+            ))}
+            <div className="flex items-center justify-between">
+                <Button
+                    type="button"
+                    size="sm"
+                    variant="outline"
+                    onClick={() => onChange([...lines, { category: '', amount: left > 0 ? left.toFixed(2) : '', note: '' }])}
+                >
+                    <Plus className="h-3.5 w-3.5 mr-1" /> Add Line
+                </Button>
+                <span className={cn("text-xs", left === 0 ? "text-green-500" : "text-warning")}>
+                    {left === 0 ? 'Fully assigned' : left > 0 ? `${left.toFixed(2)} left to assign` : `${(-left).toFixed(2)} over the total`}
+                </span>
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,141 @@
+import { useMemo, useState } from 'react';
+import { format, parseISO } from 'date-fns';
+import { Ban, CreditCard, Repeat, TrendingDown, TrendingUp, Undo2 } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useFinance } from '@/contexts/FinanceContext';
+import { useSettings } from '@/contexts/SettingsContext';
+import { describeFrequency } from '@/lib/recurring';
+import { detectSubscriptions, type DetectedSubscription } from '@/lib/subscriptions';
+import { cn } from '@/lib/utils';
+import { CategoryBadge } from './CategoryBadge';
+
+const day = (date: string) => format(parseISO(date), 'MMM d, yyyy');
+
+/** Charges that repeat like subscriptions, to track as recurring templates or mark as cancelled. */
+export function SubscriptionsCard() {
+    const { data, addRecurring, cancelSubscription, deleteCancelledSubscription } = useFinance();
+    const { formatCurrency, convertCurrency, isPrivacyMode } = useSettings();
+    const [showCancelled, setShowCancelled] = useState(false);
+
+    const detected = useMemo(
+        () => detectSubscriptions(data.transactions, data.recurring, data.cancelledSubscriptions, convertCurrency),
+        [data.transactions, data.recurring, data.cancelledSubscriptions, convertCurrency]
+    );
+    const open = detected.filter(s => s.status !== 'cancelled');
+    const cancelled = detected.filter(s => s.status === 'cancelled');
+    const annualTotal = open.filter(s => s.status === 'active').reduce((sum, s) => sum + s.annualCost, 0);
+
+    // The template starts at the next expected charge, so past charges aren't posted twice
+    const handleTrack = (s: DetectedSubscription) => addRecurring({
+        name: s.name,
+        type: 'expense',
+        category: s.category,
+        amount: s.amount,
+        currency: s.currency,
+        frequency: s.frequency,
+        interval: s.interval,
+        startDate: s.nextCharge,
+        autoPost: false
+    });
+
+    const handleCancel = (s: DetectedSubscription) => cancelSubscription(s.merchant, s.name, format(new Date(), 'yyyy-MM-dd'));
+
+    const row = (s: DetectedSubscription) => {
+        const change = s.priceChanges[s.priceChanges.length - 1];
+        return (
+            <TableRow key={s.merchant} className={cn(s.status !== 'active' && "opacity-60")}>
+                <TableCell>
+                    <div className="font-medium">{s.name}</div>
+                    <div className="flex items-center gap-2 mt-1">
+                        <CategoryBadge type="expense" name={s.category} />
+                        <span className="text-xs text-muted-foreground">{describeFrequency(s)} · {s.charges} charges</span>
+                    </div>
+                    {s.status === 'active' && s.cancellation && (
+                        <p className="text-xs text-red-500 mt-1">Charged again after you cancelled it on {day(s.cancellation.cancelledOn)}</p>
+                    )}
+                </TableCell>
+                <TableCell className="text-right">
+                    <div>{formatCurrency(s.amount, s.currency)}</div>
+                    {change && (
+                        <div
+                            className={cn("inline-flex items-center gap-1 text-xs", change.to > change.from ? "text-red-500" : "text-green-500")}
+                            title={s.priceChanges.map(c => `${day(c.date)}: ${c.from} → ${c.to}`).join('\n')}
+                        >
+                            {change.to > change.from ? <TrendingUp className="h-3 w-3" /> : <TrendingDown className="h-3 w-3" />}
+                            {change.from} → {change.to} since {format(parseISO(change.date), 'MMM yyyy')}
+                        </div>
+                    )}
+                </TableCell>
+                <TableCell className="text-right font-medium">{formatCurrency(s.annualCost)}</TableCell>
+                <TableCell>
+                    <div>{day(s.lastCharge)}</div>
+                    <div className="text-xs text-muted-foreground">
+                        {s.status === 'lapsed' ? `Expected ${day(s.nextCharge)}, not charged` : s.status === 'active' ? `Next ≈ ${day(s.nextCharge)}` : ''}
+                    </div>
+                </TableCell>
+                <TableCell>
+                    {s.status === 'cancelled' ? (
+                        <Button size="sm" variant="ghost" onClick={() => s.cancellation && deleteCancelledSubscription(s.cancellation.id)}>
+                            <Undo2 className="h-3.5 w-3.5 mr-1" /> Undo
+                        </Button>
+                    ) : (
+                        <div className="flex items-center justify-end gap-1">
+                            <Button size="sm" variant="outline" title="Create a recurring template from the next charge on" onClick={() => handleTrack(s)}>
+                                <Repeat className="h-3.5 w-3.5 mr-1" /> Track
+                            </Button>
+                            <Button size="sm" variant="ghost" title="Mark as cancelled" onClick={() => handleCancel(s)}>
+                                <Ban className="h-3.5 w-3.5 mr-1" /> Cancelled
+                            </Button>
+                        </div>
+                    )}
+                </TableCell>
+            </TableRow>
+        );
+    };
+
+    return (
+        <Card className="glass-card">
+            <CardHeader className="flex flex-row items-start justify-between space-y-0">
+                <div className="space-y-1.5">
+                    <CardTitle className="flex items-center gap-2">
+                        <CreditCard className="h-5 w-5 text-primary" /> Subscriptions
+                    </CardTitle>
+                    <CardDescription>
+                        Charges repeating with a similar amount at regular spacing
+                        {annualTotal > 0 && !isPrivacyMode && ` · ${formatCurrency(annualTotal)} a year`}
+                    </CardDescription>
+                </div>
+                {cancelled.length > 0 && (
+                    <Button size="sm" variant="ghost" onClick={() => setShowCancelled(!showCancelled)}>
+                        {showCancelled ? 'Hide' : 'Show'} cancelled ({cancelled.length})
+                    </Button>
+                )}
+            </CardHeader>
+            <CardContent className={cn(isPrivacyMode && "blur-sm select-none pointer-events-none")}>
+                {open.length === 0 && !showCancelled ? (
+                    <p className="text-sm text-muted-foreground text-center py-6">
+                        No subscriptions detected. Charges already covered by a recurring template are not listed.
+                    </p>
+                ) : (
+                    <Table>
+                        <TableHeader>
+                            <TableRow>
+                                <TableHead>Subscription</TableHead>
+                                <TableHead className="text-right">Charge</TableHead>
+                                <TableHead className="text-right">Per Year</TableHead>
+                                <TableHead>Last Charge</TableHead>
+                                <TableHead className="w-[200px]"></TableHead>
+                            </TableRow>
+                        </TableHeader>
+                        <TableBody>
+                            {open.map(row)}
+                            {showCancelled && cancelled.map(row)}
+                        </TableBody>
+                    </Table>
+                )}
+            </CardContent>
+        </Card>
+    );
+}
@@ -0,0 +1,74 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogTrigger } from '@/components/ui/dialog';
+import { Tags, Trash2 } from 'lucide-react';
+import { useFinance } from '@/contexts/FinanceContext';
+import { CATEGORY_COLORS } from '@/lib/categories';
+import { cn } from '@/lib/utils';
+import type { Tag } from '@/types/finance';
+
+/** Renames, recolors and deletes tags; new ones are created while tagging a transaction. */
+export function TagManagerDialog() {
+    const { data, updateTag, deleteTag } = useFinance();
+    const [open, setOpen] = useState(false);
+
+    const usage = (tag: Tag) => data.transactions.filter(t => t.tagIds?.includes(tag.id)).length;
+
+    const handleRename = (tag: Tag, value: string) => {
+        const name = value.trim();
+        if (name && name !== tag.name) updateTag(tag.id, { name });
+    };
+
+    return (
+        <Dialog open={open} onOpenChange={setOpen}>
+            <DialogTrigger asChild>
+                <Button variant="outline">
+                    <Tags className="h-4 w-4 mr-2" /> Tags
+                </Button>
+            </DialogTrigger>
+            <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+                <DialogHeader>
+                    <DialogTitle>Tags</DialogTitle>
+                    <DialogDescription>
+                        Free-form labels across categories, e.g. a trip or a project. Add them to a transaction in its editor.
+                    </DialogDescription>
+                </DialogHeader>
+                {data.tags.length === 0 ? (
+                    <p className="text-sm text-muted-foreground py-4 text-center">No tags yet.</p>
+                ) : (
+                    <div className="divide-y rounded-md border">
+                        {data.tags.map(tag => (
+                            <div key={tag.id} className="space-y-2 px-3 py-2">
+                                <div className="flex items-center gap-2">
+                                    <Input
+                                        key={tag.name}
+                                        className="h-8 flex-1"
+                                        defaultValue={tag.name}
+                                        onBlur={(e) => handleRename(tag, e.target.value)}
+                                        onKeyDown={(e) => { if (e.key === 'Enter') e.currentTarget.blur(); }}
+                                    />
+                                    <span className="text-xs text-muted-foreground whitespace-nowrap">{usage(tag)} tx</span>
+                                    <Button size="icon" variant="ghost" className="h-7 w-7 text-destructive" onClick={() => deleteTag(tag.id)}>
+                                        <Trash2 className="h-3.5 w-3.5" />
+                                    </Button>
+                                </div>
+                                <div className="flex flex-wrap gap-1.5">
+                                    {CATEGORY_COLORS.map(color => (
+                                        <button
+                                            key={color}
+                                            type="button"
+                                            className={cn("h-4 w-4 rounded-full border-2", tag.color === color ? "border-foreground" : "border-transparent")}
+                                            style={{ backgroundColor: color }}
+                                            onClick={() => updateTag(tag.id, { color })}
+                                        />
+                                    ))}
+                                </div>
+                            </div>
+                        ))}
+                    </div>
+                )}
+            </DialogContent>
+        </Dialog>
+    );
+}
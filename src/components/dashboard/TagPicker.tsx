@@ -0,0 +1,90 @@
+import { useState } from 'react';
+import { Check, Plus } from 'lucide-react';
+import { Input } from '@/components/ui/input';
+import { useFinance } from '@/contexts/FinanceContext';
+import { CATEGORY_COLORS } from '@/lib/categories';
+import { cn } from '@/lib/utils';
+import type { Tag } from '@/types/finance';
+
+/** Small colored chip for a tag. */
+export function TagBadge({ tag, className }: { tag: Tag; className?: string }) {
+    return (
+        <span
+            className={cn("inline-flex items-center rounded-full px-1.5 py-0.5 text-[10px] font-medium leading-none", className)}
+            style={{ backgroundColor: `${tag.color}26`, color: tag.color }}
+        >
+            #{tag.name}
+        </span>
+    );
+}
+
+interface TagPickerProps {
+    value: string[]; // Selected tag ids
+    onChange: (tagIds: string[]) => void;
+}
+
+/** Toggles existing tags on a transaction and creates new ones by name. */
+export function TagPicker({ value, onChange }: TagPickerProps) {
+    const { data, addTag } = useFinance();
+    const [name, setName] = useState('');
+
+    const toggle = (id: string) => onChange(value.includes(id) ? value.filter(v => v !== id) : [...value, id]);
+
+    // An existing name is selected instead of created again
+    const handleCreate = async () => {
+        const trimmed = name.trim();
+        if (!trimmed) return;
+        const existing = data.tags.find(tag => tag.name.toLowerCase() === trimmed.toLowerCase());
+        if (existing) {
+            if (!value.includes(existing.id)) onChange([...value, existing.id]);
+            setName('');
+            return;
+        }
+        const id = await addTag({ name: trimmed, color: CATEGORY_COLORS[data.tags.length % CATEGORY_COLORS.length] });
+        if (id) {
+            onChange([...value, id]);
+            setName('');
+        }
+    };
+
+    return (
+        <div className="space-y-2">
+            {data.tags.length > 0 && (
+                <div className="flex flex-wrap gap-1.5">
+                    {data.tags.map(tag => {
+                        const selected = value.includes(tag.id);
+                        return (
+                            <button
+                                key={tag.id}
+                                type="button"
+                                onClick={() => toggle(tag.id)}
+                                className={cn(
+                                    "inline-flex items-center gap-1 rounded-full border px-2 py-0.5 text-xs transition-colors",
+                                    !selected && "opacity-60 hover:opacity-100"
+                                )}
+                                style={{ borderColor: tag.color, backgroundColor: selected ? `${tag.color}26` : undefined, color: tag.color }}
+                            >
+                                {selected && <Check className="h-3 w-3" />}
+                                {tag.name}
+                            </button>
+                        );
+                    })}
+                </div>
+            )}
+            <div className="relative">
+                <Plus className="absolute left-2.5 top-2.5 h-3.5 w-3.5 text-muted-foreground" />
+                <Input
+                    className="h-8 pl-8 text-xs"
+                    placeholder="New tag, press Enter"
+                    value={name}
+                    onChange={(e) => setName(e.target.value)}
+                    onKeyDown={(e) => {
+                        if (e.key !== 'Enter') return;
+                        e.preventDefault();
+                        handleCreate();
+                    }}
+                />
+            </div>
+        </div>
+    );
+}
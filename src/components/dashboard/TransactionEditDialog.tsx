@@ -0,0 +1,207 @@
+import { useEffect, useState } from 'react';
+import { format, parseISO } from 'date-fns';
+import { CalendarIcon, Split } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from '@/components/ui/dialog';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Calendar } from '@/components/ui/calendar';
+import { toast } from 'sonner';
+import { useFinance } from '@/contexts/FinanceContext';
+import { useSettings } from '@/contexts/SettingsContext';
+import { categoriesFor } from '@/lib/categories';
+import { parseDrafts, primaryCategory, toDrafts, type SplitDraft } from '@/lib/splits';
+import type { Category, Transaction } from '@/types/finance';
+import { CategorySelectItems } from './CategoryBadge';
+import { AccountSelect } from './AccountSelect';
+import { SplitLinesEditor } from './SplitLinesEditor';
+import { TagPicker } from './TagPicker';
+
+interface TransactionEditDialogProps {
+    transaction: Transaction;
+    open: boolean;
+    onOpenChange: (open: boolean) => void;
+}
+
+/** Editor for income and expenses; transfers are edited in TransferDialog. */
+export function TransactionEditDialog({ transaction, open, onOpenChange }: TransactionEditDialogProps) {
+    const { data, updateTransaction } = useFinance();
+    const { currency: baseCurrency } = useSettings();
+
+    const [formData, setFormData] = useState({
+        type: transaction.type as Category['type'],
+        amount: String(transaction.amount),
+        category: transaction.category,
+        description: transaction.description || '',
+        date: parseISO(transaction.date),
+        accountId: transaction.accountId || ''
+    });
+    // Category lines while the entry is split, null otherwise
+    const [splits, setSplits] = useState<SplitDraft[] | null>(null);
+    const [tagIds, setTagIds] = useState<string[]>([]);
+
+    // Start from the stored values every time the dialog opens
+    useEffect(() => {
+        if (!open) return;
+        setFormData({
+            type: transaction.type as Category['type'],
+            amount: String(transaction.amount),
+            category: transaction.category,
+            description: transaction.description || '',
+            date: parseISO(transaction.date),
+            accountId: transaction.accountId || ''
+        });
+        setSplits(transaction.splits?.length ? toDrafts(transaction.splits) : null);
+        setTagIds(transaction.tagIds || []);
+    }, [open, transaction]);
+
+    // Switching income <-> expense drops a default category of the other side
+    const handleTypeChange = (type: Category['type']) => {
+        const previous = categoriesFor(data.categories, formData.type);
+        const next = categoriesFor(data.categories, type);
+        const keep = (category: string) => next.includes(category) || !previous.includes(category);
+        setFormData({ ...formData, type, category: keep(formData.category) ? formData.category : '' });
+        if (splits) setSplits(splits.map(line => keep(line.category) ? line : { ...line, category: '' }));
+    };
+
+    // Splitting starts from the current category with the whole amount, plus an empty line
+    const toggleSplit = () => {
+        if (splits) {
+            setFormData({ ...formData, category: formData.category || splits[0].category });
+            setSplits(null);
+        } else {
+            setSplits([
+                { category: formData.category, amount: formData.amount, note: '' },
+                { category: '', amount: '', note: '' }
+            ]);
+        }
+    };
+
+    // Moving the entry to another account books it in that account's currency
+    const movedTo = formData.accountId !== (transaction.accountId || '') ? data.liquidity.find(a => a.id === formData.accountId) : undefined;
+    const currency = movedTo?.currency || transaction.currency || baseCurrency;
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        const amount = parseFloat(formData.amount);
+        const lines = splits ? parseDrafts(splits, amount) : [];
+        if (!(amount > 0) || (!splits && !formData.category)) {
+            toast.error('Enter a positive amount and a category');
+            return;
+        }
+        if (typeof lines === 'string') {
+            toast.error(lines);
+            return;
+        }
+        const previous = transaction.tagIds || [];
+        const sameTags = tagIds.length === previous.length && tagIds.every(id => previous.includes(id));
+        onOpenChange(false);
+        await updateTransaction(transaction.id, {
+            type: formData.type,
+            amount,
+            category: lines.length > 0 ? primaryCategory(lines) : formData.category,
+            description: formData.description,
+            date: format(formData.date, 'yyyy-MM-dd'),
+            // Sent only when moved: a new account also sets the entry's currency
+            accountId: movedTo ? movedTo.id : undefined,
+            // Only touch the lines when the entry is or was split
+            splits: splits || transaction.splits?.length ? lines : undefined,
+            tagIds: sameTags ? undefined : tagIds
+        });
+    };
+
+    return (
+        <Dialog open={open} onOpenChange={onOpenChange}>
+            <DialogContent className="sm:max-w-[425px]">
+                <DialogHeader>
+                    <DialogTitle>Edit Transaction</DialogTitle>
+                    <DialogDescription>Change any field, including whether it is income or an expense.</DialogDescription>
+                </DialogHeader>
+                <form onSubmit={handleSubmit} className="space-y-4">
+                    <div className="grid grid-cols-2 gap-4">
+                        <div className="space-y-2">
+                            <Label>Type</Label>
+                            <Select value={formData.type} onValueChange={handleTypeChange}>
+                                <SelectTrigger><SelectValue /></SelectTrigger>
+                                <SelectContent>
+                                    <SelectItem value="income">Income</SelectItem>
+                                    <SelectItem value="expense">Expense</SelectItem>
+                                </SelectContent>
+                            </Select>
+                        </div>
+                        <div className="space-y-2">
+                            <Label>Amount ({currency})</Label>
+                            <Input
+                                type="number"
+                                step="0.01"
+                                value={formData.amount}
+                                onChange={(e) => setFormData({ ...formData, amount: e.target.value })}
+                                required
+                            />
+                        </div>
+                    </div>
+
+                    <div className="space-y-2">
+                        <div className="flex items-center justify-between">
+                            <Label>{splits ? 'Split Lines' : 'Category'}</Label>
+                            <Button type="button" variant="ghost" size="sm" className="h-6 px-2 text-xs" onClick={toggleSplit}>
+                                <Split className="h-3.5 w-3.5 mr-1" /> {splits ? 'Single category' : 'Split'}
+                            </Button>
+                        </div>
+                        {splits ? (
+                            <SplitLinesEditor type={formData.type} total={parseFloat(formData.amount)} lines={splits} onChange={setSplits} />
+                        ) : (
+                            <Select value={formData.category} onValueChange={(v) => setFormData({ ...formData, category: v })}>
+                                <SelectTrigger><SelectValue placeholder="Select category" /></SelectTrigger>
+                                <SelectContent>
+                                    <CategorySelectItems type={formData.type} current={formData.category} />
+                                </SelectContent>
+                            </Select>
+                        )}
+                    </div>
+
+                    <div className="space-y-2">
+                        <Label>Account</Label>
+                        <AccountSelect value={formData.accountId} onChange={(accountId) => setFormData({ ...formData, accountId })} />
+                    </div>
+
+                    <div className="space-y-2">
+                        <Label>Date</Label>
+                        <Popover>
+                            <PopoverTrigger asChild>
+                                <Button variant="outline" className="w-full justify-start text-left font-normal">
+                                    <CalendarIcon className="mr-2 h-4 w-4" />
+                                    {format(formData.date, "PPP")}
+                                </Button>
+                            </PopoverTrigger>
+                            <PopoverContent className="w-auto p-0">
+                                <Calendar mode="single" selected={formData.date} onSelect={(d) => d && setFormData({ ...formData, date: d })} initialFocus />
+                            </PopoverContent>
+                        </Popover>
+                    </div>
+
+                    <div className="space-y-2">
+                        <Label>Description</Label>
+                        <Input
+                            placeholder="Optional note..."
+                            value={formData.description}
+                            onChange={(e) => setFormData({ ...formData, description: e.target.value })}
+                        />
+                    </div>
+
+                    <div className="space-y-2">
+                        <Label>Tags</Label>
+                        <TagPicker value={tagIds} onChange={setTagIds} />
+                    </div>
+
+                    <DialogFooter>
+                        <Button type="button" variant="ghost" onClick={() => onOpenChange(false)}>Cancel</Button>
+                        <Button type="submit">Save Changes</Button>
+                    </DialogFooter>
+                </form>
+            </DialogContent>
+        </Dialog>
+    );
+}
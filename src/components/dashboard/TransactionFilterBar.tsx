@@ -0,0 +1,191 @@
+import { useState } from 'react';
+import { Bookmark, Save, Search, Trash2, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectGroup, SelectItem, SelectLabel, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { useFinance } from '@/contexts/FinanceContext';
+import { isFilterEmpty } from '@/lib/transactionFilters';
+import type { Category, TransactionFilter } from '@/types/finance';
+import { CategorySelectItems } from './CategoryBadge';
+
+// Select value for a criterion that is not set (Radix selects can't hold '')
+const ANY = 'any';
+
+interface TransactionFilterBarProps {
+    filter: TransactionFilter;
+    onChange: (filter: TransactionFilter) => void;
+}
+
+/** Criteria for the Cash Flow table, plus loading, saving and deleting named filters. */
+export function TransactionFilterBar({ filter, onChange }: TransactionFilterBarProps) {
+    const { data, addSavedFilter, updateSavedFilter, deleteSavedFilter } = useFinance();
+    const [savedId, setSavedId] = useState('');
+    const [name, setName] = useState('');
+    const [isSaveOpen, setIsSaveOpen] = useState(false);
+
+    const saved = data.savedFilters.find(f => f.id === savedId);
+
+    // Unset criteria are dropped so saved filters only store what they check
+    const set = (changes: Partial<TransactionFilter>) => {
+        const next: TransactionFilter = { ...filter, ...changes };
+        (Object.keys(next) as (keyof TransactionFilter)[]).forEach(key => {
+            if (next[key] === undefined || next[key] === '') delete next[key];
+        });
+        onChange(next);
+    };
+    const amount = (value: string) => {
+        const parsed = parseFloat(value);
+        return isNaN(parsed) ? undefined : parsed;
+    };
+
+    const handleLoad = (id: string) => {
+        const picked = data.savedFilters.find(f => f.id === id);
+        if (!picked) return;
+        setSavedId(id);
+        onChange(picked.filter);
+    };
+
+    const handleClear = () => {
+        setSavedId('');
+        onChange({});
+    };
+
+    const handleSave = async () => {
+        const trimmed = name.trim();
+        if (!trimmed) return;
+        await addSavedFilter(trimmed, filter);
+        setName('');
+        setIsSaveOpen(false);
+    };
+
+    const handleDelete = async () => {
+        if (!saved) return;
+        await deleteSavedFilter(saved.id);
+        setSavedId('');
+    };
+
+    // Categories of the picked type, or of both while any type is allowed
+    const categoryTypes: Category['type'][] = filter.type === 'income' || filter.type === 'expense' ? [filter.type] : ['expense', 'income'];
+
+    return (
+        <div className="space-y-3">
+            <div className="flex flex-wrap items-center gap-2">
+                <div className="relative flex-1 min-w-[200px]">
+                    <Search className="absolute left-2.5 top-2.5 h-4 w-4 text-muted-foreground" />
+                    <Input
+                        className="pl-8"
+                        placeholder="Search description, category, notes, tags..."
+                        value={filter.text || ''}
+                        onChange={(e) => set({ text: e.target.value })}
+                    />
+                </div>
+                <Select value={saved ? savedId : ''} onValueChange={handleLoad}>
+                    <SelectTrigger className="w-[180px]">
+                        <Bookmark className="h-4 w-4 mr-2 shrink-0 text-muted-foreground" />
+                        <SelectValue placeholder={data.savedFilters.length ? 'Saved filters' : 'No saved filters'} />
+                    </SelectTrigger>
+                    <SelectContent>
+                        {data.savedFilters.map(f => <SelectItem key={f.id} value={f.id}>{f.name}</SelectItem>)}
+                    </SelectContent>
+                </Select>
+                {saved && (
+                    <>
+                        <Button variant="outline" size="sm" title={`Overwrite "${saved.name}" with the current criteria`} onClick={() => updateSavedFilter(saved.id, { filter })}>
+                            Update
+                        </Button>
+                        <Button variant="ghost" size="icon" className="h-9 w-9 text-destructive" title={`Delete "${saved.name}"`} onClick={handleDelete}>
+                            <Trash2 className="h-4 w-4" />
+                        </Button>
+                    </>
+                )}
+                <Popover open={isSaveOpen} onOpenChange={setIsSaveOpen}>
+                    <PopoverTrigger asChild>
+                        <Button variant="outline" size="sm" disabled={isFilterEmpty(filter)}>
+                            <Save className="h-4 w-4 mr-2" /> Save
+                        </Button>
+                    </PopoverTrigger>
+                    <PopoverContent className="w-64 space-y-2">
+                        <Input
+                            autoFocus
+                            placeholder="Filter name"
+                            value={name}
+                            onChange={(e) => setName(e.target.value)}
+                            onKeyDown={(e) => { if (e.key === 'Enter') handleSave(); }}
+                        />
+                        <Button size="sm" className="w-full" disabled={!name.trim()} onClick={handleSave}>Save Filter</Button>
+                    </PopoverContent>
+                </Popover>
+                {!isFilterEmpty(filter) && (
+                    <Button variant="ghost" size="sm" onClick={handleClear}>
+                        <X className="h-4 w-4 mr-1" /> Clear
+                    </Button>
+                )}
+            </div>
+
+            <div className="flex flex-wrap items-center gap-2">
+                <Input type="date" className="w-[150px]" title="From" value={filter.from || ''} onChange={(e) => set({ from: e.target.value })} />
+                <span className="text-muted-foreground">–</span>
+                <Input type="date" className="w-[150px]" title="To" value={filter.to || ''} onChange={(e) => set({ to: e.target.value })} />
+                <Select
+                    value={filter.type || ANY}
+                    onValueChange={(v) => set({ type: v === ANY ? undefined : v as TransactionFilter['type'], category: undefined })}
+                >
+                    <SelectTrigger className="w-[130px]"><SelectValue /></SelectTrigger>
+                    <SelectContent>
+                        <SelectItem value={ANY}>Any type</SelectItem>
+                        <SelectItem value="income">Income</SelectItem>
+                        <SelectItem value="expense">Expense</SelectItem>
+                        <SelectItem value="transfer">Transfer</SelectItem>
+                    </SelectContent>
+                </Select>
+                <Select
+                    value={filter.category || ANY}
+                    onValueChange={(v) => set({ category: v === ANY ? undefined : v })}
+                    disabled={filter.type === 'transfer'}
+                >
+                    <SelectTrigger className="w-[170px]"><SelectValue /></SelectTrigger>
+                    <SelectContent>
+                        <SelectItem value={ANY}>Any category</SelectItem>
+                        {categoryTypes.map(type => (
+                            <SelectGroup key={type}>
+                                {categoryTypes.length > 1 && <SelectLabel>{type === 'income' ? 'Income' : 'Expenses'}</SelectLabel>}
+                                <CategorySelectItems type={type} />
+                            </SelectGroup>
+                        ))}
+                    </SelectContent>
+                </Select>
+                <Select value={filter.tagId || ANY} onValueChange={(v) => set({ tagId: v === ANY ? undefined : v })}>
+                    <SelectTrigger className="w-[140px]"><SelectValue /></SelectTrigger>
+                    <SelectContent>
+                        <SelectItem value={ANY}>Any tag</SelectItem>
+                        {data.tags.map(tag => (
+                            <SelectItem key={tag.id} value={tag.id}>
+                                <span className="flex items-center gap-2">
+                                    <span className="h-2 w-2 rounded-full" style={{ backgroundColor: tag.color }} />
+                                    {tag.name}
+                                </span>
+                            </SelectItem>
+                        ))}
+                    </SelectContent>
+                </Select>
+                <Input
+                    type="number"
+                    step="0.01"
+                    className="w-[110px]"
+                    placeholder="Min amount"
+                    value={filter.minAmount ?? ''}
+                    onChange={(e) => set({ minAmount: amount(e.target.value) })}
+                />
+                <Input
+                    type="number"
+                    step="0.01"
+                    className="w-[110px]"
+                    placeholder="Max amount"
+                    value={filter.maxAmount ?? ''}
+                    onChange={(e) => set({ maxAmount: amount(e.target.value) })}
+                />
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,207 @@
+import { useState } from 'react';
+import { format, parseISO } from 'date-fns';
+import { ArrowLeftRight, Pencil, Repeat, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { TableCell, TableRow } from '@/components/ui/table';
+import { useFinance } from '@/contexts/FinanceContext';
+import { useSettings } from '@/contexts/SettingsContext';
+import { cn } from '@/lib/utils';
+import type { Transaction } from '@/types/finance';
+import { TransactionEditDialog } from './TransactionEditDialog';
+import { TransferDialog } from './TransferDialog';
+import { CategoryBadge, CategorySelectItems } from './CategoryBadge';
+import { TagBadge } from './TagPicker';
+
+type InlineField = 'date' | 'category' | 'description' | 'amount';
+
+interface TransactionRowProps {
+    transaction: Transaction;
+}
+
+/** Cash Flow table row: click a cell to edit it in place, the pencil opens the full editor. */
+export function TransactionRow({ transaction: t }: TransactionRowProps) {
+    const { data, updateTransaction, deleteTransaction } = useFinance();
+
+    const [editing, setEditing] = useState<InlineField | null>(null);
+    const [value, setValue] = useState('');
+    const [isDialogOpen, setIsDialogOpen] = useState(false);
+
+    const startEdit = (field: InlineField) => {
+        setEditing(field);
+        setValue(field === 'amount' ? String(t.amount) : field === 'date' ? t.date.slice(0, 10) : field === 'category' ? t.category : t.description || '');
+    };
+
+    const commit = (next = value) => {
+        const field = editing;
+        setEditing(null);
+        if (!field) return;
+        if (field === 'amount') {
+            const amount = parseFloat(next);
+            if (amount > 0 && amount !== t.amount) updateTransaction(t.id, { amount });
+        } else if (field === 'date') {
+            if (next && next !== t.date.slice(0, 10)) updateTransaction(t.id, { date: next });
+        } else if (field === 'category') {
+            if (next && next !== t.category) updateTransaction(t.id, { category: next });
+        } else if (next !== (t.description || '')) {
+            updateTransaction(t.id, { description: next });
+        }
+    };
+
+    const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+        if (e.key === 'Enter') commit();
+        if (e.key === 'Escape') setEditing(null);
+    };
+
+    const inlineInput = (type: string, className?: string) => (
+        <Input
+            autoFocus
+            type={type}
+            step={type === 'number' ? '0.01' : undefined}
+            className={cn("h-8 text-sm", className)}
+            value={value}
+            onChange={(e) => setValue(e.target.value)}
+            onBlur={() => commit()}
+            onKeyDown={handleKeyDown}
+        />
+    );
+
+    const editable = "cursor-pointer rounded px-1 -mx-1 hover:bg-secondary/60";
+    const template = t.recurringId ? data.recurring.find(r => r.id === t.recurringId) : undefined;
+    // Only worth showing once there is more than one account
+    const account = data.liquidity.length > 1 ? data.liquidity.find(a => a.id === t.accountId) : undefined;
+    const tags = data.tags.filter(tag => t.tagIds?.includes(tag.id));
+
+    if (t.type === 'transfer') return <TransferRow transaction={t} />;
+    // The lines have to keep adding up, so split entries are edited in the dialog
+    const isSplit = !!t.splits?.length;
+    const type = t.type;
+
+    return (
+        <TableRow>
+            <TableCell>
+                {editing === 'date'
+                    ? inlineInput('date', 'w-36')
+                    : <span className={editable} onClick={() => startEdit('date')}>{format(parseISO(t.date), 'MMM dd, yyyy')}</span>}
+            </TableCell>
+            <TableCell>
+                {editing === 'category' ? (
+                    <Select defaultOpen value={value} onValueChange={commit} onOpenChange={(open) => { if (!open) setEditing(null); }}>
+                        <SelectTrigger className="h-8 w-36 text-xs"><SelectValue /></SelectTrigger>
+                        <SelectContent>
+                            <CategorySelectItems type={t.type} current={t.category} />
+                        </SelectContent>
+                    </Select>
+                ) : isSplit ? (
+                    <div className="flex flex-wrap gap-1 cursor-pointer" title="Split transaction" onClick={() => setIsDialogOpen(true)}>
+                        {t.splits!.map((line, i) => (
+                            <CategoryBadge key={i} type={type} name={line.category} className="hover:ring-1 hover:ring-primary/50" />
+                        ))}
+                    </div>
+                ) : (
+                    <CategoryBadge
+                        type={t.type}
+                        name={t.category}
+                        className="cursor-pointer hover:ring-1 hover:ring-primary/50"
+                        onClick={() => startEdit('category')}
+                    />
+                )}
+            </TableCell>
+            <TableCell>
+                {editing === 'description'
+                    ? inlineInput('text')
+                    : (
+                        <span className="inline-flex items-center gap-1.5">
+                            {template && (
+                                <span title={`Recurring: ${template.name}`}>
+                                    <Repeat className="h-3.5 w-3.5 text-muted-foreground" />
+                                </span>
+                            )}
+                            <span className={editable} onClick={() => startEdit('description')}>{t.description || '-'}</span>
+                            {account && <span className="text-xs text-muted-foreground">· {account.name}</span>}
+                            {tags.map(tag => <TagBadge key={tag.id} tag={tag} />)}
+                        </span>
+                    )}
+            </TableCell>
+            <TableCell className={cn("text-right font-medium", t.type === 'income' ? 'text-green-500' : 'text-red-500')}>
+                {editing === 'amount' ? inlineInput('number', 'w-28 ml-auto text-right') : (
+                    <span className={editable} onClick={() => isSplit ? setIsDialogOpen(true) : startEdit('amount')}>
+                        {t.type === 'income' ? '+' : '-'}<Amount transaction={t} />
+                    </span>
+                )}
+            </TableCell>
+            <TableCell>
+                <div className="flex items-center">
+                    <Button variant="ghost" size="icon" onClick={() => setIsDialogOpen(true)} className="h-8 w-8 text-muted-foreground hover:text-foreground">
+                        <Pencil className="h-4 w-4" />
+                    </Button>
+                    <Button variant="ghost" size="icon" onClick={() => deleteTransaction(t.id)} className="h-8 w-8 text-muted-foreground hover:text-destructive">
+                        <Trash2 className="h-4 w-4" />
+                    </Button>
+                </div>
+                <TransactionEditDialog transaction={t} open={isDialogOpen} onOpenChange={setIsDialogOpen} />
+            </TableCell>
+        </TableRow>
+    );
+}
+
+/** Transfers move money between accounts: shown neutral, edited as a whole in TransferDialog. */
+function TransferRow({ transaction: t }: TransactionRowProps) {
+    const { data, deleteTransaction } = useFinance();
+    const { isPrivacyMode } = useSettings();
+    const [isDialogOpen, setIsDialogOpen] = useState(false);
+
+    const from = data.liquidity.find(a => a.id === t.accountId);
+    const to = data.liquidity.find(a => a.id === t.toAccountId);
+    const trade = t.tradeId ? data.trades.find(tr => tr.id === t.tradeId) : undefined;
+    const asset = trade && (data.investments.find(i => i.id === trade.assetId) || data.crypto.find(c => c.id === trade.assetId));
+    const target = to ? to.name : `Broker${asset ? `: ${asset.symbol}` : ''}`;
+
+    return (
+        <TableRow>
+            <TableCell>{format(parseISO(t.date), 'MMM dd, yyyy')}</TableCell>
+            <TableCell>
+                <span className="inline-flex items-center gap-1 rounded-full border px-2 py-0.5 text-xs text-muted-foreground">
+                    <ArrowLeftRight className="h-3 w-3" /> Transfer
+                </span>
+            </TableCell>
+            <TableCell>
+                <span className="inline-flex items-center gap-1.5">
+                    <span>{t.description || '-'}</span>
+                    <span className="text-xs text-muted-foreground">· {from?.name || 'Unassigned'} → {target}</span>
+                </span>
+            </TableCell>
+            <TableCell className="text-right font-medium">
+                <Amount transaction={t} />
+                {t.fxRate && to && !isPrivacyMode && (
+                    <div className="text-xs font-normal text-muted-foreground">@ {t.fxRate} {to.currency}</div>
+                )}
+            </TableCell>
+            <TableCell>
+                <div className="flex items-center">
+                    <Button variant="ghost" size="icon" onClick={() => setIsDialogOpen(true)} className="h-8 w-8 text-muted-foreground hover:text-foreground">
+                        <Pencil className="h-4 w-4" />
+                    </Button>
+                    <Button variant="ghost" size="icon" onClick={() => deleteTransaction(t.id)} className="h-8 w-8 text-muted-foreground hover:text-destructive">
+                        <Trash2 className="h-4 w-4" />
+                    </Button>
+                </div>
+                <TransferDialog transaction={t} open={isDialogOpen} onOpenChange={setIsDialogOpen} />
+            </TableCell>
+        </TableRow>
+    );
+}
+
+/** Amount in the transaction's own currency, with its base-currency value on that day below when they differ. */
+function Amount({ transaction: t }: TransactionRowProps) {
+    const { currency, formatCurrency, isPrivacyMode } = useSettings();
+    if (isPrivacyMode) return <>****</>;
+    if (!t.currency || t.currency === currency) return <>{formatCurrency(t.amount)}</>;
+    return (
+        <>
+            {new Intl.NumberFormat('en-US', { style: 'currency', currency: t.currency }).format(t.amount)}
+            <span className="block text-xs font-normal text-muted-foreground">{formatCurrency(t.amount, t.currency, t.date)}</span>
+        </>
+    );
+}
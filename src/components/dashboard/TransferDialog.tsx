@@ -0,0 +1,256 @@
+import { useEffect, useState } from 'react';
+import { format } from 'date-fns';
+import { ArrowRight } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from '@/components/ui/dialog';
+import { toast } from 'sonner';
+import { useFinance } from '@/contexts/FinanceContext';
+import { useSettings } from '@/contexts/SettingsContext';
+import { defaultAccount } from '@/lib/accounts';
+import type { Transaction } from '@/types/finance';
+import { AccountSelect } from './AccountSelect';
+
+// Destination value for money sent to the broker instead of another cash account
+const BROKER = 'broker';
+
+// Settings rates are quoted from the display currency, so a pair is routed through it
+function crossRate(rates: Record<string, number> | null, base: string, from: string, to: string): number | undefined {
+    const rate = (code: string) => code === base ? 1 : rates?.[code];
+    const fromRate = rate(from);
+    const toRate = rate(to);
+    return fromRate && toRate ? toRate / fromRate : undefined;
+}
+
+interface TransferDialogProps {
+    transaction?: Transaction; // Edits this transfer; a new one is recorded when omitted
+    open: boolean;
+    onOpenChange: (open: boolean) => void;
+}
+
+/** Records money moving between two cash accounts, or out to the broker to pay for a trade. */
+export function TransferDialog({ transaction, open, onOpenChange }: TransferDialogProps) {
+    const { data, addTransaction, updateTransaction } = useFinance();
+    const { currency, currencyRates } = useSettings();
+
+    const [form, setForm] = useState({
+        date: format(new Date(), 'yyyy-MM-dd'),
+        fromId: '',
+        toId: '',
+        tradeId: '',
+        amount: '',
+        fxRate: '',
+        description: ''
+    });
+
+    // Start from the stored values (or a blank transfer) every time the dialog opens
+    useEffect(() => {
+        if (!open) return;
+        setForm({
+            date: transaction ? transaction.date.slice(0, 10) : format(new Date(), 'yyyy-MM-dd'),
+            fromId: transaction?.accountId || '',
+            toId: transaction ? transaction.toAccountId || BROKER : '',
+            tradeId: transaction?.tradeId || '',
+            amount: transaction ? String(transaction.amount) : '',
+            fxRate: transaction?.fxRate ? String(transaction.fxRate) : '',
+            description: transaction?.description || ''
+        });
+    }, [open, transaction]);
+
+    const fromId = form.fromId || defaultAccount(data.liquidity)?.id || '';
+    const source = data.liquidity.find(a => a.id === fromId);
+    const destination = data.liquidity.find(a => a.id === form.toId);
+
+    // Buys that can be paid for from cash, newest first
+    const assetOf = (assetId: string) =>
+        data.investments.find(i => i.id === assetId) || data.crypto.find(c => c.id === assetId);
+    const buys = data.trades
+        .filter(t => t.side === 'buy')
+        .sort((a, b) => b.date.localeCompare(a.date));
+    const trade = buys.find(t => t.id === form.tradeId);
+
+    const fromCurrency = source?.currency || currency;
+    const toCurrency = form.toId === BROKER
+        ? (trade ? assetOf(trade.assetId)?.currency || 'USD' : fromCurrency)
+        : destination?.currency || currency;
+    const crossCurrency = fromCurrency !== toCurrency;
+
+    const amount = parseFloat(form.amount);
+    const fxRate = crossCurrency ? parseFloat(form.fxRate) : 1;
+    const received = amount > 0 && fxRate > 0 ? Math.round(amount * fxRate * 100) / 100 : undefined;
+
+    // Suggest today's rate when the pair changes, unless one was typed in
+    useEffect(() => {
+        if (!open || !crossCurrency) return;
+        setForm(prev => {
+            if (prev.fxRate) return prev;
+            const rate = crossRate(currencyRates, currency, fromCurrency, toCurrency);
+            return rate ? { ...prev, fxRate: rate.toFixed(6) } : prev;
+        });
+    }, [open, crossCurrency, fromCurrency, toCurrency, currency, currencyRates]);
+
+    const handleReceivedChange = (value: string) => {
+        const target = parseFloat(value);
+        if (amount > 0 && target > 0) setForm({ ...form, fxRate: (target / amount).toFixed(6) });
+    };
+
+    // Picking a trade fills in what it cost (quantity x price + fees, in the asset's currency)
+    const handleTradeChange = (tradeId: string) => {
+        const picked = buys.find(t => t.id === tradeId);
+        if (!picked) return;
+        const asset = assetOf(picked.assetId);
+        const tradeCurrency = asset?.currency || 'USD';
+        const cost = picked.quantity * picked.price + (picked.fees || 0);
+        const rate = tradeCurrency === fromCurrency ? 1 : crossRate(currencyRates, currency, fromCurrency, tradeCurrency);
+        setForm({
+            ...form,
+            tradeId,
+            date: picked.date.slice(0, 10),
+            amount: rate ? String(Math.round(cost / rate * 100) / 100) : form.amount,
+            fxRate: rate && rate !== 1 ? rate.toFixed(6) : '',
+            description: form.description || `Buy ${asset?.symbol || ''}`.trim()
+        });
+    };
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!fromId || !form.toId || fromId === form.toId) {
+            toast.error('Pick two different accounts');
+            return;
+        }
+        if (!(amount > 0) || (crossCurrency && !(fxRate > 0))) {
+            toast.error('Enter a positive amount and exchange rate');
+            return;
+        }
+        const entry = {
+            type: 'transfer' as const,
+            category: 'Transfer',
+            amount,
+            description: form.description,
+            date: form.date,
+            accountId: fromId,
+            toAccountId: form.toId === BROKER ? '' : form.toId,
+            fxRate: crossCurrency ? fxRate : 0,
+            tradeId: form.toId === BROKER ? form.tradeId : ''
+        };
+        onOpenChange(false);
+        if (transaction) {
+            await updateTransaction(transaction.id, entry);
+        } else {
+            await addTransaction({
+                ...entry,
+                toAccountId: entry.toAccountId || undefined,
+                fxRate: entry.fxRate || undefined,
+                tradeId: entry.tradeId || undefined
+            });
+        }
+    };
+
+    return (
+        <Dialog open={open} onOpenChange={onOpenChange}>
+            <DialogContent className="sm:max-w-[480px]">
+                <DialogHeader>
+                    <DialogTitle>{transaction ? 'Edit Transfer' : 'New Transfer'}</DialogTitle>
+                    <DialogDescription>Moves money between your accounts. Transfers are not counted as income or expenses.</DialogDescription>
+                </DialogHeader>
+                {data.liquidity.length === 0 ? (
+                    <p className="text-sm text-muted-foreground">Add a cash account on the Dashboard first.</p>
+                ) : (
+                    <form onSubmit={handleSubmit} className="space-y-4">
+                        <div className="grid grid-cols-[1fr_auto_1fr] items-end gap-2">
+                            <div className="space-y-2">
+                                <Label>From</Label>
+                                <AccountSelect value={fromId} onChange={(id) => setForm({ ...form, fromId: id, fxRate: '' })} />
+                            </div>
+                            <ArrowRight className="h-4 w-4 mb-3 text-muted-foreground" />
+                            <div className="space-y-2">
+                                <Label>To</Label>
+                                <Select value={form.toId} onValueChange={(toId) => setForm({ ...form, toId, fxRate: '' })}>
+                                    <SelectTrigger><SelectValue placeholder="Select account" /></SelectTrigger>
+                                    <SelectContent>
+                                        {data.liquidity.filter(a => a.id !== fromId).map(a => (
+                                            <SelectItem key={a.id} value={a.id}>{a.name}</SelectItem>
+                                        ))}
+                                        <SelectItem value={BROKER}>Brokerage (pay for a trade)</SelectItem>
+                                    </SelectContent>
+                                </Select>
+                            </div>
+                        </div>
+
+                        {form.toId === BROKER && (
+                            <div className="space-y-2">
+                                <Label>Trade</Label>
+                                <Select value={form.tradeId} onValueChange={handleTradeChange}>
+                                    <SelectTrigger><SelectValue placeholder={buys.length ? 'Select a buy' : 'No buys recorded yet'} /></SelectTrigger>
+                                    <SelectContent>
+                                        {buys.map(t => {
+                                            const asset = assetOf(t.assetId);
+                                            return (
+                                                <SelectItem key={t.id} value={t.id}>
+                                                    {t.date.slice(0, 10)} · {asset?.symbol || 'Unknown'} · {t.quantity} @ {t.price}
+                                                </SelectItem>
+                                            );
+                                        })}
+                                    </SelectContent>
+                                </Select>
+                            </div>
+                        )}
+
+                        <div className="grid grid-cols-2 gap-4">
+                            <div className="space-y-2">
+                                <Label>Date</Label>
+                                <Input type="date" value={form.date} onChange={(e) => setForm({ ...form, date: e.target.value })} required />
+                            </div>
+                            <div className="space-y-2">
+                                <Label>Amount ({fromCurrency})</Label>
+                                <Input
+                                    type="number"
+                                    step="0.01"
+                                    value={form.amount}
+                                    onChange={(e) => setForm({ ...form, amount: e.target.value })}
+                                    required
+                                />
+                            </div>
+                        </div>
+
+                        {crossCurrency && (
+                            <div className="grid grid-cols-2 gap-4">
+                                <div className="space-y-2">
+                                    <Label>Rate ({fromCurrency} → {toCurrency})</Label>
+                                    <Input
+                                        type="number"
+                                        step="any"
+                                        value={form.fxRate}
+                                        onChange={(e) => setForm({ ...form, fxRate: e.target.value })}
+                                        required
+                                    />
+                                </div>
+                                <div className="space-y-2">
+                                    <Label>Received ({toCurrency})</Label>
+                                    <Input
+                                        key={`${form.amount}-${form.fxRate}`}
+                                        type="number"
+                                        step="0.01"
+                                        defaultValue={received ?? ''}
+                                        onBlur={(e) => handleReceivedChange(e.target.value)}
+                                    />
+                                </div>
+                            </div>
+                        )}
+
+                        <div className="space-y-2">
+                            <Label>Description</Label>
+                            <Input value={form.description} onChange={(e) => setForm({ ...form, description: e.target.value })} placeholder="e.g. Savings top-up" />
+                        </div>
+
+                        <DialogFooter>
+                            <Button type="submit" className="gradient-primary">{transaction ? 'Save Changes' : 'Record Transfer'}</Button>
+                        </DialogFooter>
+                    </form>
+                )}
+            </DialogContent>
+        </Dialog>
+    );
+}
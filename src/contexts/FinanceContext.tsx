@@ -1,7 +1,9 @@
-import { createContext, useContext, ReactNode, useEffect } from 'react';
+import { createContext, useContext, ReactNode, useEffect, useMemo } from 'react';
 import { useFinanceData } from '@/hooks/useFinanceData';
 import { useSettings } from '@/contexts/SettingsContext';
-import type { FinancialData } from '@/types/finance';
+import type { FinancialData, TimeRange, Transaction } from '@/types/finance';
+import type { PerformanceScope } from '@/lib/performance';
+import { accountBalance } from '@/lib/accounts';
 
 // Infer return type from the hook
 type FinanceContextType = ReturnType<typeof useFinanceData>;
@@ -9,14 +11,51 @@ type FinanceContextType = ReturnType<typeof useFinanceData>;
 const FinanceContext = createContext<FinanceContextType | undefined>(undefined);
 
 export function FinanceProvider({ children }: { children: ReactNode }) {
-    const finance = useFinanceData();
-    const { convertCurrency } = useSettings();
+    const { currency, convertCurrency, loadHistoricalRates, costBasisMethod } = useSettings();
+    const finance = useFinanceData(costBasisMethod);
 
     // Wrap calculateTotals to automatically inject the converter
     const calculateTotals = () => {
         return finance.calculateTotals(convertCurrency);
     };
 
+    const getRealizedGains = (category: 'investment' | 'crypto', year?: number) => {
+        return finance.getRealizedGains(category, year, convertCurrency);
+    };
+
+    const getPerformance = (range: TimeRange, scope?: PerformanceScope) => {
+        return finance.getPerformance(range, scope, convertCurrency);
+    };
+
+    const getMonthlyCashFlow = (month: Date) => {
+        return finance.getMonthlyCashFlow(month, convertCurrency);
+    };
+
+    const reconcileAccount = (accountId: string, date: string, statementBalance: number, adjust: boolean, pending?: Omit<Transaction, 'id' | 'createdAt'>[]) => {
+        return finance.reconcileAccount(accountId, date, statementBalance, adjust, pending, convertCurrency);
+    };
+
+    // Account balances again, with entries in another currency converted at the rate of their date
+    const data = useMemo<FinancialData>(() => ({
+        ...finance.data,
+        liquidity: finance.data.liquidity.map(a => ({ ...a, balance: accountBalance(a, finance.data.transactions, undefined, convertCurrency) }))
+    }), [finance.data, convertCurrency]);
+
+    // Transactions in other currencies need daily rates back to the oldest of them
+    const foreignRange = useMemo(() => {
+        const foreign = finance.data.transactions.filter(t => t.currency && t.currency !== currency);
+        if (foreign.length === 0) return null;
+        const currencies = [...new Set(foreign.map(t => t.currency as string))].sort();
+        const start = foreign.reduce((min, t) => t.date < min ? t.date : min, foreign[0].date).slice(0, 10);
+        return `${currencies.join(',')}|${start}`;
+    }, [finance.data.transactions, currency]);
+
+    useEffect(() => {
+        if (!foreignRange) return;
+        const [currencies, start] = foreignRange.split('|');
+        loadHistoricalRates(currencies.split(','), start);
+    }, [foreignRange, loadHistoricalRates]);
+
     // Background Refresh on Load
     useEffect(() => {
         if (finance.isLoaded) {
@@ -27,7 +66,7 @@ export function FinanceProvider({ children }: { children: ReactNode }) {
 
 
     return (
-        <FinanceContext.Provider value={{ ...finance, calculateTotals }}>
+        <FinanceContext.Provider value={{ ...finance, data, calculateTotals, getRealizedGains, getPerformance, getMonthlyCashFlow, reconcileAccount }}>
             {children}
         </FinanceContext.Provider>
     );
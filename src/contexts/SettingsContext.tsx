@@ -1,7 +1,9 @@
 import { createContext, useContext, useState, useEffect, ReactNode, useCallback } from 'react';
 import { getFinnhubKey, setFinnhubKey as saveFinnhubKey, fetchExchangeRates } from '@/lib/api';
 import { supabase } from '@/lib/supabase';
+import { cachedRateSeries, loadRateSeries, rateOn, type RateSeries } from '@/lib/fxHistory';
 import { useAuth } from './AuthContext';
+import type { CostBasisMethod } from '@/types/finance';
 
 type Currency = 'EUR' | 'USD' | 'GBP' | 'CHF';
 
@@ -10,14 +12,17 @@ interface SettingsContextType {
     setCurrency: (c: Currency) => void;
     currencyRates: Record<string, number> | null;
     refreshRates: () => Promise<void>;
+    loadHistoricalRates: (currencies: string[], start: string) => Promise<void>;
     currencySymbol: string;
     isPrivacyMode: boolean;
     togglePrivacyMode: () => void;
     finnhubKey: string;
     isFinnhubKeyEnv: boolean;
     setFinnhubKey: (key: string) => void;
-    formatCurrency: (value: number, sourceCurrency?: string) => string;
-    convertCurrency: (value: number, sourceCurrency?: string) => number;
+    costBasisMethod: CostBasisMethod;
+    setCostBasisMethod: (method: CostBasisMethod) => void;
+    formatCurrency: (value: number, sourceCurrency?: string, date?: string) => string;
+    convertCurrency: (value: number, sourceCurrency?: string, date?: string) => number;
 }
 
 const SettingsContext = createContext<SettingsContextType | undefined>(undefined);
@@ -26,8 +31,10 @@ export function SettingsProvider({ children }: { children: ReactNode }) {
     const { user } = useAuth();
     const [currency, setCurrencyState] = useState<Currency>('EUR');
     const [currencyRates, setCurrencyRates] = useState<Record<string, number> | null>(null);
+    const [historicalRates, setHistoricalRates] = useState<RateSeries>({});
     const [isPrivacyMode, setIsPrivacyMode] = useState<boolean>(false);
     const [finnhubKey, setFinnhubKeyState] = useState<string>('');
+    const [costBasisMethod, setCostBasisMethodState] = useState<CostBasisMethod>('fifo');
 
     // Check if env var is present
     const isFinnhubKeyEnv = !!import.meta.env.VITE_FINNHUB_API_KEY;
@@ -39,6 +46,7 @@ export function SettingsProvider({ children }: { children: ReactNode }) {
             setCurrencyState((localStorage.getItem('wc_currency') as Currency) || 'EUR');
             setIsPrivacyMode(localStorage.getItem('wc_privacy_mode') === 'true');
             setFinnhubKeyState(getFinnhubKey() || '');
+            setCostBasisMethodState((localStorage.getItem('wc_cost_basis_method') as CostBasisMethod) || 'fifo');
             return;
         }
 
@@ -54,6 +62,7 @@ export function SettingsProvider({ children }: { children: ReactNode }) {
                     setCurrencyState((data.base_currency as Currency) || 'EUR');
                     setIsPrivacyMode(data.is_privacy_mode || false);
                     if (data.finnhub_key) setFinnhubKeyState(data.finnhub_key);
+                    setCostBasisMethodState((data.cost_basis_method as CostBasisMethod) || 'fifo');
                 } else if (error && error.code === 'PGRST116') {
                     // Profile doesn't exist? Create one.
                     await supabase.from('profiles').insert([{ id: user.id }]);
@@ -79,6 +88,15 @@ export function SettingsProvider({ children }: { children: ReactNode }) {
         refreshRates();
     }, [refreshRates]);
 
+    // Daily rates for converting dated amounts; each base currency has its own cached series
+    useEffect(() => {
+        setHistoricalRates(cachedRateSeries(currency));
+    }, [currency]);
+
+    const loadHistoricalRates = useCallback(async (currencies: string[], start: string) => {
+        setHistoricalRates(await loadRateSeries(currency, currencies, start));
+    }, [currency]);
+
     const setCurrency = async (c: Currency) => {
         setCurrencyState(c);
         if (user) {
@@ -108,9 +126,24 @@ export function SettingsProvider({ children }: { children: ReactNode }) {
         saveFinnhubKey(key);
     };
 
-    const convertCurrency = useCallback((value: number, sourceCurrency?: string): number => {
+    const setCostBasisMethod = async (method: CostBasisMethod) => {
+        setCostBasisMethodState(method);
+        if (user) {
+            await supabase.from('profiles').update({ cost_basis_method: method }).eq('id', user.id);
+        } else {
+            localStorage.setItem('wc_cost_basis_method', method);
+        }
+    };
+
+    const convertCurrency = useCallback((value: number, sourceCurrency?: string, date?: string): number => {
         if (!sourceCurrency || sourceCurrency === currency) return value;
 
+        // Dated amounts (transactions) use the rate of their day
+        if (date) {
+            const rate = rateOn(historicalRates, sourceCurrency, date);
+            if (rate) return value / rate;
+        }
+
         // If we have rates, use them.
         // Rates are base -> targets. E.g. Base EUR. Rates: { USD: 1.08, GBP: 0.85 }
         // To convert 100 USD to EUR: 100 / 1.08
@@ -121,10 +154,10 @@ export function SettingsProvider({ children }: { children: ReactNode }) {
 
         // Fallback or "Same" if rate missing (shouldn't happen if loaded, but safety)
         return value;
-    }, [currency, currencyRates]);
+    }, [currency, currencyRates, historicalRates]);
 
-    const formatCurrency = (value: number, sourceCurrency?: string) => {
-        const converted = convertCurrency(value, sourceCurrency);
+    const formatCurrency = (value: number, sourceCurrency?: string, date?: string) => {
+        const converted = convertCurrency(value, sourceCurrency, date);
         return new Intl.NumberFormat('en-US', {
             style: 'currency',
             currency: currency
@@ -143,12 +176,15 @@ export function SettingsProvider({ children }: { children: ReactNode }) {
                 setCurrency,
                 currencyRates,
                 refreshRates,
+                loadHistoricalRates,
                 currencySymbol,
                 isPrivacyMode,
                 togglePrivacyMode,
                 finnhubKey,
                 isFinnhubKeyEnv,
                 setFinnhubKey,
+                costBasisMethod,
+                setCostBasisMethod,
                 formatCurrency,
                 convertCurrency
             }}
@@ -0,0 +1,108 @@
+import { useCallback, useEffect, useState } from 'react';
+import { toast } from 'sonner';
+import {
+    BUILT_IN_BENCHMARKS,
+    customBenchmarkColor,
+    fetchBenchmarkSeries,
+    type Benchmark,
+    type CustomBenchmark,
+} from '@/lib/benchmarks';
+import type { PricePoint } from '@/lib/priceHistory';
+
+const STORAGE_KEY_SELECTED = 'wc_benchmarks';
+const STORAGE_KEY_CUSTOM = 'wc_custom_benchmarks';
+
+const readJson = <T,>(key: string, fallback: T): T => {
+    try {
+        const raw = localStorage.getItem(key);
+        return raw ? JSON.parse(raw) as T : fallback;
+    } catch {
+        return fallback;
+    }
+};
+
+/**
+ * Benchmark selection and the series loaded since `from`.
+ * Custom CSV series live in localStorage with the selection.
+ */
+export function useBenchmarks(from: Date | null) {
+    const [selectedIds, setSelectedIds] = useState<string[]>(() => readJson(STORAGE_KEY_SELECTED, []));
+    const [custom, setCustom] = useState<CustomBenchmark[]>(() => readJson(STORAGE_KEY_CUSTOM, []));
+    const [series, setSeries] = useState<Record<string, PricePoint[]>>({});
+    const [isLoading, setIsLoading] = useState(false);
+
+    const available: Benchmark[] = [
+        ...BUILT_IN_BENCHMARKS,
+        ...custom.map((c, i) => ({ id: c.id, label: c.label, source: 'custom' as const, color: customBenchmarkColor(i) })),
+    ];
+    const selected = available.filter(b => selectedIds.includes(b.id));
+
+    const fromKey = from ? from.toISOString().slice(0, 10) : '';
+    const builtInKey = selectedIds.filter(id => BUILT_IN_BENCHMARKS.some(b => b.id === id)).join(',');
+
+    useEffect(() => {
+        if (!fromKey || !builtInKey) return;
+        let cancelled = false;
+        setIsLoading(true);
+
+        const start = new Date(fromKey);
+        Promise.all(BUILT_IN_BENCHMARKS
+            .filter(b => builtInKey.split(',').includes(b.id))
+            .map(async b => [b.id, await fetchBenchmarkSeries(b, start)] as const)
+        ).then(results => {
+            if (cancelled) return;
+            const failed = results.filter(([, points]) => points.length === 0);
+            if (failed.length > 0) toast.warning('Some benchmark data could not be loaded');
+            setSeries(prev => ({ ...prev, ...Object.fromEntries(results) }));
+            setIsLoading(false);
+        });
+
+        return () => { cancelled = true; };
+    }, [fromKey, builtInKey]);
+
+    const toggleBenchmark = useCallback((id: string) => {
+        setSelectedIds(prev => {
+            const next = prev.includes(id) ? prev.filter(x => x !== id) : [...prev, id];
+            localStorage.setItem(STORAGE_KEY_SELECTED, JSON.stringify(next));
+            return next;
+        });
+    }, []);
+
+    const addCustomBenchmark = useCallback((label: string, points: PricePoint[]) => {
+        const entry: CustomBenchmark = { id: `custom-${crypto.randomUUID()}`, label, points };
+        setCustom(prev => {
+            const next = [...prev, entry];
+            localStorage.setItem(STORAGE_KEY_CUSTOM, JSON.stringify(next));
+            return next;
+        });
+        toggleBenchmark(entry.id);
+    }, [toggleBenchmark]);
+
+    const removeCustomBenchmark = useCallback((id: string) => {
+        setCustom(prev => {
+            const next = prev.filter(c => c.id !== id);
+            localStorage.setItem(STORAGE_KEY_CUSTOM, JSON.stringify(next));
+            return next;
+        });
+        setSelectedIds(prev => {
+            const next = prev.filter(x => x !== id);
+            localStorage.setItem(STORAGE_KEY_SELECTED, JSON.stringify(next));
+            return next;
+        });
+    }, []);
+
+    // Custom series are stored in full; built-in ones come from the last fetch
+    const seriesOf = useCallback((id: string): PricePoint[] => {
+        return custom.find(c => c.id === id)?.points || series[id] || [];
+    }, [custom, series]);
+
+    return {
+        available,
+        selected,
+        isLoading,
+        seriesOf,
+        toggleBenchmark,
+        addCustomBenchmark,
+        removeCustomBenchmark,
+    };
+}
@@ -1,11 +1,18 @@
 import { useCallback } from 'react';
 import { useFinance } from '@/contexts/FinanceContext';
+import { useSettings } from '@/contexts/SettingsContext';
+import { findCategory, rootCategoryName } from '@/lib/categories';
+import { categoryLines } from '@/lib/splits';
+import type { Transaction } from '@/types/finance';
 import { format, subMonths, startOfMonth, endOfMonth, isWithinInterval, startOfYear, parseISO, subDays } from 'date-fns';
 
 export type Period = '7d' | '30d' | '3m' | 'ytd' | 'all';
 
-export function useChartData() {
+// source: transactions the cash flow charts are drawn from (e.g. a saved filter), all of them by default
+export function useChartData(source?: Transaction[]) {
     const { data, calculateTotals } = useFinance();
+    const { convertCurrency } = useSettings();
+    const transactions = source ?? data.transactions;
 
     // 1. ASSET ALLOCATION (Donut)
     // Segments: Stocks, Crypto, Cash
@@ -34,15 +41,15 @@ export function useChartData() {
             const monthLabel = format(monthDate, 'MMM');
 
             // Filter transactions for this month
-            const monthlyTrans = data.transactions.filter(t => t.date.startsWith(monthKey));
+            const monthlyTrans = transactions.filter(t => t.date.startsWith(monthKey));
 
             const income = monthlyTrans
                 .filter(t => t.type === 'income')
-                .reduce((sum, t) => sum + t.amount, 0);
+                .reduce((sum, t) => sum + convertCurrency(t.amount, t.currency, t.date), 0);
 
             const expense = monthlyTrans
                 .filter(t => t.type === 'expense')
-                .reduce((sum, t) => sum + t.amount, 0);
+                .reduce((sum, t) => sum + convertCurrency(t.amount, t.currency, t.date), 0);
 
             result.push({
                 name: monthLabel,
@@ -51,10 +58,10 @@ export function useChartData() {
             });
         }
         return result;
-    }, [data.transactions]);
+    }, [transactions, convertCurrency]);
 
     // Helper to filter transactions by period
-    const filterByPeriod = useCallback((transactions: typeof data.transactions, period: Period) => {
+    const filterByPeriod = useCallback((transactions: Transaction[], period: Period) => {
         const now = new Date();
         let start: Date;
 
@@ -70,17 +77,21 @@ export function useChartData() {
     }, []);
 
     // 3. EXPENSE STRUCTURE (Pie)
-    const getExpensesByCategory = useCallback((period: Period) => {
-        const relevant = filterByPeriod(data.transactions, period).filter(t => t.type === 'expense');
+    // rollUp: subcategories are counted under their parent category
+    const getExpensesByCategory = useCallback((period: Period, rollUp = false) => {
+        const relevant = filterByPeriod(transactions, period).filter(t => t.type === 'expense');
 
         // Group by category
         const grouped: Record<string, number> = {};
         let total = 0;
 
-        relevant.forEach(t => {
-            grouped[t.category] = (grouped[t.category] || 0) + t.amount;
-            total += t.amount;
-        });
+        // A split transaction counts each line toward its own category
+        relevant.forEach(t => categoryLines(t).forEach(line => {
+            const key = rollUp ? rootCategoryName(data.categories, 'expense', line.category) : line.category;
+            const amount = convertCurrency(line.amount, t.currency, t.date);
+            grouped[key] = (grouped[key] || 0) + amount;
+            total += amount;
+        }));
 
         // Format for Recharts
         // Define a palette or let Recharts handle it. We'll pass specific colors for common cats?
@@ -89,16 +100,17 @@ export function useChartData() {
             .map(([name, value]) => ({
                 name,
                 value,
-                percentage: total > 0 ? (value / total) * 100 : 0
+                percentage: total > 0 ? (value / total) * 100 : 0,
+                color: findCategory(data.categories, 'expense', name)?.color
             }))
             .sort((a, b) => b.value - a.value); // Biggest first
 
         return { data: chartData, total };
-    }, [data.transactions, filterByPeriod]);
+    }, [transactions, data.categories, filterByPeriod, convertCurrency]);
 
     // 4. SPENDING TIMELINE (Area)
     const getSpendingTimeline = useCallback((period: Period) => {
-        const relevant = filterByPeriod(data.transactions, period).filter(t => t.type === 'expense');
+        const relevant = filterByPeriod(transactions, period).filter(t => t.type === 'expense');
 
         // Group by Date
         const grouped: Record<string, number> = {};
@@ -121,7 +133,7 @@ export function useChartData() {
         }
 
         relevant.forEach(t => {
-            grouped[t.date] = (grouped[t.date] || 0) + t.amount;
+            grouped[t.date] = (grouped[t.date] || 0) + convertCurrency(t.amount, t.currency, t.date);
         });
 
         return Object.entries(grouped)
@@ -131,7 +143,7 @@ export function useChartData() {
                 amount: value
             }))
             .sort((a, b) => a.date.localeCompare(b.date));
-    }, [data.transactions, filterByPeriod]);
+    }, [transactions, filterByPeriod, convertCurrency]);
 
     return {
         getAssetAllocation,
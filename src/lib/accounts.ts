@@ -0,0 +1,48 @@
+// Cash account balances: opening balance plus the account's transactions
+import type { LiquidityAccount, Reconciliation, Transaction } from '@/types/finance';
+import type { Converter } from './fxHistory';
+
+type Opening = Pick<LiquidityAccount, 'id' | 'openingBalance' | 'openingDate' | 'currency'>;
+type Entry = Pick<Transaction, 'type' | 'amount' | 'date' | 'accountId' | 'toAccountId' | 'fxRate' | 'currency'>;
+
+const asIs: Converter = value => value;
+
+/**
+ * Effect of a transaction on the balance of `account`, in the account's currency (0 when it
+ * doesn't touch it). A transfer leaves its source account and arrives converted at its FX rate;
+ * entries booked in another currency go through `convert` at the rate of their date.
+ */
+export function accountDelta(t: Entry, account: Pick<LiquidityAccount, 'id' | 'currency'>, convert = asIs): number {
+    // Through the base currency: convert() yields base units, convert(1, account) one account unit in base
+    const inAccountCurrency = (amount: number) => !t.currency || !account.currency || t.currency === account.currency
+        ? amount
+        : convert(amount, t.currency, t.date) / convert(1, account.currency, t.date);
+    if (t.type === 'transfer') {
+        const sent = t.accountId === account.id ? -inAccountCurrency(t.amount) : 0;
+        const received = t.toAccountId === account.id ? (t.fxRate ? t.amount * t.fxRate : inAccountCurrency(t.amount)) : 0;
+        return sent + received;
+    }
+    if (t.accountId !== account.id) return 0;
+    return t.type === 'income' ? inAccountCurrency(t.amount) : -inAccountCurrency(t.amount);
+}
+
+/** Balance at the end of `asOf` (yyyy-MM-dd), or including every transaction when omitted. */
+export function accountBalance(account: Opening, transactions: Entry[], asOf?: string, convert = asIs): number {
+    return transactions.reduce((balance, t) => {
+        if (account.openingDate && t.date < account.openingDate) return balance;
+        if (asOf && t.date.slice(0, 10) > asOf) return balance;
+        return balance + accountDelta(t, account, convert);
+    }, account.openingBalance || 0);
+}
+
+/** Most recent reconciliation of an account. */
+export function lastReconciliation(reconciliations: Reconciliation[], accountId: string): Reconciliation | undefined {
+    return reconciliations
+        .filter(r => r.accountId === accountId)
+        .sort((a, b) => b.date.localeCompare(a.date) || b.createdAt.localeCompare(a.createdAt))[0];
+}
+
+/** Account new entries go to when none is picked (mirrors the database default: the oldest account). */
+export function defaultAccount(accounts: LiquidityAccount[]): LiquidityAccount | undefined {
+    return [...accounts].sort((a, b) => a.createdAt.localeCompare(b.createdAt))[0];
+}
@@ -1,5 +1,6 @@
 // API Service for fetching asset prices
 import { toast } from 'sonner';
+import { recordQuotes } from '@/lib/priceHistory';
 
 const STORAGE_KEY_FINNHUB = 'wealth_compass_finnhub_key';
 
@@ -62,7 +63,9 @@ export async function getCryptoPrice(idOrSymbol: string): Promise<number | null>
         if (!res.ok) throw new Error('CoinGecko price fetch failed');
         const data = await res.json();
 
-        return data[coinId]?.usd || null;
+        const price = data[coinId]?.usd || null;
+        if (price) recordQuotes([{ symbol: coinId, kind: 'crypto', price, currency: 'USD' }]);
+        return price;
     } catch (error) {
         console.error(`Error fetching crypto price for ${idOrSymbol}:`, error);
         return null;
@@ -169,6 +172,9 @@ export async function getBatchCryptoPrices(items: { symbol: string; coinId?: str
         const newCache: CachedCryptoData = { timestamp: now, prices: { ...prices } };
         localStorage.setItem(STORAGE_KEY_CRYPTO_CACHE, JSON.stringify(newCache));
 
+        // 5. Keep the daily history (cached reads above are not new quotes)
+        recordQuotes(Object.entries(prices).map(([id, price]) => ({ symbol: id, kind: 'crypto', price, currency: 'USD' })));
+
         return prices;
     } catch (error: any) {
         console.error('Batch crypto fetch error:', error);
@@ -231,6 +237,24 @@ export async function searchByIsin(query: string): Promise<{ symbol: string, nam
     }
 }
 
+// Finnhub quotes carry no currency; the company profile names the listing's. Cached per symbol
+// once the profile was read (empty for ETFs and unknown symbols)
+const finnhubCurrencies: Record<string, string | null> = {};
+
+async function getFinnhubCurrency(symbol: string, apiKey: string): Promise<string | undefined> {
+    if (!(symbol in finnhubCurrencies)) {
+        try {
+            const res = await fetch(`https://finnhub.io/api/v1/stock/profile2?symbol=${symbol}&token=${apiKey}`);
+            if (!res.ok) return undefined;
+            const profile = await res.json();
+            finnhubCurrencies[symbol] = profile?.currency || null;
+        } catch (e) {
+            return undefined;
+        }
+    }
+    return finnhubCurrencies[symbol] || undefined;
+}
+
 export async function getStockPrice(symbol: string): Promise<number | null> {
     try {
         const apiKey = getFinnhubKey();
@@ -244,7 +268,12 @@ export async function getStockPrice(symbol: string): Promise<number | null> {
                     // throw new Error('Finnhub fetch failed');
                 } else {
                     const data = await res.json();
-                    if (data.c > 0) return data.c;
+                    if (data.c > 0) {
+                        // Without a known currency the history would take the price for the base currency
+                        const currency = await getFinnhubCurrency(symbol, apiKey);
+                        if (currency) recordQuotes([{ symbol, kind: 'stock', price: data.c, currency }]);
+                        return data.c;
+                    }
                 }
             } catch (error) {
                 // Silently fail finnhub
@@ -261,14 +290,18 @@ export async function getStockPrice(symbol: string): Promise<number | null> {
             const res = await fetch(proxyUrl + encodeURIComponent(targetUrl));
             if (!res.ok) return null; // Fetch failed
             const data = await res.json();
-            return data?.chart?.result?.[0]?.meta?.regularMarketPrice || null;
+            const meta = data?.chart?.result?.[0]?.meta;
+            return meta?.regularMarketPrice ? { price: meta.regularMarketPrice as number, currency: meta.currency as string | undefined } : null;
         };
 
         for (const suffix of suffixes) {
             try {
                 const trySymbol = symbol.toUpperCase().endsWith(suffix) ? symbol : symbol + suffix;
-                const price = await fetchYahoo(trySymbol);
-                if (price) return price;
+                const quote = await fetchYahoo(trySymbol);
+                if (quote) {
+                    recordQuotes([{ symbol, kind: 'stock', price: quote.price, currency: quote.currency }]);
+                    return quote.price;
+                }
             } catch (e) {
                 // Continue to next suffix
             }
@@ -282,6 +315,52 @@ export async function getStockPrice(symbol: string): Promise<number | null> {
     }
 }
 
+// --- Historical Series (Benchmarks) ---
+
+// Daily closes from Yahoo Finance since `from`, oldest first
+export async function getStockHistory(symbol: string, from: Date): Promise<{ date: string; price: number }[]> {
+    try {
+        const proxyUrl = 'https://corsproxy.io/?';
+        const period1 = Math.floor(from.getTime() / 1000);
+        const period2 = Math.floor(Date.now() / 1000);
+        const targetUrl = `https://query1.finance.yahoo.com/v8/finance/chart/${encodeURIComponent(symbol)}?period1=${period1}&period2=${period2}&interval=1d`;
+
+        const res = await fetch(proxyUrl + encodeURIComponent(targetUrl));
+        if (!res.ok) throw new Error('Yahoo history fetch failed');
+        const data = await res.json();
+        const result = data?.chart?.result?.[0];
+        const timestamps: number[] = result?.timestamp || [];
+        const closes: (number | null)[] = result?.indicators?.quote?.[0]?.close || [];
+
+        return timestamps
+            .map((ts, i) => ({ date: new Date(ts * 1000).toISOString().slice(0, 10), price: closes[i] as number }))
+            .filter(p => p.price !== null && p.price > 0);
+    } catch (error) {
+        console.error(`Error fetching history for ${symbol}:`, error);
+        return [];
+    }
+}
+
+// Daily USD prices from CoinGecko since `from`, oldest first
+export async function getCryptoHistory(coinId: string, from: Date): Promise<{ date: string; price: number }[]> {
+    try {
+        const days = Math.max(1, Math.ceil((Date.now() - from.getTime()) / (24 * 60 * 60 * 1000)));
+        const res = await fetch(`https://api.coingecko.com/api/v3/coins/${coinId}/market_chart?vs_currency=usd&days=${days}&interval=daily`);
+        if (!res.ok) throw new Error('CoinGecko history fetch failed');
+        const data = await res.json();
+
+        // One point per day, the last one of the day wins
+        const byDay: Record<string, number> = {};
+        (data.prices || []).forEach(([ts, price]: [number, number]) => {
+            byDay[new Date(ts).toISOString().slice(0, 10)] = price;
+        });
+        return Object.keys(byDay).sort().map(date => ({ date, price: byDay[date] }));
+    } catch (error) {
+        console.error(`Error fetching history for ${coinId}:`, error);
+        return [];
+    }
+}
+
 // --- Frankfurter (Currency) ---
 
 export async function fetchExchangeRates(baseCurrency: string): Promise<Record<string, number> | null> {
@@ -295,3 +374,16 @@ export async function fetchExchangeRates(baseCurrency: string): Promise<Record<s
         return null; // Return null to indicate failure
     }
 }
+
+// Daily rates of `symbols` per unit of `baseCurrency` from `start` until today (working days only)
+export async function fetchExchangeRateSeries(baseCurrency: string, start: string, symbols: string[]): Promise<Record<string, Record<string, number>> | null> {
+    try {
+        const res = await fetch(`https://api.frankfurter.app/${start}..?from=${baseCurrency}&to=${symbols.join(',')}`);
+        if (!res.ok) throw new Error('Frankfurter API failed');
+        const data = await res.json();
+        return data.rates || null;
+    } catch (error) {
+        console.error('Error fetching exchange rate history:', error);
+        return null;
+    }
+}
@@ -0,0 +1,202 @@
+// Validation and planning for restoring a JSON backup made by exportToJson
+import type { FinancialData } from '@/types/finance';
+
+export type RestoreMode = 'merge' | 'overwrite';
+
+export type BackupCollection =
+    | 'investments' | 'crypto' | 'liabilities' | 'liquidity' | 'snapshots'
+    | 'transactions' | 'trades' | 'dividends' | 'corporateActions' | 'importProfiles' | 'categoryRules' | 'categories' | 'recurring' | 'budgets' | 'reconciliations' | 'tags' | 'savedFilters'
+    | 'cancelledSubscriptions';
+
+export const BACKUP_COLLECTIONS: { key: BackupCollection; label: string }[] = [
+    { key: 'investments', label: 'Investments' },
+    { key: 'crypto', label: 'Crypto' },
+    { key: 'liabilities', label: 'Liabilities' },
+    { key: 'liquidity', label: 'Cash Accounts' },
+    { key: 'snapshots', label: 'Snapshots' },
+    { key: 'transactions', label: 'Transactions' },
+    { key: 'trades', label: 'Trades' },
+    { key: 'dividends', label: 'Dividends' },
+    { key: 'corporateActions', label: 'Corporate Actions' },
+    { key: 'importProfiles', label: 'Import Profiles' },
+    { key: 'categoryRules', label: 'Category Rules' },
+    { key: 'categories', label: 'Categories' },
+    { key: 'recurring', label: 'Recurring Transactions' },
+    { key: 'budgets', label: 'Budgets' },
+    { key: 'reconciliations', label: 'Reconciliations' },
+    { key: 'tags', label: 'Tags' },
+    { key: 'savedFilters', label: 'Saved Filters' },
+    { key: 'cancelledSubscriptions', label: 'Cancelled Subscriptions' },
+];
+
+export type BackupData = Pick<FinancialData, BackupCollection>;
+
+export interface BackupValidation {
+    backup: BackupData;
+    skipped: string[]; // "Transactions #3: amount is not a number"
+}
+
+// Rows of one collection: `insert` are new, `replace` overwrite the matched row in place,
+// `unchanged` are already present (merge only)
+export interface CollectionPlan<T> {
+    insert: T[];
+    replace: { existingId: string; item: T }[];
+    unchanged: { existingId: string; item: T }[];
+    remove: number; // Existing rows deleted first (overwrite only)
+}
+
+export type RestorePlan = { [K in BackupCollection]: CollectionPlan<BackupData[K][number]> };
+
+type Rule = { field: string; type: 'string' | 'number' | 'object'; values?: string[] };
+
+const RULES: Record<BackupCollection, Rule[]> = {
+    investments: [{ field: 'id', type: 'string' }, { field: 'symbol', type: 'string' }, { field: 'name', type: 'string' }, { field: 'quantity', type: 'number' }, { field: 'costBasis', type: 'number' }],
+    crypto: [{ field: 'id', type: 'string' }, { field: 'symbol', type: 'string' }, { field: 'name', type: 'string' }, { field: 'quantity', type: 'number' }, { field: 'avgBuyPrice', type: 'number' }],
+    liabilities: [{ field: 'id', type: 'string' }, { field: 'name', type: 'string' }, { field: 'currentBalance', type: 'number' }],
+    liquidity: [{ field: 'id', type: 'string' }, { field: 'name', type: 'string' }, { field: 'balance', type: 'number' }],
+    snapshots: [{ field: 'id', type: 'string' }, { field: 'date', type: 'string' }, { field: 'netWorth', type: 'number' }],
+    transactions: [{ field: 'id', type: 'string' }, { field: 'type', type: 'string', values: ['income', 'expense', 'transfer'] }, { field: 'category', type: 'string' }, { field: 'amount', type: 'number' }, { field: 'date', type: 'string' }],
+    trades: [{ field: 'id', type: 'string' }, { field: 'assetId', type: 'string' }, { field: 'side', type: 'string', values: ['buy', 'sell'] }, { field: 'quantity', type: 'number' }, { field: 'price', type: 'number' }, { field: 'date', type: 'string' }],
+    dividends: [{ field: 'id', type: 'string' }, { field: 'assetId', type: 'string' }, { field: 'grossAmount', type: 'number' }, { field: 'netAmount', type: 'number' }, { field: 'payDate', type: 'string' }],
+    corporateActions: [{ field: 'id', type: 'string' }, { field: 'assetId', type: 'string' }, { field: 'type', type: 'string', values: ['split', 'symbol_change', 'merger'] }, { field: 'effectiveDate', type: 'string' }],
+    importProfiles: [{ field: 'id', type: 'string' }, { field: 'name', type: 'string' }, { field: 'mapping', type: 'object' }],
+    categories: [{ field: 'id', type: 'string' }, { field: 'name', type: 'string' }, { field: 'type', type: 'string', values: ['income', 'expense'] }],
+    categoryRules: [{ field: 'id', type: 'string' }, { field: 'name', type: 'string' }, { field: 'category', type: 'string' }, { field: 'conditions', type: 'object' }],
+    recurring: [{ field: 'id', type: 'string' }, { field: 'name', type: 'string' }, { field: 'type', type: 'string', values: ['income', 'expense'] }, { field: 'amount', type: 'number' }, { field: 'frequency', type: 'string', values: ['weekly', 'monthly', 'yearly', 'custom'] }, { field: 'startDate', type: 'string' }],
+    budgets: [{ field: 'id', type: 'string' }, { field: 'category', type: 'string' }, { field: 'amount', type: 'number' }],
+    reconciliations: [{ field: 'id', type: 'string' }, { field: 'accountId', type: 'string' }, { field: 'date', type: 'string' }, { field: 'statementBalance', type: 'number' }, { field: 'computedBalance', type: 'number' }],
+    tags: [{ field: 'id', type: 'string' }, { field: 'name', type: 'string' }],
+    savedFilters: [{ field: 'id', type: 'string' }, { field: 'name', type: 'string' }, { field: 'filter', type: 'object' }],
+    cancelledSubscriptions: [{ field: 'id', type: 'string' }, { field: 'merchant', type: 'string' }, { field: 'cancelledOn', type: 'string' }],
+};
+
+// Numeric columns come back from Postgres as strings in some setups
+const NUMERIC_FIELDS = [
+    'quantity', 'costBasis', 'currentValue', 'currentPrice', 'fees', 'avgBuyPrice', 'principal', 'currentBalance',
+    'interestRate', 'monthlyPayment', 'balance', 'netWorth', 'totalAssets', 'totalLiabilities', 'liquidity',
+    'investments', 'crypto', 'amount', 'price', 'priority', 'grossAmount', 'withholdingTax', 'netAmount', 'ratioFrom', 'ratioTo', 'cashPerShare', 'interval',
+    'openingBalance', 'statementBalance', 'computedBalance', 'fxRate',
+];
+
+/**
+ * Checks a parsed backup file against the FinancialData shape.
+ * Invalid rows are dropped and listed in `skipped`; a file that isn't a backup at all throws.
+ */
+export function validateBackup(raw: unknown): BackupValidation {
+    if (!raw || typeof raw !== 'object' || Array.isArray(raw)) throw new Error('The file is not a backup object');
+    const source = raw as Record<string, unknown>;
+    if (!BACKUP_COLLECTIONS.some(c => Array.isArray(source[c.key]))) throw new Error('No known collections found in the file');
+
+    const skipped: string[] = [];
+    const backup = {} as Record<BackupCollection, unknown[]>;
+
+    BACKUP_COLLECTIONS.forEach(({ key, label }) => {
+        const rows = source[key];
+        backup[key] = [];
+        if (rows === undefined) return;
+        if (!Array.isArray(rows)) { skipped.push(`${label}: not a list`); return; }
+
+        rows.forEach((row, index) => {
+            if (!row || typeof row !== 'object') { skipped.push(`${label} #${index + 1}: not an object`); return; }
+            const item: Record<string, unknown> = { ...(row as Record<string, unknown>) };
+            NUMERIC_FIELDS.forEach(f => {
+                if (typeof item[f] === 'string' && item[f] !== '' && isFinite(Number(item[f]))) item[f] = Number(item[f]);
+            });
+            const problem = RULES[key].find(rule => {
+                const value = item[rule.field];
+                if (rule.type === 'number') return typeof value !== 'number' || !isFinite(value);
+                if (rule.type === 'object') return !value || typeof value !== 'object';
+                return typeof value !== 'string' || value === '' || (rule.values !== undefined && !rule.values.includes(value));
+            });
+            if (problem) {
+                const name = typeof item.name === 'string' ? ` (${item.name})` : typeof item.symbol === 'string' ? ` (${item.symbol})` : '';
+                skipped.push(`${label} #${index + 1}${name}: invalid or missing "${problem.field}"`);
+                return;
+            }
+            backup[key].push(item);
+        });
+    });
+
+    // Ledger rows need their holding in the same file
+    const result = backup as unknown as BackupData;
+    const assetIds = new Set([...result.investments, ...result.crypto].map(a => a.id));
+    const keepLinked = <T extends { assetId: string }>(rows: T[], label: string) => rows.filter((row, index) => {
+        if (assetIds.has(row.assetId)) return true;
+        skipped.push(`${label} #${index + 1}: holding ${row.assetId} is not in the backup`);
+        return false;
+    });
+    result.trades = keepLinked(result.trades, 'Trades');
+    result.dividends = keepLinked(result.dividends, 'Dividends');
+    result.corporateActions = keepLinked(result.corporateActions, 'Corporate Actions');
+
+    return { backup: result, skipped };
+}
+
+const same = (a: number, b: number) => Math.abs(a - b) <= Math.max(Math.abs(b) * 1e-6, 1e-9);
+
+/**
+ * Decides per row whether it is inserted, replaces an existing row or is already there.
+ * Overwrite inserts everything after deleting the current rows; merge matches rows on
+ * natural keys (ISIN / symbol, account name, snapshot date, bank id or date + amount...).
+ */
+export function planRestore(backup: BackupData, current: BackupData, mode: RestoreMode): RestorePlan {
+    const plan = {} as Record<BackupCollection, CollectionPlan<unknown>>;
+
+    if (mode === 'overwrite') {
+        BACKUP_COLLECTIONS.forEach(({ key }) => {
+            plan[key] = { insert: backup[key], replace: [], unchanged: [], remove: current[key].length };
+        });
+        return plan as RestorePlan;
+    }
+
+    const match = <T extends { id: string }>(
+        rows: T[],
+        existing: T[],
+        isMatch: (row: T, other: T) => boolean,
+        asReplace: boolean
+    ): CollectionPlan<T> => {
+        const result: CollectionPlan<T> = { insert: [], replace: [], unchanged: [], remove: 0 };
+        const taken = new Set<string>();
+        rows.forEach(item => {
+            const other = existing.find(e => !taken.has(e.id) && isMatch(item, e));
+            if (!other) { result.insert.push(item); return; }
+            taken.add(other.id);
+            (asReplace ? result.replace : result.unchanged).push({ existingId: other.id, item });
+        });
+        return result;
+    };
+
+    plan.investments = match(backup.investments, current.investments, (a, b) => (!!a.isin && a.isin === b.isin) || a.symbol === b.symbol, true);
+    plan.crypto = match(backup.crypto, current.crypto, (a, b) => (!!a.coinId && a.coinId === b.coinId) || a.symbol.toUpperCase() === b.symbol.toUpperCase(), true);
+    plan.liabilities = match(backup.liabilities, current.liabilities, (a, b) => a.name === b.name && a.type === b.type, true);
+    plan.liquidity = match(backup.liquidity, current.liquidity, (a, b) => a.name === b.name && a.type === b.type, true);
+    plan.snapshots = match(backup.snapshots, current.snapshots, (a, b) => a.date === b.date, true);
+    plan.transactions = match(backup.transactions, current.transactions, (a, b) => a.externalId
+        ? a.externalId === b.externalId
+        : a.date === b.date && a.type === b.type && same(a.amount, b.amount) && a.category === b.category && (a.description || '') === (b.description || ''), false);
+    plan.importProfiles = match(backup.importProfiles, current.importProfiles, (a, b) => a.name === b.name, true);
+    plan.categories = match(backup.categories, current.categories, (a, b) => a.name === b.name && a.type === b.type, true);
+    plan.categoryRules = match(backup.categoryRules, current.categoryRules, (a, b) => a.name === b.name, true);
+    plan.budgets = match(backup.budgets, current.budgets, (a, b) => a.category === b.category, true);
+    plan.recurring = match(backup.recurring, current.recurring, (a, b) => a.name === b.name && a.type === b.type, true);
+    plan.tags = match(backup.tags, current.tags, (a, b) => a.name === b.name, true);
+    plan.savedFilters = match(backup.savedFilters, current.savedFilters, (a, b) => a.name === b.name, true);
+    plan.cancelledSubscriptions = match(backup.cancelledSubscriptions, current.cancelledSubscriptions, (a, b) => a.merchant === b.merchant, true);
+
+    // Ledger rows match when their holding matched and the entry is the same
+    const holdingOf: Record<string, string> = {};
+    [...(plan as RestorePlan).investments.replace, ...(plan as RestorePlan).crypto.replace].forEach(r => { holdingOf[r.item.id] = r.existingId; });
+    plan.trades = match(backup.trades, current.trades, (a, b) =>
+        holdingOf[a.assetId] === b.assetId && a.date === b.date && a.side === b.side && same(a.quantity, b.quantity) && same(a.price, b.price), false);
+    plan.dividends = match(backup.dividends, current.dividends, (a, b) =>
+        holdingOf[a.assetId] === b.assetId && a.payDate === b.payDate && same(a.grossAmount, b.grossAmount), false);
+    plan.corporateActions = match(backup.corporateActions, current.corporateActions, (a, b) =>
+        holdingOf[a.assetId] === b.assetId && a.type === b.type && a.effectiveDate === b.effectiveDate, false);
+
+    const accountOf: Record<string, string> = {};
+    (plan as RestorePlan).liquidity.replace.forEach(r => { accountOf[r.item.id] = r.existingId; });
+    plan.reconciliations = match(backup.reconciliations, current.reconciliations, (a, b) =>
+        accountOf[a.accountId] === b.accountId && a.date === b.date && same(a.statementBalance, b.statementBalance), false);
+
+    return plan as RestorePlan;
+}
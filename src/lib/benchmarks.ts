@@ -0,0 +1,113 @@
+// Benchmark index series for comparison with the portfolio
+import { format, isValid, parse, parseISO } from 'date-fns';
+import { getCryptoHistory, getStockHistory } from '@/lib/api';
+import type { PricePoint } from '@/lib/priceHistory';
+
+export interface Benchmark {
+    id: string;
+    label: string;
+    source: 'stock' | 'crypto' | 'custom';
+    symbol?: string; // Yahoo ticker or CoinGecko id
+    color: string;
+}
+
+export interface CustomBenchmark {
+    id: string;
+    label: string;
+    points: PricePoint[];
+}
+
+export const BUILT_IN_BENCHMARKS: Benchmark[] = [
+    { id: 'msci-world', label: 'MSCI World (URTH)', source: 'stock', symbol: 'URTH', color: '#8B5CF6' },
+    { id: 'sp500', label: 'S&P 500', source: 'stock', symbol: '^GSPC', color: '#F59E0B' },
+    { id: 'btc', label: 'Bitcoin', source: 'crypto', symbol: 'bitcoin', color: '#F97316' },
+];
+
+const CUSTOM_COLORS = ['#EC4899', '#14B8A6', '#84CC16', '#06B6D4'];
+
+export const customBenchmarkColor = (index: number) => CUSTOM_COLORS[index % CUSTOM_COLORS.length];
+
+/**
+ * Loads the daily series of a built-in benchmark since `from`.
+ */
+export async function fetchBenchmarkSeries(benchmark: Benchmark, from: Date): Promise<PricePoint[]> {
+    if (!benchmark.symbol) return [];
+    return benchmark.source === 'crypto'
+        ? getCryptoHistory(benchmark.symbol, from)
+        : getStockHistory(benchmark.symbol, from);
+}
+
+const DATE_FORMATS = ['yyyy-MM-dd', 'dd/MM/yyyy', 'MM/dd/yyyy', 'dd.MM.yyyy', 'yyyy/MM/dd'];
+
+function parseDate(raw: string): string | null {
+    const value = raw.trim().replace(/^"|"$/g, '');
+    const iso = parseISO(value);
+    if (isValid(iso) && /^\d{4}-\d{2}-\d{2}/.test(value)) return format(iso, 'yyyy-MM-dd');
+    for (const pattern of DATE_FORMATS) {
+        const parsed = parse(value, pattern, new Date());
+        if (isValid(parsed)) return format(parsed, 'yyyy-MM-dd');
+    }
+    return null;
+}
+
+function parseNumber(raw: string): number {
+    let value = raw.trim().replace(/^"|"$/g, '').replace(/\s/g, '');
+    // "1.234,56" or "1234,56" -> decimal comma; "1,234" stays a thousands separator
+    const decimalComma = /^\d{1,3}(\.\d{3})+,\d+$/.test(value) || /^\d+,(\d{1,2}|\d{4,})$/.test(value);
+    if (decimalComma) value = value.replace(/\./g, '').replace(',', '.');
+    else value = value.replace(/,/g, '');
+    return parseFloat(value);
+}
+
+/**
+ * Parses a "date,value" CSV (header optional, comma / semicolon / tab separated).
+ * Rows that don't parse are skipped.
+ */
+export function parseBenchmarkCsv(text: string): PricePoint[] {
+    const byDay: Record<string, number> = {};
+    text.split(/\r?\n/).forEach(line => {
+        if (!line.trim()) return;
+        const delimiter = line.includes(';') ? ';' : line.includes('\t') ? '\t' : ',';
+        const [dateCell, valueCell] = line.split(delimiter);
+        if (!dateCell || !valueCell) return;
+        const date = parseDate(dateCell);
+        const price = parseNumber(valueCell);
+        if (date && isFinite(price) && price > 0) byDay[date] = price;
+    });
+    return Object.keys(byDay).sort().map(date => ({ date, price: byDay[date] }));
+}
+
+/**
+ * Last value on or before `date` (or the first value if the series starts later).
+ */
+export function valueOn(series: PricePoint[], date: string): number | null {
+    if (series.length === 0) return null;
+    let value: number | null = null;
+    for (const point of series) {
+        if (point.date > date) break;
+        value = point.price;
+    }
+    return value ?? series[0].price;
+}
+
+/**
+ * Rebases a benchmark so it starts at `startValue` on `startDate`, sampled at `dates`.
+ */
+export function rebaseSeries(series: PricePoint[], dates: string[], startDate: string, startValue: number): (number | null)[] {
+    const base = valueOn(series, startDate);
+    if (!base) return dates.map(() => null);
+    return dates.map(date => {
+        const value = valueOn(series, date);
+        return value === null ? null : startValue * value / base;
+    });
+}
+
+/**
+ * Price return of the benchmark between two dates (0.1 = 10%).
+ */
+export function benchmarkReturn(series: PricePoint[], from: string, to: string): number | null {
+    const start = valueOn(series, from);
+    const end = valueOn(series, to);
+    if (!start || !end) return null;
+    return end / start - 1;
+}
@@ -0,0 +1,364 @@
+// Broker export parsing (Degiro, Interactive Brokers, Trade Republic) into trades, dividends and fees
+import { detectDelimiter, parseCsv } from '@/lib/csvImport';
+import type { FinancialData, Investment, Trade } from '@/types/finance';
+
+export type Broker = 'degiro' | 'ibkr' | 'trade_republic';
+
+export const BROKERS: { value: Broker; label: string; hint: string }[] = [
+    { value: 'degiro', label: 'Degiro', hint: 'Transactions.csv for trades, Account.csv for dividends and fees' },
+    { value: 'ibkr', label: 'Interactive Brokers', hint: 'Flex Query (CSV or XML) with Trades and Cash Transactions' },
+    { value: 'trade_republic', label: 'Trade Republic', hint: 'Transaction CSV (Date, Type, Value, ISIN, Shares, Fees, Taxes)' },
+];
+
+export interface BrokerActivity {
+    kind: 'trade' | 'dividend' | 'fee';
+    date: string; // yyyy-MM-dd
+    isin?: string;
+    symbol?: string;
+    name?: string;
+    currency: string;
+    side?: Trade['side'];
+    quantity?: number;
+    price?: number; // Unit price in the trading currency
+    fees?: number; // Trade fees, converted to the trading currency
+    amount?: number; // Dividend: gross payout. Fee: amount charged.
+    withholdingTax?: number;
+    description?: string;
+}
+
+export interface BrokerParseResult {
+    activities: BrokerActivity[];
+    skipped: number; // Rows that are neither trades, dividends nor fees (deposits, FX, interest...)
+}
+
+// Position the import would produce for one security, next to the holding already in assets
+export interface SecurityReconciliation {
+    key: string; // ISIN, or the symbol when the broker gives none
+    isin?: string;
+    symbol: string;
+    name: string;
+    currency: string;
+    assetId?: string; // Matched holding in assets
+    trades: number;
+    dividends: number;
+    importedQuantity: number; // Net shares bought - sold in the file
+    currentQuantity: number; // Quantity currently held in assets (0 for new holdings)
+}
+
+export const activityKey = (a: BrokerActivity) => a.isin || a.symbol || '';
+
+// Auto-detects the decimal separator: "1.234,56" / "12,5" are decimal comma, "1,234.56" decimal point
+function num(raw?: string): number {
+    if (!raw) return NaN;
+    let value = raw.trim().replace(/["'\s]/g, '').replace(/[^\d.,+-]/g, '');
+    if (/,\d{1,2}$/.test(value) || /^-?\d{1,3}(\.\d{3})+,\d+$/.test(value)) value = value.replace(/\./g, '').replace(',', '.');
+    else value = value.replace(/,/g, '');
+    return parseFloat(value);
+}
+
+// yyyy-MM-dd from "2024-01-15", "20240115;093000", "15-01-2024", "15.01.2024" or "15/01/2024"
+function normalizeDate(raw?: string): string | null {
+    const value = raw?.trim() || '';
+    let match = value.match(/^(\d{4})-?(\d{2})-?(\d{2})/);
+    if (match) return `${match[1]}-${match[2]}-${match[3]}`;
+    match = value.match(/^(\d{2})[-./](\d{2})[-./](\d{4})/);
+    if (match) return `${match[3]}-${match[2]}-${match[1]}`;
+    return null;
+}
+
+// Header lookup by any of the given (lowercase) names, across the languages brokers export in
+const columnOf = (headers: string[], ...names: string[]) => headers.findIndex(h => names.includes(h.trim().toLowerCase()));
+
+/**
+ * Guesses the broker from the file content.
+ */
+export function detectBroker(text: string): Broker | null {
+    const head = text.replace(/^\uFEFF/, '').slice(0, 4000);
+    if (/<FlexQueryResponse|ClientAccountID|CurrencyPrimary/i.test(head)) return 'ibkr';
+    const header = head.split(/\r?\n/)[0].toLowerCase();
+    if (header.includes('isin') && /order id|ordernummer|order-id/.test(header)) return 'degiro';
+    if (header.includes('isin') && /shares|stück/.test(header)) return 'trade_republic';
+    return null;
+}
+
+export function parseBrokerExport(broker: Broker, text: string): BrokerParseResult {
+    if (broker === 'degiro') return parseDegiro(text);
+    if (broker === 'ibkr') return parseIbkr(text);
+    return parseTradeRepublic(text);
+}
+
+// --- Degiro ---
+
+function parseDegiro(text: string): BrokerParseResult {
+    const { headers, rows } = parseCsv(text, { delimiter: detectDelimiter(text), hasHeader: true, skipRows: 0 });
+    const col = (...names: string[]) => columnOf(headers, ...names);
+
+    const date = col('date', 'datum');
+    const product = col('product', 'produkt');
+    const isin = col('isin');
+    const quantity = col('quantity', 'aantal', 'anzahl');
+    const description = col('description', 'omschrijving', 'beschreibung');
+    const activities: BrokerActivity[] = [];
+    let skipped = 0;
+
+    // Transactions.csv: one row per executed order
+    if (quantity >= 0) {
+        const price = col('price', 'koers', 'kurs');
+        const rate = col('exchange rate', 'wisselkoers', 'wechselkurs');
+        const fees = col('transaction and/or third party fees', 'transaction costs', 'transactiekosten en/of kosten van derden', 'transaktionskosten und/oder kosten dritter', 'transactiekosten', 'transaktionskosten');
+        rows.forEach(row => {
+            const day = normalizeDate(row[date]);
+            const qty = num(row[quantity]);
+            const unitPrice = num(row[price]);
+            if (!day || !isFinite(qty) || qty === 0 || !isFinite(unitPrice)) { skipped++; return; }
+            // Fees are charged in EUR; the exchange rate is trading currency per EUR
+            const fxRate = num(row[rate]);
+            const feeEur = Math.abs(num(row[fees]) || 0);
+            activities.push({
+                kind: 'trade',
+                date: day,
+                isin: row[isin] || undefined,
+                name: row[product],
+                currency: row[price + 1] || 'EUR', // Unnamed column next to the price
+                side: qty > 0 ? 'buy' : 'sell',
+                quantity: Math.abs(qty),
+                price: unitPrice,
+                fees: isFinite(fxRate) && fxRate > 0 ? feeEur * fxRate : feeEur,
+            });
+        });
+        return { activities, skipped };
+    }
+
+    // Account.csv: cash movements. Only dividends, their withholding tax and account fees are taken;
+    // trades and their costs come from Transactions.csv.
+    const change = col('change', 'mutatie', 'änderung');
+    const dividends = new Map<string, BrokerActivity>();
+    rows.forEach(row => {
+        const day = normalizeDate(row[date]);
+        const label = (row[description] || '').toLowerCase();
+        const currency = row[change] || 'EUR';
+        const amount = num(row[change + 1]); // Amount sits in the unnamed column after the currency
+        if (!day || !isFinite(amount)) { skipped++; return; }
+
+        const isTax = /dividend ?tax|dividendbelasting|dividendensteuer|quellensteuer/.test(label);
+        const isDividend = /dividend/.test(label) && !isTax;
+        if (isDividend || isTax) {
+            const key = `${row[isin]}|${day}|${currency}`;
+            const entry = dividends.get(key) || { kind: 'dividend', date: day, isin: row[isin] || undefined, name: row[product], currency, amount: 0, withholdingTax: 0 };
+            if (isDividend) entry.amount = (entry.amount || 0) + amount;
+            else entry.withholdingTax = (entry.withholdingTax || 0) - amount;
+            dividends.set(key, entry);
+        } else if (/fee|kosten|gebühr/.test(label) && !/transac|transak/.test(label) && amount < 0) {
+            activities.push({ kind: 'fee', date: day, currency, amount: -amount, description: row[description] });
+        } else {
+            skipped++;
+        }
+    });
+    dividends.forEach(d => { if ((d.amount || 0) > 0) activities.push(d); });
+    return { activities, skipped };
+}
+
+// --- Interactive Brokers (Flex Query) ---
+
+// Flex queries come as XML (attributes) or CSV (one header per section). Both become lowercase-keyed records.
+function ibkrRecords(text: string): { section: 'trade' | 'cash'; fields: Record<string, string> }[] {
+    const records: { section: 'trade' | 'cash'; fields: Record<string, string> }[] = [];
+
+    if (/<FlexQueryResponse/i.test(text)) {
+        const doc = new DOMParser().parseFromString(text, 'application/xml');
+        const collect = (tag: string, section: 'trade' | 'cash') => Array.from(doc.getElementsByTagName(tag)).forEach(el => {
+            const fields: Record<string, string> = {};
+            Array.from(el.attributes).forEach(attr => { fields[attr.name.toLowerCase()] = attr.value; });
+            records.push({ section, fields });
+        });
+        collect('Trade', 'trade');
+        collect('CashTransaction', 'cash');
+        return records;
+    }
+
+    const delimiter = detectDelimiter(text);
+    let headers: string[] = [];
+    parseCsv(text, { delimiter, hasHeader: false, skipRows: 0 }).rows.forEach(row => {
+        if (['BOF', 'EOF', 'BOA', 'EOA', 'BOS', 'EOS'].includes(row[0])) return;
+        const lower = row.map(c => c.toLowerCase());
+        if (lower.includes('clientaccountid') || lower.includes('currencyprimary')) { headers = lower; return; }
+        if (headers.length === 0) return;
+        const fields: Record<string, string> = {};
+        headers.forEach((h, i) => { fields[h] = row[i] || ''; });
+        const section = 'tradeprice' in fields || 'buy/sell' in fields ? 'trade' : 'cash';
+        records.push({ section, fields });
+    });
+    return records;
+}
+
+function parseIbkr(text: string): BrokerParseResult {
+    const activities: BrokerActivity[] = [];
+    const dividends = new Map<string, BrokerActivity>();
+    let skipped = 0;
+
+    ibkrRecords(text).forEach(({ section, fields: f }) => {
+        const currency = f.currency || f.currencyprimary || 'USD';
+        const isin = f.isin || undefined;
+        const symbol = f.symbol || undefined;
+
+        if (section === 'trade') {
+            const category = (f.assetcategory || f.assetclass || 'STK').toUpperCase();
+            const detail = (f.levelofdetail || 'EXECUTION').toUpperCase();
+            const qty = num(f.quantity);
+            const price = num(f.tradeprice);
+            const day = normalizeDate(f.tradedate || f.datetime);
+            if (!['STK', 'FUND', 'BOND'].includes(category) || detail !== 'EXECUTION' || !day || !isFinite(qty) || qty === 0 || !isFinite(price)) {
+                skipped++;
+                return;
+            }
+            const side = (f['buy/sell'] || '').toUpperCase().startsWith('SELL') || qty < 0 ? 'sell' : 'buy';
+            activities.push({
+                kind: 'trade',
+                date: day,
+                isin,
+                symbol,
+                name: f.description,
+                currency,
+                side,
+                quantity: Math.abs(qty),
+                price,
+                fees: Math.abs(num(f.ibcommission) || 0),
+            });
+            return;
+        }
+
+        const type = (f.type || '').toLowerCase();
+        const amount = num(f.amount);
+        const day = normalizeDate(f.datetime || f.settledate || f.reportdate);
+        if (!day || !isFinite(amount)) { skipped++; return; }
+
+        if (type.includes('dividend') || type.includes('withholding')) {
+            const key = `${isin || symbol}|${day}|${currency}`;
+            const entry = dividends.get(key) || { kind: 'dividend', date: day, isin, symbol, name: f.description, currency, amount: 0, withholdingTax: 0 };
+            if (type.includes('withholding')) entry.withholdingTax = (entry.withholdingTax || 0) - amount;
+            else entry.amount = (entry.amount || 0) + amount;
+            dividends.set(key, entry);
+        } else if (type.includes('fee') && amount < 0) {
+            activities.push({ kind: 'fee', date: day, currency, amount: -amount, description: f.description || f.type });
+        } else {
+            skipped++;
+        }
+    });
+    dividends.forEach(d => { if ((d.amount || 0) > 0) activities.push(d); });
+    return { activities, skipped };
+}
+
+// --- Trade Republic ---
+
+function parseTradeRepublic(text: string): BrokerParseResult {
+    const { headers, rows } = parseCsv(text, { delimiter: detectDelimiter(text), hasHeader: true, skipRows: 0 });
+    const col = (...names: string[]) => columnOf(headers, ...names);
+    const date = col('date', 'datum');
+    const type = col('type', 'typ');
+    const value = col('value', 'wert', 'amount', 'betrag');
+    const note = col('note', 'notiz', 'name');
+    const isin = col('isin');
+    const shares = col('shares', 'stück', 'quantity', 'anzahl');
+    const fees = col('fees', 'gebühren');
+    const taxes = col('taxes', 'steuern');
+
+    const activities: BrokerActivity[] = [];
+    let skipped = 0;
+    rows.forEach(row => {
+        const day = normalizeDate(row[date]);
+        const kind = (row[type] || '').toLowerCase();
+        const cash = Math.abs(num(row[value]));
+        const fee = Math.abs(num(row[fees]) || 0);
+        const tax = Math.abs(num(row[taxes]) || 0);
+        if (!day || !isFinite(cash)) { skipped++; return; }
+
+        const isBuy = /^(buy|kauf|savings plan|sparplan|saveback|roundup)/.test(kind);
+        const isSell = /^(sell|verkauf)/.test(kind);
+        if (isBuy || isSell) {
+            const qty = Math.abs(num(row[shares]));
+            if (!isFinite(qty) || qty === 0) { skipped++; return; }
+            // Value is the cash moved: buys include the fee, sells are net of fee and tax
+            const gross = isBuy ? cash - fee : cash + fee + tax;
+            activities.push({
+                kind: 'trade',
+                date: day,
+                isin: row[isin] || undefined,
+                name: row[note],
+                currency: 'EUR',
+                side: isBuy ? 'buy' : 'sell',
+                quantity: qty,
+                price: gross / qty,
+                fees: fee,
+            });
+        } else if (/^(dividend|dividende|ausschüttung|distribution)/.test(kind)) {
+            // Value is the net payout
+            activities.push({ kind: 'dividend', date: day, isin: row[isin] || undefined, name: row[note], currency: 'EUR', amount: cash + tax, withholdingTax: tax });
+        } else {
+            skipped++;
+        }
+    });
+    return { activities, skipped };
+}
+
+// --- Reconciliation ---
+
+/**
+ * Groups the imported activity per security and matches it to existing holdings by ISIN, then symbol.
+ */
+export function reconcileSecurities(activities: BrokerActivity[], investments: Investment[]): SecurityReconciliation[] {
+    const byKey = new Map<string, SecurityReconciliation>();
+    activities.filter(a => a.kind !== 'fee' && activityKey(a)).forEach(a => {
+        const key = activityKey(a);
+        const entry = byKey.get(key) || (() => {
+            const match = investments.find(i => (a.isin && i.isin === a.isin) || (a.symbol && i.symbol === a.symbol));
+            const created: SecurityReconciliation = {
+                key,
+                isin: a.isin,
+                symbol: match?.symbol || a.symbol || a.isin || '',
+                name: match?.name || a.name || a.symbol || key,
+                currency: match?.currency || a.currency,
+                assetId: match?.id,
+                trades: 0,
+                dividends: 0,
+                importedQuantity: 0,
+                currentQuantity: match?.quantity || 0,
+            };
+            byKey.set(key, created);
+            return created;
+        })();
+        if (a.kind === 'trade') {
+            entry.trades++;
+            entry.importedQuantity += a.side === 'buy' ? a.quantity || 0 : -(a.quantity || 0);
+        } else {
+            entry.dividends++;
+        }
+    });
+    return Array.from(byKey.values()).sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/**
+ * True when the activity is already booked (same day and amounts), e.g. when a file is imported twice.
+ */
+export function isAlreadyRecorded(
+    activity: BrokerActivity,
+    assetId: string | undefined,
+    existing: Pick<FinancialData, 'trades' | 'dividends' | 'transactions'>
+): boolean {
+    const near = (a: number, b: number) => Math.abs(a - b) <= Math.max(Math.abs(b) * 0.005, 0.005);
+    if (activity.kind === 'fee') {
+        return existing.transactions.some(t =>
+            t.type === 'expense' && t.category === 'Trading Fees' && t.date === activity.date && near(t.amount, activity.amount || 0)
+        );
+    }
+    if (!assetId) return false;
+    if (activity.kind === 'dividend') {
+        return existing.dividends.some(d => d.assetId === assetId && d.payDate === activity.date && near(d.grossAmount, activity.amount || 0));
+    }
+    return existing.trades.some(t =>
+        t.assetId === assetId &&
+        t.date === activity.date &&
+        t.side === activity.side &&
+        Math.abs(t.quantity - (activity.quantity || 0)) < 1e-6 &&
+        near(t.price, activity.price || 0)
+    );
+}
@@ -0,0 +1,88 @@
+// Monthly category budgets: spending against each envelope, rollover and end-of-month projection
+import { addMonths, format, getDate, getDaysInMonth, parseISO } from 'date-fns';
+import type { Budget, Category, Transaction } from '@/types/finance';
+import { rootCategoryName } from './categories';
+import type { Converter } from './fxHistory';
+import { categoryLines } from './splits';
+
+const asIs: Converter = value => value;
+
+export interface BudgetStatus {
+    budget: Budget;
+    spent: number;
+    carryOver: number; // Unspent (positive) or overspent (negative) amount brought in from earlier months
+    available: number; // amount + carryOver
+    remaining: number;
+    progress: number; // spent / available in %, capped at 100
+    projected: number; // Spending at the current pace by the end of the month
+    overBudget: boolean;
+    projectedOver: boolean;
+}
+
+/** Budget category an expense counts toward: its own budget, else the budget of its parent category. */
+export function budgetCategoryOf(budgets: Budget[], categories: Category[], category: string): string | undefined {
+    if (budgets.some(b => b.category === category)) return category;
+    const root = rootCategoryName(categories, 'expense', category);
+    return budgets.some(b => b.category === root) ? root : undefined;
+}
+
+/** Expenses per month (yyyy-MM) and budget category, in the base currency. Split lines count separately. */
+export function spendingByMonth(budgets: Budget[], transactions: Transaction[], categories: Category[], convert = asIs): Record<string, Record<string, number>> {
+    const result: Record<string, Record<string, number>> = {};
+    transactions.forEach(t => {
+        if (t.type !== 'expense') return;
+        const month = t.date.slice(0, 7);
+        categoryLines(t).forEach(line => {
+            const category = budgetCategoryOf(budgets, categories, line.category);
+            if (!category) return;
+            result[month] = result[month] || {};
+            result[month][category] = (result[month][category] || 0) + convert(line.amount, t.currency, t.date);
+        });
+    });
+    return result;
+}
+
+/**
+ * Status of every budget for `month`. With rollover, each month since the budget's start month
+ * passes its leftover (or overspend) on to the next, envelope style. The projection extrapolates
+ * the current month's pace; past months project to what was spent. `convert` brings each expense
+ * into the budget's (base) currency.
+ */
+export function getBudgetStatuses(
+    budgets: Budget[],
+    transactions: Transaction[],
+    categories: Category[],
+    convert = asIs,
+    month = new Date(),
+    today = new Date()
+): BudgetStatus[] {
+    const monthKey = format(month, 'yyyy-MM');
+    const spending = spendingByMonth(budgets, transactions, categories, convert);
+    const isCurrent = monthKey === format(today, 'yyyy-MM');
+    const pace = isCurrent ? getDaysInMonth(today) / getDate(today) : monthKey > format(today, 'yyyy-MM') ? 0 : 1;
+
+    return budgets
+        .map(budget => {
+            let carryOver = 0;
+            if (budget.rollover) {
+                for (let m = parseISO(budget.startMonth); format(m, 'yyyy-MM') < monthKey; m = addMonths(m, 1)) {
+                    carryOver += budget.amount - (spending[format(m, 'yyyy-MM')]?.[budget.category] || 0);
+                }
+            }
+            const spent = spending[monthKey]?.[budget.category] || 0;
+            const available = budget.amount + carryOver;
+            const projected = spent * pace;
+            return {
+                budget,
+                spent,
+                carryOver,
+                available,
+                remaining: available - spent,
+                progress: available > 0 ? Math.min(100, (spent / available) * 100) : spent > 0 ? 100 : 0,
+                projected,
+                overBudget: spent > available,
+                projectedOver: projected > available,
+            };
+        })
+        .sort((a, b) => a.budget.category.localeCompare(b.budget.category));
+}
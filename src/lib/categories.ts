@@ -0,0 +1,69 @@
+// Default transaction categories and helpers for the user's category tree
+import type { Category } from '@/types/finance';
+
+export const INCOME_CATEGORIES = ['Salary', 'Freelance', 'Dividends', 'Other'];
+
+export const EXPENSE_CATEGORIES = ['Housing', 'Food', 'Transport', 'Utilities', 'Fuel', 'Entertainment', 'Shopping', 'Health', 'Other'];
+
+export const CATEGORY_COLORS = ['#10B981', '#3B82F6', '#F59E0B', '#EF4444', '#8B5CF6', '#EC4899', '#6366F1', '#14B8A6', '#F97316', '#64748B'];
+
+// Icon keys offered in the category editor (rendered with lucide-react)
+export const CATEGORY_ICONS = [
+    'tag', 'home', 'utensils', 'car', 'zap', 'fuel', 'film', 'shopping-bag', 'heart-pulse',
+    'briefcase', 'laptop', 'trending-up', 'gift', 'plane', 'graduation-cap', 'piggy-bank',
+];
+
+// Starting set offered to users who have no categories yet (the old hardcoded lists)
+export const DEFAULT_CATEGORIES: Omit<Category, 'id' | 'createdAt' | 'parentId'>[] = [
+    { name: 'Salary', type: 'income', color: '#10B981', icon: 'briefcase' },
+    { name: 'Freelance', type: 'income', color: '#3B82F6', icon: 'laptop' },
+    { name: 'Dividends', type: 'income', color: '#8B5CF6', icon: 'trending-up' },
+    { name: 'Other', type: 'income', color: '#64748B', icon: 'tag' },
+    { name: 'Housing', type: 'expense', color: '#3B82F6', icon: 'home' },
+    { name: 'Food', type: 'expense', color: '#10B981', icon: 'utensils' },
+    { name: 'Transport', type: 'expense', color: '#F59E0B', icon: 'car' },
+    { name: 'Utilities', type: 'expense', color: '#14B8A6', icon: 'zap' },
+    { name: 'Fuel', type: 'expense', color: '#F97316', icon: 'fuel' },
+    { name: 'Entertainment', type: 'expense', color: '#EC4899', icon: 'film' },
+    { name: 'Shopping', type: 'expense', color: '#8B5CF6', icon: 'shopping-bag' },
+    { name: 'Health', type: 'expense', color: '#EF4444', icon: 'heart-pulse' },
+    { name: 'Other', type: 'expense', color: '#64748B', icon: 'tag' },
+];
+
+export interface CategoryNode {
+    category: Category;
+    children: Category[];
+}
+
+/** Top-level categories of a type with their subcategories, alphabetically. */
+export function categoryTree(categories: Category[], type: Category['type']): CategoryNode[] {
+    const ofType = categories.filter(c => c.type === type).sort((a, b) => a.name.localeCompare(b.name));
+    const roots = ofType.filter(c => !c.parentId || !ofType.some(p => p.id === c.parentId && !p.parentId));
+    return roots.map(category => ({
+        category,
+        children: ofType.filter(c => c.parentId === category.id),
+    }));
+}
+
+export function findCategory(categories: Category[], type: Category['type'], name: string): Category | undefined {
+    return categories.find(c => c.type === type && c.name === name);
+}
+
+/** Name of the top-level category that `name` rolls up into (itself for top-level or unmanaged names). */
+export function rootCategoryName(categories: Category[], type: Category['type'], name: string): string {
+    const category = findCategory(categories, type, name);
+    const parent = category?.parentId && categories.find(c => c.id === category.parentId);
+    return parent ? parent.name : name;
+}
+
+/**
+ * Category names offered for a transaction type: the user's tree (parents before their children),
+ * or the defaults while they have none. A custom category (e.g. set by a rule) stays selectable.
+ */
+export const categoriesFor = (categories: Category[], type: Category['type'], current?: string) => {
+    const tree = categoryTree(categories, type);
+    const options = tree.length > 0
+        ? tree.flatMap(node => [node.category.name, ...node.children.map(c => c.name)])
+        : type === 'income' ? INCOME_CATEGORIES : EXPENSE_CATEGORIES;
+    return current && !options.includes(current) ? [...options, current] : options;
+};
@@ -0,0 +1,111 @@
+// Rule engine that assigns categories to transactions from their description, amount and type
+import type { CategoryRule, RuleCondition, Transaction } from '@/types/finance';
+import type { NewTransaction } from '@/lib/csvImport';
+
+export const RULE_OPERATORS: { value: RuleCondition['operator']; label: string; field: RuleCondition['field'] }[] = [
+    { value: 'contains', label: 'contains', field: 'description' },
+    { value: 'not_contains', label: 'does not contain', field: 'description' },
+    { value: 'starts_with', label: 'starts with', field: 'description' },
+    { value: 'equals', label: 'is exactly', field: 'description' },
+    { value: 'regex', label: 'matches regex', field: 'description' },
+    { value: 'gt', label: '>', field: 'amount' },
+    { value: 'gte', label: '≥', field: 'amount' },
+    { value: 'lt', label: '<', field: 'amount' },
+    { value: 'lte', label: '≤', field: 'amount' },
+    { value: 'eq', label: '=', field: 'amount' },
+];
+
+type Categorizable = Pick<NewTransaction, 'type' | 'amount' | 'description'>;
+
+export interface RuleTestMatch {
+    transaction: Transaction;
+    shadowedBy?: CategoryRule; // A higher-priority rule categorizes it first
+}
+
+export interface CategoryChange {
+    id: string;
+    from: string;
+    to: string;
+    rule: CategoryRule;
+}
+
+const matchesCondition = (condition: RuleCondition, t: Categorizable) => {
+    if (condition.field === 'amount') {
+        const value = Number(condition.value);
+        if (!isFinite(value)) return false;
+        switch (condition.operator) {
+            case 'gt': return t.amount > value;
+            case 'gte': return t.amount >= value;
+            case 'lt': return t.amount < value;
+            case 'lte': return t.amount <= value;
+            case 'eq': return Math.abs(t.amount - value) < 0.005;
+            default: return false;
+        }
+    }
+
+    const text = (t.description || '').toLowerCase();
+    const value = condition.value.toLowerCase().trim();
+    switch (condition.operator) {
+        case 'contains': return !!value && text.includes(value);
+        case 'not_contains': return !value || !text.includes(value);
+        case 'starts_with': return !!value && text.startsWith(value);
+        case 'equals': return text.trim() === value;
+        case 'regex':
+            try {
+                return new RegExp(condition.value, 'i').test(t.description || '');
+            } catch {
+                return false; // Invalid patterns never match
+            }
+        default: return false;
+    }
+};
+
+/** Whether every condition of the rule holds for the transaction (disabled rules still match here). Transfers are never categorized. */
+export function matchesRule(rule: Pick<CategoryRule, 'transactionType' | 'conditions'>, t: Categorizable): boolean {
+    if (t.type === 'transfer') return false;
+    if (rule.transactionType !== 'any' && rule.transactionType !== t.type) return false;
+    if (rule.conditions.length === 0) return false;
+    return rule.conditions.every(c => matchesCondition(c, t));
+}
+
+/** Enabled rules in the order they are evaluated. */
+export function sortRules(rules: CategoryRule[]): CategoryRule[] {
+    return rules
+        .filter(r => r.enabled)
+        .sort((a, b) => a.priority - b.priority || a.createdAt.localeCompare(b.createdAt));
+}
+
+/** First matching rule for the transaction, if any. */
+export function findRule(t: Categorizable, rules: CategoryRule[]): CategoryRule | undefined {
+    return sortRules(rules).find(rule => matchesRule(rule, t));
+}
+
+/** The transaction with the category of the first matching rule (unchanged when none matches). */
+export function applyRules<T extends Categorizable & { category: string }>(t: T, rules: CategoryRule[]): T {
+    const rule = findRule(t, rules);
+    return rule ? { ...t, category: rule.category } : t;
+}
+
+/** Past transactions a rule would match, flagging those a higher-priority rule takes first. */
+export function testRule(
+    rule: Pick<CategoryRule, 'id' | 'transactionType' | 'conditions'>,
+    rules: CategoryRule[],
+    transactions: Transaction[]
+): RuleTestMatch[] {
+    const current = rules.find(r => r.id === rule.id);
+    const before = sortRules(rules).filter(r => r.id !== rule.id && (!current || r.priority < current.priority
+        || (r.priority === current.priority && r.createdAt < current.createdAt)));
+    return transactions
+        .filter(t => matchesRule(rule, t))
+        .map(t => ({ transaction: t, shadowedBy: before.find(r => matchesRule(r, t)) }));
+}
+
+/** Category updates from running the rules over past transactions. Split transactions keep their lines. */
+export function recategorize(transactions: Transaction[], rules: CategoryRule[]): CategoryChange[] {
+    const ordered = sortRules(rules);
+    return transactions.flatMap(t => {
+        if (t.splits?.length) return [];
+        const rule = ordered.find(r => matchesRule(r, t));
+        return rule && rule.category !== t.category ? [{ id: t.id, from: t.category, to: rule.category, rule }] : [];
+    });
+}
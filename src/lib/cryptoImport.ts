@@ -0,0 +1,533 @@
+// Crypto exchange export parsing (Binance, Coinbase, Kraken, Crypto.com) into per-trade lots
+import { detectDelimiter, parseCsv } from '@/lib/csvImport';
+import type { CryptoHolding, Trade } from '@/types/finance';
+
+export type Exchange = 'binance' | 'coinbase' | 'kraken' | 'cryptocom';
+
+export const EXCHANGES: { value: Exchange; label: string; hint: string }[] = [
+    { value: 'binance', label: 'Binance', hint: 'Spot trade history or the Transaction History statement' },
+    { value: 'coinbase', label: 'Coinbase', hint: 'Transaction history report (CSV)' },
+    { value: 'kraken', label: 'Kraken', hint: 'Ledgers export (ledgers.csv)' },
+    { value: 'cryptocom', label: 'Crypto.com', hint: 'App transaction history (crypto_transactions_record.csv)' },
+];
+
+export interface ExchangeActivity {
+    kind: 'trade' | 'reward' | 'deposit' | 'withdrawal';
+    date: string; // yyyy-MM-dd
+    asset: string; // Coin bought / sold / received / sent
+    quantity: number; // Gross, always positive
+    side?: Trade['side'];
+    quote?: string; // Trades: currency or coin on the other side
+    quoteAmount?: number;
+    fiatValue?: number; // Value reported by the exchange...
+    fiatCurrency?: string; // ...and its currency
+    fee?: number;
+    feeAsset?: string;
+    description?: string;
+}
+
+export interface ExchangeParseResult {
+    activities: ExchangeActivity[];
+    skipped: number; // Rows that are not trades, rewards or transfers (fiat deposits, internal moves...)
+}
+
+// Lot ready to be stored as a trade on a crypto holding, valued in USD
+export interface CryptoLot {
+    symbol: string;
+    side: Trade['side'];
+    quantity: number;
+    price: number;
+    fees: number;
+    date: string;
+    notes: string;
+}
+
+export interface CoinReconciliation {
+    symbol: string;
+    coinId?: string;
+    name: string;
+    assetId?: string; // Matched holding in assets
+    lots: number;
+    importedQuantity: number; // Net quantity the lots add
+    currentQuantity: number;
+}
+
+export interface PriceContext {
+    fiatToUsd: (amount: number, currency: string) => number; // Current FX rates
+    coinPrice: (symbol: string, date: string) => number | null; // Daily USD close
+}
+
+const FIAT = ['USD', 'EUR', 'GBP', 'CHF', 'CAD', 'AUD', 'JPY', 'TRY', 'BRL', 'PLN', 'SEK', 'NOK', 'DKK'];
+// Treated as USD cash: buying them doesn't create a lot
+const STABLECOINS = ['USDT', 'USDC', 'BUSD', 'FDUSD', 'DAI', 'TUSD', 'USDP', 'PYUSD'];
+
+export const isCash = (symbol?: string) => !!symbol && (FIAT.includes(symbol) || STABLECOINS.includes(symbol));
+
+// Numbers with currency symbols or thousands separators ("$1,234.56", "-€12.00", "1e-8")
+function amount(raw?: string): number {
+    if (!raw) return NaN;
+    const match = raw.replace(/,/g, '').match(/\d+(\.\d+)?(e[-+]?\d+)?|\.\d+/i);
+    if (!match) return NaN;
+    const value = parseFloat(match[0]);
+    return /^\s*[(-]/.test(raw) || /^\s*\D+-/.test(raw) ? -value : value;
+}
+
+const day = (raw?: string) => {
+    const match = raw?.trim().match(/^(\d{4})-(\d{2})-(\d{2})/);
+    return match ? `${match[1]}-${match[2]}-${match[3]}` : null;
+};
+
+const columnOf = (headers: string[], ...names: string[]) => headers.findIndex(h => names.includes(h.trim().toLowerCase()));
+
+/**
+ * Guesses the exchange from the header line.
+ */
+export function detectExchange(text: string): Exchange | null {
+    const head = text.slice(0, 4000).toLowerCase();
+    if (head.includes('transaction kind') && head.includes('native amount')) return 'cryptocom';
+    if (head.includes('refid') && head.includes('aclass')) return 'kraken';
+    if (head.includes('quantity transacted')) return 'coinbase';
+    if (/utc_time|date\(utc\)/.test(head)) return 'binance';
+    return null;
+}
+
+export function parseExchangeExport(exchange: Exchange, text: string): ExchangeParseResult {
+    if (exchange === 'binance') return parseBinance(text);
+    if (exchange === 'coinbase') return parseCoinbase(text);
+    if (exchange === 'kraken') return parseKraken(text);
+    return parseCryptoCom(text);
+}
+
+// Positive inflows become buys / rewards, with the counter leg as quote.
+// Shared by exchanges whose exports are ledgers (one row per balance change).
+function legsToActivity(date: string, legs: { asset: string; change: number; isFee: boolean }[], description?: string): ExchangeActivity | null {
+    const inflow = legs.filter(l => !l.isFee && l.change > 0);
+    const outflow = legs.filter(l => !l.isFee && l.change < 0);
+    const fee = legs.find(l => l.isFee);
+    if (inflow.length !== 1 || outflow.length !== 1) return null;
+    const [received, given] = [inflow[0], outflow[0]];
+    if (isCash(received.asset) && isCash(given.asset)) return null;
+
+    const base = {
+        kind: 'trade' as const,
+        date,
+        fee: fee ? Math.abs(fee.change) : undefined,
+        feeAsset: fee?.asset,
+        description,
+    };
+    return isCash(received.asset)
+        ? { ...base, side: 'sell', asset: given.asset, quantity: -given.change, quote: received.asset, quoteAmount: received.change }
+        : { ...base, side: 'buy', asset: received.asset, quantity: received.change, quote: given.asset, quoteAmount: -given.change };
+}
+
+// --- Binance ---
+
+const BINANCE_QUOTES = ['USDT', 'FDUSD', 'USDC', 'BUSD', 'TUSD', 'BTC', 'ETH', 'BNB', 'EUR', 'GBP', 'TRY', 'BRL', 'DAI'];
+
+// "0.5BTC" -> [0.5, 'BTC']
+const withUnit = (raw?: string): [number, string] => {
+    const match = (raw || '').replace(/,/g, '').match(/^\s*([\d.]+(?:e-?\d+)?)\s*([A-Z0-9]+)\s*$/i);
+    return match ? [parseFloat(match[1]), match[2].toUpperCase()] : [NaN, ''];
+};
+
+function parseBinance(text: string): ExchangeParseResult {
+    const { headers, rows } = parseCsv(text, { delimiter: detectDelimiter(text), hasHeader: true, skipRows: 0 });
+    const col = (...names: string[]) => columnOf(headers, ...names);
+    const activities: ExchangeActivity[] = [];
+    let skipped = 0;
+
+    // Transaction History: one row per balance change, trades share a timestamp
+    if (col('utc_time') >= 0) {
+        const time = col('utc_time');
+        const operation = col('operation');
+        const coin = col('coin');
+        const change = col('change');
+        const remark = col('remark');
+        const groups = new Map<string, { asset: string; change: number; isFee: boolean }[]>();
+
+        rows.forEach(row => {
+            const date = day(row[time]);
+            const op = (row[operation] || '').toLowerCase();
+            const value = amount(row[change]);
+            const asset = (row[coin] || '').toUpperCase();
+            if (!date || !isFinite(value) || !asset) { skipped++; return; }
+
+            if (/buy|sell|spend|revenue|sold|transaction related|convert|fee|small assets exchange|otc/.test(op)) {
+                const legs = groups.get(row[time]) || [];
+                legs.push({ asset, change: value, isFee: /fee/.test(op) });
+                groups.set(row[time], legs);
+            } else if (op === 'deposit' && !isCash(asset)) {
+                activities.push({ kind: 'deposit', date, asset, quantity: value, description: row[operation] });
+            } else if (op.startsWith('withdraw') && !isCash(asset)) {
+                activities.push({ kind: 'withdrawal', date, asset, quantity: -value, description: row[operation] });
+            } else if (/interest|reward|distribution|airdrop|staking|savings|earn|cashback|launchpool|rebate/.test(op) && value > 0 && !isCash(asset)) {
+                activities.push({ kind: 'reward', date, asset, quantity: value, description: row[operation] || row[remark] });
+            } else {
+                skipped++;
+            }
+        });
+
+        groups.forEach((legs, stamp) => {
+            // Several fills in the same second are merged per coin first
+            const merged = new Map<string, { asset: string; change: number; isFee: boolean }>();
+            legs.forEach(l => {
+                const key = `${l.asset}|${l.isFee}|${Math.sign(l.change)}`;
+                const existing = merged.get(key);
+                if (existing) existing.change += l.change;
+                else merged.set(key, { ...l });
+            });
+            const activity = legsToActivity(day(stamp)!, Array.from(merged.values()));
+            if (activity) activities.push(activity);
+            else skipped += legs.length;
+        });
+        return { activities, skipped };
+    }
+
+    // Spot trade history
+    const date = col('date(utc)', 'date');
+    const side = col('side', 'type');
+    const pair = col('pair', 'market');
+    const executed = col('executed');
+    const total = col('amount', 'total');
+    const fee = col('fee');
+    const feeCoin = col('fee coin');
+    const oldAmount = executed < 0 ? col('amount') : -1;
+    const oldTotal = col('total');
+
+    rows.forEach(row => {
+        const when = day(row[date]);
+        const isSell = (row[side] || '').toUpperCase() === 'SELL';
+        let quantity: number, asset: string, quoteAmount: number, quote: string;
+        if (executed >= 0) {
+            [quantity, asset] = withUnit(row[executed]);
+            [quoteAmount, quote] = withUnit(row[total]);
+        } else {
+            const market = (row[pair] || '').toUpperCase();
+            quote = BINANCE_QUOTES.find(q => market.endsWith(q) && market.length > q.length) || '';
+            asset = market.slice(0, market.length - quote.length);
+            quantity = amount(row[oldAmount]);
+            quoteAmount = amount(row[oldTotal]);
+        }
+        const [feeValue, feeUnit] = feeCoin >= 0 ? [amount(row[fee]), (row[feeCoin] || '').toUpperCase()] : withUnit(row[fee]);
+        if (!when || !asset || !quote || !isFinite(quantity) || quantity <= 0 || !isFinite(quoteAmount)) { skipped++; return; }
+
+        // Crypto-quoted pairs are stored from the side of the coin received
+        if (!isCash(quote) && isSell) {
+            activities.push({ kind: 'trade', date: when, side: 'buy', asset: quote, quantity: quoteAmount, quote: asset, quoteAmount: quantity, fee: feeValue || undefined, feeAsset: feeUnit || undefined });
+            return;
+        }
+        activities.push({
+            kind: 'trade',
+            date: when,
+            side: isSell ? 'sell' : 'buy',
+            asset,
+            quantity,
+            quote,
+            quoteAmount,
+            fee: feeValue || undefined,
+            feeAsset: feeUnit || undefined,
+        });
+    });
+    return { activities, skipped };
+}
+
+// --- Coinbase ---
+
+function parseCoinbase(text: string): ExchangeParseResult {
+    // The report starts with a few lines of account info before the header
+    const lines = text.replace(/^\uFEFF/, '').split(/\r?\n/);
+    const headerLine = Math.max(0, lines.findIndex(l => /quantity transacted/i.test(l)));
+    const csv = lines.slice(headerLine).join('\n');
+    const { headers, rows } = parseCsv(csv, { delimiter: detectDelimiter(csv), hasHeader: true, skipRows: 0 });
+    const col = (...names: string[]) => columnOf(headers, ...names);
+
+    const timestamp = col('timestamp');
+    const type = col('transaction type');
+    const asset = col('asset');
+    const quantity = col('quantity transacted');
+    const currency = col('price currency', 'spot price currency');
+    const subtotal = col('subtotal');
+    const fees = col('fees and/or spread', 'fees');
+    const price = col('price at transaction', 'spot price at transaction');
+    const notes = col('notes');
+
+    const activities: ExchangeActivity[] = [];
+    let skipped = 0;
+    rows.forEach(row => {
+        const date = day(row[timestamp]);
+        const kind = (row[type] || '').toLowerCase();
+        const coin = (row[asset] || '').toUpperCase();
+        const qty = Math.abs(amount(row[quantity]));
+        const fiatCurrency = (row[currency] || 'USD').toUpperCase();
+        const value = Math.abs(amount(row[subtotal]));
+        const fiatValue = isFinite(value) ? value : Math.abs(amount(row[price])) * qty;
+        const fee = Math.abs(amount(row[fees]));
+        if (!date || !coin || !isFinite(qty) || qty === 0 || isCash(coin)) { skipped++; return; }
+
+        if (kind.includes('convert')) {
+            // "Converted 0.1 ETH to 0.005 BTC"
+            const match = (row[notes] || '').replace(/,/g, '').match(/converted\s+([\d.]+)\s+(\w+)\s+to\s+([\d.]+)\s+(\w+)/i);
+            if (!match) { skipped++; return; }
+            activities.push({
+                kind: 'trade', date, side: 'buy',
+                asset: match[4].toUpperCase(), quantity: parseFloat(match[3]),
+                quote: match[2].toUpperCase(), quoteAmount: parseFloat(match[1]),
+                fiatValue, fiatCurrency,
+                fee: fee || undefined, feeAsset: fee ? fiatCurrency : undefined,
+                description: row[notes],
+            });
+        } else if (kind.includes('buy') || kind.includes('sell')) {
+            activities.push({
+                kind: 'trade', date, side: kind.includes('sell') ? 'sell' : 'buy',
+                asset: coin, quantity: qty, quote: fiatCurrency, quoteAmount: fiatValue,
+                fiatValue, fiatCurrency,
+                fee: fee || undefined, feeAsset: fee ? fiatCurrency : undefined,
+            });
+        } else if (/reward|income|earn|inflation|airdrop/.test(kind)) {
+            activities.push({ kind: 'reward', date, asset: coin, quantity: qty, fiatValue, fiatCurrency, description: row[type] });
+        } else if (kind === 'receive') {
+            activities.push({ kind: 'deposit', date, asset: coin, quantity: qty, fiatValue, fiatCurrency, description: row[notes] });
+        } else if (kind === 'send') {
+            activities.push({ kind: 'withdrawal', date, asset: coin, quantity: qty, fiatValue, fiatCurrency, description: row[notes] });
+        } else {
+            skipped++;
+        }
+    });
+    return { activities, skipped };
+}
+
+// --- Kraken ---
+
+const KRAKEN_LEGACY = ['XXBT', 'XETH', 'XLTC', 'XXRP', 'XXLM', 'XZEC', 'XXMR', 'XETC', 'XREP', 'XMLN', 'XXDG', 'ZEUR', 'ZUSD', 'ZGBP', 'ZCAD', 'ZJPY', 'ZAUD', 'ZCHF'];
+
+// XXBT -> BTC, ZEUR -> EUR, ETH2.S -> ETH, DOT.S -> DOT
+export function normalizeKrakenAsset(raw: string): string {
+    let asset = raw.toUpperCase().replace(/\.(S|M|F|B|P|HOLD)$/, '').replace(/\d+\.S$/, '');
+    if (KRAKEN_LEGACY.includes(asset)) asset = asset.slice(1);
+    if (asset === 'ETH2') asset = 'ETH';
+    if (asset === 'XBT') asset = 'BTC';
+    if (asset === 'XDG') asset = 'DOGE';
+    return asset;
+}
+
+function parseKraken(text: string): ExchangeParseResult {
+    const { headers, rows } = parseCsv(text, { delimiter: detectDelimiter(text), hasHeader: true, skipRows: 0 });
+    const col = (...names: string[]) => columnOf(headers, ...names);
+    const refid = col('refid');
+    const time = col('time');
+    const type = col('type');
+    const subtype = col('subtype');
+    const assetCol = col('asset');
+    const amountCol = col('amount');
+    const feeCol = col('fee');
+
+    const activities: ExchangeActivity[] = [];
+    const trades = new Map<string, { date: string; legs: { asset: string; change: number; isFee: boolean }[] }>();
+    let skipped = 0;
+
+    rows.forEach(row => {
+        const date = day(row[time]);
+        const kind = (row[type] || '').toLowerCase();
+        const sub = (row[subtype] || '').toLowerCase();
+        const asset = normalizeKrakenAsset(row[assetCol] || '');
+        const change = amount(row[amountCol]);
+        const fee = amount(row[feeCol]) || 0;
+        if (!date || !asset || !isFinite(change)) { skipped++; return; }
+
+        if (['trade', 'spend', 'receive'].includes(kind)) {
+            const entry = trades.get(row[refid]) || { date, legs: [] };
+            entry.legs.push({ asset, change, isFee: false });
+            if (fee > 0) entry.legs.push({ asset, change: -fee, isFee: true });
+            trades.set(row[refid], entry);
+        } else if ((kind === 'staking' || (kind === 'earn' && sub === 'reward')) && change > 0) {
+            activities.push({ kind: 'reward', date, asset, quantity: change - fee, description: 'Staking reward' });
+        } else if (kind === 'deposit' && !isCash(asset) && change > 0) {
+            activities.push({ kind: 'deposit', date, asset, quantity: change });
+        } else if (kind === 'withdrawal' && !isCash(asset) && change < 0) {
+            activities.push({ kind: 'withdrawal', date, asset, quantity: -change, fee: fee || undefined, feeAsset: fee ? asset : undefined });
+        } else {
+            skipped++;
+        }
+    });
+
+    trades.forEach(({ date, legs }) => {
+        const activity = legsToActivity(date, legs);
+        if (activity) activities.push(activity);
+        else skipped += legs.filter(l => !l.isFee).length;
+    });
+    return { activities, skipped };
+}
+
+// --- Crypto.com ---
+
+function parseCryptoCom(text: string): ExchangeParseResult {
+    const { headers, rows } = parseCsv(text, { delimiter: detectDelimiter(text), hasHeader: true, skipRows: 0 });
+    const col = (...names: string[]) => columnOf(headers, ...names);
+    const timestamp = col('timestamp (utc)');
+    const description = col('transaction description');
+    const currency = col('currency');
+    const amountCol = col('amount');
+    const toCurrency = col('to currency');
+    const toAmount = col('to amount');
+    const usd = col('native amount (in usd)');
+    const nativeCurrency = col('native currency');
+    const native = col('native amount');
+    const kindCol = col('transaction kind');
+
+    const activities: ExchangeActivity[] = [];
+    let skipped = 0;
+    rows.forEach(row => {
+        const date = day(row[timestamp]);
+        const kind = (row[kindCol] || '').toLowerCase();
+        const coin = (row[currency] || '').toUpperCase();
+        const qty = amount(row[amountCol]);
+        const to = (row[toCurrency] || '').toUpperCase();
+        const toQty = Math.abs(amount(row[toAmount]));
+        // Prefer the USD value; older exports only have the native (account) currency
+        const usdValue = Math.abs(amount(row[usd]));
+        const fiatValue = isFinite(usdValue) ? usdValue : Math.abs(amount(row[native]));
+        const fiatCurrency = isFinite(usdValue) ? 'USD' : (row[nativeCurrency] || 'USD').toUpperCase();
+        if (!date || !coin || !isFinite(qty) || qty === 0) { skipped++; return; }
+        const base = { date, fiatValue, fiatCurrency, description: row[description] };
+
+        if (kind === 'crypto_purchase' || kind === 'dust_conversion_credited') {
+            activities.push({ ...base, kind: 'trade', side: 'buy', asset: coin, quantity: Math.abs(qty), quote: fiatCurrency, quoteAmount: fiatValue });
+        } else if (kind === 'viban_purchase' && to && !isCash(to)) {
+            activities.push({ ...base, kind: 'trade', side: 'buy', asset: to, quantity: toQty, quote: coin, quoteAmount: Math.abs(qty) });
+        } else if ((kind === 'crypto_viban_exchange' || kind === 'crypto_to_van_sell_order') && !isCash(coin)) {
+            activities.push({ ...base, kind: 'trade', side: 'sell', asset: coin, quantity: Math.abs(qty), quote: to || fiatCurrency, quoteAmount: toQty || fiatValue });
+        } else if (kind === 'crypto_exchange' && to) {
+            activities.push(isCash(to)
+                ? { ...base, kind: 'trade', side: 'sell', asset: coin, quantity: Math.abs(qty), quote: to, quoteAmount: toQty }
+                : { ...base, kind: 'trade', side: 'buy', asset: to, quantity: toQty, quote: coin, quoteAmount: Math.abs(qty) });
+        } else if (kind === 'crypto_deposit' && !isCash(coin)) {
+            activities.push({ ...base, kind: 'deposit', asset: coin, quantity: Math.abs(qty) });
+        } else if (kind === 'crypto_withdrawal' && !isCash(coin)) {
+            activities.push({ ...base, kind: 'withdrawal', asset: coin, quantity: Math.abs(qty) });
+        } else if (qty > 0 && !isCash(coin) && /reward|cashback|interest|bonus|rebate|reimbursement|stake|airdrop|credited/.test(kind)) {
+            activities.push({ ...base, kind: 'reward', asset: coin, quantity: qty });
+        } else {
+            skipped++;
+        }
+    });
+    return { activities, skipped };
+}
+
+// --- Lots ---
+
+/**
+ * Values each activity in USD and turns it into lots on the coins involved.
+ * Crypto-for-crypto trades produce a buy of the received coin and a sell of the coin given.
+ * Deposits and withdrawals only become lots when `includeTransfers` is set (moves between own wallets
+ * don't change what you hold); they are then valued at the market price of the day.
+ */
+export function buildCryptoLots(
+    activities: ExchangeActivity[],
+    prices: PriceContext,
+    options: { includeTransfers: boolean; source: string }
+): { lots: CryptoLot[]; unpriced: ExchangeActivity[] } {
+    const lots: CryptoLot[] = [];
+    const unpriced: ExchangeActivity[] = [];
+
+    const usdOf = (value: number | undefined, currency: string | undefined, date: string): number | null => {
+        if (value === undefined || !isFinite(value) || !currency) return null;
+        if (currency === 'USD' || STABLECOINS.includes(currency)) return value;
+        if (FIAT.includes(currency)) return prices.fiatToUsd(value, currency);
+        const price = prices.coinPrice(currency, date);
+        return price === null ? null : value * price;
+    };
+
+    activities.forEach(a => {
+        if ((a.kind === 'deposit' || a.kind === 'withdrawal') && !options.includeTransfers) return;
+
+        const value = usdOf(a.fiatValue, a.fiatCurrency, a.date)
+            ?? (a.kind === 'trade' ? usdOf(a.quoteAmount, a.quote, a.date) : null)
+            ?? usdOf(a.quantity, a.asset, a.date);
+        if (value === null || a.quantity <= 0) { unpriced.push(a); return; }
+
+        const feeUsd = a.fee ? usdOf(a.fee, a.feeAsset, a.date) ?? 0 : 0;
+        const side: Trade['side'] = a.kind === 'trade' ? a.side! : a.kind === 'withdrawal' ? 'sell' : 'buy';
+        // A fee taken in the traded coin changes the quantity that changes hands
+        const feeInAsset = a.feeAsset === a.asset ? a.fee || 0 : 0;
+        const label = a.kind === 'trade' ? options.source : `${options.source} ${a.kind}`;
+
+        lots.push({
+            symbol: a.asset,
+            side,
+            quantity: side === 'buy' ? a.quantity - feeInAsset : a.quantity + feeInAsset,
+            price: value / a.quantity,
+            fees: feeUsd,
+            date: a.date,
+            notes: a.description ? `${label}: ${a.description}` : `Imported from ${label}`,
+        });
+
+        if (a.kind === 'trade' && a.quote && !isCash(a.quote) && a.quoteAmount) {
+            const feeInQuote = a.feeAsset === a.quote ? a.fee || 0 : 0;
+            lots.push({
+                symbol: a.quote,
+                side: side === 'buy' ? 'sell' : 'buy',
+                quantity: side === 'buy' ? a.quoteAmount + feeInQuote : a.quoteAmount - feeInQuote,
+                price: value / a.quoteAmount,
+                fees: 0,
+                date: a.date,
+                notes: `${options.source}: traded for ${a.asset}`,
+            });
+        }
+    });
+
+    return { lots: lots.filter(l => l.quantity > 0), unpriced };
+}
+
+/**
+ * Net quantity per coin next to the holding already tracked (matched by symbol).
+ */
+export function reconcileCoins(lots: CryptoLot[], holdings: CryptoHolding[]): CoinReconciliation[] {
+    const bySymbol = new Map<string, CoinReconciliation>();
+    lots.forEach(lot => {
+        const entry = bySymbol.get(lot.symbol) || (() => {
+            const match = holdings.find(h => h.symbol.toUpperCase() === lot.symbol);
+            const created: CoinReconciliation = {
+                symbol: lot.symbol,
+                coinId: match?.coinId,
+                name: match?.name || lot.symbol,
+                assetId: match?.id,
+                lots: 0,
+                importedQuantity: 0,
+                currentQuantity: match?.quantity || 0,
+            };
+            bySymbol.set(lot.symbol, created);
+            return created;
+        })();
+        entry.lots++;
+        entry.importedQuantity += lot.side === 'buy' ? lot.quantity : -lot.quantity;
+    });
+    return Array.from(bySymbol.values()).sort((a, b) => a.symbol.localeCompare(b.symbol));
+}
+
+/**
+ * Coins whose value on a date is needed to price the activities (crypto quotes, fees, rewards).
+ */
+export function coinsToPrice(activities: ExchangeActivity[]): string[] {
+    const coins = new Set<string>();
+    activities.forEach(a => {
+        if (a.fiatValue !== undefined && isFinite(a.fiatValue)) return;
+        if (a.kind === 'trade' && a.quote && !isCash(a.quote)) coins.add(a.quote);
+        if (a.kind !== 'trade' || !a.quote) coins.add(a.asset);
+        if (a.feeAsset && !isCash(a.feeAsset)) coins.add(a.feeAsset);
+    });
+    return Array.from(coins);
+}
+
+/**
+ * True when the holding already has this lot (same day, side, quantity and price), e.g. on a re-import.
+ */
+export function isRecordedLot(lot: CryptoLot, assetId: string | undefined, trades: Trade[]): boolean {
+    if (!assetId) return false;
+    return trades.some(t =>
+        t.assetId === assetId &&
+        t.date === lot.date &&
+        t.side === lot.side &&
+        Math.abs(t.quantity - lot.quantity) < 1e-8 &&
+        Math.abs(t.price - lot.price) <= Math.abs(lot.price) * 0.005
+    );
+}
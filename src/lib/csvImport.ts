@@ -0,0 +1,162 @@
+// Bank statement CSV parsing and column mapping to transactions
+import { format, isValid, parse } from 'date-fns';
+import type { CsvMapping, Transaction } from '@/types/finance';
+
+export type NewTransaction = Omit<Transaction, 'id' | 'createdAt'>;
+
+export interface ParsedCsv {
+    headers: string[];
+    rows: string[][];
+}
+
+export interface MappedRow {
+    line: number; // 1-based line in the file
+    transaction: NewTransaction | null;
+    error?: string;
+    raw: string[];
+}
+
+export const DATE_FORMATS = [
+    { value: 'yyyy-MM-dd', label: '2024-01-31 (ISO)' },
+    { value: 'dd/MM/yyyy', label: '31/01/2024' },
+    { value: 'MM/dd/yyyy', label: '01/31/2024' },
+    { value: 'dd.MM.yyyy', label: '31.01.2024' },
+    { value: 'dd-MM-yyyy', label: '31-01-2024' },
+    { value: 'dd/MM/yy', label: '31/01/24' },
+    { value: 'yyyyMMdd', label: '20240131' },
+];
+
+export const DEFAULT_CSV_MAPPING: CsvMapping = {
+    delimiter: ',',
+    hasHeader: true,
+    skipRows: 0,
+    dateColumn: 0,
+    dateFormat: 'yyyy-MM-dd',
+    descriptionColumns: [],
+    decimalSeparator: '.',
+    signConvention: 'negative_is_expense',
+    defaultIncomeCategory: 'Other',
+    defaultExpenseCategory: 'Other',
+};
+
+/**
+ * Guesses the delimiter from the first lines: the candidate that splits them most consistently.
+ */
+export function detectDelimiter(text: string): CsvMapping['delimiter'] {
+    const lines = text.split(/\r?\n/).filter(l => l.trim()).slice(0, 10);
+    const candidates: CsvMapping['delimiter'][] = [';', ',', '\t', '|'];
+    let best: CsvMapping['delimiter'] = ',';
+    let bestScore = 0;
+    for (const candidate of candidates) {
+        const counts = lines.map(l => splitLine(l, candidate).length);
+        const min = Math.min(...counts);
+        if (min > 1 && counts.every(c => c === counts[0]) && counts[0] > bestScore) {
+            best = candidate;
+            bestScore = counts[0];
+        }
+    }
+    return best;
+}
+
+// Splits one line, honouring double quotes ("a;b" stays one cell, "" is an escaped quote)
+function splitLine(line: string, delimiter: string): string[] {
+    const cells: string[] = [];
+    let cell = '';
+    let quoted = false;
+    for (let i = 0; i < line.length; i++) {
+        const char = line[i];
+        if (char === '"') {
+            if (quoted && line[i + 1] === '"') { cell += '"'; i++; }
+            else quoted = !quoted;
+        } else if (char === delimiter && !quoted) {
+            cells.push(cell.trim());
+            cell = '';
+        } else {
+            cell += char;
+        }
+    }
+    cells.push(cell.trim());
+    return cells;
+}
+
+/**
+ * Splits a CSV file into a header and data rows. Empty lines are dropped.
+ */
+export function parseCsv(text: string, mapping: Pick<CsvMapping, 'delimiter' | 'hasHeader' | 'skipRows'>): ParsedCsv {
+    const lines = text.replace(/^\uFEFF/, '').split(/\r?\n/).slice(mapping.skipRows || 0).filter(l => l.trim());
+    const rows = lines.map(l => splitLine(l, mapping.delimiter));
+    if (!mapping.hasHeader) {
+        const width = Math.max(0, ...rows.map(r => r.length));
+        return { headers: Array.from({ length: width }, (_, i) => `Column ${i + 1}`), rows };
+    }
+    return { headers: rows[0] || [], rows: rows.slice(1) };
+}
+
+/**
+ * Parses an amount written with the given decimal separator ("1.234,56", "-12.50", "(45.00)", "€ 12").
+ */
+export function parseAmount(raw: string, decimalSeparator: CsvMapping['decimalSeparator']): number | null {
+    if (!raw) return null;
+    let value = raw.trim();
+    const negative = /^\(.*\)$/.test(value) || /-$/.test(value);
+    value = value.replace(/[^\d.,+-]/g, '').replace(/-$/, '');
+    value = decimalSeparator === ','
+        ? value.replace(/\./g, '').replace(',', '.')
+        : value.replace(/,/g, '');
+    const parsed = parseFloat(value);
+    if (!isFinite(parsed)) return null;
+    return negative ? -Math.abs(parsed) : parsed;
+}
+
+/**
+ * Parses a date in the given format and returns it as yyyy-MM-dd.
+ */
+export function parseDate(raw: string, dateFormat: string): string | null {
+    if (!raw) return null;
+    const value = raw.trim().split(' ')[0]; // Drop a time part
+    const parsed = parse(value, dateFormat, new Date());
+    return isValid(parsed) ? format(parsed, 'yyyy-MM-dd') : null;
+}
+
+/**
+ * Turns the CSV rows into transactions according to the mapping.
+ * Amounts are stored positive; the sign convention decides income vs expense.
+ */
+export function applyCsvMapping(parsed: ParsedCsv, mapping: CsvMapping): MappedRow[] {
+    const offset = (mapping.skipRows || 0) + (mapping.hasHeader ? 2 : 1);
+
+    return parsed.rows.map((raw, index) => {
+        const line = index + offset;
+        const cell = (column?: number) => (column !== undefined && column >= 0 ? raw[column] || '' : '');
+
+        const date = parseDate(cell(mapping.dateColumn), mapping.dateFormat);
+        if (!date) return { line, raw, transaction: null, error: `Unreadable date "${cell(mapping.dateColumn)}"` };
+
+        let signed: number | null;
+        if (mapping.signConvention === 'debit_credit_columns') {
+            const credit = parseAmount(cell(mapping.creditColumn), mapping.decimalSeparator) || 0;
+            const debit = parseAmount(cell(mapping.debitColumn), mapping.decimalSeparator) || 0;
+            signed = credit !== 0 || debit !== 0 ? Math.abs(credit) - Math.abs(debit) : null;
+        } else {
+            const amount = parseAmount(cell(mapping.amountColumn), mapping.decimalSeparator);
+            if (amount === null) signed = null;
+            else if (mapping.signConvention === 'positive_is_expense') signed = -amount;
+            else if (mapping.signConvention === 'type_column') {
+                const marker = cell(mapping.typeColumn).toLowerCase();
+                const isExpense = (mapping.expenseMarkers || ['d', 'debit', 'dbit', 'out']).some(m => marker === m.toLowerCase());
+                signed = isExpense ? -Math.abs(amount) : Math.abs(amount);
+            } else signed = amount;
+        }
+        if (signed === null || signed === 0) return { line, raw, transaction: null, error: 'Missing or zero amount' };
+
+        const type: Transaction['type'] = signed < 0 ? 'expense' : 'income';
+        const description = mapping.descriptionColumns.map(c => cell(c)).filter(Boolean).join(' · ');
+        const category = cell(mapping.categoryColumn) || (type === 'income' ? mapping.defaultIncomeCategory : mapping.defaultExpenseCategory);
+
+        return {
+            line,
+            raw,
+            transaction: { type, amount: Math.abs(signed), category, description, date },
+        };
+    });
+}
@@ -0,0 +1,73 @@
+// Dividend income and yield metrics
+import { format, parseISO, startOfMonth, subMonths, subYears, isAfter } from 'date-fns';
+import type { Dividend, Investment } from '@/types/finance';
+
+type Converter = (value: number, currency?: string) => number;
+
+export interface DividendYield {
+    ttmGross: number; // Trailing 12 months, gross, base currency
+    ttmNet: number; // Trailing 12 months, net of withholding tax, base currency
+    ttmYield: number; // % of current value
+    yieldOnCost: number; // % of cost basis
+}
+
+const identity: Converter = (value) => value;
+
+/**
+ * Dividends paid within the last 12 months.
+ */
+export function getTrailingDividends(dividends: Dividend[], asOf: Date = new Date()): Dividend[] {
+    const cutoff = subYears(asOf, 1);
+    return dividends.filter(d => isAfter(parseISO(d.payDate), cutoff) && !isAfter(parseISO(d.payDate), asOf));
+}
+
+/**
+ * Trailing-12-month yield and yield on cost, per holding and for the whole portfolio.
+ * Amounts are converted to the base currency before being compared with values.
+ */
+export function getDividendYields(investments: Investment[], dividends: Dividend[], convert: Converter = identity) {
+    const trailing = getTrailingDividends(dividends);
+
+    const compute = (holdings: Investment[]): DividendYield => {
+        const ids = new Set(holdings.map(h => h.id));
+        const paid = trailing.filter(d => ids.has(d.assetId));
+        const ttmGross = paid.reduce((sum, d) => sum + convert(d.grossAmount, d.currency), 0);
+        const ttmNet = paid.reduce((sum, d) => sum + convert(d.netAmount, d.currency), 0);
+        const value = holdings.reduce((sum, h) => sum + convert(h.currentValue, h.currency), 0);
+        const cost = holdings.reduce((sum, h) => sum + convert(h.costBasis, h.currency), 0);
+
+        return {
+            ttmGross,
+            ttmNet,
+            ttmYield: value > 0 ? (ttmGross / value) * 100 : 0,
+            yieldOnCost: cost > 0 ? (ttmGross / cost) * 100 : 0,
+        };
+    };
+
+    const byAsset: Record<string, DividendYield> = {};
+    investments.forEach(inv => { byAsset[inv.id] = compute([inv]); });
+
+    return { portfolio: compute(investments), byAsset };
+}
+
+/**
+ * Net dividend income and withheld tax per month, oldest first.
+ */
+export function getMonthlyDividendIncome(dividends: Dividend[], months = 12, convert: Converter = identity) {
+    const today = new Date();
+    const result = [];
+
+    for (let i = months - 1; i >= 0; i--) {
+        const monthDate = startOfMonth(subMonths(today, i));
+        const monthKey = format(monthDate, 'yyyy-MM');
+        const paid = dividends.filter(d => d.payDate.startsWith(monthKey));
+
+        result.push({
+            name: format(monthDate, 'MMM'),
+            month: monthKey,
+            Net: paid.reduce((sum, d) => sum + convert(d.netAmount, d.currency), 0),
+            Tax: paid.reduce((sum, d) => sum + convert(d.withholdingTax, d.currency), 0),
+        });
+    }
+    return result;
+}
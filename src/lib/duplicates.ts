@@ -0,0 +1,107 @@
+// Duplicate detection for transactions (overlapping statements, imports of hand-entered payments)
+import { differenceInCalendarDays, parseISO } from 'date-fns';
+import type { Transaction } from '@/types/finance';
+import type { NewTransaction } from '@/lib/csvImport';
+
+// Banks book card payments a few days after the purchase date
+export const DUPLICATE_WINDOW_DAYS = 3;
+
+// Words banks add around the merchant name
+const NOISE = new Set(['card', 'payment', 'purchase', 'pos', 'sepa', 'debit', 'credit', 'transfer', 'direct', 'contactless', 'visa', 'mastercard', 'maestro', 'eur', 'usd', 'the']);
+
+export interface DuplicateGroup {
+    key: string; // Sorted ids, used to remember groups marked as "not duplicates"
+    transactions: Transaction[];
+    exact: boolean; // Same bank id, or same day and same description
+}
+
+/** Lowercase words of a description without punctuation, reference numbers and bank boilerplate. */
+export function normalizeDescription(description: string | undefined): string {
+    return (description || '')
+        .normalize('NFD')
+        .replace(/[\u0300-\u036f]/g, '')
+        .toLowerCase()
+        .replace(/[^a-z0-9]+/g, ' ')
+        .split(' ')
+        .filter(word => word && !NOISE.has(word) && !/^\d{4,}$/.test(word) && !/^\d+[a-z]*\d+$/.test(word))
+        .join(' ');
+}
+
+const similarDescriptions = (a: string, b: string) => {
+    if (!a || !b) return true; // Hand-entered rows often have no description
+    if (a === b || a.includes(b) || b.includes(a)) return true;
+    const wordsA = new Set(a.split(' '));
+    const wordsB = new Set(b.split(' '));
+    const shared = [...wordsA].filter(w => wordsB.has(w)).length;
+    return shared / Math.min(wordsA.size, wordsB.size) >= 0.5;
+};
+
+type Comparable = Pick<NewTransaction, 'type' | 'amount' | 'currency' | 'date' | 'description' | 'externalId'>;
+
+/**
+ * How two transactions relate: 'exact' for the same bank id (or same day and text),
+ * 'likely' for the same amount and currency within the date window and a similar description.
+ * A row without a currency is in its account's, so it can match either.
+ */
+export function compareTransactions(a: Comparable, b: Comparable, windowDays = DUPLICATE_WINDOW_DAYS): 'exact' | 'likely' | null {
+    if (a.externalId && b.externalId) return a.externalId === b.externalId ? 'exact' : null;
+    if (a.type !== b.type || Math.round(a.amount * 100) !== Math.round(b.amount * 100)) return null;
+    if (a.currency && b.currency && a.currency !== b.currency) return null;
+    const days = Math.abs(differenceInCalendarDays(parseISO(a.date), parseISO(b.date)));
+    if (days > windowDays) return null;
+    const descA = normalizeDescription(a.description);
+    const descB = normalizeDescription(b.description);
+    if (!similarDescriptions(descA, descB)) return null;
+    return days === 0 && descA === descB ? 'exact' : 'likely';
+}
+
+/** Existing transaction an imported row probably repeats. */
+export function findDuplicateOf(candidate: NewTransaction, existing: Transaction[], windowDays = DUPLICATE_WINDOW_DAYS): Transaction | undefined {
+    return existing.find(t => compareTransactions(candidate, t, windowDays) === 'exact')
+        ?? existing.find(t => compareTransactions(candidate, t, windowDays) !== null);
+}
+
+/** Groups of transactions that look like the same payment, most recent first. */
+export function findDuplicateGroups(transactions: Transaction[], dismissed: Set<string> = new Set(), windowDays = DUPLICATE_WINDOW_DAYS): DuplicateGroup[] {
+    const sorted = [...transactions].sort((a, b) => a.date.localeCompare(b.date));
+    const parent = sorted.map((_, i) => i);
+    const root = (i: number): number => (parent[i] === i ? i : (parent[i] = root(parent[i])));
+    const exact = new Set<number>();
+
+    // Sorted by date, so only the rows inside the window need comparing
+    sorted.forEach((a, i) => {
+        for (let j = i + 1; j < sorted.length; j++) {
+            const b = sorted[j];
+            if (differenceInCalendarDays(parseISO(b.date), parseISO(a.date)) > windowDays) break;
+            const match = compareTransactions(a, b, windowDays);
+            if (!match) continue;
+            parent[root(j)] = root(i);
+            if (match === 'exact') exact.add(i).add(j);
+        }
+    });
+
+    const groups = new Map<number, number[]>();
+    sorted.forEach((_, i) => groups.set(root(i), [...(groups.get(root(i)) || []), i]));
+
+    return [...groups.values()]
+        .filter(members => members.length > 1)
+        .map(members => {
+            const list = members.map(i => sorted[i]);
+            return {
+                key: list.map(t => t.id).sort().join('|'),
+                transactions: list,
+                exact: members.every(i => exact.has(i)),
+            };
+        })
+        .filter(group => !dismissed.has(group.key))
+        .sort((a, b) => b.transactions[0].date.localeCompare(a.transactions[0].date));
+}
+
+/** Row worth keeping when merging: the one with a bank id, then the most detailed description. */
+export function pickSurvivor(transactions: Transaction[]): Transaction {
+    return [...transactions].sort((a, b) =>
+        Number(!!b.externalId) - Number(!!a.externalId)
+        || (b.description || '').length - (a.description || '').length
+        || a.createdAt.localeCompare(b.createdAt)
+    )[0];
+}
@@ -0,0 +1,170 @@
+// Cash flow forecast: month-by-month balance of each cash account over the coming year
+import { addMonths, endOfMonth, format, parseISO, startOfMonth } from 'date-fns';
+import type { Liability, LiquidityAccount, RecurringTransaction, Transaction } from '@/types/finance';
+import { accountBalance, defaultAccount } from './accounts';
+import type { Converter } from './fxHistory';
+import { occurrencesBetween } from './recurring';
+import { categoryLines } from './splits';
+
+const asIs: Converter = value => value;
+
+// Full months of history the seasonal averages are drawn from
+const HISTORY_MONTHS = 24;
+
+const monthKey = (date: Date) => format(date, 'yyyy-MM');
+
+export interface ForecastMonth {
+    month: string; // yyyy-MM
+    recurring: number; // Recurring templates, income minus expenses
+    liabilities: number; // Loan, mortgage and card payments (negative)
+    seasonal: number; // Expected discretionary spending (negative)
+    balance: number; // At the end of the month
+}
+
+export interface AccountForecast {
+    account: LiquidityAccount;
+    balance: number; // Today
+    months: ForecastMonth[];
+    negativeMonths: string[]; // Months the account ends below zero
+}
+
+/**
+ * Average discretionary spending of an account per calendar month (0-11) and category: expenses
+ * not posted from a recurring template, over the last full months of history. A calendar month
+ * without history yet falls back to the category's overall monthly average.
+ */
+export function seasonalSpending(
+    transactions: Transaction[],
+    account: Pick<LiquidityAccount, 'id' | 'openingDate'>,
+    convert = asIs,
+    today = new Date()
+): Record<number, Record<string, number>> {
+    const current = monthKey(today);
+    const windowStart = monthKey(addMonths(startOfMonth(today), -HISTORY_MONTHS));
+    const relevant = transactions.filter(t => {
+        const month = t.date.slice(0, 7);
+        return t.type === 'expense' && !t.recurringId && t.accountId === account.id
+            && month >= windowStart && month < current
+            && (!account.openingDate || t.date >= account.openingDate);
+    });
+    if (relevant.length === 0) return {};
+
+    // Months observed: from the first entry in the window to last month, empty ones included
+    const first = relevant.reduce((min, t) => t.date < min ? t.date : min, relevant[0].date);
+    const observed: string[] = [];
+    for (let d = startOfMonth(parseISO(first)); monthKey(d) < current; d = addMonths(d, 1)) observed.push(monthKey(d));
+
+    const totals: Record<string, Record<string, number>> = {}; // Category -> yyyy-MM -> amount
+    relevant.forEach(t => categoryLines(t).forEach(line => {
+        const month = t.date.slice(0, 7);
+        totals[line.category] = totals[line.category] || {};
+        totals[line.category][month] = (totals[line.category][month] || 0) + convert(line.amount, t.currency, t.date);
+    }));
+
+    const result: Record<number, Record<string, number>> = {};
+    for (let m = 0; m < 12; m++) {
+        const sameMonth = observed.filter(month => parseInt(month.slice(5, 7)) - 1 === m);
+        result[m] = {};
+        Object.entries(totals).forEach(([category, byMonth]) => {
+            const months = sameMonth.length > 0 ? sameMonth : observed;
+            const sum = months.reduce((s, month) => s + (byMonth[month] || 0), 0);
+            if (sum > 0) result[m][category] = sum / months.length;
+        });
+    }
+    return result;
+}
+
+/**
+ * Remaining payments of a liability per month (yyyy-MM), from next month until it is paid off.
+ * Interest accrues monthly on the balance, so the last payment may be smaller.
+ */
+export function liabilitySchedule(liability: Liability, months: string[]): Record<string, number> {
+    const schedule: Record<string, number> = {};
+    const rate = (liability.interestRate || 0) / 100 / 12;
+    let balance = liability.currentBalance;
+    months.slice(1).forEach(month => {
+        if (balance <= 0 || liability.monthlyPayment <= 0) return;
+        balance *= 1 + rate;
+        const payment = Math.min(liability.monthlyPayment, balance);
+        schedule[month] = payment;
+        balance -= payment;
+    });
+    return schedule;
+}
+
+/**
+ * Projected end-of-month balances of every cash account for `horizon` months, starting with the
+ * current one, in the base currency (future amounts at today's rates). Recurring templates are
+ * booked on their account, or the default account where their entries land without one. Payments
+ * of liabilities that no recurring expense pays off go to the default account too. The seasonal
+ * spending of each account comes from its own history, and for the current month only what is
+ * left of it after this month's spending so far.
+ */
+export function forecastCashFlow(
+    accounts: LiquidityAccount[],
+    transactions: Transaction[],
+    recurring: RecurringTransaction[],
+    liabilities: Liability[],
+    convert = asIs,
+    horizon = 12,
+    today = new Date()
+): AccountForecast[] {
+    const todayKey = format(today, 'yyyy-MM-dd');
+    const months = Array.from({ length: horizon }, (_, i) => monthKey(addMonths(startOfMonth(today), i)));
+    const horizonEnd = format(endOfMonth(addMonths(today, horizon - 1)), 'yyyy-MM-dd');
+    const main = defaultAccount(accounts);
+    const bookedOn = (template: RecurringTransaction) =>
+        accounts.some(a => a.id === template.accountId) ? template.accountId : main?.id;
+    const paidOff = new Set(recurring.filter(r => r.type === 'expense' && r.nextDate && r.liabilityId).map(r => r.liabilityId));
+
+    return accounts.map(account => {
+        const toBase = (value: number) => convert(value, account.currency);
+        const flows: Record<string, Omit<ForecastMonth, 'month' | 'balance'>> = {};
+        months.forEach(month => flows[month] = { recurring: 0, liabilities: 0, seasonal: 0 });
+
+        // Occurrences still due before today are pending and land this month
+        recurring.filter(template => template.nextDate && bookedOn(template) === account.id).forEach(template => {
+            occurrencesBetween(template, template.nextDate!, horizonEnd).forEach(date => {
+                const month = date.slice(0, 7) < months[0] ? months[0] : date.slice(0, 7);
+                const amount = convert(template.amount, template.currency || account.currency);
+                flows[month].recurring += template.type === 'income' ? amount : -amount;
+            });
+        });
+
+        if (account.id === main?.id) {
+            liabilities
+                .filter(l => !paidOff.has(l.id))
+                .forEach(l => Object.entries(liabilitySchedule(l, months)).forEach(([month, payment]) => {
+                    flows[month].liabilities -= convert(payment, l.currency);
+                }));
+        }
+
+        const seasonal = seasonalSpending(transactions, account, convert, today);
+        const spentThisMonth: Record<string, number> = {};
+        transactions
+            .filter(t => t.type === 'expense' && !t.recurringId && t.accountId === account.id && t.date.startsWith(months[0]))
+            .forEach(t => categoryLines(t).forEach(line => {
+                spentThisMonth[line.category] = (spentThisMonth[line.category] || 0) + convert(line.amount, t.currency, t.date);
+            }));
+        months.forEach((month, i) => {
+            const expected = seasonal[parseInt(month.slice(5, 7)) - 1] || {};
+            flows[month].seasonal = -Object.entries(expected).reduce((sum, [category, amount]) =>
+                sum + (i === 0 ? Math.max(0, amount - (spentThisMonth[category] || 0)) : amount), 0);
+        });
+
+        const balance = toBase(accountBalance(account, transactions, todayKey, convert));
+        let running = balance;
+        const projected = months.map(month => {
+            const f = flows[month];
+            running += f.recurring + f.liabilities + f.seasonal;
+            return { month, ...f, balance: running };
+        });
+
+        return {
+            account,
+            balance,
+            months: projected,
+            negativeMonths: projected.filter(m => m.balance < 0).map(m => m.month)
+        };
+    });
+}
@@ -0,0 +1,89 @@
+// Historical exchange rates for converting transactions at the rate of their own date
+import { format } from 'date-fns';
+import { fetchExchangeRateSeries } from '@/lib/api';
+
+/** Rates by ISO date, then currency: units of that currency per unit of the base currency. */
+export type RateSeries = Record<string, Record<string, number>>;
+
+/** Converts an amount in `currency` to the base currency, at the rate of `date` when given. */
+export type Converter = (value: number, currency?: string, date?: string) => number;
+
+// localStorage entry per base currency
+interface CachedSeries {
+    start: string;
+    symbols: string[];
+    fetchedOn: string; // Refetched once a day to pick up new rates
+    rates: RateSeries;
+}
+
+const cacheKey = (base: string) => `wc_fx_history_${base}`;
+
+function readCache(base: string): CachedSeries | null {
+    try {
+        const raw = localStorage.getItem(cacheKey(base));
+        return raw ? JSON.parse(raw) : null;
+    } catch {
+        return null;
+    }
+}
+
+/** Series cached for `base`, empty until one was fetched. */
+export function cachedRateSeries(base: string): RateSeries {
+    return readCache(base)?.rates || {};
+}
+
+/**
+ * Rates for `currencies` since `start`, from the cache while it covers them and is from today,
+ * otherwise fetched again in one request. Falls back to the stale cache when offline.
+ */
+export async function loadRateSeries(base: string, currencies: string[], start: string): Promise<RateSeries> {
+    const cached = readCache(base);
+    const today = format(new Date(), 'yyyy-MM-dd');
+    const symbols = [...new Set([...currencies, ...(cached?.symbols || [])])].filter(c => c !== base).sort();
+    if (symbols.length === 0) return cached?.rates || {};
+
+    const covered = cached
+        && cached.start <= start
+        && cached.fetchedOn === today
+        && symbols.every(s => cached.symbols.includes(s));
+    if (covered) return cached.rates;
+
+    const from = cached && cached.start < start ? cached.start : start;
+    const rates = await fetchExchangeRateSeries(base, from, symbols);
+    if (!rates) return cached?.rates || {};
+
+    const entry: CachedSeries = { start: from, symbols, fetchedOn: today, rates };
+    try {
+        localStorage.setItem(cacheKey(base), JSON.stringify(entry));
+    } catch (error) {
+        console.error('Failed to cache exchange rate history', error);
+    }
+    return rates;
+}
+
+// Sorted quote dates per series and currency; rateOn runs once per transaction
+const datesCache = new WeakMap<RateSeries, Record<string, string[]>>();
+
+function quoteDates(series: RateSeries, currency: string): string[] {
+    const byCurrency = datesCache.get(series) || {};
+    if (!byCurrency[currency]) {
+        byCurrency[currency] = Object.keys(series).filter(d => series[d][currency]).sort();
+        datesCache.set(series, byCurrency);
+    }
+    return byCurrency[currency];
+}
+
+/** Rate of the last working day on or before `date` (markets close on weekends), else the first one after. */
+export function rateOn(series: RateSeries, currency: string, date: string): number | undefined {
+    const dates = quoteDates(series, currency);
+    if (dates.length === 0) return undefined;
+    const day = date.slice(0, 10);
+    let lo = 0;
+    let hi = dates.length - 1;
+    while (lo < hi) {
+        const mid = Math.ceil((lo + hi) / 2);
+        if (dates[mid] <= day) lo = mid;
+        else hi = mid - 1;
+    }
+    return series[dates[lo]][currency];
+}
@@ -0,0 +1,297 @@
+// Lot accounting for the trade ledger
+import type { CorporateAction, CostBasisMethod, Trade } from '@/types/finance';
+
+export interface Lot {
+    tradeId: string;
+    date: string;
+    quantity: number; // Quantity bought (split-adjusted)
+    remaining: number; // Quantity still open
+    price: number;
+    fees: number;
+    unitCost: number; // (quantity * price + fees) / quantity
+}
+
+export interface RealizedSale {
+    tradeId: string; // Sell trade, or the corporate action for cash mergers
+    date: string;
+    quantity: number;
+    proceeds: number; // quantity * price - sell fees
+    costBasis: number; // Cost of the closed lot portions, buy fees included
+    gain: number;
+    actionId?: string; // Set when the sale comes from a cash merger
+}
+
+// Lots handed over to another holding by a stock merger
+export interface LotTransfer {
+    actionId: string;
+    date: string;
+    targetAssetId: string;
+    lots: Lot[];
+}
+
+// A sell of more units than were open on its date
+export interface Shortfall {
+    trade: Trade;
+    held: number; // Quantity open right before the sell
+}
+
+export interface Position {
+    quantity: number;
+    costBasis: number; // Cost of the open lots, fees included
+    fees: number; // Fees paid on the open lots
+    avgPrice: number; // costBasis / quantity
+    realizedGain: number;
+    lots: Lot[];
+    sales: RealizedSale[];
+}
+
+interface ReplayOptions {
+    actions?: CorporateAction[]; // Actions on this asset
+    transfersIn?: LotTransfer[]; // Lots received from merged holdings
+}
+
+export interface ReplayResult {
+    lots: Lot[];
+    sales: RealizedSale[];
+    transfersOut: LotTransfer[];
+    shortfalls: Shortfall[];
+}
+
+export const COST_BASIS_METHODS: { value: CostBasisMethod; label: string }[] = [
+    { value: 'fifo', label: 'FIFO (First In, First Out)' },
+    { value: 'lifo', label: 'LIFO (Last In, First Out)' },
+    { value: 'average', label: 'Weighted Average Cost' },
+];
+
+const EPSILON = 1e-12;
+// Rounding left over from splits and partial closes, not a real shortfall
+const SHORT_TOLERANCE = 1e-9;
+
+/**
+ * Sorts trades chronologically. Trades on the same day keep their entry order.
+ */
+export function sortTrades(trades: Trade[]): Trade[] {
+    return [...trades].sort((a, b) =>
+        a.date.localeCompare(b.date) || (a.createdAt || '').localeCompare(b.createdAt || '')
+    );
+}
+
+/**
+ * New shares received per old share for a split or stock merger.
+ */
+export function actionRatio(action: CorporateAction): number {
+    if (!action.ratioFrom || !action.ratioTo) return 1;
+    return action.ratioTo / action.ratioFrom;
+}
+
+// Closes `quantity` units across the open lots and returns the cost of what was closed
+function closeLots(lots: Lot[], quantity: number, method: CostBasisMethod): number {
+    const open = lots.filter(l => l.remaining > 0);
+    if (open.length === 0) return 0;
+
+    if (method === 'average') {
+        // Every open lot gives up the same fraction, so the sale is priced at the average cost
+        const openQuantity = open.reduce((sum, l) => sum + l.remaining, 0);
+        const fraction = Math.min(1, quantity / openQuantity);
+        let cost = 0;
+        for (const lot of open) {
+            const closed = lot.remaining * fraction;
+            cost += closed * lot.unitCost;
+            lot.remaining -= closed;
+        }
+        return cost;
+    }
+
+    const ordered = method === 'lifo' ? [...open].reverse() : open;
+    let toClose = quantity;
+    let cost = 0;
+    for (const lot of ordered) {
+        if (toClose <= 0) break;
+        const closed = Math.min(lot.remaining, toClose);
+        cost += closed * lot.unitCost;
+        lot.remaining -= closed;
+        toClose -= closed;
+    }
+    return cost;
+}
+
+// Rescales a lot by a share ratio. Cost is unchanged, so the unit values shrink or grow.
+function scaleLot(lot: Lot, ratio: number): Lot {
+    return {
+        ...lot,
+        quantity: lot.quantity * ratio,
+        remaining: lot.remaining * ratio,
+        price: lot.price / ratio,
+        unitCost: lot.unitCost / ratio,
+    };
+}
+
+type ReplayEvent =
+    | { kind: 'action'; date: string; order: string; action: CorporateAction }
+    | { kind: 'transfer'; date: string; order: string; transfer: LotTransfer }
+    | { kind: 'trade'; date: string; order: string; trade: Trade };
+
+/**
+ * Replays the trades of a single asset.
+ * Every buy opens a lot; sells close open lots according to the cost-basis method
+ * and produce one realized sale each. Corporate actions take effect at the start of
+ * their effective date, before that day's trades.
+ */
+export function replayTrades(trades: Trade[], method: CostBasisMethod = 'fifo', options: ReplayOptions = {}): ReplayResult {
+    let lots: Lot[] = [];
+    const sales: RealizedSale[] = [];
+    const transfersOut: LotTransfer[] = [];
+    const shortfalls: Shortfall[] = [];
+
+    const events: ReplayEvent[] = [
+        ...(options.actions || []).map(action => ({ kind: 'action' as const, date: action.effectiveDate, order: `0${action.createdAt || ''}`, action })),
+        ...(options.transfersIn || []).map(transfer => ({ kind: 'transfer' as const, date: transfer.date, order: '0', transfer })),
+        ...trades.map(trade => ({ kind: 'trade' as const, date: trade.date, order: `1${trade.createdAt || ''}`, trade })),
+    ].sort((a, b) => a.date.localeCompare(b.date) || a.order.localeCompare(b.order));
+
+    for (const event of events) {
+        if (event.kind === 'transfer') {
+            lots.push(...event.transfer.lots.map(l => ({ ...l })));
+            continue;
+        }
+
+        if (event.kind === 'action') {
+            const action = event.action;
+            if (action.type === 'split') {
+                const ratio = actionRatio(action);
+                lots = lots.map(l => scaleLot(l, ratio));
+            } else if (action.type === 'merger' && action.targetAssetId) {
+                // Stock merger: open lots move to the surviving holding with their cost and acquisition date
+                const ratio = actionRatio(action);
+                const moved = lots.filter(l => l.remaining > EPSILON).map(l => {
+                    const share = l.quantity > 0 ? l.remaining / l.quantity : 0;
+                    return scaleLot({ ...l, quantity: l.remaining, fees: l.fees * share }, ratio);
+                });
+                lots.forEach(l => { l.remaining = 0; });
+                transfersOut.push({ actionId: action.id, date: action.effectiveDate, targetAssetId: action.targetAssetId, lots: moved });
+            } else if (action.type === 'merger') {
+                // Cash merger: the whole position is sold at the cash consideration
+                const quantity = lots.reduce((sum, l) => sum + l.remaining, 0);
+                if (quantity > EPSILON) {
+                    const costBasis = closeLots(lots, quantity, 'fifo');
+                    const proceeds = quantity * (action.cashPerShare || 0);
+                    sales.push({ tradeId: action.id, actionId: action.id, date: action.effectiveDate, quantity, proceeds, costBasis, gain: proceeds - costBasis });
+                }
+            }
+            continue;
+        }
+
+        const trade = event.trade;
+        const fees = trade.fees || 0;
+
+        if (trade.side === 'buy') {
+            lots.push({
+                tradeId: trade.id,
+                date: trade.date,
+                quantity: trade.quantity,
+                remaining: trade.quantity,
+                price: trade.price,
+                fees,
+                unitCost: trade.quantity > 0 ? (trade.quantity * trade.price + fees) / trade.quantity : 0,
+            });
+            continue;
+        }
+
+        const held = lots.reduce((sum, l) => sum + l.remaining, 0);
+        if (trade.quantity > held + SHORT_TOLERANCE) shortfalls.push({ trade, held });
+        const costBasis = closeLots(lots, trade.quantity, method);
+        const proceeds = trade.quantity * trade.price - fees;
+        sales.push({
+            tradeId: trade.id,
+            date: trade.date,
+            quantity: trade.quantity,
+            proceeds,
+            costBasis,
+            gain: proceeds - costBasis,
+        });
+    }
+
+    return { lots, sales, transfersOut, shortfalls };
+}
+
+function summarize({ lots, sales }: ReplayResult): Position {
+    const open = lots.filter(l => l.remaining > EPSILON);
+
+    const quantity = open.reduce((sum, l) => sum + l.remaining, 0);
+    const costBasis = open.reduce((sum, l) => sum + l.remaining * l.unitCost, 0);
+    const fees = open.reduce((sum, l) => sum + (l.quantity > 0 ? l.fees * (l.remaining / l.quantity) : 0), 0);
+
+    return {
+        quantity,
+        costBasis,
+        fees,
+        avgPrice: quantity > 0 ? costBasis / quantity : 0,
+        realizedGain: sales.reduce((sum, s) => sum + s.gain, 0),
+        lots,
+        sales,
+    };
+}
+
+/**
+ * Returns the lots of a single asset after replaying its trades.
+ */
+export function buildLots(trades: Trade[], method: CostBasisMethod = 'fifo'): Lot[] {
+    return replayTrades(trades, method).lots;
+}
+
+/**
+ * Derives the current position (quantity, cost basis, realized P/L) from the trades of a single asset.
+ */
+export function derivePosition(trades: Trade[], method: CostBasisMethod = 'fifo'): Position {
+    return summarize(replayTrades(trades, method));
+}
+
+// Replays every asset of the ledger; holdings that received lots through a stock merger after their source
+function replayLedger(trades: Trade[], actions: CorporateAction[], method: CostBasisMethod): Record<string, ReplayResult> {
+    const results: Record<string, ReplayResult> = {};
+    const visiting = new Set<string>();
+
+    const replay = (assetId: string): ReplayResult => {
+        if (results[assetId]) return results[assetId];
+        visiting.add(assetId);
+
+        const transfersIn = actions
+            .filter(a => a.type === 'merger' && a.targetAssetId === assetId && !visiting.has(a.assetId))
+            .flatMap(a => replay(a.assetId).transfersOut.filter(t => t.actionId === a.id));
+
+        results[assetId] = replayTrades(trades.filter(t => t.assetId === assetId), method, {
+            actions: actions.filter(a => a.assetId === assetId),
+            transfersIn,
+        });
+        visiting.delete(assetId);
+        return results[assetId];
+    };
+
+    const assetIds = new Set([
+        ...trades.map(t => t.assetId),
+        ...actions.map(a => a.assetId),
+        ...actions.filter(a => a.targetAssetId).map(a => a.targetAssetId as string),
+    ]);
+
+    assetIds.forEach(id => replay(id));
+    return results;
+}
+
+/**
+ * Derives the positions of every asset in the ledger, applying corporate actions.
+ */
+export function derivePositions(trades: Trade[], actions: CorporateAction[], method: CostBasisMethod = 'fifo'): Record<string, Position> {
+    const positions: Record<string, Position> = {};
+    Object.entries(replayLedger(trades, actions, method)).forEach(([id, result]) => { positions[id] = summarize(result); });
+    return positions;
+}
+
+/**
+ * Earliest sell in the ledger that is larger than the quantity open on its date, if any.
+ * Replaying the whole ledger also catches later sells left short by a back-dated change.
+ */
+export function findShortfall(trades: Trade[], actions: CorporateAction[], method: CostBasisMethod = 'fifo'): Shortfall | undefined {
+    return Object.values(replayLedger(trades, actions, method))
+        .flatMap(r => r.shortfalls)
+        .sort((a, b) => a.trade.date.localeCompare(b.trade.date))[0];
+}
@@ -0,0 +1,300 @@
+// Time-weighted (TWR) and money-weighted (XIRR) returns
+import { differenceInCalendarDays, format, parseISO, subDays, subMonths, subYears } from 'date-fns';
+import type { CorporateAction, CryptoHolding, Dividend, Investment, TimeRange, Trade } from '@/types/finance';
+import { actionRatio } from '@/lib/lots';
+
+type Converter = (value: number, currency?: string) => number;
+
+export type PerformanceScope = 'investment' | 'crypto' | 'all';
+
+export interface CashFlow {
+    date: string; // ISO date
+    amount: number; // Positive = money put into the holding, negative = money taken out
+}
+
+export interface Valuation {
+    date: string; // ISO date
+    value: number; // Market value at the end of the day, after that day's flows
+}
+
+export interface PerformanceResult {
+    twr: number | null; // Cumulative time-weighted return over the range (0.1 = 10%)
+    xirr: number | null; // Annualized money-weighted return
+    startValue: number;
+    endValue: number;
+    netFlows: number; // Contributions minus withdrawals within the range
+    gain: number; // endValue - startValue - netFlows
+}
+
+interface SeriesPoint extends Valuation {
+    flow: number;
+}
+
+const identity: Converter = (value) => value;
+const toIso = (date: Date) => format(date, 'yyyy-MM-dd');
+
+/**
+ * First day covered by a TimeRange. 'ALL' returns null.
+ */
+export function getRangeStart(range: TimeRange, now: Date = new Date()): Date | null {
+    switch (range) {
+        case '1W': return subDays(now, 7);
+        case '1M': return subMonths(now, 1);
+        case '6M': return subMonths(now, 6);
+        case '1Y': return subYears(now, 1);
+        case 'ALL': default: return null;
+    }
+}
+
+/**
+ * Annualized internal rate of return of irregular cash flows (investor's perspective:
+ * negative = paid in, positive = received). Returns null when it has no solution.
+ */
+export function xirr(flows: CashFlow[]): number | null {
+    const relevant = flows.filter(f => Math.abs(f.amount) > 1e-9);
+    if (!relevant.some(f => f.amount < 0) || !relevant.some(f => f.amount > 0)) return null;
+
+    const origin = parseISO(relevant.reduce((min, f) => f.date < min ? f.date : min, relevant[0].date));
+    const points = relevant.map(f => ({ t: differenceInCalendarDays(parseISO(f.date), origin) / 365, amount: f.amount }));
+    if (points.every(p => p.t === 0)) return null;
+
+    const npv = (rate: number) => points.reduce((sum, p) => sum + p.amount / Math.pow(1 + rate, p.t), 0);
+    const dnpv = (rate: number) => points.reduce((sum, p) => sum - p.t * p.amount / Math.pow(1 + rate, p.t + 1), 0);
+
+    // Newton-Raphson from 10%, bisection if it diverges
+    let rate = 0.1;
+    for (let i = 0; i < 50; i++) {
+        const value = npv(rate);
+        const slope = dnpv(rate);
+        if (Math.abs(value) < 1e-7) return rate;
+        if (slope === 0 || !isFinite(slope)) break;
+        const next = rate - value / slope;
+        if (!isFinite(next) || next <= -1) break;
+        if (Math.abs(next - rate) < 1e-10) return next;
+        rate = next;
+    }
+
+    let low = -0.9999;
+    let high = 100;
+    if (npv(low) * npv(high) > 0) return null;
+    for (let i = 0; i < 200; i++) {
+        const mid = (low + high) / 2;
+        if (npv(low) * npv(mid) <= 0) high = mid;
+        else low = mid;
+    }
+    return (low + high) / 2;
+}
+
+/**
+ * Chains the returns of the periods between consecutive valuations.
+ * Flows inside a period are weighted by the time they were invested (Modified Dietz),
+ * so a flow on the valuation date itself doesn't count as performance.
+ */
+export function timeWeightedReturn(valuations: Valuation[], flows: CashFlow[]): number | null {
+    const sorted = [...valuations].sort((a, b) => a.date.localeCompare(b.date));
+    if (sorted.length < 2) return null;
+
+    let growth = 1;
+    let periods = 0;
+    for (let i = 1; i < sorted.length; i++) {
+        const start = sorted[i - 1];
+        const end = sorted[i];
+        const length = differenceInCalendarDays(parseISO(end.date), parseISO(start.date));
+        const inPeriod = flows.filter(f => f.date > start.date && f.date <= end.date);
+
+        const netFlow = inPeriod.reduce((sum, f) => sum + f.amount, 0);
+        const weighted = inPeriod.reduce((sum, f) => {
+            const weight = length > 0 ? differenceInCalendarDays(parseISO(end.date), parseISO(f.date)) / length : 0;
+            return sum + weight * f.amount;
+        }, 0);
+
+        const invested = start.value + weighted;
+        if (invested <= 1e-9) continue; // Nothing at work during this period
+        growth *= 1 + (end.value - start.value - netFlow) / invested;
+        periods++;
+    }
+    return periods > 0 ? growth - 1 : null;
+}
+
+/**
+ * Builds the value and flow history of one holding from its trades, corporate actions and dividends.
+ * The holding is valued at the last traded price, so every trade date is an exact valuation point.
+ */
+function buildHoldingSeries(
+    assetId: string,
+    currency: string | undefined,
+    ledger: { trades: Trade[]; actions: CorporateAction[]; dividends: Dividend[] },
+    convert: Converter,
+    memo: Record<string, { points: SeriesPoint[]; transfers: Record<string, { value: number; quantity: number }> }>
+) {
+    if (memo[assetId]) return memo[assetId];
+    memo[assetId] = { points: [], transfers: {} }; // Guards against merger cycles
+
+    interface Event {
+        date: string;
+        order: string;
+        apply: () => void;
+    }
+
+    let quantity = 0;
+    let price = 0;
+    let flow = 0;
+    const transfers: Record<string, { value: number; quantity: number }> = {};
+    const events: Event[] = [];
+
+    ledger.actions.filter(a => a.assetId === assetId).forEach(action => events.push({
+        date: action.effectiveDate,
+        order: `0${action.createdAt || ''}`,
+        apply: () => {
+            if (action.type === 'split') {
+                const ratio = actionRatio(action);
+                quantity *= ratio;
+                price /= ratio;
+            } else if (action.type === 'merger' && action.targetAssetId) {
+                const value = quantity * price;
+                transfers[action.id] = { value, quantity: quantity * actionRatio(action) };
+                flow -= convert(value, currency);
+                quantity = 0;
+            } else if (action.type === 'merger') {
+                flow -= convert(quantity * (action.cashPerShare || 0), currency);
+                quantity = 0;
+            }
+        }
+    }));
+
+    ledger.actions.filter(a => a.type === 'merger' && a.targetAssetId === assetId).forEach(action => events.push({
+        date: action.effectiveDate,
+        order: `1${action.createdAt || ''}`,
+        apply: () => {
+            const received = buildHoldingSeries(action.assetId, currency, ledger, convert, memo).transfers[action.id];
+            if (!received || received.quantity <= 0) return;
+            quantity += received.quantity;
+            price = received.value / received.quantity;
+            flow += convert(received.value, currency);
+        }
+    }));
+
+    ledger.trades.filter(t => t.assetId === assetId).forEach(trade => events.push({
+        date: trade.date,
+        order: `2${trade.createdAt || ''}`,
+        apply: () => {
+            price = trade.price;
+            if (trade.side === 'buy') {
+                quantity += trade.quantity;
+                flow += convert(trade.quantity * trade.price + (trade.fees || 0), currency);
+            } else {
+                quantity -= trade.quantity;
+                flow -= convert(trade.quantity * trade.price - (trade.fees || 0), currency);
+            }
+        }
+    }));
+
+    // Distributions are money taken out of the holding
+    ledger.dividends.filter(d => d.assetId === assetId).forEach(dividend => events.push({
+        date: dividend.payDate,
+        order: '3',
+        apply: () => { flow -= convert(dividend.netAmount, dividend.currency); }
+    }));
+
+    events.sort((a, b) => a.date.localeCompare(b.date) || a.order.localeCompare(b.order));
+
+    const points: SeriesPoint[] = [];
+    events.forEach((event, i) => {
+        event.apply();
+        if (events[i + 1]?.date === event.date) return;
+        points.push({ date: event.date, value: convert(Math.max(quantity, 0) * price, currency), flow });
+        flow = 0;
+    });
+
+    memo[assetId] = { points, transfers };
+    return memo[assetId];
+}
+
+// Value at the end of `date`, from the last point on or before it
+const valueAt = (points: SeriesPoint[], date: string) => {
+    let value = 0;
+    for (const p of points) {
+        if (p.date > date) break;
+        value = p.value;
+    }
+    return value;
+};
+
+function evaluate(valuations: Valuation[], flows: CashFlow[], from: string, to: string): PerformanceResult {
+    const start = valuations[0]?.value || 0;
+    const end = valuations[valuations.length - 1]?.value || 0;
+    const inRange = flows.filter(f => f.date > from && f.date <= to && Math.abs(f.amount) > 1e-9);
+    const netFlows = inRange.reduce((sum, f) => sum + f.amount, 0);
+
+    return {
+        twr: timeWeightedReturn(valuations, inRange),
+        xirr: xirr([
+            { date: from, amount: -start },
+            ...inRange.map(f => ({ date: f.date, amount: -f.amount })),
+            { date: to, amount: end },
+        ]),
+        startValue: start,
+        endValue: end,
+        netFlows,
+        gain: end - start - netFlows,
+    };
+}
+
+interface PerformanceInput {
+    investments: Investment[];
+    crypto: CryptoHolding[];
+    trades: Trade[];
+    corporateActions: CorporateAction[];
+    dividends: Dividend[];
+}
+
+/**
+ * TWR and XIRR per holding and for the whole scope over a TimeRange, in the base currency.
+ * Holdings are valued at their trade prices. The portfolio is the sum of the same holding series:
+ * net worth snapshots also hold cash, liabilities and holdings without trades, none of which are
+ * in the trade flows, so they would show up as returns.
+ */
+export function getPerformance(
+    input: PerformanceInput,
+    range: TimeRange,
+    scope: PerformanceScope = 'all',
+    convert: Converter = identity,
+    now: Date = new Date()
+) {
+    // Crypto is priced in USD
+    const holdings = [
+        ...(scope !== 'crypto' ? input.investments.map(i => ({ id: i.id, currency: i.currency, currentValue: i.currentValue })) : []),
+        ...(scope !== 'investment' ? input.crypto.map(c => ({ id: c.id, currency: 'USD', currentValue: c.quantity * c.currentPrice })) : []),
+    ];
+
+    const ledger = { trades: input.trades, actions: input.corporateActions, dividends: input.dividends };
+    const memo = {};
+    const series = holdings.map(h => ({ holding: h, points: buildHoldingSeries(h.id, h.currency, ledger, convert, memo).points }));
+
+    const to = toIso(now);
+    const rangeStart = getRangeStart(range, now);
+    const firstDate = series.flatMap(s => s.points.map(p => p.date)).sort()[0];
+    const from = rangeStart ? toIso(rangeStart) : (firstDate ? toIso(subDays(parseISO(firstDate), 1)) : to);
+
+    const byAsset: Record<string, PerformanceResult> = {};
+    series.forEach(({ holding, points }) => {
+        const valuations: Valuation[] = [
+            { date: from, value: valueAt(points, from) },
+            ...points.filter(p => p.date > from && p.date < to),
+            { date: to, value: convert(holding.currentValue, holding.currency) },
+        ];
+        byAsset[holding.id] = evaluate(valuations, points.map(p => ({ date: p.date, amount: p.flow })), from, to);
+    });
+
+    // Portfolio: valued on every trade date of any holding
+    const portfolioValueAt = (date: string) => series.reduce((sum, s) => sum + valueAt(s.points, date), 0);
+    const dates = new Set(series.flatMap(s => s.points.map(p => p.date)));
+    const valuations: Valuation[] = [
+        { date: from, value: portfolioValueAt(from) },
+        ...[...dates].filter(date => date > from && date < to).sort().map(date => ({ date, value: portfolioValueAt(date) })),
+        { date: to, value: holdings.reduce((sum, h) => sum + convert(h.currentValue, h.currency), 0) },
+    ];
+    const flows = series.flatMap(s => s.points.map(p => ({ date: p.date, amount: p.flow })));
+
+    return { portfolio: evaluate(valuations, flows, from, to), byAsset, from, to };
+}
@@ -0,0 +1,139 @@
+// Daily price history of every fetched quote (stocks by symbol, crypto by CoinGecko id)
+import { format } from 'date-fns';
+import { supabase } from '@/lib/supabase';
+import { actionRatio } from '@/lib/lots';
+import type { CorporateAction, Trade } from '@/types/finance';
+
+export type PriceKind = 'stock' | 'crypto';
+
+export interface PricePoint {
+    date: string; // ISO date
+    price: number;
+    currency?: string;
+}
+
+export interface Quote {
+    symbol: string; // Ticker for stocks, coinId for crypto
+    kind: PriceKind;
+    price: number;
+    currency?: string;
+}
+
+// Row shape of the `price_history` table
+interface PriceHistoryRow {
+    date: string;
+    price: number;
+    currency: string | null;
+}
+
+/**
+ * Stores the quotes as today's price. Later quotes of the same day replace earlier ones.
+ * Fire-and-forget: a failure never blocks the price refresh.
+ */
+export async function recordQuotes(quotes: Quote[]): Promise<void> {
+    const valid = quotes.filter(q => q.symbol && q.price > 0);
+    if (valid.length === 0) return;
+
+    try {
+        const { data: { session } } = await supabase.auth.getSession();
+        if (!session) return; // Local mode has no history
+
+        const date = format(new Date(), 'yyyy-MM-dd');
+        const { error } = await supabase.from('price_history').upsert(valid.map(q => ({
+            user_id: session.user.id,
+            symbol: q.symbol,
+            kind: q.kind,
+            price: q.price,
+            currency: q.currency?.toUpperCase(),
+            date,
+            updated_at: new Date().toISOString()
+        })), { onConflict: 'user_id,kind,symbol,date' });
+
+        if (error) console.error('Failed to record price history', error);
+    } catch (error) {
+        console.error('Failed to record price history', error);
+    }
+}
+
+/**
+ * Daily prices of one symbol or coinId, oldest first.
+ * Former tickers of a renamed holding can be passed too; the newest symbol wins on overlapping days.
+ */
+export async function fetchPriceHistory(symbols: string | string[], kind: PriceKind): Promise<PricePoint[]> {
+    const list = Array.isArray(symbols) ? symbols : [symbols];
+    const { data, error } = await supabase
+        .from('price_history')
+        .select('date, price, currency, symbol')
+        .in('symbol', list)
+        .eq('kind', kind)
+        .order('date', { ascending: true });
+
+    if (error) {
+        console.error(`Error loading price history for ${list.join(', ')}:`, error);
+        return [];
+    }
+    if (list.length > 1) {
+        const byDay: Record<string, PriceHistoryRow & { symbol: string }> = {};
+        ((data || []) as (PriceHistoryRow & { symbol: string })[]).forEach(r => {
+            if (!byDay[r.date] || r.symbol === list[0]) byDay[r.date] = r;
+        });
+        return Object.values(byDay).map(r => ({ date: r.date, price: Number(r.price), currency: r.currency || undefined }));
+    }
+    return ((data || []) as PriceHistoryRow[]).map(r => ({ date: r.date, price: Number(r.price), currency: r.currency || undefined }));
+}
+
+export interface HoldingHistoryPoint {
+    date: string;
+    price: number;
+    quantity: number;
+    value: number;
+    buy?: number; // Price of a buy on that day (chart marker)
+    sell?: number; // Price of a sell on that day (chart marker)
+}
+
+/**
+ * Merges the stored prices with the trade prices and the current price, and values the
+ * quantity held on each day. Splits scale the quantity from their effective date on.
+ */
+export function buildHoldingHistory(
+    prices: PricePoint[],
+    trades: Trade[],
+    actions: CorporateAction[] = [],
+    current?: { price: number; date?: string }
+): HoldingHistoryPoint[] {
+    const byDay: Record<string, number> = {};
+    trades.forEach(t => { byDay[t.date] = t.price; });
+    prices.forEach(p => { byDay[p.date] = p.price; }); // Market close wins over the fill price
+    if (current && current.price > 0) byDay[current.date || format(new Date(), 'yyyy-MM-dd')] = current.price;
+
+    const splits = actions.filter(a => a.type === 'split');
+    const sortedTrades = [...trades].sort((a, b) => a.date.localeCompare(b.date));
+    const dates = Object.keys(byDay).sort();
+    const firstTrade = sortedTrades[0]?.date;
+
+    let quantity = 0;
+    let tradeIndex = 0;
+    let previous: string | null = null;
+
+    return dates.filter(date => !firstTrade || date >= firstTrade).map(date => {
+        // Splits effective after the previous point and up to this one
+        splits
+            .filter(s => (previous === null || s.effectiveDate > previous) && s.effectiveDate <= date)
+            .forEach(s => { quantity *= actionRatio(s); });
+
+        const point: HoldingHistoryPoint = { date, price: byDay[date], quantity: 0, value: 0 };
+        while (tradeIndex < sortedTrades.length && sortedTrades[tradeIndex].date <= date) {
+            const t = sortedTrades[tradeIndex++];
+            quantity += t.side === 'buy' ? t.quantity : -t.quantity;
+            if (t.date === date) {
+                if (t.side === 'buy') point.buy = t.price;
+                else point.sell = t.price;
+            }
+        }
+
+        previous = date;
+        point.quantity = Math.max(quantity, 0);
+        point.value = point.quantity * point.price;
+        return point;
+    });
+}
@@ -0,0 +1,64 @@
+// Schedules of recurring transaction templates (rent, salary, subscriptions...)
+import { addDays, addMonths, addWeeks, addYears, format, parseISO } from 'date-fns';
+import type { RecurringTransaction } from '@/types/finance';
+
+export const FREQUENCIES: { value: RecurringTransaction['frequency']; label: string; unit: string }[] = [
+    { value: 'weekly', label: 'Weekly', unit: 'week' },
+    { value: 'monthly', label: 'Monthly', unit: 'month' },
+    { value: 'yearly', label: 'Yearly', unit: 'year' },
+    { value: 'custom', label: 'Every N days', unit: 'day' },
+];
+
+// Guards against runaway loops on broken schedules (≈ 10 years of weekly entries)
+const MAX_OCCURRENCES = 600;
+
+type Schedule = Pick<RecurringTransaction, 'frequency' | 'interval' | 'startDate' | 'endDate'>;
+
+const toKey = (date: Date) => format(date, 'yyyy-MM-dd');
+
+// k-th occurrence counted from the start date, so month ends don't drift (Jan 31 -> Feb 29 -> Mar 31)
+const occurrence = (schedule: Schedule, k: number): string => {
+    const start = parseISO(schedule.startDate);
+    const step = Math.max(1, schedule.interval || 1) * k;
+    switch (schedule.frequency) {
+        case 'weekly': return toKey(addWeeks(start, step));
+        case 'monthly': return toKey(addMonths(start, step));
+        case 'yearly': return toKey(addYears(start, step));
+        default: return toKey(addDays(start, step));
+    }
+};
+
+/** Occurrences from `from` to `to` (inclusive, yyyy-MM-dd), stopping at the end date. */
+export function occurrencesBetween(schedule: Schedule, from: string, to: string): string[] {
+    const dates: string[] = [];
+    for (let k = 0; k < MAX_OCCURRENCES; k++) {
+        const date = occurrence(schedule, k);
+        if (date > to || (schedule.endDate && date > schedule.endDate)) break;
+        if (date >= from) dates.push(date);
+    }
+    return dates;
+}
+
+/** First occurrence after `date`, or null when the schedule has ended. */
+export function nextOccurrence(schedule: Schedule, date: string): string | null {
+    for (let k = 0; k < MAX_OCCURRENCES; k++) {
+        const next = occurrence(schedule, k);
+        if (schedule.endDate && next > schedule.endDate) return null;
+        if (next > date) return next;
+    }
+    return null;
+}
+
+/** Occurrences not yet posted or skipped, up to `today`. */
+export function dueOccurrences(template: RecurringTransaction, today = toKey(new Date())): string[] {
+    if (!template.nextDate) return [];
+    return occurrencesBetween(template, template.nextDate, today);
+}
+
+/** "Every 2 months", "Monthly"... */
+export function describeFrequency(schedule: Pick<RecurringTransaction, 'frequency' | 'interval'>): string {
+    const frequency = FREQUENCIES.find(f => f.value === schedule.frequency);
+    const interval = Math.max(1, schedule.interval || 1);
+    if (schedule.frequency === 'custom') return `Every ${interval} day${interval > 1 ? 's' : ''}`;
+    return interval === 1 ? frequency?.label ?? schedule.frequency : `Every ${interval} ${frequency?.unit}s`;
+}
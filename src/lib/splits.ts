@@ -0,0 +1,45 @@
+// Split transactions: one payment spread over several category lines
+import type { Transaction, TransactionSplit } from '@/types/finance';
+
+/** Split line as edited in a form, with the amount as typed. */
+export interface SplitDraft {
+    category: string;
+    amount: string;
+    note: string;
+}
+
+/** Category lines of a transaction: its splits, or the whole amount in its own category. */
+export function categoryLines(t: Pick<Transaction, 'category' | 'amount' | 'splits'>): TransactionSplit[] {
+    return t.splits && t.splits.length > 0 ? t.splits : [{ category: t.category, amount: t.amount }];
+}
+
+/** Whether any line of the transaction is in `category`. */
+export function usesCategory(t: Pick<Transaction, 'category' | 'amount' | 'splits'>, category: string): boolean {
+    return categoryLines(t).some(line => line.category === category);
+}
+
+/** Category stored on the transaction itself: the one of its largest line. */
+export function primaryCategory(lines: TransactionSplit[]): string {
+    return lines.reduce((max, line) => line.amount > max.amount ? line : max, lines[0]).category;
+}
+
+/** What the lines still have to cover: positive when short of the total, negative when over it. Rounded to cents. */
+export function unallocated(total: number, lines: Pick<TransactionSplit, 'amount'>[]): number {
+    const assigned = lines.reduce((sum, line) => sum + (line.amount || 0), 0);
+    return Math.round((total - assigned) * 100) / 100;
+}
+
+/** Lines as form drafts. */
+export function toDrafts(lines: TransactionSplit[]): SplitDraft[] {
+    return lines.map(line => ({ category: line.category, amount: String(line.amount), note: line.note || '' }));
+}
+
+/** Lines ready to save, or an error message when they are incomplete or don't add up to `total`. */
+export function parseDrafts(drafts: SplitDraft[], total: number): TransactionSplit[] | string {
+    const lines = drafts.map(d => ({ category: d.category, amount: parseFloat(d.amount), note: d.note.trim() || undefined }));
+    if (lines.length < 2) return 'A split needs at least two lines';
+    if (lines.some(line => !line.category || !(line.amount > 0))) return 'Every line needs a category and a positive amount';
+    const left = unallocated(total, lines);
+    if (left !== 0) return left > 0 ? `${left.toFixed(2)} is not assigned to a line yet` : `The lines exceed the total by ${(-left).toFixed(2)}`;
+    return lines;
+}
@@ -0,0 +1,157 @@
+// OFX / QFX and ISO 20022 CAMT.053 bank statement parsing
+import type { NewTransaction } from '@/lib/csvImport';
+
+export type StatementFormat = 'ofx' | 'camt053';
+
+export interface ParsedStatement {
+    format: StatementFormat;
+    accountId?: string; // IBAN or bank account number
+    currency?: string;
+    closingBalance?: number;
+    balanceDate?: string; // yyyy-MM-dd
+    transactions: NewTransaction[];
+}
+
+/**
+ * Tells OFX / QFX and CAMT.053 files apart from CSV by their content.
+ */
+export function detectStatementFormat(text: string): StatementFormat | null {
+    const head = text.slice(0, 4000);
+    if (/OFXHEADER|<OFX>/i.test(head)) return 'ofx';
+    if (/camt\.053|<BkToCstmrStmt>/i.test(head)) return 'camt053';
+    return null;
+}
+
+export function parseStatement(text: string): ParsedStatement | null {
+    const format = detectStatementFormat(text);
+    if (format === 'ofx') return parseOfx(text);
+    if (format === 'camt053') return parseCamt053(text);
+    return null;
+}
+
+// OFX dates: yyyyMMdd[HHmmss[.XXX]][[tz]]
+const ofxDate = (raw?: string) => {
+    const match = raw?.match(/^(\d{4})(\d{2})(\d{2})/);
+    return match ? `${match[1]}-${match[2]}-${match[3]}` : null;
+};
+
+// First value of a tag in an OFX block. Works for both the SGML flavour (no closing tags) and OFX 2 XML.
+const ofxTag = (block: string, tag: string) => {
+    const match = block.match(new RegExp(`<${tag}>([^<\\r\\n]*)`, 'i'));
+    return match ? decodeEntities(match[1].trim()) : undefined;
+};
+
+const decodeEntities = (value: string) => value
+    .replace(/&lt;/g, '<').replace(/&gt;/g, '>').replace(/&quot;/g, '"').replace(/&apos;/g, "'").replace(/&amp;/g, '&');
+
+/**
+ * Parses an OFX / QFX bank or credit card statement.
+ * FITID is the bank's unique transaction id and becomes the `externalId`.
+ */
+export function parseOfx(text: string): ParsedStatement {
+    const transactions: NewTransaction[] = [];
+    const blocks = text.split(/<STMTTRN>/i).slice(1).map(b => b.split(/<\/STMTTRN>|<\/BANKTRANLIST>/i)[0]);
+
+    blocks.forEach(block => {
+        const date = ofxDate(ofxTag(block, 'DTPOSTED'));
+        const amount = parseFloat((ofxTag(block, 'TRNAMT') || '').replace(',', '.'));
+        if (!date || !isFinite(amount) || amount === 0) return;
+
+        const name = ofxTag(block, 'NAME') || ofxTag(block, 'PAYEE');
+        const memo = ofxTag(block, 'MEMO');
+        const type = amount < 0 ? 'expense' : 'income';
+        transactions.push({
+            type,
+            amount: Math.abs(amount),
+            category: 'Other',
+            description: [name, memo].filter(Boolean).filter((v, i, all) => all.indexOf(v) === i).join(' · '),
+            date,
+            externalId: ofxTag(block, 'FITID'),
+        });
+    });
+
+    const ledger = text.split(/<LEDGERBAL>/i)[1];
+    const closing = ledger ? parseFloat((ofxTag(ledger, 'BALAMT') || '').replace(',', '.')) : NaN;
+
+    return {
+        format: 'ofx',
+        accountId: ofxTag(text, 'ACCTID'),
+        currency: ofxTag(text, 'CURDEF'),
+        closingBalance: isFinite(closing) ? closing : undefined,
+        balanceDate: (ledger && ofxDate(ofxTag(ledger, 'DTASOF'))) || undefined,
+        transactions,
+    };
+}
+
+// CAMT files are namespaced (urn:iso:std:iso:20022:tech:xsd:camt.053.001.xx); match on local names only
+const children = (parent: Element | Document, name: string) => Array.from(parent.getElementsByTagNameNS('*', name));
+const child = (parent: Element | Document | undefined, ...path: string[]): Element | undefined => {
+    let node: Element | Document | undefined = parent;
+    for (const name of path) {
+        if (!node) return undefined;
+        node = children(node, name)[0];
+    }
+    return node as Element | undefined;
+};
+const textOf = (parent: Element | Document | undefined, ...path: string[]) => child(parent, ...path)?.textContent?.trim() || undefined;
+// Banks fill in NOTPROVIDED when the payer gave no reference; it says nothing about the entry
+const referenceOf = (parent: Element | Document | undefined, ...path: string[]) => {
+    const value = textOf(parent, ...path);
+    return value && value.toUpperCase() !== 'NOTPROVIDED' ? value : undefined;
+};
+
+/**
+ * Parses an ISO 20022 CAMT.053 account statement (first statement in the file).
+ * AcctSvcrRef (or the end-to-end id) is the bank's unique reference and becomes the `externalId`.
+ */
+export function parseCamt053(text: string): ParsedStatement {
+    const doc = new DOMParser().parseFromString(text, 'application/xml');
+    if (doc.getElementsByTagName('parsererror').length > 0) throw new Error('Invalid XML');
+
+    const statement = child(doc, 'Stmt');
+    if (!statement) throw new Error('No statement (Stmt) found');
+
+    const transactions: NewTransaction[] = [];
+    children(statement, 'Ntry').forEach(entry => {
+        // Reversals and pending entries don't move the booked balance
+        if (textOf(entry, 'RvslInd') === 'true') return;
+        const status = textOf(entry, 'Sts', 'Cd') || textOf(entry, 'Sts');
+        if (status && status !== 'BOOK') return;
+
+        const amount = parseFloat(textOf(entry, 'Amt') || '');
+        const date = (textOf(entry, 'BookgDt', 'Dt') || textOf(entry, 'BookgDt', 'DtTm') || textOf(entry, 'ValDt', 'Dt'))?.slice(0, 10);
+        if (!date || !isFinite(amount) || amount === 0) return;
+
+        const isExpense = textOf(entry, 'CdtDbtInd') === 'DBIT';
+        const details = child(entry, 'TxDtls');
+        // The counterparty is the creditor of a debit and the debtor of a credit
+        const party = isExpense
+            ? textOf(details, 'RltdPties', 'Cdtr', 'Nm') || textOf(details, 'RltdPties', 'Cdtr', 'Pty', 'Nm')
+            : textOf(details, 'RltdPties', 'Dbtr', 'Nm') || textOf(details, 'RltdPties', 'Dbtr', 'Pty', 'Nm');
+        const remittance = details ? children(details, 'Ustrd').map(u => u.textContent?.trim()).filter(Boolean).join(' ') : '';
+        const info = textOf(entry, 'AddtlNtryInf');
+
+        transactions.push({
+            type: isExpense ? 'expense' : 'income',
+            amount: Math.abs(amount),
+            category: 'Other',
+            description: [party, remittance || info].filter(Boolean).join(' · '),
+            date,
+            externalId: referenceOf(entry, 'AcctSvcrRef') || referenceOf(details, 'Refs', 'AcctSvcrRef') || referenceOf(details, 'Refs', 'EndToEndId') || referenceOf(entry, 'NtryRef'),
+        });
+    });
+
+    // Closing booked balance (CLBD)
+    const closing = children(statement, 'Bal').find(b => textOf(b, 'Tp', 'CdOrPrtry', 'Cd') === 'CLBD');
+    const closingAmount = closing ? parseFloat(textOf(closing, 'Amt') || '') : NaN;
+    const closingSign = closing && textOf(closing, 'CdtDbtInd') === 'DBIT' ? -1 : 1;
+
+    return {
+        format: 'camt053',
+        accountId: textOf(statement, 'Acct', 'Id', 'IBAN') || textOf(statement, 'Acct', 'Id', 'Othr', 'Id'),
+        currency: textOf(statement, 'Acct', 'Ccy') || child(closing, 'Amt')?.getAttribute('Ccy') || undefined,
+        closingBalance: isFinite(closingAmount) ? closingSign * closingAmount : undefined,
+        balanceDate: (textOf(closing, 'Dt', 'Dt') || textOf(closing, 'Dt', 'DtTm'))?.slice(0, 10),
+        transactions,
+    };
+}
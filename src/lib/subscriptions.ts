@@ -0,0 +1,135 @@
+// Subscription detection: expenses repeating with a similar amount at regular spacing
+import { addDays, differenceInCalendarDays, format, parseISO } from 'date-fns';
+import type { CancelledSubscription, RecurringTransaction, Transaction } from '@/types/finance';
+import type { Converter } from './fxHistory';
+import { nextOccurrence } from './recurring';
+
+const asIs: Converter = value => value;
+
+// Spacings a subscription can bill at, as recurring template schedules (days are averages)
+const CADENCES: { frequency: RecurringTransaction['frequency']; interval: number; days: number; tolerance: number }[] = [
+    { frequency: 'weekly', interval: 1, days: 7, tolerance: 1 },
+    { frequency: 'weekly', interval: 2, days: 14, tolerance: 2 },
+    { frequency: 'monthly', interval: 1, days: 30.44, tolerance: 4 },
+    { frequency: 'monthly', interval: 3, days: 91.31, tolerance: 10 },
+    { frequency: 'monthly', interval: 6, days: 182.62, tolerance: 15 },
+    { frequency: 'yearly', interval: 1, days: 365.25, tolerance: 20 },
+];
+
+// Charges may drift this far from their median amount (price changes, FX on foreign cards)
+const AMOUNT_TOLERANCE = 0.35;
+// Share of gaps that have to fit the cadence, so one late or missing charge doesn't hide it
+const REGULAR_SHARE = 0.75;
+
+export interface PriceChange {
+    date: string; // First charge at the new price
+    from: number;
+    to: number;
+}
+
+export interface DetectedSubscription {
+    merchant: string;
+    name: string; // Description of the latest charge
+    category: string;
+    currency?: string;
+    frequency: RecurringTransaction['frequency'];
+    interval: number;
+    amount: number; // Latest charge, in its own currency
+    annualCost: number; // In the base currency, at the latest price
+    charges: number;
+    firstCharge: string;
+    lastCharge: string;
+    nextCharge: string; // Expected
+    priceChanges: PriceChange[];
+    status: 'active' | 'lapsed' | 'cancelled'; // lapsed: a charge is overdue, probably ended already
+    cancellation?: CancelledSubscription; // Also set when it charged again after being cancelled
+}
+
+/** Key charges are grouped by: the first words of the description, without numbers (references, dates) and punctuation. */
+export function merchantKey(description: string): string {
+    return description
+        .toLowerCase()
+        .replace(/[^a-z\s]/g, ' ')
+        .split(/\s+/)
+        .filter(word => word.length > 1)
+        .slice(0, 3)
+        .join(' ');
+}
+
+const median = (values: number[]) => {
+    const sorted = [...values].sort((a, b) => a - b);
+    const mid = Math.floor(sorted.length / 2);
+    return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+};
+
+/**
+ * Expenses that look like subscriptions, biggest annual cost first. Entries posted from a
+ * recurring template, and merchants a template already covers, are left out. A cancelled
+ * marker hides the subscription until it charges again after the cancellation date.
+ */
+export function detectSubscriptions(
+    transactions: Transaction[],
+    recurring: RecurringTransaction[],
+    cancelled: CancelledSubscription[],
+    convert = asIs,
+    today = new Date()
+): DetectedSubscription[] {
+    const tracked = new Set(recurring.filter(r => r.type === 'expense').map(r => merchantKey(r.name)));
+    const groups: Record<string, Transaction[]> = {};
+    transactions.forEach(t => {
+        if (t.type !== 'expense' || t.recurringId || !t.description) return;
+        const merchant = merchantKey(t.description);
+        if (!merchant || tracked.has(merchant)) return;
+        groups[merchant] = groups[merchant] || [];
+        groups[merchant].push(t);
+    });
+
+    const result: DetectedSubscription[] = [];
+    Object.entries(groups).forEach(([merchant, entries]) => {
+        const charges = [...entries].sort((a, b) => a.date.localeCompare(b.date));
+        if (charges.length < 2) return;
+
+        const gaps = charges.slice(1).map((t, i) => differenceInCalendarDays(parseISO(t.date), parseISO(charges[i].date)));
+        const typicalGap = median(gaps);
+        const cadence = CADENCES.find(c => Math.abs(typicalGap - c.days) <= c.tolerance);
+        if (!cadence) return;
+        // Two charges are enough for a half-yearly or yearly plan, shorter ones need a third
+        if (charges.length < (cadence.days > 180 ? 2 : 3)) return;
+        if (gaps.filter(gap => Math.abs(gap - cadence.days) <= cadence.tolerance).length < gaps.length * REGULAR_SHARE) return;
+
+        const typicalAmount = median(charges.map(t => t.amount));
+        if (charges.some(t => Math.abs(t.amount - typicalAmount) > typicalAmount * AMOUNT_TOLERANCE)) return;
+
+        const priceChanges: PriceChange[] = [];
+        charges.slice(1).forEach((t, i) => {
+            const previous = charges[i].amount;
+            if (Math.abs(t.amount - previous) >= 0.01) priceChanges.push({ date: t.date.slice(0, 10), from: previous, to: t.amount });
+        });
+
+        const last = charges[charges.length - 1];
+        const lastCharge = last.date.slice(0, 10);
+        const schedule = { frequency: cadence.frequency, interval: cadence.interval, startDate: lastCharge };
+        const nextCharge = nextOccurrence(schedule, lastCharge) || lastCharge;
+        const overdue = format(today, 'yyyy-MM-dd') > format(addDays(parseISO(nextCharge), cadence.tolerance), 'yyyy-MM-dd');
+        const cancellation = cancelled.find(c => c.merchant === merchant);
+
+        result.push({
+            merchant,
+            name: last.description,
+            category: last.category,
+            currency: last.currency,
+            frequency: cadence.frequency,
+            interval: cadence.interval,
+            amount: last.amount,
+            annualCost: convert(last.amount, last.currency) * 365.25 / cadence.days,
+            charges: charges.length,
+            firstCharge: charges[0].date.slice(0, 10),
+            lastCharge,
+            nextCharge,
+            priceChanges,
+            status: cancellation && lastCharge <= cancellation.cancelledOn ? 'cancelled' : overdue ? 'lapsed' : 'active',
+            cancellation
+        });
+    });
+    return result.sort((a, b) => b.annualCost - a.annualCost);
+}
@@ -0,0 +1,59 @@
+// Cash Flow filter bar: which transactions a filter (or a saved one) keeps
+import type { Category, Tag, Transaction, TransactionFilter } from '@/types/finance';
+import { rootCategoryName } from './categories';
+import { categoryLines, primaryCategory } from './splits';
+
+/** Whether no criterion is set, so every transaction passes. */
+export function isFilterEmpty(filter: TransactionFilter): boolean {
+    return Object.values(filter).every(value => value === undefined || value === '');
+}
+
+// A category criterion also matches its subcategories (transfers have no category tree)
+const inCategory = (name: string, t: Pick<Transaction, 'type'>, category: string, categories: Category[]) =>
+    name === category || (t.type !== 'transfer' && rootCategoryName(categories, t.type, name) === category);
+
+/**
+ * Whether a transaction passes every criterion that is set. A category also matches its
+ * subcategories and the lines of split transactions; text searches description, categories,
+ * line notes and tag names.
+ */
+export function matchesFilter(t: Transaction, filter: TransactionFilter, categories: Category[], tags: Tag[]): boolean {
+    const day = t.date.slice(0, 10);
+    if (filter.from && day < filter.from) return false;
+    if (filter.to && day > filter.to) return false;
+    if (filter.type && t.type !== filter.type) return false;
+    if (filter.minAmount !== undefined && t.amount < filter.minAmount) return false;
+    if (filter.maxAmount !== undefined && t.amount > filter.maxAmount) return false;
+    if (filter.tagId && !t.tagIds?.includes(filter.tagId)) return false;
+
+    const lines = categoryLines(t);
+    if (filter.category && !lines.some(line => inCategory(line.category, t, filter.category!, categories))) return false;
+
+    const text = filter.text?.trim().toLowerCase();
+    if (text) {
+        const tagNames = tags.filter(tag => t.tagIds?.includes(tag.id)).map(tag => tag.name);
+        const haystack = [t.description, ...lines.map(line => line.category), ...lines.map(line => line.note), ...tagNames];
+        if (!haystack.some(value => value?.toLowerCase().includes(text))) return false;
+    }
+    return true;
+}
+
+/** Transactions passing the filter; all of them while it is empty. */
+export function applyFilter(transactions: Transaction[], filter: TransactionFilter, categories: Category[], tags: Tag[]): Transaction[] {
+    if (isFilterEmpty(filter)) return transactions;
+    return transactions.filter(t => matchesFilter(t, filter, categories, tags));
+}
+
+/**
+ * Like applyFilter, but split transactions keep only their lines in the filter's category,
+ * with the amount of those lines, so charts by category don't count the other lines.
+ */
+export function applyFilterToLines(transactions: Transaction[], filter: TransactionFilter, categories: Category[], tags: Tag[]): Transaction[] {
+    const kept = applyFilter(transactions, filter, categories, tags);
+    if (!filter.category) return kept;
+    return kept.map(t => {
+        if (!t.splits?.length) return t;
+        const splits = t.splits.filter(line => inCategory(line.category, t, filter.category!, categories));
+        return { ...t, splits, amount: splits.reduce((sum, line) => sum + line.amount, 0), category: primaryCategory(splits) };
+    });
+}
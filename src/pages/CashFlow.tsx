@@ -1,6 +1,6 @@
 import { useState } from 'react';
 import { format } from 'date-fns';
-import { Plus, Trash2, TrendingUp, TrendingDown, Wallet, CalendarIcon, FileSpreadsheet } from 'lucide-react';
+import { Plus, TrendingUp, TrendingDown, Wallet, CalendarIcon, FileSpreadsheet, ArrowLeftRight } from 'lucide-react';
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -14,31 +14,69 @@ import { cn } from '@/lib/utils';
 import { useFinance } from '@/contexts/FinanceContext';
 import { useSettings } from '@/contexts/SettingsContext';
 import { CashFlowAnalytics } from '@/components/dashboard/CashFlowAnalytics';
+import { CsvImportWizard } from '@/components/dashboard/CsvImportWizard';
+import { DuplicateReviewDialog } from '@/components/dashboard/DuplicateReviewDialog';
+import { CategoryRulesDialog } from '@/components/dashboard/CategoryRulesDialog';
+import { TransactionRow } from '@/components/dashboard/TransactionRow';
+import { CategorySelectItems } from '@/components/dashboard/CategoryBadge';
+import { CategoryManagerDialog } from '@/components/dashboard/CategoryManagerDialog';
+import { AccountSelect } from '@/components/dashboard/AccountSelect';
+import { RecurringDialog } from '@/components/dashboard/RecurringDialog';
+import { TransferDialog } from '@/components/dashboard/TransferDialog';
+import { PendingRecurring } from '@/components/dashboard/PendingRecurring';
+import { BudgetsCard } from '@/components/dashboard/BudgetsCard';
+import { CashFlowForecastCard } from '@/components/dashboard/CashFlowForecastCard';
+import { SubscriptionsCard } from '@/components/dashboard/SubscriptionsCard';
+import { TransactionFilterBar } from '@/components/dashboard/TransactionFilterBar';
+import { TagManagerDialog } from '@/components/dashboard/TagManagerDialog';
 import { exportToCsv } from '@/lib/exportUtils';
+import { findRule } from '@/lib/categoryRules';
+import { defaultAccount } from '@/lib/accounts';
+import { categoryLines } from '@/lib/splits';
+import { applyFilter, isFilterEmpty } from '@/lib/transactionFilters';
+import type { TransactionFilter } from '@/types/finance';
 
 export default function CashFlowPage() {
-    const { data, addTransaction, deleteTransaction, getMonthlyCashFlow } = useFinance();
-    const { formatCurrency, isPrivacyMode } = useSettings();
+    const { data, addTransaction, getMonthlyCashFlow } = useFinance();
+    const { currency, formatCurrency, isPrivacyMode } = useSettings();
 
     const [isAddOpen, setIsAddOpen] = useState(false);
+    const [isTransferOpen, setIsTransferOpen] = useState(false);
     const [formData, setFormData] = useState({
         type: 'expense' as 'income' | 'expense',
         amount: '',
         category: '',
         description: '',
-        date: new Date()
+        date: new Date(),
+        accountId: ''
     });
+    const [categoryPicked, setCategoryPicked] = useState(false);
+    const [filter, setFilter] = useState<TransactionFilter>({});
+
+    // Until a category is picked by hand, the first matching rule fills it in
+    const ruleMatch = categoryPicked ? undefined : findRule({
+        type: formData.type,
+        amount: parseFloat(formData.amount) || 0,
+        description: formData.description
+    }, data.categoryRules);
+    const category = ruleMatch ? ruleMatch.category : formData.category;
+    // Entries are booked in the currency of their account
+    const account = data.liquidity.find(a => a.id === formData.accountId) || defaultAccount(data.liquidity);
 
     const cashFlow = getMonthlyCashFlow(new Date());
+    const visible = applyFilter(data.transactions, filter, data.categories, data.tags);
 
     const handleExportCsv = () => {
-        const exportData = data.transactions.map(t => ({
+        // One row per category line, so split transactions add up per category
+        const exportData = data.transactions.flatMap(t => categoryLines(t).map((line, i, lines) => ({
             Date: t.date,
-            Category: t.category,
-            Description: t.description,
-            Amount: t.amount,
-            Type: t.type
-        }));
+            Category: line.category,
+            Description: line.note ? `${t.description} (${line.note})` : t.description,
+            Amount: line.amount,
+            Currency: t.currency,
+            Type: t.type,
+            Split: lines.length > 1 ? `${i + 1}/${lines.length} of ${t.amount}` : ''
+        })));
         const filename = `transactions_${format(new Date(), 'yyyy-MM-dd')}`;
         exportToCsv(exportData, filename);
     };
@@ -48,12 +86,14 @@ export default function CashFlowPage() {
         addTransaction({
             type: formData.type,
             amount: parseFloat(formData.amount),
-            category: formData.category,
+            category,
             description: formData.description,
-            date: format(formData.date, 'yyyy-MM-dd')
+            date: format(formData.date, 'yyyy-MM-dd'),
+            accountId: formData.accountId || undefined
         });
         setIsAddOpen(false);
         setFormData({ ...formData, amount: '', category: '', description: '' });
+        setCategoryPicked(false);
     };
 
     return (
@@ -67,6 +107,16 @@ export default function CashFlowPage() {
                     <Button variant="outline" onClick={handleExportCsv}>
                         <FileSpreadsheet className="h-4 w-4 mr-2" /> Export CSV
                     </Button>
+                    <CsvImportWizard />
+                    <DuplicateReviewDialog />
+                    <CategoryManagerDialog />
+                    <TagManagerDialog />
+                    <CategoryRulesDialog />
+                    <RecurringDialog />
+                    <Button variant="outline" onClick={() => setIsTransferOpen(true)}>
+                        <ArrowLeftRight className="h-4 w-4 mr-2" /> Transfer
+                    </Button>
+                    <TransferDialog open={isTransferOpen} onOpenChange={setIsTransferOpen} />
                     <Dialog open={isAddOpen} onOpenChange={setIsAddOpen}>
                         <DialogTrigger asChild>
                             <Button className="gradient-primary">
@@ -91,7 +141,7 @@ export default function CashFlowPage() {
                                         </Select>
                                     </div>
                                     <div className="space-y-2">
-                                        <Label>Amount</Label>
+                                        <Label>Amount ({account?.currency || currency})</Label>
                                         <Input
                                             type="number"
                                             step="0.01"
@@ -105,31 +155,18 @@ export default function CashFlowPage() {
 
                                 <div className="space-y-2">
                                     <Label>Category</Label>
-                                    <Select value={formData.category} onValueChange={(v) => setFormData({ ...formData, category: v })}>
+                                    <Select value={category} onValueChange={(v) => { setCategoryPicked(true); setFormData({ ...formData, category: v }); }}>
                                         <SelectTrigger><SelectValue placeholder="Select category" /></SelectTrigger>
                                         <SelectContent>
-                                            {formData.type === 'income' ? (
-                                                <>
-                                                    <SelectItem value="Salary">Salary</SelectItem>
-                                                    <SelectItem value="Freelance">Freelance</SelectItem>
-                                                    <SelectItem value="Dividends">Dividends</SelectItem>
-                                                    <SelectItem value="Other">Other</SelectItem>
-                                                </>
-                                            ) : (
-                                                <>
-                                                    <SelectItem value="Housing">Housing</SelectItem>
-                                                    <SelectItem value="Food">Food</SelectItem>
-                                                    <SelectItem value="Transport">Transport</SelectItem>
-                                                    <SelectItem value="Utilities">Utilities</SelectItem>
-                                                    <SelectItem value="Fuel">Fuel</SelectItem>
-                                                    <SelectItem value="Entertainment">Entertainment</SelectItem>
-                                                    <SelectItem value="Shopping">Shopping</SelectItem>
-                                                    <SelectItem value="Health">Health</SelectItem>
-                                                    <SelectItem value="Other">Other</SelectItem>
-                                                </>
-                                            )}
+                                            <CategorySelectItems type={formData.type} current={category} />
                                         </SelectContent>
                                     </Select>
+                                    {ruleMatch && <p className="text-xs text-muted-foreground">Set by rule "{ruleMatch.name}"</p>}
+                                </div>
+
+                                <div className="space-y-2">
+                                    <Label>Account</Label>
+                                    <AccountSelect value={formData.accountId} onChange={(accountId) => setFormData({ ...formData, accountId })} />
                                 </div>
 
                                 <div className="space-y-2">
@@ -208,10 +245,24 @@ export default function CashFlowPage() {
                 </Card>
             </div>
 
+            <BudgetsCard />
+
+            <CashFlowForecastCard />
+
+            <PendingRecurring />
+
+            <SubscriptionsCard />
+
             {/* Transactions Table */}
             <Card className="glass-card">
-                <CardHeader>
-                    <CardTitle>Recent Transactions</CardTitle>
+                <CardHeader className="space-y-4">
+                    <div className="flex items-center justify-between">
+                        <CardTitle>Recent Transactions</CardTitle>
+                        {!isFilterEmpty(filter) && (
+                            <CardDescription>{visible.length} of {data.transactions.length} transactions</CardDescription>
+                        )}
+                    </div>
+                    <TransactionFilterBar filter={filter} onChange={setFilter} />
                 </CardHeader>
                 <CardContent className={cn(isPrivacyMode && "blur-sm select-none pointer-events-none")}>
                     <Table>
@@ -221,36 +272,18 @@ export default function CashFlowPage() {
                                 <TableHead>Category</TableHead>
                                 <TableHead>Description</TableHead>
                                 <TableHead className="text-right">Amount</TableHead>
-                                <TableHead className="w-[50px]"></TableHead>
+                                <TableHead className="w-[90px]"></TableHead>
                             </TableRow>
                         </TableHeader>
                         <TableBody>
-                            {data.transactions.length === 0 ? (
+                            {visible.length === 0 ? (
                                 <TableRow>
                                     <TableCell colSpan={5} className="text-center text-muted-foreground py-8">
-                                        No transactions found. Add one to get started.
+                                        {data.transactions.length === 0 ? 'No transactions found. Add one to get started.' : 'No transactions match the filter.'}
                                     </TableCell>
                                 </TableRow>
                             ) : (
-                                data.transactions.map((t) => (
-                                    <TableRow key={t.id}>
-                                        <TableCell>{format(new Date(t.date), 'MMM dd, yyyy')}</TableCell>
-                                        <TableCell>
-                                            <span className="inline-flex items-center px-2 py-1 rounded-full text-xs font-medium bg-secondary">
-                                                {t.category}
-                                            </span>
-                                        </TableCell>
-                                        <TableCell>{t.description || '-'}</TableCell>
-                                        <TableCell className={cn("text-right font-medium", t.type === 'income' ? 'text-green-500' : 'text-red-500')}>
-                                            {t.type === 'income' ? '+' : '-'}{isPrivacyMode ? "****" : formatCurrency(t.amount)}
-                                        </TableCell>
-                                        <TableCell>
-                                            <Button variant="ghost" size="icon" onClick={() => deleteTransaction(t.id)} className="h-8 w-8 text-muted-foreground hover:text-destructive">
-                                                <Trash2 className="h-4 w-4" />
-                                            </Button>
-                                        </TableCell>
-                                    </TableRow>
-                                ))
+                                visible.map((t) => <TransactionRow key={t.id} transaction={t} />)
                             )}
                         </TableBody>
                     </Table>
@@ -2,6 +2,9 @@ import { useFinance } from '@/contexts/FinanceContext';
 import { CryptoTable } from '@/components/dashboard/CryptoTable';
 import { CryptoAllocationChart, CryptoPerformanceChart } from '@/components/dashboard/CryptoCharts';
 import { CryptoSummary } from '@/components/dashboard/CryptoSummary';
+import { RealizedGainsCard } from '@/components/dashboard/RealizedGainsCard';
+import { PerformanceCard } from '@/components/dashboard/PerformanceCard';
+import { CryptoImportDialog } from '@/components/dashboard/CryptoImportDialog';
 import { FileSpreadsheet } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { exportToCsv } from '@/lib/exportUtils';
@@ -33,23 +36,31 @@ export default function CryptoPage() {
                     <h1 className="text-3xl font-bold text-gradient">Crypto Assets</h1>
                     <p className={cn("text-muted-foreground", isPrivacyMode && "blur-sm select-none")}>Manage your cryptocurrency holdings</p>
                 </div>
-                <Button variant="outline" onClick={handleExportCsv} className={cn(isPrivacyMode && "blur-sm select-none pointer-events-none")}>
-                    <FileSpreadsheet className="h-4 w-4 mr-2" /> Export CSV
-                </Button>
+                <div className="flex gap-2">
+                    <CryptoImportDialog />
+                    <Button variant="outline" onClick={handleExportCsv} className={cn(isPrivacyMode && "blur-sm select-none pointer-events-none")}>
+                        <FileSpreadsheet className="h-4 w-4 mr-2" /> Export CSV
+                    </Button>
+                </div>
             </div>
 
             <CryptoSummary />
 
-            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
                 <CryptoAllocationChart />
                 <CryptoPerformanceChart />
+                <RealizedGainsCard category="crypto" />
             </div>
 
+            <PerformanceCard scope="crypto" />
+
             <CryptoTable
                 holdings={finance.data.crypto}
+                trades={finance.data.trades}
                 onAdd={finance.addCrypto}
                 onUpdate={finance.updateCrypto}
                 onDelete={finance.deleteCrypto}
+                onAddTrade={finance.addTrade}
             />
         </div>
     );
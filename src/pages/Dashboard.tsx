@@ -12,6 +12,9 @@ import { LiquidityCards } from '@/components/dashboard/LiquidityCards';
 import { IncomeExpenseModule } from '@/components/dashboard/IncomeExpenseModule';
 import { RecentActivity } from '@/components/dashboard/RecentActivity';
 import { CashFlowTrendChart, AssetAllocationChart } from '@/components/dashboard/DashboardCharts';
+import { PerformanceCard } from '@/components/dashboard/PerformanceCard';
+import { OverBudgetWidget } from '@/components/dashboard/OverBudgetWidget';
+import { getBatchCryptoPrices, getStockPrice } from '@/lib/api';
 import { toast } from 'sonner';
 import type { TimeRange } from '@/types/finance';
 import { useSettings } from '@/contexts/SettingsContext';
@@ -136,7 +139,7 @@ const Dashboard = () => {
             title="Cash Balance"
             value={totals.totalLiquidity}
             icon={Wallet}
-            helpText="Liquid Cash (Income - Expenses)"
+            helpText="Sum of cash account balances"
           />
           <StatCard
             title="Investments"
@@ -161,6 +164,14 @@ const Dashboard = () => {
 
             {/* 2. Cash Flow Trend (New) */}
             <CashFlowTrendChart />
+
+            {/* Cash accounts, balances derived from their transactions */}
+            <LiquidityCards
+              accounts={finance.data.liquidity}
+              onAdd={finance.addLiquidity}
+              onUpdate={finance.updateLiquidity}
+              onDelete={finance.deleteLiquidity}
+            />
           </div>
 
           {/* Side Column */}
@@ -168,6 +179,12 @@ const Dashboard = () => {
             {/* 3. Asset Allocation (Updated) */}
             <AssetAllocationChart />
 
+            {/* Portfolio Returns (follows the Net Worth range) */}
+            <PerformanceCard scope="all" range={timeRange} onRangeChange={setTimeRange} />
+
+            {/* Categories over budget this month */}
+            <OverBudgetWidget />
+
             {/* 4. Recent Activity */}
             <RecentActivity />
           </div>
@@ -2,6 +2,11 @@ import { useState } from 'react';
 import { useFinance } from '@/contexts/FinanceContext';
 import { InvestmentTable } from '@/components/dashboard/InvestmentTable';
 import { AllocationChart } from '@/components/dashboard/AllocationChart';
+import { RealizedGainsCard } from '@/components/dashboard/RealizedGainsCard';
+import { DividendsCard } from '@/components/dashboard/DividendsCard';
+import { PerformanceCard } from '@/components/dashboard/PerformanceCard';
+import { NetWorthChart } from '@/components/dashboard/NetWorthChart';
+import { BrokerImportDialog } from '@/components/dashboard/BrokerImportDialog';
 import { Card, CardHeader, CardTitle, CardContent } from '@/components/ui/card';
 import { TrendingUp, PieChart, FileSpreadsheet } from 'lucide-react';
 import { Button } from '@/components/ui/button';
@@ -9,10 +14,12 @@ import { exportToCsv } from '@/lib/exportUtils';
 import { format } from 'date-fns';
 import { useSettings } from '@/contexts/SettingsContext';
 import { cn } from '@/lib/utils';
+import type { TimeRange } from '@/types/finance';
 
 export default function InvestmentsPage() {
     const finance = useFinance();
     const { isPrivacyMode } = useSettings();
+    const [timeRange, setTimeRange] = useState<TimeRange>('1Y');
 
     const handleExportCsv = () => {
         const exportData = finance.data.investments.map(inv => ({
@@ -36,20 +43,40 @@ export default function InvestmentsPage() {
                     <h1 className="text-3xl font-bold text-gradient">Investments</h1>
                     <p className={cn("text-muted-foreground", isPrivacyMode && "blur-sm select-none")}>Manage your stock and ETF portfolio</p>
                 </div>
-                <Button variant="outline" onClick={handleExportCsv} className={cn(isPrivacyMode && "blur-sm select-none pointer-events-none")}>
-                    <FileSpreadsheet className="h-4 w-4 mr-2" /> Export CSV
-                </Button>
+                <div className="flex gap-2">
+                    <BrokerImportDialog />
+                    <Button variant="outline" onClick={handleExportCsv} className={cn(isPrivacyMode && "blur-sm select-none pointer-events-none")}>
+                        <FileSpreadsheet className="h-4 w-4 mr-2" /> Export CSV
+                    </Button>
+                </div>
             </div>
 
             <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
                 {/* Main List */}
                 <div className="lg:col-span-2 space-y-6">
+                    <NetWorthChart
+                        data={finance.getSnapshotsByRange(timeRange, 'investments')}
+                        currentRange={timeRange}
+                        onRangeChange={setTimeRange}
+                        title="Investments Value"
+                        valueLabel="Investments"
+                        scope="investment"
+                    />
+
                     <InvestmentTable
                         investments={finance.data.investments}
+                        trades={finance.data.trades}
+                        corporateActions={finance.data.corporateActions}
                         onAdd={finance.addInvestment}
                         onUpdate={finance.updateInvestment}
                         onDelete={finance.deleteInvestment}
+                        onAddTrade={finance.addTrade}
+                        onDeleteTrade={finance.deleteTrade}
+                        onAddCorporateAction={finance.addCorporateAction}
+                        onDeleteCorporateAction={finance.deleteCorporateAction}
                     />
+
+                    <DividendsCard />
                 </div>
 
                 {/* Sidebar / Stats */}
@@ -62,6 +89,10 @@ export default function InvestmentsPage() {
                             <AllocationChart investments={finance.data.investments} groupBy="sector" />
                         </CardContent>
                     </Card>
+
+                    <PerformanceCard scope="investment" range={timeRange} onRangeChange={setTimeRange} />
+
+                    <RealizedGainsCard category="investment" />
                 </div>
             </div>
         </div>
@@ -8,18 +8,22 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@
 import { Switch } from '@/components/ui/switch';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter, DialogTrigger } from '@/components/ui/dialog';
 import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
-import { Settings, Globe, Shield, Database, ArrowLeft, Eye, EyeOff, Download, Trash2, Moon, Sun, Info } from 'lucide-react';
+import { Settings, Globe, Shield, Database, ArrowLeft, Eye, EyeOff, Download, Trash2, Moon, Sun, Info, Receipt } from 'lucide-react';
 import { useSettings } from '@/contexts/SettingsContext';
 import { useFinance } from '@/contexts/FinanceContext';
 import { toast } from 'sonner';
 import { exportToJson } from '@/lib/exportUtils';
+import { RestoreBackupDialog } from '@/components/dashboard/RestoreBackupDialog';
+import { COST_BASIS_METHODS } from '@/lib/lots';
+import type { CostBasisMethod } from '@/types/finance';
 
 export default function SettingsPage() {
     const navigate = useNavigate();
     const {
         currency, setCurrency,
         currencyRates, // Added this
-        isPrivacyMode, togglePrivacyMode
+        isPrivacyMode, togglePrivacyMode,
+        costBasisMethod, setCostBasisMethod
     } = useSettings();
     const { data, clearData } = useFinance();
 
@@ -120,11 +124,32 @@ export default function SettingsPage() {
 
 
 
+                {/* Cost Basis */}
+                <Card className="glass-card">
+                    <CardHeader>
+                        <CardTitle className="flex items-center gap-2"><Receipt className="h-5 w-5 text-primary" /> Cost Basis Method</CardTitle>
+                        <CardDescription>How sells are matched against your lots to compute realized gains.</CardDescription>
+                    </CardHeader>
+                    <CardContent className="space-y-2">
+                        <Select value={costBasisMethod} onValueChange={(v) => setCostBasisMethod(v as CostBasisMethod)}>
+                            <SelectTrigger className="md:w-1/2"><SelectValue /></SelectTrigger>
+                            <SelectContent>
+                                {COST_BASIS_METHODS.map(m => (
+                                    <SelectItem key={m.value} value={m.value}>{m.label}</SelectItem>
+                                ))}
+                            </SelectContent>
+                        </Select>
+                        <p className="text-xs text-muted-foreground">
+                            Changing the method recalculates open positions and realized P/L for all past sales.
+                        </p>
+                    </CardContent>
+                </Card>
+
                 {/* Data Management */}
                 <Card className="glass-card border-destructive/20">
                     <CardHeader>
                         <CardTitle className="flex items-center gap-2 text-destructive"><Database className="h-5 w-5" /> Data Management</CardTitle>
-                        <CardDescription>Export your history or wipe data.</CardDescription>
+                        <CardDescription>Export, restore or wipe your data.</CardDescription>
                     </CardHeader>
                     <CardContent className="space-y-4">
                         <div className="space-y-1">
@@ -136,6 +161,8 @@ export default function SettingsPage() {
                             </p>
                         </div>
 
+                        <RestoreBackupDialog />
+
                         <Dialog open={deleteConfOpen} onOpenChange={setDeleteConfOpen}>
                             <DialogTrigger asChild>
                                 <Button variant="destructive" className="w-full justify-start">
@@ -33,10 +33,55 @@ export interface Investment {
   sector: string;
   isin?: string;
   fees?: number;
+  realizedGain?: number; // All-time realized P/L from sells, in trading currency
   updatedAt: string;
   createdAt: string;
 }
 
+export type CostBasisMethod = 'fifo' | 'lifo' | 'average';
+
+export interface Trade {
+  id: string;
+  assetId: string; // References assets.id
+  side: 'buy' | 'sell';
+  quantity: number;
+  price: number; // Unit price in the asset's trading currency
+  fees: number;
+  date: string; // ISO date
+  notes?: string;
+  createdAt: string;
+}
+
+export interface CorporateAction {
+  id: string;
+  assetId: string; // Holding the action applies to
+  type: 'split' | 'symbol_change' | 'merger';
+  effectiveDate: string; // ISO date
+  ratioFrom?: number; // Split / stock merger: old shares...
+  ratioTo?: number; // ...become this many new shares (reverse split when ratioTo < ratioFrom)
+  oldSymbol?: string;
+  newSymbol?: string;
+  oldIsin?: string;
+  newIsin?: string;
+  targetAssetId?: string; // Stock merger: holding that receives the lots
+  cashPerShare?: number; // Cash merger: payout per old share, in trading currency
+  notes?: string;
+  createdAt: string;
+}
+
+export interface Dividend {
+  id: string;
+  assetId: string; // References assets.id
+  grossAmount: number;
+  withholdingTax: number;
+  netAmount: number; // grossAmount - withholdingTax
+  currency: string; // Payout currency
+  payDate: string; // ISO date
+  transactionId?: string; // Linked income transaction in Cash Flow
+  notes?: string;
+  createdAt: string;
+}
+
 export interface CryptoHolding {
   id: string;
   symbol: string;
@@ -48,6 +93,7 @@ export interface CryptoHolding {
   currency?: string;
   fees?: number;
   coinId?: string;
+  realizedGain?: number; // All-time realized P/L from sells, in USD
   updatedAt: string;
   createdAt: string;
 }
@@ -69,12 +115,24 @@ export interface LiquidityAccount {
   id: string;
   type: 'checking' | 'savings' | 'cash' | 'money_market';
   name: string;
-  balance: number;
+  balance: number; // Derived: opening balance + the account's transactions
+  openingBalance: number;
+  openingDate?: string; // Transactions before this day are part of the opening balance
   currency?: string;
   updatedAt: string;
   createdAt: string;
 }
 
+// Bank statement balance checked against the derived balance of the same day
+export interface Reconciliation {
+  id: string;
+  accountId: string;
+  date: string;
+  statementBalance: number;
+  computedBalance: number;
+  createdAt: string;
+}
+
 export interface NetWorthSnapshot {
   id: string;
   date: string;
@@ -89,11 +147,151 @@ export interface NetWorthSnapshot {
 
 export interface Transaction {
   id: string;
-  type: 'income' | 'expense';
+  type: 'income' | 'expense' | 'transfer'; // Transfers are neither income nor expense
   category: string;
   amount: number;
+  currency?: string; // Currency of amount: the account's (the source account's for transfers)
   description: string;
   date: string;
+  externalId?: string; // Bank's unique id (OFX FITID / CAMT reference), used to skip re-imports
+  recurringId?: string; // Template this entry was posted from
+  accountId?: string; // Cash account; the source account of a transfer
+  toAccountId?: string; // Destination account of a transfer
+  fxRate?: number; // Transfer across currencies: destination units per source unit
+  tradeId?: string; // Trade a transfer to the broker paid for
+  splits?: TransactionSplit[]; // Category lines when it covers several categories; category is the largest line's
+  tagIds?: string[]; // References tags.id
+  createdAt: string;
+}
+
+// One category line of a split transaction
+export interface TransactionSplit {
+  category: string;
+  amount: number; // Lines add up to the transaction amount
+  note?: string;
+}
+
+// Template for a transaction that repeats (rent, salary, subscriptions...)
+export interface RecurringTransaction {
+  id: string;
+  name: string; // Description of the posted entries
+  type: 'income' | 'expense';
+  category: string;
+  amount: number;
+  currency?: string; // Of the posted entries; the account's currency when unset
+  accountId?: string; // Cash account the entries are posted to; the default account when unset
+  liabilityId?: string; // Liability the payments pay off
+  frequency: 'weekly' | 'monthly' | 'yearly' | 'custom';
+  interval: number; // Every N weeks / months / years; N days for 'custom'
+  startDate: string;
+  endDate?: string;
+  nextDate?: string; // First occurrence not yet posted or skipped; unset once ended
+  autoPost: boolean; // Post when due instead of queueing for confirmation
+  createdAt: string;
+}
+
+// Monthly spending limit of an expense category
+export interface Budget {
+  id: string;
+  category: string; // Also covers subcategories without a budget of their own
+  amount: number;
+  rollover: boolean; // Unspent (or overspent) amounts carry into the next month
+  startMonth: string; // yyyy-MM-dd, first day of the first month counted for rollover
+  createdAt: string;
+}
+
+// Free-form label on transactions, across categories ("Japan trip", "Reimbursable")
+export interface Tag {
+  id: string;
+  name: string;
+  color: string; // Hex
+  createdAt: string;
+}
+
+// Criteria of the Cash Flow filter bar; unset fields match everything
+export interface TransactionFilter {
+  from?: string; // yyyy-MM-dd, inclusive
+  to?: string; // yyyy-MM-dd, inclusive
+  type?: Transaction['type'];
+  category?: string; // Also matches its subcategories and split lines
+  tagId?: string;
+  minAmount?: number;
+  maxAmount?: number;
+  text?: string; // Searched in description, category and tag names
+}
+
+export interface SavedFilter {
+  id: string;
+  name: string;
+  filter: TransactionFilter;
+  createdAt: string;
+}
+
+// Detected subscription the user has ended; shown again once it charges after `cancelledOn`
+export interface CancelledSubscription {
+  id: string;
+  merchant: string; // Normalized description the charges are grouped by
+  name: string;
+  cancelledOn: string; // yyyy-MM-dd
+  createdAt: string;
+}
+
+// Column mapping of a bank statement CSV (column indexes are 0-based)
+export interface CsvMapping {
+  delimiter: ',' | ';' | '\t' | '|';
+  hasHeader: boolean;
+  skipRows: number; // Preamble lines before the header
+  dateColumn: number;
+  dateFormat: string; // date-fns pattern, e.g. 'dd/MM/yyyy'
+  descriptionColumns: number[]; // Joined with ' · '
+  categoryColumn?: number;
+  amountColumn?: number;
+  debitColumn?: number; // signConvention 'debit_credit_columns'
+  creditColumn?: number;
+  typeColumn?: number; // signConvention 'type_column'
+  expenseMarkers?: string[]; // Values of typeColumn meaning expense (e.g. 'D', 'DBIT')
+  decimalSeparator: '.' | ',';
+  signConvention: 'negative_is_expense' | 'positive_is_expense' | 'debit_credit_columns' | 'type_column';
+  defaultIncomeCategory: string;
+  defaultExpenseCategory: string;
+}
+
+// Saved CSV mapping for one bank
+export interface ImportProfile {
+  id: string;
+  name: string;
+  mapping: CsvMapping;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// User-managed category; transactions reference it by name within the same type
+export interface Category {
+  id: string;
+  name: string;
+  type: 'income' | 'expense';
+  parentId?: string; // Top-level category it rolls up into (one level deep)
+  color: string; // Hex
+  icon: string; // Key of CATEGORY_ICONS
+  createdAt: string;
+}
+
+// Condition of a categorization rule; text operators ignore case
+export interface RuleCondition {
+  field: 'description' | 'amount';
+  operator: 'contains' | 'not_contains' | 'starts_with' | 'equals' | 'regex' | 'gt' | 'gte' | 'lt' | 'lte' | 'eq';
+  value: string;
+}
+
+// User-defined rule, e.g. "description contains ESSELUNGA -> Food"
+export interface CategoryRule {
+  id: string;
+  name: string;
+  priority: number; // Lower runs first; the first matching rule wins
+  transactionType: 'income' | 'expense' | 'any';
+  conditions: RuleCondition[]; // All must match
+  category: string;
+  enabled: boolean;
   createdAt: string;
 }
 
@@ -101,10 +299,22 @@ export interface FinancialData {
   income: IncomeEntry[]; // Legacy
   expenses: ExpenseEntry[]; // Legacy
   transactions: Transaction[]; // New
+  trades: Trade[];
+  dividends: Dividend[];
+  corporateActions: CorporateAction[];
+  importProfiles: ImportProfile[];
+  categoryRules: CategoryRule[];
+  categories: Category[];
+  recurring: RecurringTransaction[];
+  budgets: Budget[];
   investments: Investment[];
   crypto: CryptoHolding[];
   liabilities: Liability[];
   liquidity: LiquidityAccount[];
+  reconciliations: Reconciliation[];
+  tags: Tag[];
+  savedFilters: SavedFilter[];
+  cancelledSubscriptions: CancelledSubscription[];
   snapshots: NetWorthSnapshot[];
 }
 
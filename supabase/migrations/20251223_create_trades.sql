@@ -0,0 +1,55 @@
+-- Create trades table (buy/sell ledger per asset)
+create table public.trades (
+  id uuid default gen_random_uuid() primary key,
+  user_id uuid references public.profiles(id) on delete cascade not null,
+  asset_id uuid references public.assets(id) on delete cascade not null,
+  side text check (side in ('buy', 'sell')) not null,
+  quantity numeric not null check (quantity > 0),
+  price numeric not null,
+  fees numeric not null default 0,
+  date date not null,
+  notes text,
+  created_at timestamp with time zone default timezone('utc'::text, now()) not null
+);
+
+create index trades_asset_id_idx on public.trades (asset_id);
+
+-- Enable RLS
+alter table public.trades enable row level security;
+
+-- Policies
+create policy "Users can view their own trades"
+  on public.trades for select
+  using (auth.uid() = user_id);
+
+create policy "Users can insert their own trades"
+  on public.trades for insert
+  with check (auth.uid() = user_id);
+
+create policy "Users can update their own trades"
+  on public.trades for update
+  using (auth.uid() = user_id);
+
+create policy "Users can delete their own trades"
+  on public.trades for delete
+  using (auth.uid() = user_id);
+
+-- Backfill: one opening buy per existing investment.
+-- avg_buy_price already includes fees, so the raw unit price is recovered by removing them.
+insert into public.trades (user_id, asset_id, side, quantity, price, fees, date, created_at)
+select
+  a.user_id,
+  a.id,
+  'buy',
+  a.quantity,
+  a.avg_buy_price - coalesce(a.fees, 0) / a.quantity,
+  coalesce(a.fees, 0),
+  a.created_at::date,
+  a.created_at
+from public.assets a
+where a.category = 'investment'
+  and a.quantity > 0
+  and not exists (select 1 from public.trades t where t.asset_id = a.id);
+
+comment on column public.assets.quantity is 'Cached position, derived from trades';
+comment on column public.assets.avg_buy_price is 'Cached average cost per unit (fees included), derived from trades';
@@ -0,0 +1,23 @@
+-- Cost-basis method used to match sells against lots
+ALTER TABLE public.profiles
+ADD COLUMN IF NOT EXISTS cost_basis_method text NOT NULL DEFAULT 'fifo'
+  CHECK (cost_basis_method IN ('fifo', 'lifo', 'average'));
+
+COMMENT ON COLUMN public.profiles.cost_basis_method IS 'Lot matching for realized gains: fifo, lifo or average';
+
+-- Backfill: one opening buy per existing crypto holding (investments were backfilled with the trades table).
+-- avg_buy_price already includes fees, so the raw unit price is recovered by removing them.
+insert into public.trades (user_id, asset_id, side, quantity, price, fees, date, created_at)
+select
+  a.user_id,
+  a.id,
+  'buy',
+  a.quantity,
+  a.avg_buy_price - coalesce(a.fees, 0) / a.quantity,
+  coalesce(a.fees, 0),
+  a.created_at::date,
+  a.created_at
+from public.assets a
+where a.category = 'crypto'
+  and a.quantity > 0
+  and not exists (select 1 from public.trades t where t.asset_id = a.id);
@@ -0,0 +1,38 @@
+-- Create dividends table (distributions paid by a holding)
+create table public.dividends (
+  id uuid default gen_random_uuid() primary key,
+  user_id uuid references public.profiles(id) on delete cascade not null,
+  asset_id uuid references public.assets(id) on delete cascade not null,
+  gross_amount numeric not null,
+  withholding_tax numeric not null default 0,
+  net_amount numeric not null,
+  currency text not null default 'USD',
+  pay_date date not null,
+  transaction_id uuid references public.transactions(id) on delete set null,
+  notes text,
+  created_at timestamp with time zone default timezone('utc'::text, now()) not null
+);
+
+create index dividends_asset_id_idx on public.dividends (asset_id);
+
+comment on column public.dividends.transaction_id is 'Income transaction booked in Cash Flow for the net amount';
+
+-- Enable RLS
+alter table public.dividends enable row level security;
+
+-- Policies
+create policy "Users can view their own dividends"
+  on public.dividends for select
+  using (auth.uid() = user_id);
+
+create policy "Users can insert their own dividends"
+  on public.dividends for insert
+  with check (auth.uid() = user_id);
+
+create policy "Users can update their own dividends"
+  on public.dividends for update
+  using (auth.uid() = user_id);
+
+create policy "Users can delete their own dividends"
+  on public.dividends for delete
+  using (auth.uid() = user_id);
@@ -0,0 +1,45 @@
+-- Create corporate_actions table (splits, ticker/ISIN changes, mergers)
+-- Actions are applied to the lots when positions are replayed, so deleting a row reverts it.
+create table public.corporate_actions (
+  id uuid default gen_random_uuid() primary key,
+  user_id uuid references public.profiles(id) on delete cascade not null,
+  asset_id uuid references public.assets(id) on delete cascade not null,
+  type text not null check (type in ('split', 'symbol_change', 'merger')),
+  effective_date date not null,
+  ratio_from numeric,
+  ratio_to numeric,
+  old_symbol text,
+  new_symbol text,
+  old_isin text,
+  new_isin text,
+  target_asset_id uuid references public.assets(id) on delete cascade,
+  cash_per_share numeric,
+  notes text,
+  created_at timestamp with time zone default timezone('utc'::text, now()) not null
+);
+
+create index corporate_actions_asset_id_idx on public.corporate_actions (asset_id);
+
+comment on column public.corporate_actions.ratio_from is 'Old shares in the ratio (e.g. 1 for a 1:4 split, 10 for a 10:1 reverse split)';
+comment on column public.corporate_actions.ratio_to is 'New shares received for ratio_from old shares';
+comment on column public.corporate_actions.target_asset_id is 'Surviving holding of a stock merger; null for cash mergers';
+
+-- Enable RLS
+alter table public.corporate_actions enable row level security;
+
+-- Policies
+create policy "Users can view their own corporate actions"
+  on public.corporate_actions for select
+  using (auth.uid() = user_id);
+
+create policy "Users can insert their own corporate actions"
+  on public.corporate_actions for insert
+  with check (auth.uid() = user_id);
+
+create policy "Users can update their own corporate actions"
+  on public.corporate_actions for update
+  using (auth.uid() = user_id);
+
+create policy "Users can delete their own corporate actions"
+  on public.corporate_actions for delete
+  using (auth.uid() = user_id);
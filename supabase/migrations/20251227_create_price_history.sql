@@ -0,0 +1,35 @@
+-- Create price_history table (one quote per symbol / coinId and day)
+create table public.price_history (
+  id uuid default gen_random_uuid() primary key,
+  user_id uuid references public.profiles(id) on delete cascade not null,
+  symbol text not null,
+  kind text not null check (kind in ('stock', 'crypto')),
+  price numeric not null,
+  currency text,
+  date date not null,
+  created_at timestamp with time zone default timezone('utc'::text, now()) not null,
+  updated_at timestamp with time zone default timezone('utc'::text, now()) not null,
+  unique (user_id, kind, symbol, date)
+);
+
+comment on column public.price_history.symbol is 'Ticker for stocks / ETFs, CoinGecko id for crypto';
+
+-- Enable RLS
+alter table public.price_history enable row level security;
+
+-- Policies
+create policy "Users can view their own price history"
+  on public.price_history for select
+  using (auth.uid() = user_id);
+
+create policy "Users can insert their own price history"
+  on public.price_history for insert
+  with check (auth.uid() = user_id);
+
+create policy "Users can update their own price history"
+  on public.price_history for update
+  using (auth.uid() = user_id);
+
+create policy "Users can delete their own price history"
+  on public.price_history for delete
+  using (auth.uid() = user_id);
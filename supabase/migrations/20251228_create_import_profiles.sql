@@ -0,0 +1,32 @@
+-- Create import_profiles table (saved CSV column mappings per bank)
+create table public.import_profiles (
+  id uuid default gen_random_uuid() primary key,
+  user_id uuid references public.profiles(id) on delete cascade not null,
+  name text not null,
+  mapping jsonb not null,
+  created_at timestamp with time zone default timezone('utc'::text, now()) not null,
+  updated_at timestamp with time zone default timezone('utc'::text, now()) not null,
+  unique (user_id, name)
+);
+
+comment on column public.import_profiles.mapping is 'Delimiter, header, column indexes, date format and sign convention of the bank export';
+
+-- Enable RLS
+alter table public.import_profiles enable row level security;
+
+-- Policies
+create policy "Users can view their own import profiles"
+  on public.import_profiles for select
+  using (auth.uid() = user_id);
+
+create policy "Users can insert their own import profiles"
+  on public.import_profiles for insert
+  with check (auth.uid() = user_id);
+
+create policy "Users can update their own import profiles"
+  on public.import_profiles for update
+  using (auth.uid() = user_id);
+
+create policy "Users can delete their own import profiles"
+  on public.import_profiles for delete
+  using (auth.uid() = user_id);
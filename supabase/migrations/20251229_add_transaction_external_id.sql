@@ -0,0 +1,9 @@
+-- Bank's unique transaction id (OFX FITID / CAMT.053 reference) so re-imported statements don't create duplicates
+ALTER TABLE public.transactions
+ADD COLUMN IF NOT EXISTS external_id text;
+
+CREATE UNIQUE INDEX IF NOT EXISTS transactions_user_external_id_key
+  ON public.transactions (user_id, external_id)
+  WHERE external_id IS NOT NULL;
+
+COMMENT ON COLUMN public.transactions.external_id IS 'Unique id assigned by the bank, used to skip transactions that were already imported';
@@ -0,0 +1,35 @@
+-- Create category_rules table (automatic categorization of transactions)
+create table public.category_rules (
+  id uuid default gen_random_uuid() primary key,
+  user_id uuid references public.profiles(id) on delete cascade not null,
+  name text not null,
+  priority integer default 0 not null,
+  transaction_type text default 'any' not null check (transaction_type in ('income', 'expense', 'any')),
+  conditions jsonb default '[]'::jsonb not null,
+  category text not null,
+  enabled boolean default true not null,
+  created_at timestamp with time zone default timezone('utc'::text, now()) not null
+);
+
+comment on column public.category_rules.priority is 'Lower runs first; the first matching rule sets the category';
+comment on column public.category_rules.conditions is 'List of { field, operator, value }; all must match';
+
+-- Enable RLS
+alter table public.category_rules enable row level security;
+
+-- Policies
+create policy "Users can view their own category rules"
+  on public.category_rules for select
+  using (auth.uid() = user_id);
+
+create policy "Users can insert their own category rules"
+  on public.category_rules for insert
+  with check (auth.uid() = user_id);
+
+create policy "Users can update their own category rules"
+  on public.category_rules for update
+  using (auth.uid() = user_id);
+
+create policy "Users can delete their own category rules"
+  on public.category_rules for delete
+  using (auth.uid() = user_id);
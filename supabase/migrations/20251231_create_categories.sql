@@ -0,0 +1,37 @@
+-- Create categories table (user-managed income / expense categories, two levels)
+create table public.categories (
+  id uuid default gen_random_uuid() primary key,
+  user_id uuid references public.profiles(id) on delete cascade not null,
+  name text not null,
+  type text not null check (type in ('income', 'expense')),
+  parent_id uuid references public.categories(id) on delete set null,
+  color text not null default '#64748b',
+  icon text not null default 'tag',
+  created_at timestamp with time zone default timezone('utc'::text, now()) not null,
+  unique (user_id, type, name)
+);
+
+create index categories_parent_id_idx on public.categories (parent_id);
+
+comment on column public.categories.name is 'Transactions reference categories by name (transactions.category) within the same type';
+comment on column public.categories.parent_id is 'Top-level category this one rolls up into; subcategories cannot have children';
+
+-- Enable RLS
+alter table public.categories enable row level security;
+
+-- Policies
+create policy "Users can view their own categories"
+  on public.categories for select
+  using (auth.uid() = user_id);
+
+create policy "Users can insert their own categories"
+  on public.categories for insert
+  with check (auth.uid() = user_id);
+
+create policy "Users can update their own categories"
+  on public.categories for update
+  using (auth.uid() = user_id);
+
+create policy "Users can delete their own categories"
+  on public.categories for delete
+  using (auth.uid() = user_id);
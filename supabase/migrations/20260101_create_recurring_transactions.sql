@@ -0,0 +1,46 @@
+-- Create recurring_transactions table (templates for rent, salary, subscriptions...)
+create table public.recurring_transactions (
+  id uuid default gen_random_uuid() primary key,
+  user_id uuid references public.profiles(id) on delete cascade not null,
+  name text not null,
+  type text not null check (type in ('income', 'expense')),
+  category text not null,
+  amount numeric not null,
+  frequency text not null check (frequency in ('weekly', 'monthly', 'yearly', 'custom')),
+  interval integer not null default 1 check (interval > 0),
+  start_date date not null,
+  end_date date,
+  next_date date,
+  auto_post boolean not null default false,
+  created_at timestamp with time zone default timezone('utc'::text, now()) not null
+);
+
+comment on column public.recurring_transactions.interval is 'Every N weeks / months / years, or N days for custom';
+comment on column public.recurring_transactions.next_date is 'First occurrence not yet posted or skipped; null once the schedule has ended';
+comment on column public.recurring_transactions.auto_post is 'Post due occurrences automatically instead of queueing them as pending';
+
+-- Enable RLS
+alter table public.recurring_transactions enable row level security;
+
+-- Policies
+create policy "Users can view their own recurring transactions"
+  on public.recurring_transactions for select
+  using (auth.uid() = user_id);
+
+create policy "Users can insert their own recurring transactions"
+  on public.recurring_transactions for insert
+  with check (auth.uid() = user_id);
+
+create policy "Users can update their own recurring transactions"
+  on public.recurring_transactions for update
+  using (auth.uid() = user_id);
+
+create policy "Users can delete their own recurring transactions"
+  on public.recurring_transactions for delete
+  using (auth.uid() = user_id);
+
+-- Link posted entries to their template
+alter table public.transactions
+  add column if not exists recurring_id uuid references public.recurring_transactions(id) on delete set null;
+
+create index if not exists transactions_recurring_id_idx on public.transactions (recurring_id);
@@ -0,0 +1,35 @@
+-- Create budgets table (monthly spending limit per expense category)
+create table public.budgets (
+  id uuid default gen_random_uuid() primary key,
+  user_id uuid references public.profiles(id) on delete cascade not null,
+  category text not null,
+  amount numeric not null check (amount >= 0),
+  rollover boolean not null default false,
+  start_month date not null default date_trunc('month', now())::date,
+  created_at timestamp with time zone default timezone('utc'::text, now()) not null,
+  unique (user_id, category)
+);
+
+comment on column public.budgets.category is 'Expense category name; a budget on a parent category also covers its subcategories without a budget of their own';
+comment on column public.budgets.rollover is 'Carry the unspent (or overspent) amount of each month into the next one';
+comment on column public.budgets.start_month is 'First month counted when rolling amounts over';
+
+-- Enable RLS
+alter table public.budgets enable row level security;
+
+-- Policies
+create policy "Users can view their own budgets"
+  on public.budgets for select
+  using (auth.uid() = user_id);
+
+create policy "Users can insert their own budgets"
+  on public.budgets for insert
+  with check (auth.uid() = user_id);
+
+create policy "Users can update their own budgets"
+  on public.budgets for update
+  using (auth.uid() = user_id);
+
+create policy "Users can delete their own budgets"
+  on public.budgets for delete
+  using (auth.uid() = user_id);
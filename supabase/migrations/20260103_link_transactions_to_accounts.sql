@@ -0,0 +1,84 @@
+-- Every transaction belongs to a cash account; account balances are derived from an
+-- opening balance plus the account's transactions and checked against bank statements
+ALTER TABLE public.liquidity_accounts
+ADD COLUMN IF NOT EXISTS opening_balance numeric NOT NULL DEFAULT 0,
+ADD COLUMN IF NOT EXISTS opening_date date;
+
+COMMENT ON COLUMN public.liquidity_accounts.opening_balance IS 'Balance before the first counted transaction';
+COMMENT ON COLUMN public.liquidity_accounts.opening_date IS 'Transactions dated before this day are already part of the opening balance (null: all count)';
+COMMENT ON COLUMN public.liquidity_accounts.balance IS 'Legacy manual balance; the app derives the balance from opening_balance and transactions';
+
+-- Existing manual balances become opening balances. They already include today's entries,
+-- so only transactions from tomorrow on are added to them
+UPDATE public.liquidity_accounts
+SET opening_balance = balance, opening_date = current_date + 1
+WHERE opening_date IS NULL;
+
+ALTER TABLE public.transactions
+ADD COLUMN IF NOT EXISTS account_id uuid REFERENCES public.liquidity_accounts(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS transactions_account_id_idx ON public.transactions (account_id);
+
+-- Users with transactions but no account get one that holds their whole history,
+-- in their base currency (the history's currency is backfilled from it later)
+INSERT INTO public.liquidity_accounts (user_id, name, type, balance, currency, opening_balance)
+SELECT DISTINCT t.user_id, 'Main Account', 'checking', 0, COALESCE(p.base_currency, 'EUR'), 0
+FROM public.transactions t
+LEFT JOIN public.profiles p ON p.id = t.user_id
+WHERE NOT EXISTS (SELECT 1 FROM public.liquidity_accounts a WHERE a.user_id = t.user_id);
+
+-- Entries saved without an account go to the user's oldest account
+CREATE OR REPLACE FUNCTION public.default_transaction_account()
+RETURNS trigger AS $$
+BEGIN
+  IF new.account_id IS NULL THEN
+    SELECT id INTO new.account_id
+    FROM public.liquidity_accounts
+    WHERE user_id = new.user_id
+    ORDER BY created_at
+    LIMIT 1;
+  END IF;
+  RETURN new;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS transactions_default_account ON public.transactions;
+CREATE TRIGGER transactions_default_account
+  BEFORE INSERT ON public.transactions
+  FOR EACH ROW EXECUTE PROCEDURE public.default_transaction_account();
+
+UPDATE public.transactions t
+SET account_id = (
+  SELECT a.id FROM public.liquidity_accounts a
+  WHERE a.user_id = t.user_id
+  ORDER BY a.created_at
+  LIMIT 1
+)
+WHERE t.account_id IS NULL;
+
+-- Statement balances entered by the user, with the balance the app computed for that day
+CREATE TABLE IF NOT EXISTS public.account_reconciliations (
+  id uuid DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id uuid REFERENCES public.profiles(id) ON DELETE CASCADE NOT NULL,
+  account_id uuid REFERENCES public.liquidity_accounts(id) ON DELETE CASCADE NOT NULL,
+  date date NOT NULL,
+  statement_balance numeric NOT NULL,
+  computed_balance numeric NOT NULL,
+  created_at timestamp with time zone DEFAULT timezone('utc'::text, now()) NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS account_reconciliations_account_id_idx ON public.account_reconciliations (account_id);
+
+ALTER TABLE public.account_reconciliations ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own reconciliations"
+  ON public.account_reconciliations FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own reconciliations"
+  ON public.account_reconciliations FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own reconciliations"
+  ON public.account_reconciliations FOR DELETE
+  USING (auth.uid() = user_id);
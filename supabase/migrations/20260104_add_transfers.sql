@@ -0,0 +1,18 @@
+-- Transfers move money between the user's own accounts (or to the broker) and are
+-- neither income nor expense
+ALTER TABLE public.transactions DROP CONSTRAINT IF EXISTS transactions_type_check;
+ALTER TABLE public.transactions
+ADD CONSTRAINT transactions_type_check CHECK (type IN ('income', 'expense', 'transfer'));
+
+ALTER TABLE public.transactions
+ADD COLUMN IF NOT EXISTS to_account_id uuid REFERENCES public.liquidity_accounts(id) ON DELETE SET NULL,
+ADD COLUMN IF NOT EXISTS fx_rate numeric CHECK (fx_rate > 0),
+ADD COLUMN IF NOT EXISTS trade_id uuid REFERENCES public.trades(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS transactions_to_account_id_idx ON public.transactions (to_account_id);
+CREATE INDEX IF NOT EXISTS transactions_trade_id_idx ON public.transactions (trade_id);
+
+COMMENT ON COLUMN public.transactions.account_id IS 'Cash account the money is booked on; the source account of a transfer';
+COMMENT ON COLUMN public.transactions.to_account_id IS 'Destination account of a transfer';
+COMMENT ON COLUMN public.transactions.fx_rate IS 'Destination units per source unit for transfers across currencies (amount is in the source currency)';
+COMMENT ON COLUMN public.transactions.trade_id IS 'Trade a transfer to the broker paid for';
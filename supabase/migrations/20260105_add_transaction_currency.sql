@@ -0,0 +1,39 @@
+-- Each transaction keeps the currency it was booked in, so it can be converted to the
+-- base currency at the rate of its own date
+ALTER TABLE public.transactions
+ADD COLUMN IF NOT EXISTS currency text;
+
+COMMENT ON COLUMN public.transactions.currency IS 'Currency of amount; the account currency (source account for transfers)';
+
+-- Existing entries were booked in their account's currency, or the base currency without one
+UPDATE public.transactions t
+SET currency = COALESCE(
+  (SELECT a.currency FROM public.liquidity_accounts a WHERE a.id = t.account_id),
+  (SELECT p.base_currency FROM public.profiles p WHERE p.id = t.user_id),
+  'EUR'
+)
+WHERE t.currency IS NULL;
+
+ALTER TABLE public.transactions ALTER COLUMN currency SET NOT NULL;
+
+-- Entries saved without a currency take their account's, falling back to the base currency
+CREATE OR REPLACE FUNCTION public.default_transaction_account()
+RETURNS trigger AS $$
+BEGIN
+  IF new.account_id IS NULL THEN
+    SELECT id INTO new.account_id
+    FROM public.liquidity_accounts
+    WHERE user_id = new.user_id
+    ORDER BY created_at
+    LIMIT 1;
+  END IF;
+  IF new.currency IS NULL THEN
+    new.currency := COALESCE(
+      (SELECT currency FROM public.liquidity_accounts WHERE id = new.account_id),
+      (SELECT base_currency FROM public.profiles WHERE id = new.user_id),
+      'EUR'
+    );
+  END IF;
+  RETURN new;
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,36 @@
+-- Create transaction_splits table (category lines of a transaction that covers several categories)
+create table public.transaction_splits (
+  id uuid default gen_random_uuid() primary key,
+  user_id uuid references public.profiles(id) on delete cascade not null,
+  transaction_id uuid references public.transactions(id) on delete cascade not null,
+  category text not null,
+  amount numeric not null check (amount > 0),
+  note text,
+  position integer not null default 0,
+  created_at timestamp with time zone default timezone('utc'::text, now()) not null
+);
+
+create index transaction_splits_transaction_id_idx on public.transaction_splits (transaction_id);
+
+comment on table public.transaction_splits is 'Lines of a split transaction; their amounts add up to the transaction amount, whose category is that of the largest line';
+comment on column public.transaction_splits.position is 'Order of the lines as entered';
+
+-- Enable RLS
+alter table public.transaction_splits enable row level security;
+
+-- Policies
+create policy "Users can view their own transaction splits"
+  on public.transaction_splits for select
+  using (auth.uid() = user_id);
+
+create policy "Users can insert their own transaction splits"
+  on public.transaction_splits for insert
+  with check (auth.uid() = user_id);
+
+create policy "Users can update their own transaction splits"
+  on public.transaction_splits for update
+  using (auth.uid() = user_id);
+
+create policy "Users can delete their own transaction splits"
+  on public.transaction_splits for delete
+  using (auth.uid() = user_id);
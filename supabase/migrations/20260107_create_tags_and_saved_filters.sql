@@ -0,0 +1,81 @@
+-- Create tags table (free-form labels across categories, e.g. a trip or reimbursable spending)
+create table public.tags (
+  id uuid default gen_random_uuid() primary key,
+  user_id uuid references public.profiles(id) on delete cascade not null,
+  name text not null,
+  color text not null default '#64748b',
+  created_at timestamp with time zone default timezone('utc'::text, now()) not null,
+  unique (user_id, name)
+);
+
+-- Tags on transactions (many-to-many)
+create table public.transaction_tags (
+  transaction_id uuid references public.transactions(id) on delete cascade not null,
+  tag_id uuid references public.tags(id) on delete cascade not null,
+  user_id uuid references public.profiles(id) on delete cascade not null,
+  primary key (transaction_id, tag_id)
+);
+
+create index transaction_tags_tag_id_idx on public.transaction_tags (tag_id);
+
+-- Create saved_filters table (named transaction filters, reusable as a chart data source)
+create table public.saved_filters (
+  id uuid default gen_random_uuid() primary key,
+  user_id uuid references public.profiles(id) on delete cascade not null,
+  name text not null,
+  criteria jsonb default '{}'::jsonb not null,
+  created_at timestamp with time zone default timezone('utc'::text, now()) not null,
+  unique (user_id, name)
+);
+
+comment on column public.saved_filters.criteria is '{ from, to, type, category, tagId, minAmount, maxAmount, text }; every set field must match';
+
+-- Enable RLS
+alter table public.tags enable row level security;
+alter table public.transaction_tags enable row level security;
+alter table public.saved_filters enable row level security;
+
+-- Policies
+create policy "Users can view their own tags"
+  on public.tags for select
+  using (auth.uid() = user_id);
+
+create policy "Users can insert their own tags"
+  on public.tags for insert
+  with check (auth.uid() = user_id);
+
+create policy "Users can update their own tags"
+  on public.tags for update
+  using (auth.uid() = user_id);
+
+create policy "Users can delete their own tags"
+  on public.tags for delete
+  using (auth.uid() = user_id);
+
+create policy "Users can view their own transaction tags"
+  on public.transaction_tags for select
+  using (auth.uid() = user_id);
+
+create policy "Users can insert their own transaction tags"
+  on public.transaction_tags for insert
+  with check (auth.uid() = user_id);
+
+create policy "Users can delete their own transaction tags"
+  on public.transaction_tags for delete
+  using (auth.uid() = user_id);
+
+create policy "Users can view their own saved filters"
+  on public.saved_filters for select
+  using (auth.uid() = user_id);
+
+create policy "Users can insert their own saved filters"
+  on public.saved_filters for insert
+  with check (auth.uid() = user_id);
+
+create policy "Users can update their own saved filters"
+  on public.saved_filters for update
+  using (auth.uid() = user_id);
+
+create policy "Users can delete their own saved filters"
+  on public.saved_filters for delete
+  using (auth.uid() = user_id);
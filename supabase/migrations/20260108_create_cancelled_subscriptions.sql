@@ -0,0 +1,32 @@
+-- Create cancelled_subscriptions table (detected subscriptions the user has ended)
+create table public.cancelled_subscriptions (
+  id uuid default gen_random_uuid() primary key,
+  user_id uuid references public.profiles(id) on delete cascade not null,
+  merchant text not null,
+  name text not null,
+  cancelled_on date not null,
+  created_at timestamp with time zone default timezone('utc'::text, now()) not null,
+  unique (user_id, merchant)
+);
+
+comment on column public.cancelled_subscriptions.merchant is 'Normalized description the charges are grouped by; a charge after cancelled_on shows the subscription again';
+
+-- Enable RLS
+alter table public.cancelled_subscriptions enable row level security;
+
+-- Policies
+create policy "Users can view their own cancelled subscriptions"
+  on public.cancelled_subscriptions for select
+  using (auth.uid() = user_id);
+
+create policy "Users can insert their own cancelled subscriptions"
+  on public.cancelled_subscriptions for insert
+  with check (auth.uid() = user_id);
+
+create policy "Users can update their own cancelled subscriptions"
+  on public.cancelled_subscriptions for update
+  using (auth.uid() = user_id);
+
+create policy "Users can delete their own cancelled subscriptions"
+  on public.cancelled_subscriptions for delete
+  using (auth.uid() = user_id);
@@ -0,0 +1,5 @@
+-- Entries posted from a template are booked in the template's currency
+ALTER TABLE public.recurring_transactions
+ADD COLUMN IF NOT EXISTS currency text;
+
+COMMENT ON COLUMN public.recurring_transactions.currency IS 'Currency of amount; posted entries without one take their account''s currency';
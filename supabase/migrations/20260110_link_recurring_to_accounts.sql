@@ -0,0 +1,7 @@
+-- Templates name the cash account their entries are posted to, and the liability a payment pays off
+ALTER TABLE public.recurring_transactions
+ADD COLUMN IF NOT EXISTS account_id uuid REFERENCES public.liquidity_accounts(id) ON DELETE SET NULL,
+ADD COLUMN IF NOT EXISTS liability_id uuid REFERENCES public.liabilities(id) ON DELETE SET NULL;
+
+COMMENT ON COLUMN public.recurring_transactions.account_id IS 'Account posted entries are booked on; the default account when null';
+COMMENT ON COLUMN public.recurring_transactions.liability_id IS 'Liability the payments go to, so forecasts don''t count its schedule twice';